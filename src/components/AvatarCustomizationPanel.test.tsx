@@ -254,6 +254,54 @@ describe('AvatarCustomizationPanel', () => {
     });
   });
 
+  describe('Accessory Rules', () => {
+    it('should list the registry accessories for each slot', () => {
+      render(<AvatarCustomizationPanel avatarId="player" />);
+      
+      const shieldSelect = screen.getByTestId('shield-select') as HTMLSelectElement;
+      const values = Array.from(shieldSelect.options).map((option) => option.value);
+      
+      expect(values).toEqual(['', 'round', 'kite', 'tower']);
+    });
+
+    it('should lock accessories until they are unlocked', () => {
+      useGameStore.setState({ unlockedAccessories: [] });
+      const { unmount } = render(<AvatarCustomizationPanel avatarId="player" />);
+      
+      const crown = () =>
+        Array.from((screen.getByTestId('hat-select') as HTMLSelectElement).options).find(
+          (option) => option.value === 'crown'
+        )!;
+      
+      expect(crown().disabled).toBe(true);
+      expect(crown().textContent).toContain('🔒');
+      expect(crown().title).toBe('Beat the hard AI to unlock');
+      unmount();
+      
+      useGameStore.setState({ unlockedAccessories: ['crown'] });
+      render(<AvatarCustomizationPanel avatarId="player" />);
+      
+      expect(crown().disabled).toBe(false);
+      expect(crown().textContent).toBe('Crown');
+    });
+
+    it('should take off the shield when a two-handed weapon is picked', () => {
+      const updateSpy = vi.spyOn(useGameStore.getState(), 'updateAvatarCustomization');
+      
+      render(<AvatarCustomizationPanel avatarId="ai" />);
+      
+      const weaponSelect = screen.getByTestId('weapon-select') as HTMLSelectElement;
+      const staff = Array.from(weaponSelect.options).find((option) => option.value === 'staff')!;
+      expect(staff.title).toBe('Replaces Round Shield');
+      
+      fireEvent.change(weaponSelect, { target: { value: 'staff' } });
+      
+      expect(updateSpy).toHaveBeenCalledWith('ai', expect.objectContaining({
+        accessories: { weapon: 'staff', shield: undefined },
+      }));
+    });
+  });
+
   describe('Save Button', () => {
     it('should render save button', () => {
       render(<AvatarCustomizationPanel avatarId="player" />);
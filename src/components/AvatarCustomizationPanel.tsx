@@ -2,6 +2,14 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { useGameStore } from '@/stores/gameStore';
 import type { CustomizationData } from '@/types';
+import type { AccessorySlot } from '@/data/accessorySchema';
+import { ACCESSORY_SLOTS } from '@/data/accessorySchema';
+
+const ACCESSORY_LABELS: Record<AccessorySlot, string> = {
+  hat: 'Hat',
+  weapon: 'Weapon',
+  shield: 'Shield',
+};
 
 export interface AvatarCustomizationPanelProps {
   avatarId: 'player' | 'ai';
@@ -21,6 +29,8 @@ export const AvatarCustomizationPanel: React.FC<AvatarCustomizationPanelProps> =
   const avatar = useGameStore((state) => state.avatars[avatarId]);
   const updateAvatarCustomization = useGameStore((state) => state.updateAvatarCustomization);
   const saveCustomization = useGameStore((state) => state.saveCustomization);
+  const accessories = useGameStore((state) => state.accessories);
+  const unlockedAccessories = useGameStore((state) => state.unlockedAccessories);
 
   const handleBodyPartChange = (part: keyof CustomizationData['bodyParts'], value: string) => {
     const newCustomization: CustomizationData = {
@@ -44,17 +54,35 @@ export const AvatarCustomizationPanel: React.FC<AvatarCustomizationPanelProps> =
     updateAvatarCustomization(avatarId, newCustomization);
   };
 
-  const handleAccessoryChange = (accessory: keyof CustomizationData['accessories'], value: string) => {
+  // Taking an accessory off whatever it cannot be worn with, e.g. the
+  // shield when picking a two-handed weapon
+  const handleAccessoryChange = (accessory: AccessorySlot, value: string) => {
+    const selection = {
+      ...avatar.customization.accessories,
+      [accessory]: value || undefined,
+    };
+    const conflicts = value ? accessories.getConflicts(value, selection) : [];
+
     const newCustomization: CustomizationData = {
       ...avatar.customization,
-      accessories: {
-        ...avatar.customization.accessories,
-        [accessory]: value || undefined,
-      },
+      accessories: Object.fromEntries(
+        Object.entries(selection).map(([slot, id]) => [slot, id && conflicts.includes(id) ? undefined : id])
+      ),
     };
     updateAvatarCustomization(avatarId, newCustomization);
   };
 
+  const describeAccessory = (id: string, slot: AccessorySlot): string => {
+    const unlockDifficulty = accessories.get(id)?.unlockDifficulty;
+    if (!accessories.isUnlocked(id, unlockedAccessories) && unlockDifficulty) {
+      return `Beat the ${unlockDifficulty} AI to unlock`;
+    }
+
+    const conflicts = accessories.getConflicts(id, { ...avatar.customization.accessories, [slot]: id });
+    const names = conflicts.map((conflict) => accessories.get(conflict)?.name ?? conflict);
+    return names.length > 0 ? `Replaces ${names.join(', ')}` : '';
+  };
+
   const handleSave = () => {
     saveCustomization(avatarId);
   };
@@ -247,77 +275,41 @@ export const AvatarCustomizationPanel: React.FC<AvatarCustomizationPanelProps> =
           Accessories
         </h4>
 
-        <div style={{ marginBottom: '12px' }}>
-          <label style={{ display: 'block', fontSize: '12px', marginBottom: '4px' }}>
-            Hat
-          </label>
-          <select
-            value={avatar.customization.accessories.hat || ''}
-            onChange={(e) => handleAccessoryChange('hat', e.target.value)}
-            style={{
-              width: '100%',
-              padding: '8px',
-              borderRadius: '4px',
-              border: '1px solid #444',
-              backgroundColor: '#222',
-              color: '#fff',
-            }}
-            data-testid="hat-select"
-          >
-            <option value="">None</option>
-            <option value="cap">Cap</option>
-            <option value="helmet">Helmet</option>
-            <option value="crown">Crown</option>
-          </select>
-        </div>
-
-        <div style={{ marginBottom: '12px' }}>
-          <label style={{ display: 'block', fontSize: '12px', marginBottom: '4px' }}>
-            Weapon
-          </label>
-          <select
-            value={avatar.customization.accessories.weapon || ''}
-            onChange={(e) => handleAccessoryChange('weapon', e.target.value)}
-            style={{
-              width: '100%',
-              padding: '8px',
-              borderRadius: '4px',
-              border: '1px solid #444',
-              backgroundColor: '#222',
-              color: '#fff',
-            }}
-            data-testid="weapon-select"
-          >
-            <option value="">None</option>
-            <option value="sword">Sword</option>
-            <option value="axe">Axe</option>
-            <option value="staff">Staff</option>
-          </select>
-        </div>
-
-        <div style={{ marginBottom: '12px' }}>
-          <label style={{ display: 'block', fontSize: '12px', marginBottom: '4px' }}>
-            Shield
-          </label>
-          <select
-            value={avatar.customization.accessories.shield || ''}
-            onChange={(e) => handleAccessoryChange('shield', e.target.value)}
-            style={{
-              width: '100%',
-              padding: '8px',
-              borderRadius: '4px',
-              border: '1px solid #444',
-              backgroundColor: '#222',
-              color: '#fff',
-            }}
-            data-testid="shield-select"
-          >
-            <option value="">None</option>
-            <option value="round">Round Shield</option>
-            <option value="kite">Kite Shield</option>
-            <option value="tower">Tower Shield</option>
-          </select>
-        </div>
+        {ACCESSORY_SLOTS.map((slot) => (
+          <div key={slot} style={{ marginBottom: '12px' }}>
+            <label style={{ display: 'block', fontSize: '12px', marginBottom: '4px' }}>
+              {ACCESSORY_LABELS[slot]}
+            </label>
+            <select
+              value={avatar.customization.accessories[slot] || ''}
+              onChange={(e) => handleAccessoryChange(slot, e.target.value)}
+              style={{
+                width: '100%',
+                padding: '8px',
+                borderRadius: '4px',
+                border: '1px solid #444',
+                backgroundColor: '#222',
+                color: '#fff',
+              }}
+              data-testid={`${slot}-select`}
+            >
+              <option value="">None</option>
+              {accessories.getBySlot(slot).map((accessory) => {
+                const unlocked = accessories.isUnlocked(accessory.id, unlockedAccessories);
+                return (
+                  <option
+                    key={accessory.id}
+                    value={accessory.id}
+                    disabled={!unlocked && avatar.customization.accessories[slot] !== accessory.id}
+                    title={describeAccessory(accessory.id, slot)}
+                  >
+                    {unlocked ? accessory.name : `🔒 ${accessory.name}`}
+                  </option>
+                );
+              })}
+            </select>
+          </div>
+        ))}
       </div>
 
       {/* Save Button */}
@@ -248,4 +248,43 @@ describe('BattlefieldComponent', () => {
 
     expect(screen.queryByText(/-\d+/)).not.toBeInTheDocument();
   });
+
+  it('should show status effects on each side', () => {
+    render(
+      <BattlefieldComponent
+        playerCard={null}
+        opponentCard={null}
+        playerHP={100}
+        playerMaxHP={100}
+        opponentHP={100}
+        opponentMaxHP={100}
+        playerStatusEffects={[{ type: 'shield', amount: 5, turnsRemaining: null, stacks: 1 }]}
+        opponentStatusEffects={[
+          { type: 'poison', amount: 6, turnsRemaining: 2, stacks: 2 },
+          { type: 'stun', amount: 0, turnsRemaining: 1, stacks: 1 },
+        ]}
+      />
+    );
+
+    expect(screen.getByTestId('player-status-shield')).toHaveAttribute('aria-label', 'Shield: absorbs 5 damage');
+    expect(screen.getByTestId('opponent-status-poison')).toHaveTextContent('6·2×2');
+    expect(screen.getByTestId('opponent-status-stun')).toBeInTheDocument();
+    expect(screen.queryByTestId('player-status-poison')).not.toBeInTheDocument();
+  });
+
+  it('should not render a status list without effects', () => {
+    render(
+      <BattlefieldComponent
+        playerCard={null}
+        opponentCard={null}
+        playerHP={100}
+        playerMaxHP={100}
+        opponentHP={100}
+        opponentMaxHP={100}
+      />
+    );
+
+    expect(screen.queryByTestId('player-status-effects')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('opponent-status-effects')).not.toBeInTheDocument();
+  });
 });
@@ -1,6 +1,9 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card } from '../types';
+import type { DamageNumber } from '../types';
+import type { StatusEffect } from '../systems/StatusEffects';
+import { STATUS_EFFECTS, describeStatusEffect } from '../systems/StatusEffects';
 
 export interface BattlefieldComponentProps {
   playerCard: Card | null;
@@ -9,10 +12,67 @@ export interface BattlefieldComponentProps {
   playerMaxHP: number;
   opponentHP: number;
   opponentMaxHP: number;
-  damageNumbers?: Array<{ id: string; value: number; x: number; y: number }>;
+  damageNumbers?: DamageNumber[];
+  playerStatusEffects?: StatusEffect[];
+  opponentStatusEffects?: StatusEffect[];
   className?: string;
 }
 
+/**
+ * Row of status badges for one side
+ */
+const StatusEffectList: React.FC<{ side: 'player' | 'opponent'; statuses: StatusEffect[] }> = ({
+  side,
+  statuses,
+}) => {
+  if (statuses.length === 0) return null;
+
+  return (
+    <ul
+      style={{
+        display: 'flex',
+        gap: '6px',
+        margin: '6px 0 0',
+        padding: 0,
+        listStyle: 'none',
+      }}
+      aria-label={`${side === 'player' ? 'Player' : 'Opponent'} status effects`}
+      data-testid={`${side}-status-effects`}
+    >
+      {statuses.map((status) => {
+        const definition = STATUS_EFFECTS[status.type];
+        const description = describeStatusEffect(status);
+        return (
+          <li
+            key={status.type}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '2px',
+              padding: '2px 6px',
+              borderRadius: '10px',
+              border: `1px solid ${definition.color}`,
+              backgroundColor: 'rgba(0, 0, 0, 0.4)',
+              fontSize: '11px',
+              color: definition.color,
+            }}
+            title={description}
+            aria-label={description}
+            data-testid={`${side}-status-${status.type}`}
+          >
+            <span aria-hidden="true">{definition.icon}</span>
+            {status.type !== 'stun' && <span>{status.amount}</span>}
+            {status.turnsRemaining !== null && (
+              <span style={{ color: '#aaa' }}>·{status.turnsRemaining}</span>
+            )}
+            {status.stacks > 1 && <span>×{status.stacks}</span>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
 /**
  * BattlefieldComponent - Displays the play area with player/opponent sides
  * Shows health bars, active cards, and animated damage numbers
@@ -25,6 +85,8 @@ export const BattlefieldComponent: React.FC<BattlefieldComponentProps> = ({
   opponentHP,
   opponentMaxHP,
   damageNumbers = [],
+  playerStatusEffects = [],
+  opponentStatusEffects = [],
   className = '',
 }) => {
   const playerHPPercent = (playerHP / playerMaxHP) * 100;
@@ -93,6 +155,7 @@ export const BattlefieldComponent: React.FC<BattlefieldComponentProps> = ({
               transition={{ duration: 0.3 }}
             />
           </div>
+          <StatusEffectList side="opponent" statuses={opponentStatusEffects} />
         </div>
 
         {/* Opponent Card */}
@@ -222,6 +285,7 @@ export const BattlefieldComponent: React.FC<BattlefieldComponentProps> = ({
               transition={{ duration: 0.3 }}
             />
           </div>
+          <StatusEffectList side="player" statuses={playerStatusEffects} />
         </div>
       </div>
 
@@ -234,4 +234,66 @@ describe('CardHandComponent', () => {
 
     expect(screen.getByText('5 / 5')).toBeInTheDocument();
   });
+
+  it('should show cards left in the deck', () => {
+    render(
+      <CardHandComponent
+        cards={mockCards}
+        selectedIndex={null}
+        onCardSelect={vi.fn()}
+        onCardPlay={vi.fn()}
+        deckCount={12}
+      />
+    );
+
+    expect(screen.getByTestId('deck-count')).toHaveTextContent('Deck: 12');
+  });
+
+  it('should warn about fatigue when the deck is empty', () => {
+    render(
+      <CardHandComponent
+        cards={mockCards}
+        selectedIndex={null}
+        onCardSelect={vi.fn()}
+        onCardPlay={vi.fn()}
+        deckCount={0}
+        nextFatigueDamage={4}
+      />
+    );
+
+    expect(screen.getByTestId('deck-count')).toHaveTextContent(
+      'Deck empty - next draw deals 4 fatigue damage'
+    );
+  });
+
+  it('should flag a full hand', () => {
+    render(
+      <CardHandComponent
+        cards={mockCards}
+        selectedIndex={null}
+        onCardSelect={vi.fn()}
+        onCardPlay={vi.fn()}
+        maxCards={3}
+      />
+    );
+
+    expect(screen.getByTestId('hand-size')).toHaveAttribute(
+      'aria-label',
+      '3 of 3 cards in hand, hand full'
+    );
+  });
+
+  it('should show the last card discarded from a full hand', () => {
+    render(
+      <CardHandComponent
+        cards={mockCards}
+        selectedIndex={null}
+        onCardSelect={vi.fn()}
+        onCardPlay={vi.fn()}
+        discarded={[mockCards[0], mockCards[2]]}
+      />
+    );
+
+    expect(screen.getByTestId('discarded-card')).toHaveTextContent('Discarded (hand full): Card 3');
+  });
 });
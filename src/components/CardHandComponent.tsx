@@ -8,13 +8,17 @@ export interface CardHandComponentProps {
   selectedIndex: number | null;
   onCardSelect: (index: number) => void;
   onCardPlay: (index: number) => void;
-  maxCards?: number;
+  maxCards?: number; // Hand limit from the match hand rules
+  deckCount?: number; // Cards left to draw; shown when provided
+  nextFatigueDamage?: number; // Damage of the next draw from an empty deck
+  discarded?: Card[]; // Cards lost to a full hand
   className?: string;
 }
 
 /**
- * CardHandComponent - Displays 3-5 cards in hand with selection and drag support
- * Integrates with Zustand store for state management
+ * CardHandComponent - Displays cards in hand with selection and drag support
+ * Integrates with Zustand store for state management; shows the hand limit,
+ * cards left in the deck, fatigue warnings and discarded cards
  */
 export const CardHandComponent: React.FC<CardHandComponentProps> = ({
   cards,
@@ -22,11 +26,18 @@ export const CardHandComponent: React.FC<CardHandComponentProps> = ({
   onCardSelect,
   onCardPlay,
   maxCards = 5,
+  deckCount,
+  nextFatigueDamage = 0,
+  discarded = [],
   className = '',
 }) => {
   const [hoveredIndex, setHoveredIndex] = React.useState<number | null>(null);
   const [draggingIndex, setDraggingIndex] = React.useState<number | null>(null);
 
+  const isHandFull = cards.length >= maxCards;
+  const isDeckEmpty = deckCount === 0;
+  const lastDiscarded = discarded[discarded.length - 1];
+
   const handleCardClick = (index: number) => {
     if (selectedIndex === index) {
       // Double-click to play
@@ -111,11 +122,50 @@ export const CardHandComponent: React.FC<CardHandComponentProps> = ({
           bottom: '4px',
           right: '4px',
           fontSize: '12px',
-          color: '#666',
+          color: isHandFull ? '#ffaa00' : '#666',
         }}
+        data-testid="hand-size"
+        aria-label={`${cards.length} of ${maxCards} cards in hand${isHandFull ? ', hand full' : ''}`}
       >
         {cards.length} / {maxCards}
       </div>
+
+      {/* Deck and Fatigue Indicator */}
+      {deckCount !== undefined && (
+        <div
+          style={{
+            position: 'absolute',
+            bottom: '4px',
+            left: '4px',
+            fontSize: '12px',
+            color: isDeckEmpty && nextFatigueDamage > 0 ? '#ff4444' : '#666',
+          }}
+          data-testid="deck-count"
+        >
+          {isDeckEmpty
+            ? nextFatigueDamage > 0
+              ? `Deck empty - next draw deals ${nextFatigueDamage} fatigue damage`
+              : 'Deck empty'
+            : `Deck: ${deckCount}`}
+        </div>
+      )}
+
+      {/* Last Discarded Card */}
+      {lastDiscarded && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '4px',
+            right: '4px',
+            fontSize: '12px',
+            color: '#999',
+          }}
+          data-testid="discarded-card"
+          title={`${discarded.length} card${discarded.length === 1 ? '' : 's'} discarded`}
+        >
+          Discarded (hand full): {lastDiscarded.name}
+        </div>
+      )}
     </div>
   );
 };
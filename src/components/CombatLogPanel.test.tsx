@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { CombatLogPanel } from './CombatLogPanel';
+import { appendCombatLog } from '../systems/CombatLog';
+
+const log = appendCombatLog(
+  [],
+  2,
+  { type: 'cardPlayed', side: 'player', cardId: 'card_001', cardName: 'Strike' },
+  { type: 'matchEnd', winner: 'player' }
+);
+
+describe('CombatLogPanel', () => {
+  it('should show an empty state', () => {
+    render(<CombatLogPanel entries={[]} />);
+
+    expect(screen.getByText('Nothing has happened yet.')).toBeInTheDocument();
+    expect(screen.queryAllByTestId('combat-log-entry')).toHaveLength(0);
+    expect(screen.getByTestId('combat-log-export')).toBeDisabled();
+  });
+
+  it('should render one line per entry with its round', () => {
+    render(<CombatLogPanel entries={log} />);
+
+    const entries = screen.getAllByTestId('combat-log-entry');
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toHaveTextContent('R2Player plays Strike');
+    expect(entries[1]).toHaveTextContent('Player wins');
+    expect(screen.getByRole('log')).toBeInTheDocument();
+  });
+
+  it('should use the given names', () => {
+    render(<CombatLogPanel entries={log} names={{ player: 'Player 1', opponent: 'Player 2' }} />);
+
+    expect(screen.getByText('Player 1 plays Strike')).toBeInTheDocument();
+  });
+
+  it('should export the log as a text file', () => {
+    const createObjectURL = vi.fn(() => 'blob:log');
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    render(<CombatLogPanel entries={log} />);
+    fireEvent.click(screen.getByTestId('combat-log-export'));
+
+    expect(createObjectURL).toHaveBeenCalledTimes(1);
+    expect(click).toHaveBeenCalledTimes(1);
+
+    click.mockRestore();
+  });
+});
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef } from 'react';
+import type { CombatLogEntry, CombatLogNames } from '@/systems/CombatLog';
+import { DEFAULT_LOG_NAMES, exportCombatLog, formatCombatLogEntry } from '@/systems/CombatLog';
+
+export interface CombatLogPanelProps {
+  entries: CombatLogEntry[];
+  names?: CombatLogNames;
+  maxHeight?: number;
+  className?: string;
+}
+
+const ENTRY_COLORS: Partial<Record<CombatLogEntry['type'], string>> = {
+  cardPlayed: '#fff',
+  damage: '#ff8a80',
+  statusTick: '#c5e1a5',
+  suddenDeath: '#ffb74d',
+  matchEnd: '#ffd54f',
+};
+
+/**
+ * CombatLogPanel - Scrollable history of the match
+ * Shows each structured log entry as a line, keeps the newest entry in
+ * view and exports the whole log as text
+ */
+export const CombatLogPanel: React.FC<CombatLogPanelProps> = ({
+  entries,
+  names = DEFAULT_LOG_NAMES,
+  maxHeight = 160,
+  className = '',
+}) => {
+  const listRef = useRef<HTMLOListElement | null>(null);
+
+  // Follow the newest entry
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [entries.length]);
+
+  return (
+    <section
+      className={`combat-log ${className}`}
+      style={{
+        backgroundColor: 'rgba(0, 0, 0, 0.3)',
+        borderRadius: '8px',
+        padding: '8px 12px',
+      }}
+      aria-labelledby="combat-log-title"
+      data-testid="combat-log"
+    >
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: '6px',
+        }}
+      >
+        <h2 id="combat-log-title" style={{ margin: 0, fontSize: '14px', color: '#aaa' }}>
+          Combat Log
+        </h2>
+        <button
+          onClick={() => exportCombatLog(entries, names)}
+          disabled={entries.length === 0}
+          style={{
+            padding: '4px 8px',
+            borderRadius: '4px',
+            border: '1px solid #444',
+            backgroundColor: '#333',
+            color: '#fff',
+            fontSize: '12px',
+            cursor: entries.length === 0 ? 'not-allowed' : 'pointer',
+          }}
+          aria-label="Export combat log as text"
+          data-testid="combat-log-export"
+        >
+          Export
+        </button>
+      </div>
+      <ol
+        ref={listRef}
+        style={{
+          maxHeight: `${maxHeight}px`,
+          overflowY: 'auto',
+          margin: 0,
+          padding: 0,
+          listStyle: 'none',
+          fontSize: '12px',
+        }}
+        role="log"
+        aria-label="Combat log entries"
+        tabIndex={0}
+        data-testid="combat-log-entries"
+      >
+        {entries.length === 0 && <li style={{ color: '#666' }}>Nothing has happened yet.</li>}
+        {entries.map((entry) => (
+          <li
+            key={entry.seq}
+            style={{ padding: '2px 0', color: ENTRY_COLORS[entry.type] ?? '#ccc' }}
+            data-testid="combat-log-entry"
+          >
+            <span style={{ color: '#666', marginRight: '6px' }}>R{entry.round}</span>
+            {formatCombatLogEntry(entry, names)}
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+};
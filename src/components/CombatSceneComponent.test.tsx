@@ -1,12 +1,19 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
 import { CombatSceneComponent } from './CombatSceneComponent';
 import { useGameStore } from '@/stores/gameStore';
+import { MatchStatsCollector } from '@/systems/MatchStats';
+import type { Card } from '@/types';
+import { PassDeviceScene, HOT_SEAT_PLAYERS } from '@/scenes/PassDeviceScene';
 
 // Mock child components
 vi.mock('./BattlefieldComponent', () => ({
-  BattlefieldComponent: ({ playerHP, opponentHP }: any) => (
-    <div data-testid="battlefield-component">
+  BattlefieldComponent: ({ playerHP, opponentHP, damageNumbers = [], opponentStatusEffects = [] }: any) => (
+    <div
+      data-testid="battlefield-component"
+      data-damage-numbers={damageNumbers.map((damage: any) => damage.value).join(',')}
+      data-opponent-effects={opponentStatusEffects.map((effect: any) => effect.type).join(',')}
+    >
       Player: {playerHP} | Opponent: {opponentHP}
     </div>
   ),
@@ -26,6 +33,8 @@ vi.mock('./AvatarCanvas', () => ({
 vi.mock('framer-motion', () => ({
   motion: {
     div: ({ children, ...props }: any) => <div {...props}>{children}</div>,
+    h1: ({ children, ...props }: any) => <h1 {...props}>{children}</h1>,
+    button: ({ children, ...props }: any) => <button {...props}>{children}</button>,
   },
 }));
 
@@ -63,6 +72,10 @@ describe('CombatSceneComponent', () => {
           maxHP: 100,
         },
       },
+      hotSeat: {
+        enabled: false,
+        handHidden: false,
+      },
     });
   });
 
@@ -194,6 +207,47 @@ describe('CombatSceneComponent', () => {
       expect(onDefeat).toHaveBeenCalled();
     });
 
+    it('should call onVictory when the match is decided on HP at the turn limit', () => {
+      const onVictory = vi.fn();
+      const onDefeat = vi.fn();
+
+      useGameStore.setState({
+        matchStats: { ...new MatchStatsCollector().getStats(), winner: 'player' },
+      });
+
+      render(<CombatSceneComponent onVictory={onVictory} onDefeat={onDefeat} />);
+
+      expect(onVictory).toHaveBeenCalled();
+      expect(onDefeat).not.toHaveBeenCalled();
+
+      useGameStore.setState({ matchStats: new MatchStatsCollector().getStats() });
+    });
+
+    it('should call onDraw, not onDefeat, for a drawn match', () => {
+      const onVictory = vi.fn();
+      const onDefeat = vi.fn();
+      const onDraw = vi.fn();
+
+      useGameStore.setState({
+        combat: {
+          state: 'END',
+          playerHP: 0,
+          opponentHP: 0,
+          currentTurn: 'player',
+        },
+        matchStats: { ...new MatchStatsCollector().getStats(), winner: 'draw' },
+      });
+
+      render(<CombatSceneComponent onVictory={onVictory} onDefeat={onDefeat} onDraw={onDraw} />);
+
+      expect(onDraw).toHaveBeenCalled();
+      expect(onVictory).not.toHaveBeenCalled();
+      expect(onDefeat).not.toHaveBeenCalled();
+      expect(screen.getAllByRole('status').some((region) => region.textContent?.includes('Draw!'))).toBe(true);
+
+      useGameStore.setState({ matchStats: new MatchStatsCollector().getStats() });
+    });
+
     it('should not call callbacks when HP is above 0', () => {
       const onVictory = vi.fn();
       const onDefeat = vi.fn();
@@ -311,6 +365,303 @@ describe('CombatSceneComponent', () => {
       render(<CombatSceneComponent />);
       expect(screen.getByText('Cards: 3')).toBeInTheDocument();
     });
+
+    it('should show status effects applied in a live match', () => {
+      const poisonCard: Card = {
+        id: 'poison_001',
+        name: 'Venom Strike',
+        type: 'special',
+        rarity: 'rare',
+        stats: { attack: 2, defense: 1, speed: 5 },
+        artwork: '/test.png',
+        effects: [{ type: 'damageOverTime', damage: 2, turns: 3 }],
+      };
+      useGameStore.getState().setMatchDeck(Array.from({ length: 20 }, () => poisonCard));
+      useGameStore.getState().startMatch(7);
+      useGameStore.getState().mulligan([]);
+
+      render(<CombatSceneComponent />);
+      expect(screen.getByTestId('battlefield-component')).toHaveAttribute('data-opponent-effects', '');
+
+      act(() => {
+        useGameStore.getState().playCard(0);
+      });
+
+      // The opponent's own card may add effects of its own
+      const effects = screen.getByTestId('battlefield-component').getAttribute('data-opponent-effects');
+      expect(effects?.split(',')).toContain('poison');
+
+      useGameStore.getState().setMatchDeck(null);
+      useGameStore.getState().resetGameState();
+    });
+
+    it('should play avatar reactions to status effects applied in a live match', () => {
+      const shieldCard: Card = {
+        id: 'shield_001',
+        name: 'Guard Up',
+        type: 'defense',
+        rarity: 'common',
+        stats: { attack: 1, defense: 5, speed: 5 },
+        artwork: '/test.png',
+        effects: [{ type: 'shield', amount: 4 }],
+      };
+      const { playAvatarAnimation } = useGameStore.getState();
+      const playAnimation = vi.fn();
+      useGameStore.setState({ playAvatarAnimation: playAnimation });
+      useGameStore.getState().setMatchDeck(Array.from({ length: 20 }, () => shieldCard));
+      useGameStore.getState().startMatch(7);
+      useGameStore.getState().mulligan([]);
+
+      render(<CombatSceneComponent />);
+      act(() => {
+        useGameStore.getState().playCard(0);
+      });
+
+      expect(playAnimation).toHaveBeenCalledWith('player', 'defend');
+
+      useGameStore.setState({ playAvatarAnimation });
+      useGameStore.getState().setMatchDeck(null);
+      useGameStore.getState().resetGameState();
+    });
+
+    it('should offer the opening-hand mulligan before the first turn', () => {
+      useGameStore.getState().startMatch(7);
+      const [replaced] = useGameStore.getState().cards.playerHand;
+
+      render(<CombatSceneComponent />);
+      expect(screen.getByTestId('mulligan-panel')).toBeInTheDocument();
+
+      fireEvent.click(screen.getAllByTestId('card-component')[0]);
+      act(() => {
+        fireEvent.click(screen.getByTestId('mulligan-confirm-button'));
+      });
+
+      expect(screen.queryByTestId('mulligan-panel')).not.toBeInTheDocument();
+      const { combat, combatLog, cards } = useGameStore.getState();
+      expect(combat.state).toBe('PLAYER_TURN');
+      expect(combatLog.some((entry) => entry.type === 'mulligan' && entry.side === 'player')).toBe(true);
+      expect(cards.playerDeck).toContainEqual(replaced);
+
+      useGameStore.getState().resetGameState();
+    });
+  });
+
+  describe('Hot-seat Mode', () => {
+    const secondPlayerHand = [
+      { id: '3', name: 'Card 3', stats: { attack: 4, defense: 4 }, type: 'attack', cost: 3 },
+    ] as any;
+
+    beforeEach(() => {
+      useGameStore.setState((state) => ({
+        combat: { ...state.combat, currentTurn: 'opponent' },
+        cards: { ...state.cards, opponentHand: secondPlayerHand },
+        hotSeat: { enabled: true, handHidden: true },
+      }));
+    });
+
+    it('should cover the screen and hide the hand between turns', () => {
+      render(<CombatSceneComponent />);
+
+      expect(screen.getByTestId('pass-device-scene')).toBeInTheDocument();
+      expect(screen.getByText('Pass the device to Player 2')).toBeInTheDocument();
+      expect(screen.getByText('Cards: 0')).toBeInTheDocument();
+    });
+
+    it('should show the second player hand once they are ready', () => {
+      render(<CombatSceneComponent />);
+
+      fireEvent.click(screen.getByTestId('pass-device-ready-button'));
+
+      expect(screen.queryByTestId('pass-device-scene')).not.toBeInTheDocument();
+      expect(screen.getByText('Cards: 1')).toBeInTheDocument();
+    });
+
+    it('should run the pass-device scene while the screen is covered', () => {
+      const scene = new PassDeviceScene();
+      render(<CombatSceneComponent passDeviceScene={scene} />);
+
+      expect(scene.isActive()).toBe(true);
+      expect(scene.getNextPlayer()).toEqual(HOT_SEAT_PLAYERS.opponent);
+
+      fireEvent.click(screen.getByTestId('pass-device-ready-button'));
+
+      expect(scene.isActive()).toBe(false);
+      expect(useGameStore.getState().hotSeat.handHidden).toBe(false);
+    });
+
+    it('should name the player whose turn it is', () => {
+      useGameStore.setState({ hotSeat: { enabled: true, handHidden: false } });
+
+      render(<CombatSceneComponent />);
+
+      expect(screen.getByText("🎮 Player 2's Turn")).toBeInTheDocument();
+    });
+  });
+
+  describe('Turn Timer', () => {
+    beforeEach(() => {
+      useGameStore.getState().setTurnTimer(20);
+    });
+
+    afterEach(() => {
+      useGameStore.getState().setTurnTimer(0);
+    });
+
+    it('should count down during the player turn', () => {
+      render(<CombatSceneComponent />);
+
+      const timer = screen.getByTestId('turn-timer');
+      expect(timer).toHaveTextContent('20s');
+      expect(timer).toHaveAttribute('role', 'timer');
+
+      act(() => {
+        useGameStore.getState().turnTimerInstance!.update(2.5);
+      });
+
+      expect(screen.getByTestId('turn-timer')).toHaveTextContent('18s');
+    });
+
+    it('should warn when time is nearly up', () => {
+      render(<CombatSceneComponent />);
+
+      act(() => {
+        useGameStore.getState().turnTimerInstance!.update(16);
+      });
+
+      expect(screen.getByTestId('turn-timer').style.color).toBe('#ff8a80');
+    });
+
+    it('should not run during the opponent turn', () => {
+      useGameStore.setState((state) => ({ combat: { ...state.combat, currentTurn: 'opponent' } }));
+
+      render(<CombatSceneComponent />);
+
+      expect(screen.queryByTestId('turn-timer')).not.toBeInTheDocument();
+      expect(useGameStore.getState().turnTimer.running).toBe(false);
+    });
+
+    it('should not run while the device is being passed', () => {
+      useGameStore.setState({ hotSeat: { enabled: true, handHidden: true } });
+
+      render(<CombatSceneComponent />);
+
+      expect(screen.queryByTestId('turn-timer')).not.toBeInTheDocument();
+    });
+
+    it('should stop when the scene unmounts', () => {
+      const { unmount } = render(<CombatSceneComponent />);
+      expect(useGameStore.getState().turnTimer.running).toBe(true);
+
+      unmount();
+
+      expect(useGameStore.getState().turnTimer.running).toBe(false);
+    });
+  });
+
+  describe('Combat Log', () => {
+    afterEach(() => {
+      useGameStore.setState({ combatLog: [] });
+    });
+
+    it('should show the log from the store', () => {
+      useGameStore.setState({
+        combatLog: [
+          { type: 'cardPlayed', side: 'player', cardId: '1', cardName: 'Card 1', seq: 1, round: 1 },
+        ],
+      });
+
+      render(<CombatSceneComponent />);
+
+      expect(screen.getByTestId('combat-log')).toBeInTheDocument();
+      expect(screen.getByTestId('combat-log-entry')).toHaveTextContent('Player plays Card 1');
+    });
+
+    it('should name hot-seat players in the log', () => {
+      useGameStore.setState({
+        hotSeat: { enabled: true, handHidden: false },
+        combatLog: [{ type: 'matchEnd', winner: 'opponent', seq: 1, round: 4 }],
+      });
+
+      render(<CombatSceneComponent />);
+
+      expect(screen.getByTestId('combat-log-entry')).toHaveTextContent('Player 2 wins');
+    });
+
+    it('should log and read out both sides of a live match turn', () => {
+      // Cards without effects, so the opponent is never stunned out of its turn
+      const card: Card = {
+        id: 'card_plain',
+        name: 'Plain Strike',
+        type: 'attack',
+        rarity: 'common',
+        stats: { attack: 5, defense: 2, speed: 8 },
+        artwork: '/test.png',
+      };
+      useGameStore.getState().setMatchDeck(Array.from({ length: 20 }, () => card));
+      useGameStore.getState().startMatch(7);
+      useGameStore.getState().mulligan([]);
+
+      render(<CombatSceneComponent />);
+      act(() => {
+        useGameStore.getState().playCard(0);
+      });
+
+      const entries = screen.getAllByTestId('combat-log-entry').map((entry) => entry.textContent);
+      expect(entries).toContain(`R1Player plays ${card.name}`);
+      expect(entries.some((entry) => entry?.includes('Opponent plays'))).toBe(true);
+      const announcements = screen.getAllByRole('status').map((region) => region.textContent);
+      expect(announcements.some((text) => text?.includes(`Player plays ${card.name}`))).toBe(true);
+
+      useGameStore.getState().setMatchDeck(null);
+      useGameStore.getState().resetGameState();
+    });
+  });
+
+  describe('Damage Numbers', () => {
+    afterEach(() => {
+      useGameStore.setState({ damageNumbers: [] });
+    });
+
+    it('should show damage numbers from the store on the battlefield', () => {
+      useGameStore.setState({ damageNumbers: [{ id: 'damage-1', value: 12, x: 50, y: 25 }] });
+
+      render(<CombatSceneComponent />);
+
+      expect(screen.getByTestId('battlefield-component')).toHaveAttribute('data-damage-numbers', '12');
+    });
+
+    it('should animate avatars and show damage numbers as live match hits land', () => {
+      const card: Card = {
+        id: 'card_plain',
+        name: 'Plain Strike',
+        type: 'attack',
+        rarity: 'common',
+        stats: { attack: 5, defense: 2, speed: 8 },
+        artwork: '/test.png',
+      };
+      const { playAvatarAnimation } = useGameStore.getState();
+      const playAnimation = vi.fn();
+      useGameStore.setState({ playAvatarAnimation: playAnimation });
+      useGameStore.getState().setMatchDeck(Array.from({ length: 20 }, () => card));
+      useGameStore.getState().startMatch(7);
+      useGameStore.getState().mulligan([]);
+
+      render(<CombatSceneComponent />);
+      act(() => {
+        useGameStore.getState().playCard(0);
+      });
+
+      expect(playAnimation).toHaveBeenCalledWith('player', 'attack');
+      expect(playAnimation).toHaveBeenCalledWith('ai', 'damaged');
+      expect(playAnimation).toHaveBeenCalledWith('ai', 'attack');
+      expect(playAnimation).toHaveBeenCalledWith('player', 'damaged');
+      const shown = screen.getByTestId('battlefield-component').getAttribute('data-damage-numbers');
+      expect(shown?.split(',')).toHaveLength(2);
+
+      useGameStore.setState({ playAvatarAnimation });
+      useGameStore.getState().setMatchDeck(null);
+      useGameStore.getState().resetGameState();
+    });
   });
 
   describe('Props', () => {
@@ -333,5 +684,25 @@ describe('CombatSceneComponent', () => {
     it('should work without any props', () => {
       expect(() => render(<CombatSceneComponent />)).not.toThrow();
     });
+
+    it('should show replay controls when given a recording', () => {
+      render(
+        <CombatSceneComponent
+          replay={{
+            version: 1,
+            id: 'replay_test',
+            seed: 1,
+            mode: 'alternating',
+            startedAt: 0,
+            playerDeck: [],
+            opponentDeck: [],
+            events: [{ event: { type: 'START_COMBAT', seed: 1 }, timestamp: 0 }],
+            winner: null,
+          }}
+        />
+      );
+
+      expect(screen.getByTestId('replay-controls')).toBeInTheDocument();
+    });
   });
 });
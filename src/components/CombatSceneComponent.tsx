@@ -1,56 +1,213 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { useGameStore } from '@/stores/gameStore';
 import { BattlefieldComponent } from './BattlefieldComponent';
 import { CardHandComponent } from './CardHandComponent';
 import { AvatarCanvas } from './AvatarCanvas';
+import { ReplayControls } from './ReplayControls';
+import { CombatLogPanel } from './CombatLogPanel';
+import { PassDeviceSceneComponent } from './PassDeviceSceneComponent';
+import { PassDeviceScene, HOT_SEAT_PLAYERS } from '@/scenes/PassDeviceScene';
+import { MulliganPanel } from './MulliganPanel';
+import type { MatchRecording } from '@/systems/MatchReplay';
+import type { WebAudioManager } from '@/systems/WebAudioManager';
+import { AnimationTimeline } from '@/systems/AnimationTimeline';
+import { AvatarCombatIntegration, setupAvatarIntegration } from '@/systems/AvatarCombatIntegration';
+import { getNextFatigueDamage } from '@/systems/HandRules';
+import { getStatusEffects } from '@/systems/StatusEffects';
+import { DEFAULT_LOG_NAMES, formatCombatLogEntry } from '@/systems/CombatLog';
 import { useKeyboardControls } from '@/hooks/useKeyboardControls';
 import { useScreenReader } from '@/hooks/useScreenReader';
 
 export interface CombatSceneComponentProps {
   onVictory?: () => void;
   onDefeat?: () => void;
+  onDraw?: () => void; // Both knocked out, or level on HP when the match is decided
+  replay?: MatchRecording; // Play back a recorded match instead of taking input
+  onCloseReplay?: () => void;
+  audioManager?: Pick<WebAudioManager, 'playSound'>; // Hit and block sounds in live matches
+  passDeviceScene?: PassDeviceScene; // Entered between hot-seat turns; one of its own otherwise
 }
 
 /**
  * CombatSceneComponent - React wrapper for CombatScene
- * Integrates battlefield, card hand, and avatar canvas
+ * Integrates battlefield, card hand, and avatar canvas; avatars, damage
+ * numbers, screen shake and hit sounds follow the live match
  */
 export const CombatSceneComponent: React.FC<CombatSceneComponentProps> = ({
   onVictory,
   onDefeat,
+  onDraw,
+  replay,
+  onCloseReplay,
+  audioManager,
+  passDeviceScene,
 }) => {
   // Combat state
   const playerHP = useGameStore((state) => state.combat.playerHP);
   const opponentHP = useGameStore((state) => state.combat.opponentHP);
   const currentTurn = useGameStore((state) => state.combat.currentTurn);
+  const combatState = useGameStore((state) => state.combat.state);
+  const mulligan = useGameStore((state) => state.mulligan);
+  const winner = useGameStore((state) => state.matchStats.winner);
+
+  // Hot-seat state
+  const hotSeat = useGameStore((state) => state.hotSeat);
+  const revealHand = useGameStore((state) => state.revealHand);
+  const ownPassDeviceScene = useMemo(() => new PassDeviceScene(), []);
+  const passDevice = passDeviceScene ?? ownPassDeviceScene;
 
   // Card state
   const playerHand = useGameStore((state) => state.cards.playerHand);
+  const opponentHand = useGameStore((state) => state.cards.opponentHand);
   const selectedCardIndex = useGameStore((state) => state.cards.selectedCardIndex);
   const selectCard = useGameStore((state) => state.selectCard);
-  const playCard = useGameStore((state) => state.playCard);
+  const playerDeck = useGameStore((state) => state.cards.playerDeck);
+  const opponentDeck = useGameStore((state) => state.cards.opponentDeck);
+  const handRules = useGameStore((state) => state.handRules);
+  const storePlayCard = useGameStore((state) => state.playCard);
+
+  // Live match and avatar state
+  const liveMatch = useGameStore((state) => state.liveMatch);
+  const avatarSystem = useGameStore((state) => state.avatarSystem);
+  const playAvatarAnimation = useGameStore((state) => state.playAvatarAnimation);
+  const onAvatarAnimationEvent = useGameStore((state) => state.onAvatarAnimationEvent);
+  const showDamageNumber = useGameStore((state) => state.showDamageNumber);
+  const animationTimeline = useMemo(() => new AnimationTimeline(), []);
+
+  // Turn timer state
+  const turnTimer = useGameStore((state) => state.turnTimer);
+  const startTurnTimer = useGameStore((state) => state.startTurnTimer);
+  const stopTurnTimer = useGameStore((state) => state.stopTurnTimer);
+
+  // Replays are driven by the recording, not by the player
+  const playCard = (index: number) => {
+    if (!replay) {
+      storePlayCard(index);
+    }
+  };
+
+  // In hot-seat matches both sides are played from this device
+  const isHotSeat = hotSeat.enabled && !replay;
+  const canAct = currentTurn === 'player' || isHotSeat;
+  const showPassDevice = isHotSeat && hotSeat.handHidden;
+  const showMulligan = combatState === 'MULLIGAN' && !replay;
+  const handSide = isHotSeat && currentTurn === 'opponent' ? 'opponent' : 'player';
+  const activeHand = handSide === 'opponent' ? opponentHand : playerHand;
+  const activeDeck = handSide === 'opponent' ? opponentDeck : playerDeck;
+  const visibleHand = showPassDevice ? [] : activeHand;
+  const turnDescription = isHotSeat
+    ? `${HOT_SEAT_PLAYERS[currentTurn].name}'s turn`
+    : currentTurn === 'player'
+      ? 'Your turn'
+      : 'Opponent turn';
+
+  // The timer only runs while a human can play from this device
+  const timerActive = turnTimer.duration > 0 && canAct && !showPassDevice && !showMulligan && !replay;
+  const showTimer = timerActive && turnTimer.running;
 
   // Battlefield state
   const battlefield = useGameStore((state) => state.battlefield);
+  const effects = useGameStore((state) => state.effects);
+  const damageNumbers = useGameStore((state) => state.damageNumbers);
+  const combatLog = useGameStore((state) => state.combatLog);
+  const logNames = isHotSeat
+    ? { player: HOT_SEAT_PLAYERS.player.name, opponent: HOT_SEAT_PLAYERS.opponent.name }
+    : DEFAULT_LOG_NAMES;
 
   // Screen reader announcements
   const { announce } = useScreenReader();
 
   // Announce turn changes
   useEffect(() => {
-    if (currentTurn === 'player') {
+    if (isHotSeat) {
+      announce(`${turnDescription}. Select a card to play.`, 'polite');
+    } else if (currentTurn === 'player') {
       announce('Your turn. Select a card to play.', 'polite');
     } else {
       announce('Opponent turn. Please wait.', 'polite');
     }
-  }, [currentTurn, announce]);
+  }, [currentTurn, isHotSeat, turnDescription, announce]);
+
+  // Animate the live match as it plays; replays are animated by their controls.
+  // Hits wait for the impact frame only once there are avatars to swing
+  useEffect(() => {
+    if (!liveMatch || replay) return;
+
+    const integration = new AvatarCombatIntegration(
+      {
+        playAnimation: (avatarId, state) => {
+          playAvatarAnimation(avatarId as 'player' | 'ai', state);
+        },
+        onAnimationEvent: avatarSystem ? onAvatarAnimationEvent : undefined,
+      },
+      'player',
+      'ai',
+      {
+        animationTimeline,
+        shakeTarget: () => document.getElementById('combat-scene'),
+        audioManager,
+        onDamageNumber: showDamageNumber,
+      }
+    );
+    const subscription = setupAvatarIntegration(liveMatch, integration);
+
+    return () => {
+      subscription.unsubscribe();
+      integration.dispose();
+    };
+  }, [
+    liveMatch,
+    replay,
+    avatarSystem,
+    audioManager,
+    animationTimeline,
+    playAvatarAnimation,
+    onAvatarAnimationEvent,
+    showDamageNumber,
+  ]);
+
+  // The pass-device scene is active while the cover is up; ready reveals the hand
+  useEffect(() => {
+    if (!showPassDevice) return;
+
+    passDevice.setNextPlayer(currentTurn);
+    passDevice.setOnReady(() => revealHand());
+    passDevice.enter();
+    return () => passDevice.exit();
+  }, [showPassDevice, currentTurn, passDevice, revealHand]);
+
+  // Restart the turn timer whenever a new turn starts
+  useEffect(() => {
+    if (!timerActive) return;
+    startTurnTimer();
+    return () => stopTurnTimer();
+  }, [timerActive, currentTurn, startTurnTimer, stopTurnTimer]);
+
+  // Warn when time is nearly up
+  useEffect(() => {
+    if (turnTimer.warning && timerActive) {
+      announce(`${turnTimer.remaining} seconds left. A card will be played automatically.`, 'assertive');
+    }
+    // Only on the warning itself, not on every second after it
+  }, [turnTimer.warning, announce]);
 
   // Announce HP changes
   useEffect(() => {
     announce(`Player health: ${playerHP}. Opponent health: ${opponentHP}.`, 'polite');
   }, [playerHP, opponentHP, announce]);
 
+  // Read out new combat log entries
+  const announcedSeq = useRef(0);
+  useEffect(() => {
+    const fresh = combatLog.filter((entry) => entry.seq > announcedSeq.current);
+    announcedSeq.current = combatLog.length > 0 ? combatLog[combatLog.length - 1].seq : 0;
+    if (fresh.length > 0) {
+      announce(fresh.map((entry) => formatCombatLogEntry(entry, logNames)).join('. '), 'polite');
+    }
+    // Only when the log changes
+  }, [combatLog]);
+
   // Keyboard controls
   useKeyboardControls({
     // Card selection with arrow keys
@@ -64,26 +221,26 @@ export const CombatSceneComponent: React.FC<CombatSceneComponentProps> = ({
     onArrowRight: () => {
       if (selectedCardIndex === null) {
         selectCard(0);
-      } else if (selectedCardIndex < playerHand.length - 1) {
+      } else if (selectedCardIndex < visibleHand.length - 1) {
         selectCard(selectedCardIndex + 1);
       }
     },
     // Play selected card with Enter or Space
     onEnterActivate: () => {
-      if (selectedCardIndex !== null && currentTurn === 'player') {
+      if (selectedCardIndex !== null && canAct) {
         playCard(selectedCardIndex);
       }
     },
     onSpaceActivate: () => {
-      if (selectedCardIndex !== null && currentTurn === 'player') {
+      if (selectedCardIndex !== null && canAct) {
         playCard(selectedCardIndex);
       }
     },
     // Number keys for direct card selection
     onNumberKey: (number) => {
       const cardIndex = number - 1;
-      if (cardIndex >= 0 && cardIndex < playerHand.length) {
-        if (currentTurn === 'player') {
+      if (cardIndex >= 0 && cardIndex < visibleHand.length) {
+        if (canAct) {
           selectCard(cardIndex);
           playCard(cardIndex);
         }
@@ -98,16 +255,22 @@ export const CombatSceneComponent: React.FC<CombatSceneComponentProps> = ({
     enableGameControls: false,
   });
 
-  // Check win/loss conditions
+  // Check win/loss conditions; at the turn limit the match ends with both sides standing.
+  // A draw comes first, since both sides may be at 0 HP
   useEffect(() => {
-    if (opponentHP <= 0 && onVictory) {
+    if (winner === 'draw') {
+      if (onDraw) {
+        announce('Draw! Neither side won.', 'assertive');
+        onDraw();
+      }
+    } else if ((opponentHP <= 0 || winner === 'player') && onVictory) {
       announce('Victory! You have defeated your opponent!', 'assertive');
       onVictory();
-    } else if (playerHP <= 0 && onDefeat) {
+    } else if ((playerHP <= 0 || winner === 'opponent') && onDefeat) {
       announce('Defeat! You have been defeated.', 'assertive');
       onDefeat();
     }
-  }, [playerHP, opponentHP, onVictory, onDefeat, announce]);
+  }, [playerHP, opponentHP, winner, onVictory, onDefeat, onDraw, announce]);
 
   return (
     <div
@@ -121,9 +284,18 @@ export const CombatSceneComponent: React.FC<CombatSceneComponentProps> = ({
         padding: '20px',
         color: '#fff',
         fontFamily: 'system-ui, -apple-system, sans-serif',
+        position: 'relative',
       }}
       data-testid="combat-scene"
     >
+      {/* Pass-the-device cover between hot-seat turns */}
+      {showPassDevice && (
+        <PassDeviceSceneComponent nextPlayer={currentTurn} onReady={() => passDevice.triggerReady()} />
+      )}
+
+      {/* Opening-hand mulligan before the first turn */}
+      {showMulligan && <MulliganPanel hand={playerHand} onConfirm={mulligan} />}
+
       {/* Avatar Canvas - Left Side */}
       <div
         style={{
@@ -165,11 +337,37 @@ export const CombatSceneComponent: React.FC<CombatSceneComponentProps> = ({
           data-testid="turn-indicator"
           role="status"
           aria-live="polite"
-          aria-label={`Current turn: ${currentTurn === 'player' ? 'Your turn' : 'Opponent turn'}`}
+          aria-label={`Current turn: ${turnDescription}`}
         >
-          {currentTurn === 'player' ? '🎮 Your Turn' : '🤖 Opponent Turn'}
+          {isHotSeat
+            ? `🎮 ${HOT_SEAT_PLAYERS[currentTurn].name}'s Turn`
+            : currentTurn === 'player'
+              ? '🎮 Your Turn'
+              : '🤖 Opponent Turn'}
         </motion.div>
 
+        {/* Turn Timer */}
+        {showTimer && (
+          <div
+            style={{
+              textAlign: 'center',
+              padding: '8px',
+              borderRadius: '8px',
+              backgroundColor: turnTimer.warning
+                ? 'rgba(244, 67, 54, 0.3)'
+                : 'rgba(0, 0, 0, 0.3)',
+              color: turnTimer.warning ? '#ff8a80' : '#fff',
+              fontSize: '16px',
+              fontWeight: 'bold',
+            }}
+            data-testid="turn-timer"
+            role="timer"
+            aria-label={`${turnTimer.remaining} seconds left this turn`}
+          >
+            ⏱ {turnTimer.remaining}s
+          </div>
+        )}
+
         {/* Battlefield */}
         <BattlefieldComponent
           playerCard={battlefield.playerSide.activeCard}
@@ -178,7 +376,16 @@ export const CombatSceneComponent: React.FC<CombatSceneComponentProps> = ({
           playerMaxHP={battlefield.playerSide.maxHP}
           opponentHP={battlefield.opponentSide.hp}
           opponentMaxHP={battlefield.opponentSide.maxHP}
+          playerStatusEffects={getStatusEffects(effects.player)}
+          opponentStatusEffects={getStatusEffects(effects.opponent)}
+          damageNumbers={damageNumbers}
         />
+
+        {/* Combat Log */}
+        <CombatLogPanel entries={combatLog} names={logNames} />
+
+        {/* Replay Controls */}
+        {replay && <ReplayControls recording={replay} onClose={onCloseReplay} />}
       </div>
 
       {/* Card Hand - Bottom Right */}
@@ -190,10 +397,14 @@ export const CombatSceneComponent: React.FC<CombatSceneComponentProps> = ({
         }}
       >
         <CardHandComponent
-          cards={playerHand}
+          cards={visibleHand}
           selectedIndex={selectedCardIndex}
           onCardSelect={selectCard}
           onCardPlay={playCard}
+          maxCards={handRules.rules.maxHandSize}
+          deckCount={showPassDevice ? undefined : activeDeck.length}
+          nextFatigueDamage={getNextFatigueDamage(handRules.rules, handRules.fatigue[handSide])}
+          discarded={showPassDevice ? [] : handRules.discardPile[handSide]}
         />
       </div>
     </div>
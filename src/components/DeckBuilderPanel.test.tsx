@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { DeckBuilderPanel } from './DeckBuilderPanel';
+import { useGameStore } from '@/stores/gameStore';
+import { LocalStorageDeckPersistence } from '@/systems/DeckPersistence';
+import { RULE_SETS, DEFAULT_RULE_SET } from '@/systems/RuleSet';
+
+describe('DeckBuilderPanel', () => {
+  const addCopies = (cardId: string, count: number) => {
+    for (let i = 0; i < count; i++) {
+      fireEvent.click(screen.getByTestId(`add-card-${cardId}`));
+    }
+  };
+
+  const buildValidDeck = () => {
+    addCopies('card_001', 4);
+    addCopies('card_004', 4);
+    addCopies('card_008', 4);
+    addCopies('card_002', 4);
+    addCopies('card_003', 3);
+    addCopies('card_006', 1);
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    useGameStore.setState((state) => ({
+      cards: { ...state.cards, playerDeck: [] },
+    }));
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should render every card in the database', () => {
+    render(<DeckBuilderPanel />);
+
+    expect(screen.getByTestId('deck-builder-panel')).toBeDefined();
+    expect(screen.getByTestId('deck-card-card_001')).toBeDefined();
+    expect(screen.getByTestId('deck-card-card_010')).toBeDefined();
+  });
+
+  it('should offer card pack cards from the store', () => {
+    const { cardDatabase } = useGameStore.getState();
+    const packCard = { ...cardDatabase.cards[0], id: 'frost_001', name: 'Frost Bite' };
+    useGameStore.setState({ cardDatabase: { ...cardDatabase, cards: [...cardDatabase.cards, packCard] } });
+
+    render(<DeckBuilderPanel />);
+
+    expect(screen.getByTestId('deck-card-frost_001')).toBeDefined();
+    useGameStore.setState({ cardDatabase });
+  });
+
+  it('should show validation errors for an empty deck', () => {
+    render(<DeckBuilderPanel />);
+
+    expect(screen.getByTestId('deck-errors').textContent).toContain('minimum is 20');
+    expect((screen.getByTestId('use-deck-button') as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('should add and remove cards', () => {
+    render(<DeckBuilderPanel />);
+
+    addCopies('card_001', 2);
+    expect(screen.getByTestId('card-count-card_001').textContent).toBe('2');
+
+    fireEvent.click(screen.getByTestId('remove-card-card_001'));
+    expect(screen.getByTestId('card-count-card_001').textContent).toBe('1');
+  });
+
+  it('should disable adding beyond the rarity limit', () => {
+    render(<DeckBuilderPanel />);
+
+    addCopies('card_010', 1);
+
+    expect((screen.getByTestId('add-card-card_010') as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('should feed a valid deck to the game store', () => {
+    const onDeckSelected = vi.fn();
+    render(<DeckBuilderPanel onDeckSelected={onDeckSelected} />);
+
+    buildValidDeck();
+    fireEvent.click(screen.getByTestId('use-deck-button'));
+
+    expect(useGameStore.getState().cards.playerDeck).toHaveLength(20);
+    expect(onDeckSelected).toHaveBeenCalledTimes(1);
+  });
+
+  it('should size decks to the rule set of the next match', () => {
+    useGameStore.getState().setRuleSet(RULE_SETS.quick);
+    render(<DeckBuilderPanel />);
+
+    expect(screen.getByTestId('deck-errors').textContent).toContain(`minimum is ${RULE_SETS.quick.deckSize}`);
+
+    useGameStore.getState().setRuleSet(DEFAULT_RULE_SET);
+  });
+
+  it('should save the owned collection', () => {
+    const persistence = new LocalStorageDeckPersistence();
+    render(<DeckBuilderPanel persistence={persistence} />);
+
+    expect(persistence.loadCollection()?.card_001).toBeGreaterThan(0);
+  });
+
+  it('should save named decks and remember the active deck', () => {
+    const persistence = new LocalStorageDeckPersistence();
+    render(<DeckBuilderPanel persistence={persistence} />);
+
+    fireEvent.change(screen.getByTestId('deck-name-input'), { target: { value: 'Aggro' } });
+    buildValidDeck();
+    fireEvent.click(screen.getByTestId('use-deck-button'));
+
+    const decks = persistence.loadDecks();
+    expect(decks).toHaveLength(1);
+    expect(decks[0].name).toBe('Aggro');
+    expect(persistence.getActiveDeckId()).toBe(decks[0].id);
+  });
+});
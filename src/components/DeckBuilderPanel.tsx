@@ -0,0 +1,265 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useGameStore } from '@/stores/gameStore';
+import type { CardDatabase } from '@/data/cardSchema';
+import type { Deck, DeckRules } from '@/systems/DeckBuilder';
+import {
+  addCardToDeck,
+  buildMatchDeck,
+  canAddCard,
+  countCards,
+  createEmptyDeck,
+  createStarterCollection,
+  getDeckRules,
+  removeCardFromDeck,
+  validateDeck,
+} from '@/systems/DeckBuilder';
+import type { DeckPersistence } from '@/systems/DeckPersistence';
+import { LocalStorageDeckPersistence } from '@/systems/DeckPersistence';
+
+export interface DeckBuilderPanelProps {
+  database?: CardDatabase; // Defaults to the store's, card packs included
+  persistence?: DeckPersistence;
+  rules?: DeckRules; // Defaults to the limits of the store's rule set
+  onDeckSelected?: (deck: Deck) => void;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px',
+  borderRadius: '4px',
+  border: '1px solid #444',
+  backgroundColor: '#222',
+  color: '#fff',
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  width: '28px',
+  height: '28px',
+  borderRadius: '4px',
+  border: '1px solid #444',
+  backgroundColor: '#333',
+  color: '#fff',
+  cursor: 'pointer',
+};
+
+/**
+ * DeckBuilderPanel - Build, save and pick a named deck from the owned collection
+ * Picking a valid deck feeds it to the game store as the player's deck
+ */
+export const DeckBuilderPanel: React.FC<DeckBuilderPanelProps> = ({
+  database,
+  persistence,
+  rules: customRules,
+  onDeckSelected,
+  className = '',
+  style = {},
+}) => {
+  const setMatchDeck = useGameStore((state) => state.setMatchDeck);
+  const cardDatabase = useGameStore((state) => state.cardDatabase);
+  const deckSize = useGameStore((state) => state.ruleSet.deckSize);
+
+  const db = database ?? cardDatabase;
+  const rules = useMemo(() => customRules ?? getDeckRules(deckSize), [customRules, deckSize]);
+  const storage = useMemo(() => persistence ?? new LocalStorageDeckPersistence(), [persistence]);
+  // Cards the saved collection has not seen yet, such as card pack cards, start with starter copies
+  const collection = useMemo(
+    () => ({ ...createStarterCollection(db, rules), ...storage.loadCollection() }),
+    [storage, db, rules]
+  );
+
+  // Keep the collection, so owned copies carry over between sessions
+  useEffect(() => {
+    storage.saveCollection(collection);
+  }, [storage, collection]);
+
+  const [savedDecks, setSavedDecks] = useState<Deck[]>(() => storage.loadDecks());
+  const [deck, setDeck] = useState<Deck>(() => {
+    const activeId = storage.getActiveDeckId();
+    return savedDecks.find((d) => d.id === activeId) ?? createEmptyDeck('New Deck');
+  });
+
+  const validation = validateDeck(deck, db, rules, collection);
+  const counts = countCards(deck.cardIds);
+
+  const handleSave = () => {
+    storage.saveDeck(deck);
+    setSavedDecks(storage.loadDecks());
+  };
+
+  const handleLoad = (deckId: string) => {
+    const selected = savedDecks.find((d) => d.id === deckId);
+    setDeck(selected ?? createEmptyDeck('New Deck'));
+  };
+
+  const handleUseDeck = () => {
+    if (!validation.valid) return;
+
+    storage.saveDeck(deck);
+    storage.setActiveDeckId(deck.id);
+    setSavedDecks(storage.loadDecks());
+    setMatchDeck(buildMatchDeck(deck, db));
+
+    if (onDeckSelected) {
+      onDeckSelected(deck);
+    }
+  };
+
+  return (
+    <motion.div
+      className={`deck-builder-panel ${className}`}
+      initial={{ opacity: 0, x: -20 }}
+      animate={{ opacity: 1, x: 0 }}
+      style={{
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        padding: '20px',
+        borderRadius: '8px',
+        color: '#fff',
+        minWidth: '320px',
+        ...style,
+      }}
+      data-testid="deck-builder-panel"
+    >
+      <h3 style={{ marginTop: 0, marginBottom: '20px', fontSize: '18px' }}>Deck Builder</h3>
+
+      {/* Saved Decks */}
+      <div style={{ marginBottom: '12px' }}>
+        <label style={{ display: 'block', fontSize: '12px', marginBottom: '4px' }}>
+          Saved Decks
+        </label>
+        <select
+          value={savedDecks.some((d) => d.id === deck.id) ? deck.id : ''}
+          onChange={(e) => handleLoad(e.target.value)}
+          style={inputStyle}
+          data-testid="saved-deck-select"
+        >
+          <option value="">New Deck</option>
+          {savedDecks.map((d) => (
+            <option key={d.id} value={d.id}>
+              {d.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Deck Name */}
+      <div style={{ marginBottom: '16px' }}>
+        <label style={{ display: 'block', fontSize: '12px', marginBottom: '4px' }}>
+          Deck Name
+        </label>
+        <input
+          type="text"
+          value={deck.name}
+          onChange={(e) => setDeck({ ...deck, name: e.target.value })}
+          style={inputStyle}
+          data-testid="deck-name-input"
+        />
+      </div>
+
+      {/* Card Pool */}
+      <div style={{ marginBottom: '16px' }}>
+        <h4 style={{ fontSize: '14px', marginBottom: '12px', color: '#aaa' }}>
+          Cards ({deck.cardIds.length}/{rules.maxSize})
+        </h4>
+
+        {db.cards.map((card) => (
+          <div
+            key={card.id}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              marginBottom: '6px',
+              fontSize: '13px',
+            }}
+            data-testid={`deck-card-${card.id}`}
+          >
+            <button
+              onClick={() => setDeck(removeCardFromDeck(deck, card.id))}
+              disabled={!counts[card.id]}
+              style={smallButtonStyle}
+              aria-label={`Remove ${card.name}`}
+              data-testid={`remove-card-${card.id}`}
+            >
+              −
+            </button>
+            <span style={{ width: '24px', textAlign: 'center' }} data-testid={`card-count-${card.id}`}>
+              {counts[card.id] || 0}
+            </span>
+            <button
+              onClick={() => setDeck(addCardToDeck(deck, card.id))}
+              disabled={!canAddCard(deck, card, rules, collection)}
+              style={smallButtonStyle}
+              aria-label={`Add ${card.name}`}
+              data-testid={`add-card-${card.id}`}
+            >
+              +
+            </button>
+            <span style={{ flex: 1 }}>{card.name}</span>
+            <span style={{ color: '#888' }}>
+              {card.rarity} · owned {collection[card.id] || 0}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Validation */}
+      {!validation.valid && (
+        <ul
+          style={{ margin: '0 0 16px', paddingLeft: '20px', fontSize: '12px', color: '#f44336' }}
+          role="alert"
+          data-testid="deck-errors"
+        >
+          {validation.errors.map((error, index) => (
+            <li key={index}>{error.message}</li>
+          ))}
+        </ul>
+      )}
+
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={handleSave}
+          style={{
+            flex: 1,
+            padding: '12px',
+            borderRadius: '4px',
+            border: '1px solid #444',
+            backgroundColor: '#333',
+            color: '#fff',
+            fontSize: '14px',
+            fontWeight: 'bold',
+            cursor: 'pointer',
+          }}
+          data-testid="save-deck-button"
+        >
+          Save Deck
+        </motion.button>
+
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={handleUseDeck}
+          disabled={!validation.valid}
+          style={{
+            flex: 1,
+            padding: '12px',
+            borderRadius: '4px',
+            border: 'none',
+            backgroundColor: validation.valid ? '#4CAF50' : '#555',
+            color: '#fff',
+            fontSize: '14px',
+            fontWeight: 'bold',
+            cursor: validation.valid ? 'pointer' : 'not-allowed',
+          }}
+          data-testid="use-deck-button"
+        >
+          Use Deck
+        </motion.button>
+      </div>
+    </motion.div>
+  );
+};
@@ -3,6 +3,7 @@ import { render, screen, waitFor } from '@testing-library/react';
 import { GameController } from './GameController';
 import { useGameStore } from '@/stores/gameStore';
 import { SceneManager } from '@/systems/SceneManager';
+import { PassDeviceScene } from '@/scenes/PassDeviceScene';
 
 // Mock systems
 vi.mock('@/systems/SceneManager');
@@ -30,6 +31,7 @@ describe('GameController', () => {
     // Mock SceneManager
     mockSceneManager = {
       setTransitionConfig: vi.fn(),
+      registerScene: vi.fn(),
       transitionTo: vi.fn().mockResolvedValue(undefined),
       dispose: vi.fn(),
     };
@@ -85,6 +87,24 @@ describe('GameController', () => {
       });
     });
 
+    it('should register the given scenes with SceneManager', async () => {
+      const scene = new PassDeviceScene();
+
+      render(
+        <GameController scenes={[scene]}>
+          <div>Content</div>
+        </GameController>
+      );
+
+      // Initialization takes over a second
+      await waitFor(
+        () => {
+          expect(mockSceneManager.registerScene).toHaveBeenCalledWith(scene);
+        },
+        { timeout: 2000 }
+      );
+    });
+
     it('should start game loop on mount', async () => {
       render(
         <GameController>
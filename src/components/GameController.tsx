@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { SceneManager } from '@/systems/SceneManager';
+import type { Scene } from '@/systems/SceneManager';
 import { useGameStore } from '@/stores/gameStore';
 import { AssetLoader } from '@/systems/AssetLoader';
 import { LoadingScreen } from '@/components/LoadingScreen';
@@ -7,6 +8,7 @@ import { LoadingScreen } from '@/components/LoadingScreen';
 export interface GameControllerProps {
   children: React.ReactNode;
   initialScene?: string;
+  scenes?: Scene[]; // Registered with the SceneManager on initialization
   onSceneChange?: (sceneName: string) => void;
 }
 
@@ -17,6 +19,7 @@ export interface GameControllerProps {
 export const GameController: React.FC<GameControllerProps> = ({
   children,
   initialScene = 'mainMenu',
+  scenes,
   onSceneChange,
 }) => {
   const sceneManagerRef = useRef<SceneManager | null>(null);
@@ -65,6 +68,7 @@ export const GameController: React.FC<GameControllerProps> = ({
           duration: 0.3,
           containerSelector: '#scene-container',
         });
+        scenes?.forEach((scene) => sceneManager.registerScene(scene));
         sceneManagerRef.current = sceneManager;
 
         // Start game loop
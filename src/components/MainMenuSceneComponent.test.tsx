@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { MainMenuSceneComponent } from './MainMenuSceneComponent';
+import { useGameStore } from '@/stores/gameStore';
+import { RULE_SETS } from '@/systems/RuleSet';
+import { startLiveMatch } from '@/systems/LiveMatch';
+import { serializeRecording } from '@/systems/MatchReplay';
 
 // Mock framer-motion
 vi.mock('framer-motion', () => ({
@@ -16,6 +20,7 @@ describe('MainMenuSceneComponent', () => {
   beforeEach(() => {
     // Clean up window global
     delete (window as any).__sceneTransition;
+    localStorage.clear();
   });
 
   describe('Rendering', () => {
@@ -84,6 +89,37 @@ describe('MainMenuSceneComponent', () => {
     });
   });
 
+  describe('Local 2 Player Button', () => {
+    it('should start a hot-seat match', () => {
+      const onStartHotSeat = vi.fn();
+      render(<MainMenuSceneComponent onStartHotSeat={onStartHotSeat} />);
+
+      fireEvent.click(screen.getByTestId('hot-seat-button'));
+
+      expect(onStartHotSeat).toHaveBeenCalledTimes(1);
+      expect(useGameStore.getState().hotSeat.enabled).toBe(true);
+    });
+
+    it('should switch back to the AI when starting a battle', () => {
+      useGameStore.getState().setHotSeat(true);
+      render(<MainMenuSceneComponent onStartBattle={vi.fn()} />);
+
+      fireEvent.click(screen.getByTestId('start-battle-button'));
+
+      expect(useGameStore.getState().hotSeat.enabled).toBe(false);
+    });
+
+    it('should call scene transition when clicked without callback', () => {
+      const mockTransition = vi.fn();
+      (window as any).__sceneTransition = mockTransition;
+
+      render(<MainMenuSceneComponent />);
+      fireEvent.click(screen.getByTestId('hot-seat-button'));
+
+      expect(mockTransition).toHaveBeenCalledWith('combat');
+    });
+  });
+
   describe('Settings Button', () => {
     it('should call onSettings when clicked', () => {
       const onSettings = vi.fn();
@@ -207,6 +243,138 @@ describe('MainMenuSceneComponent', () => {
       expect(callback).toHaveBeenCalled();
     });
 
+    it('should accept custom onDecks callback', () => {
+      const callback = vi.fn();
+      render(<MainMenuSceneComponent onDecks={callback} />);
+      
+      fireEvent.click(screen.getByTestId('decks-button'));
+      expect(callback).toHaveBeenCalled();
+    });
+
+    it('should store the selected AI difficulty in settings', () => {
+      render(<MainMenuSceneComponent />);
+      
+      const select = screen.getByTestId('ai-difficulty-select') as HTMLSelectElement;
+      expect(select.value).toBe('easy');
+      
+      fireEvent.change(select, { target: { value: 'hard' } });
+      
+      expect(select.value).toBe('hard');
+      expect(JSON.parse(localStorage.getItem('bigbear-game-settings')!).aiDifficulty).toBe('hard');
+    });
+
+    it('should apply the selected AI difficulty when starting a battle', () => {
+      render(<MainMenuSceneComponent onStartBattle={vi.fn()} />);
+      
+      fireEvent.change(screen.getByTestId('ai-difficulty-select'), { target: { value: 'medium' } });
+      fireEvent.click(screen.getByTestId('start-battle-button'));
+      
+      expect(useGameStore.getState().aiDifficulty).toBe('medium');
+      expect(useGameStore.getState().liveMatch?.getDifficulty()).toBe('medium');
+      
+      useGameStore.getState().resetGameState();
+      useGameStore.getState().setAIDifficulty('easy');
+    });
+
+    it('should store the selected rule set and describe it', () => {
+      render(<MainMenuSceneComponent />);
+      
+      const select = screen.getByTestId('rule-set-select') as HTMLSelectElement;
+      expect(select.value).toBe('standard');
+      
+      fireEvent.change(select, { target: { value: 'quick' } });
+      
+      expect(JSON.parse(localStorage.getItem('bigbear-game-settings')!).ruleSet).toBe('quick');
+      expect(screen.getByTestId('rule-set-description')).toHaveTextContent(RULE_SETS.quick.description);
+    });
+    
+    it('should apply the selected rule set when starting a battle', () => {
+      render(<MainMenuSceneComponent onStartBattle={vi.fn()} />);
+      
+      fireEvent.change(screen.getByTestId('rule-set-select'), { target: { value: 'marathon' } });
+      fireEvent.click(screen.getByTestId('start-battle-button'));
+      
+      const state = useGameStore.getState();
+      expect(state.ruleSet.id).toBe('marathon');
+      expect(state.combat.playerHP).toBe(RULE_SETS.marathon.startingHP);
+      expect(state.handRules.rules).toEqual(RULE_SETS.marathon.hand);
+      
+      useGameStore.getState().setRuleSet(RULE_SETS.standard);
+    });
+    
+    it('should apply the selected turn timer when starting a battle', () => {
+      render(<MainMenuSceneComponent onStartBattle={vi.fn()} />);
+      
+      const select = screen.getByTestId('turn-timer-select') as HTMLSelectElement;
+      expect(select.value).toBe('0');
+      
+      fireEvent.change(select, { target: { value: '30' } });
+      fireEvent.click(screen.getByTestId('start-battle-button'));
+      
+      expect(JSON.parse(localStorage.getItem('bigbear-game-settings')!).turnTimerSeconds).toBe(30);
+      expect(useGameStore.getState().turnTimer.duration).toBe(30);
+      
+      useGameStore.getState().setTurnTimer(0);
+    });
+    
+    it('should show continue match when a match is saved', () => {
+      const savedMatch = { version: 1 } as any;
+      const onContinueMatch = vi.fn();
+      const matchPersistence = {
+        saveMatch: vi.fn(),
+        loadMatch: vi.fn(() => savedMatch),
+        clearMatch: vi.fn(),
+        hasSavedMatch: vi.fn(() => true),
+      };
+      render(
+        <MainMenuSceneComponent
+          matchPersistence={matchPersistence}
+          onContinueMatch={onContinueMatch}
+        />
+      );
+      
+      fireEvent.click(screen.getByTestId('continue-match-button'));
+      expect(onContinueMatch).toHaveBeenCalledWith(savedMatch);
+    });
+
+    it('should hide continue match without a saved match', () => {
+      render(<MainMenuSceneComponent />);
+      
+      expect(screen.queryByTestId('continue-match-button')).not.toBeInTheDocument();
+    });
+
+    it('should watch a replay loaded from a file', async () => {
+      const match = startLiveMatch({ seed: 3 });
+      const recording = match.getRecording()!;
+      match.stop();
+      const onWatchReplay = vi.fn();
+      render(<MainMenuSceneComponent onWatchReplay={onWatchReplay} />);
+      
+      const file = new File([serializeRecording(recording)], 'replay.json', { type: 'application/json' });
+      fireEvent.change(screen.getByTestId('load-replay-input'), { target: { files: [file] } });
+      
+      await waitFor(() => expect(onWatchReplay).toHaveBeenCalledWith(recording));
+    });
+    
+    it('should reject files that are not replays', async () => {
+      const onWatchReplay = vi.fn();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      render(<MainMenuSceneComponent onWatchReplay={onWatchReplay} />);
+      
+      const file = new File(['{"version": 1}'], 'replay.json', { type: 'application/json' });
+      fireEvent.change(screen.getByTestId('load-replay-input'), { target: { files: [file] } });
+      
+      expect(await screen.findByTestId('load-replay-error')).toHaveTextContent('not a valid replay');
+      expect(onWatchReplay).not.toHaveBeenCalled();
+      vi.restoreAllMocks();
+    });
+    
+    it('should only offer loading a replay when it can be watched', () => {
+      render(<MainMenuSceneComponent />);
+      
+      expect(screen.queryByTestId('load-replay-button')).not.toBeInTheDocument();
+    });
+    
     it('should work without any props', () => {
       expect(() => render(<MainMenuSceneComponent />)).not.toThrow();
     });
@@ -1,21 +1,85 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useGameStore } from '@/stores/gameStore';
+import { useSettings } from '@/hooks/useSettings';
+import type { AIDifficulty } from '@/systems/AIOpponent';
+import { AI_DIFFICULTIES } from '@/systems/AIOpponent';
+import type { RuleSetId } from '@/systems/RuleSet';
+import { RULE_SETS, RULE_SET_IDS, getRuleSet } from '@/systems/RuleSet';
+import { TURN_TIMER_OPTIONS } from '@/systems/TurnTimer';
+import type { MatchPersistence, SavedMatch } from '@/systems/MatchPersistence';
+import type { MatchRecording } from '@/systems/MatchReplay';
+import { parseRecording } from '@/systems/MatchReplay';
+import { getDeckRules } from '@/systems/DeckBuilder';
+import { DeckBuilderPanel } from './DeckBuilderPanel';
+
+const DIFFICULTY_LABELS: Record<AIDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
 
 export interface MainMenuSceneComponentProps {
   onStartBattle?: () => void;
+  onStartHotSeat?: () => void;
   onSettings?: () => void;
+  onDecks?: () => void;
+  onContinueMatch?: (match: SavedMatch) => void;
+  matchPersistence?: MatchPersistence;
+  onWatchReplay?: (recording: MatchRecording) => void; // Offers loading an exported replay
 }
 
 /**
  * MainMenuSceneComponent - React wrapper for MainMenuScene
- * Displays title, start battle button, settings button, and avatar preview
+ * Displays title, continue match button (when a match is saved), start battle
+ * and local two-player buttons, settings button, AI difficulty and rule set
+ * pickers, loading an exported replay, and avatar preview
  */
 export const MainMenuSceneComponent: React.FC<MainMenuSceneComponentProps> = ({
   onStartBattle,
+  onStartHotSeat,
   onSettings,
+  onDecks,
+  onContinueMatch,
+  matchPersistence,
+  onWatchReplay,
 }) => {
+  const [showDeckBuilder, setShowDeckBuilder] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const { settings, updateSetting } = useSettings();
+  // Decks are built for the rule set the next battle is played under
+  const deckRules = useMemo(() => getDeckRules(getRuleSet(settings.ruleSet).deckSize), [settings.ruleSet]);
+  const resumeMatch = useGameStore((state) => state.resumeMatch);
+  const setHotSeat = useGameStore((state) => state.setHotSeat);
+  const setRuleSet = useGameStore((state) => state.setRuleSet);
+  const setAIDifficulty = useGameStore((state) => state.setAIDifficulty);
+  const setTurnTimer = useGameStore((state) => state.setTurnTimer);
+  const startMatch = useGameStore((state) => state.startMatch);
+
+  const storeMatchPersistence = useGameStore((state) => state.matchPersistence);
+  const savedMatchStorage = matchPersistence ?? storeMatchPersistence;
+  const [savedMatch] = useState(() => savedMatchStorage.loadMatch());
+
+  const handleContinueMatch = () => {
+    if (!savedMatch) return;
+
+    if (onContinueMatch) {
+      onContinueMatch(savedMatch);
+    } else {
+      // Default: restore the match into the store and go to combat
+      resumeMatch(savedMatch);
+      if ((window as any).__sceneTransition) {
+        (window as any).__sceneTransition('combat');
+      }
+    }
+  };
+
   const handleStartBattle = () => {
+    setHotSeat(false);
+    setRuleSet(getRuleSet(settings.ruleSet));
+    setAIDifficulty(settings.aiDifficulty);
+    setTurnTimer(settings.turnTimerSeconds);
+    startMatch();
     if (onStartBattle) {
       onStartBattle();
     } else {
@@ -26,6 +90,21 @@ export const MainMenuSceneComponent: React.FC<MainMenuSceneComponentProps> = ({
     }
   };
 
+  const handleStartHotSeat = () => {
+    setHotSeat(true);
+    setRuleSet(getRuleSet(settings.ruleSet));
+    setTurnTimer(settings.turnTimerSeconds);
+    startMatch();
+    if (onStartHotSeat) {
+      onStartHotSeat();
+    } else {
+      // Default: transition to combat scene
+      if ((window as any).__sceneTransition) {
+        (window as any).__sceneTransition('combat');
+      }
+    }
+  };
+
   const handleSettings = () => {
     if (onSettings) {
       onSettings();
@@ -35,6 +114,30 @@ export const MainMenuSceneComponent: React.FC<MainMenuSceneComponentProps> = ({
     }
   };
 
+  const handleLoadReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onWatchReplay) return;
+
+    try {
+      const recording = parseRecording(await file.text());
+      setReplayError(null);
+      onWatchReplay(recording);
+    } catch (error) {
+      console.warn('Failed to load replay:', error);
+      setReplayError('That file is not a valid replay.');
+    }
+  };
+
+  const handleDecks = () => {
+    if (onDecks) {
+      onDecks();
+    } else {
+      // Default: toggle the inline deck builder
+      setShowDeckBuilder((prev) => !prev);
+    }
+  };
+
   return (
     <div
       style={{
@@ -96,6 +199,28 @@ export const MainMenuSceneComponent: React.FC<MainMenuSceneComponentProps> = ({
           maxWidth: '300px',
         }}
       >
+        {/* Continue Match Button */}
+        {savedMatch && (
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={handleContinueMatch}
+            style={{
+              padding: '1rem 2rem',
+              fontSize: '1.2rem',
+              fontWeight: 'bold',
+              color: '#fff',
+              background: 'rgba(102, 126, 234, 0.25)',
+              border: '2px solid #667eea',
+              borderRadius: '8px',
+              cursor: 'pointer',
+            }}
+            data-testid="continue-match-button"
+          >
+            Continue Match
+          </motion.button>
+        )}
+
         {/* Start Battle Button */}
         <motion.button
           whileHover={{ scale: 1.05 }}
@@ -124,6 +249,28 @@ export const MainMenuSceneComponent: React.FC<MainMenuSceneComponentProps> = ({
           Start Battle
         </motion.button>
 
+        {/* Local Two-Player Button */}
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={handleStartHotSeat}
+          style={{
+            padding: '1rem 2rem',
+            fontSize: '1.2rem',
+            fontWeight: 'bold',
+            color: '#fff',
+            background: 'rgba(255, 255, 255, 0.1)',
+            border: '2px solid rgba(255, 255, 255, 0.2)',
+            borderRadius: '8px',
+            cursor: 'pointer',
+            backdropFilter: 'blur(10px)',
+            transition: 'all 0.3s ease',
+          }}
+          data-testid="hot-seat-button"
+        >
+          Local 2 Player
+        </motion.button>
+
         {/* Settings Button */}
         <motion.button
           whileHover={{ scale: 1.05 }}
@@ -153,8 +300,176 @@ export const MainMenuSceneComponent: React.FC<MainMenuSceneComponentProps> = ({
         >
           Settings
         </motion.button>
+
+        {/* Decks Button */}
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={handleDecks}
+          style={{
+            padding: '1rem 2rem',
+            fontSize: '1.2rem',
+            fontWeight: 'bold',
+            color: '#fff',
+            background: 'rgba(255, 255, 255, 0.1)',
+            border: '2px solid rgba(255, 255, 255, 0.2)',
+            borderRadius: '8px',
+            cursor: 'pointer',
+            backdropFilter: 'blur(10px)',
+            transition: 'all 0.3s ease',
+          }}
+          aria-expanded={showDeckBuilder}
+          data-testid="decks-button"
+        >
+          Decks
+        </motion.button>
+
+        {/* Load Replay */}
+        {onWatchReplay && (
+          <label
+            style={{
+              padding: '0.75rem 2rem',
+              fontSize: '1rem',
+              textAlign: 'center',
+              color: '#a0a0a0',
+              textDecoration: 'underline',
+              cursor: 'pointer',
+            }}
+            data-testid="load-replay-button"
+          >
+            Load Replay
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleLoadReplay}
+              style={{ display: 'none' }}
+              data-testid="load-replay-input"
+            />
+          </label>
+        )}
+        {replayError && (
+          <div role="alert" style={{ color: '#f44336', textAlign: 'center' }} data-testid="load-replay-error">
+            {replayError}
+          </div>
+        )}
+
+        {/* AI Difficulty */}
+        <label
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '1rem',
+            fontSize: '1rem',
+            color: '#a0a0a0',
+          }}
+        >
+          AI Difficulty
+          <select
+            value={settings.aiDifficulty}
+            onChange={(e) => updateSetting('aiDifficulty', e.target.value as AIDifficulty)}
+            style={{
+              padding: '0.5rem',
+              fontSize: '1rem',
+              color: '#fff',
+              background: 'rgba(255, 255, 255, 0.1)',
+              border: '2px solid rgba(255, 255, 255, 0.2)',
+              borderRadius: '8px',
+            }}
+            data-testid="ai-difficulty-select"
+          >
+            {AI_DIFFICULTIES.map((difficulty) => (
+              <option key={difficulty} value={difficulty}>
+                {DIFFICULTY_LABELS[difficulty]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* Rule Set */}
+        <label
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '1rem',
+            fontSize: '1rem',
+            color: '#a0a0a0',
+          }}
+        >
+          Rules
+          <select
+            value={settings.ruleSet}
+            onChange={(e) => updateSetting('ruleSet', e.target.value as RuleSetId)}
+            style={{
+              padding: '0.5rem',
+              fontSize: '1rem',
+              color: '#fff',
+              background: 'rgba(255, 255, 255, 0.1)',
+              border: '2px solid rgba(255, 255, 255, 0.2)',
+              borderRadius: '8px',
+            }}
+            aria-describedby="rule-set-description"
+            data-testid="rule-set-select"
+          >
+            {RULE_SET_IDS.map((id) => (
+              <option key={id} value={id}>
+                {RULE_SETS[id].name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <p
+          id="rule-set-description"
+          style={{ margin: 0, fontSize: '0.85rem', color: '#888', textAlign: 'center' }}
+          data-testid="rule-set-description"
+        >
+          {getRuleSet(settings.ruleSet).description}
+        </p>
+
+        {/* Turn Timer */}
+        <label
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '1rem',
+            fontSize: '1rem',
+            color: '#a0a0a0',
+          }}
+        >
+          Turn Timer
+          <select
+            value={settings.turnTimerSeconds}
+            onChange={(e) => updateSetting('turnTimerSeconds', Number(e.target.value))}
+            style={{
+              padding: '0.5rem',
+              fontSize: '1rem',
+              color: '#fff',
+              background: 'rgba(255, 255, 255, 0.1)',
+              border: '2px solid rgba(255, 255, 255, 0.2)',
+              borderRadius: '8px',
+            }}
+            data-testid="turn-timer-select"
+          >
+            {TURN_TIMER_OPTIONS.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds === 0 ? 'Off' : `${seconds} seconds`}
+              </option>
+            ))}
+          </select>
+        </label>
       </motion.div>
 
+      {/* Deck Builder */}
+      {showDeckBuilder && (
+        <DeckBuilderPanel
+          rules={deckRules}
+          onDeckSelected={() => setShowDeckBuilder(false)}
+          style={{ marginTop: '2rem', maxHeight: '60vh', overflowY: 'auto' }}
+        />
+      )}
+
       {/* Avatar Preview Placeholder */}
       <motion.div
         initial={{ opacity: 0 }}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { MatchStatsPanel } from './MatchStatsPanel';
+import type { MatchStats } from '../systems/MatchStats';
+
+const stats: MatchStats = {
+  player: { damageDealt: 42, damageTaken: 17, cardsPlayed: 6, highestHit: 12, turns: 7 },
+  opponent: { damageDealt: 17, damageTaken: 42, cardsPlayed: 5, highestHit: 6, turns: 6 },
+  rounds: 6,
+  durationMs: 95000,
+  hpTimeline: [
+    { seq: 0, round: 0, player: 50, opponent: 50 },
+    { seq: 4, round: 1, player: 45, opponent: 38 },
+    { seq: 9, round: 2, player: 33, opponent: 8 },
+  ],
+  winner: 'player',
+};
+
+describe('MatchStatsPanel', () => {
+  it('should show each stat for both sides', () => {
+    render(<MatchStatsPanel stats={stats} />);
+
+    const dealt = screen.getByTestId('match-stats-damageDealt');
+    expect(within(dealt).getByText('Damage dealt')).toBeInTheDocument();
+    expect(within(dealt).getByText('42')).toBeInTheDocument();
+    expect(within(dealt).getByText('17')).toBeInTheDocument();
+    expect(screen.getByTestId('match-stats-highestHit')).toHaveTextContent('Highest hit126');
+    expect(screen.getByTestId('match-stats-turns')).toHaveTextContent('Turns taken76');
+  });
+
+  it('should show rounds and match length', () => {
+    render(<MatchStatsPanel stats={stats} />);
+
+    expect(screen.getByTestId('match-stats-summary')).toHaveTextContent('6 rounds · 1:35');
+  });
+
+  it('should head the columns with the given names', () => {
+    render(<MatchStatsPanel stats={stats} names={{ player: 'Player 1', opponent: 'Player 2' }} />);
+
+    expect(screen.getByRole('columnheader', { name: 'Player 1' })).toBeInTheDocument();
+    expect(screen.getByRole('columnheader', { name: 'Player 2' })).toBeInTheDocument();
+  });
+
+  it('should chart HP over time for both sides', () => {
+    render(<MatchStatsPanel stats={stats} />);
+
+    const chart = screen.getByTestId('hp-chart');
+    expect(chart).toHaveAttribute('aria-label', 'HP over time: Player 50 to 33 HP, Opponent 50 to 8 HP');
+    expect(screen.getByTestId('hp-chart-player')).toHaveAttribute('points', '0.0,0.0 150.0,12.0 300.0,40.8');
+    expect(screen.getByTestId('hp-chart-opponent').getAttribute('points')?.split(' ')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,128 @@
+import React from 'react';
+import type { CombatSide } from '@/types';
+import type { CombatLogNames } from '@/systems/CombatLog';
+import { DEFAULT_LOG_NAMES } from '@/systems/CombatLog';
+import type { HPSample, MatchStats, SideStats } from '@/systems/MatchStats';
+import { formatDuration } from '@/systems/MatchStats';
+
+export interface MatchStatsPanelProps {
+  stats: MatchStats;
+  names?: CombatLogNames;
+  className?: string;
+}
+
+const SIDE_COLORS: Record<CombatSide, string> = {
+  player: '#4caf50',
+  opponent: '#f44336',
+};
+
+const STAT_ROWS: Array<{ key: keyof SideStats; label: string }> = [
+  { key: 'damageDealt', label: 'Damage dealt' },
+  { key: 'damageTaken', label: 'Damage taken' },
+  { key: 'cardsPlayed', label: 'Cards played' },
+  { key: 'highestHit', label: 'Highest hit' },
+  { key: 'turns', label: 'Turns taken' },
+];
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 12px',
+  textAlign: 'right',
+};
+
+/**
+ * HP of both sides over the match, one point per sample
+ */
+const HPChart: React.FC<{ timeline: HPSample[]; names: CombatLogNames }> = ({ timeline, names }) => {
+  const maxHP = Math.max(1, ...timeline.flatMap((sample) => [sample.player, sample.opponent]));
+  const step = timeline.length > 1 ? CHART_WIDTH / (timeline.length - 1) : 0;
+
+  const points = (side: CombatSide) =>
+    timeline
+      .map((sample, i) => {
+        const y = CHART_HEIGHT - (Math.max(0, sample[side]) / maxHP) * CHART_HEIGHT;
+        return `${(i * step).toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+
+  const summary = (['player', 'opponent'] as CombatSide[])
+    .map((side) => `${names[side]} ${timeline[0][side]} to ${timeline[timeline.length - 1][side]} HP`)
+    .join(', ');
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      width="100%"
+      style={{ maxWidth: `${CHART_WIDTH}px`, backgroundColor: 'rgba(0, 0, 0, 0.3)', borderRadius: '4px' }}
+      role="img"
+      aria-label={`HP over time: ${summary}`}
+      data-testid="hp-chart"
+    >
+      {(['player', 'opponent'] as CombatSide[]).map((side) => (
+        <polyline
+          key={side}
+          points={points(side)}
+          fill="none"
+          stroke={SIDE_COLORS[side]}
+          strokeWidth={2}
+          data-testid={`hp-chart-${side}`}
+        />
+      ))}
+    </svg>
+  );
+};
+
+/**
+ * MatchStatsPanel - Post-match summary
+ * Shows per-side totals, match length and an HP-over-time chart
+ */
+export const MatchStatsPanel: React.FC<MatchStatsPanelProps> = ({
+  stats,
+  names = DEFAULT_LOG_NAMES,
+  className = '',
+}) => {
+  return (
+    <section
+      className={`match-stats ${className}`}
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        gap: '0.75rem',
+        marginBottom: '2rem',
+        fontSize: '0.95rem',
+      }}
+      aria-label="Match statistics"
+      data-testid="match-stats"
+    >
+      <table style={{ borderCollapse: 'collapse' }}>
+        <thead>
+          <tr>
+            <th />
+            <th style={{ ...cellStyle, color: SIDE_COLORS.player }}>{names.player}</th>
+            <th style={{ ...cellStyle, color: SIDE_COLORS.opponent }}>{names.opponent}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {STAT_ROWS.map(({ key, label }) => (
+            <tr key={key} data-testid={`match-stats-${key}`}>
+              <th scope="row" style={{ ...cellStyle, textAlign: 'left', color: '#a0a0a0', fontWeight: 'normal' }}>
+                {label}
+              </th>
+              <td style={cellStyle}>{stats.player[key]}</td>
+              <td style={cellStyle}>{stats.opponent[key]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div style={{ color: '#a0a0a0' }} data-testid="match-stats-summary">
+        {stats.rounds} {stats.rounds === 1 ? 'round' : 'rounds'} · {formatDuration(stats.durationMs)}
+      </div>
+
+      <HPChart timeline={stats.hpTimeline} names={names} />
+    </section>
+  );
+};
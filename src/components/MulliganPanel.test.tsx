@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MulliganPanel } from './MulliganPanel';
+import type { Card } from '@/types';
+
+// Mock framer-motion
+vi.mock('framer-motion', () => ({
+  motion: {
+    div: ({ children, ...props }: any) => <div {...props}>{children}</div>,
+    button: ({ children, ...props }: any) => <button {...props}>{children}</button>,
+  },
+}));
+
+describe('MulliganPanel', () => {
+  const hand: Card[] = ['a', 'b', 'c'].map((id) => ({
+    id,
+    name: `Card ${id}`,
+    type: 'attack',
+    rarity: 'common',
+    stats: { attack: 5, defense: 2, speed: 8 },
+    artwork: '/test.png',
+  }));
+
+  it('should show the opening hand as a modal dialog', () => {
+    render(<MulliganPanel hand={hand} onConfirm={vi.fn()} />);
+
+    expect(screen.getByRole('dialog')).toHaveAttribute('aria-modal', 'true');
+    expect(screen.getAllByTestId('card-component')).toHaveLength(3);
+  });
+
+  it('should keep the hand when nothing is selected', () => {
+    const onConfirm = vi.fn();
+    render(<MulliganPanel hand={hand} onConfirm={onConfirm} />);
+
+    expect(screen.getByTestId('mulligan-confirm-button')).toHaveTextContent('Keep Hand');
+    fireEvent.click(screen.getByTestId('mulligan-confirm-button'));
+
+    expect(onConfirm).toHaveBeenCalledWith([]);
+  });
+
+  it('should replace the selected cards', () => {
+    const onConfirm = vi.fn();
+    render(<MulliganPanel hand={hand} onConfirm={onConfirm} />);
+
+    const cards = screen.getAllByTestId('card-component');
+    fireEvent.click(cards[0]);
+    fireEvent.click(cards[2]);
+    fireEvent.click(cards[0]);
+    expect(screen.getByTestId('mulligan-confirm-button')).toHaveTextContent('Replace 1 Card');
+
+    fireEvent.click(screen.getByTestId('mulligan-confirm-button'));
+    expect(onConfirm).toHaveBeenCalledWith(['c']);
+  });
+});
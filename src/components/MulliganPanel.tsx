@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import type { Card } from '@/types';
+import { CardComponent } from './CardComponent';
+
+export interface MulliganPanelProps {
+  hand: Card[];
+  onConfirm: (cardIds: string[]) => void; // Empty keeps the hand
+}
+
+/**
+ * MulliganPanel - Opening-hand mulligan before the first turn
+ * Selected cards go back into the deck and are replaced with new draws
+ */
+export const MulliganPanel: React.FC<MulliganPanelProps> = ({ hand, onConfirm }) => {
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const toggle = (index: number) => {
+    setSelected((current) =>
+      current.includes(index) ? current.filter((i) => i !== index) : [...current, index]
+    );
+  };
+
+  const handleConfirm = () => {
+    onConfirm(selected.map((index) => hand[index].id));
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        inset: 0,
+        zIndex: 20,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '1.5rem',
+        background: 'rgba(10, 10, 30, 0.92)',
+        color: '#fff',
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+      }}
+      data-testid="mulligan-panel"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="mulligan-title"
+    >
+      <h2 id="mulligan-title" style={{ margin: 0, fontSize: '1.8rem' }}>
+        Opening Hand
+      </h2>
+      <p style={{ margin: 0, color: '#a0a0a0', textAlign: 'center' }}>
+        Select the cards to shuffle back and replace, or keep your hand.
+      </p>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '12px' }}>
+        {hand.map((card, index) => (
+          <CardComponent
+            key={`${card.id}-${index}`}
+            card={card}
+            isSelected={selected.includes(index)}
+            onSelect={() => toggle(index)}
+          />
+        ))}
+      </div>
+
+      <motion.button
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        onClick={handleConfirm}
+        style={{
+          padding: '1rem 2.5rem',
+          fontSize: '1.2rem',
+          fontWeight: 'bold',
+          color: '#fff',
+          background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+          border: 'none',
+          borderRadius: '8px',
+          cursor: 'pointer',
+        }}
+        data-testid="mulligan-confirm-button"
+      >
+        {selected.length === 0 ? 'Keep Hand' : `Replace ${selected.length} ${selected.length === 1 ? 'Card' : 'Cards'}`}
+      </motion.button>
+    </div>
+  );
+};
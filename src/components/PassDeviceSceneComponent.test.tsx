@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PassDeviceSceneComponent } from './PassDeviceSceneComponent';
+
+// Mock framer-motion
+vi.mock('framer-motion', () => ({
+  motion: {
+    h1: ({ children, ...props }: any) => <h1 {...props}>{children}</h1>,
+    button: ({ children, ...props }: any) => <button {...props}>{children}</button>,
+  },
+}));
+
+describe('PassDeviceSceneComponent', () => {
+  it('should name the next player', () => {
+    render(<PassDeviceSceneComponent nextPlayer="opponent" onReady={vi.fn()} />);
+
+    expect(screen.getByText('Pass the device to Player 2')).toBeInTheDocument();
+  });
+
+  it('should be announced as a modal dialog', () => {
+    render(<PassDeviceSceneComponent nextPlayer="player" onReady={vi.fn()} />);
+
+    const dialog = screen.getByRole('dialog');
+    expect(dialog).toHaveAttribute('aria-modal', 'true');
+    expect(dialog).toHaveAttribute('aria-label', 'Pass the device to Player 1');
+  });
+
+  it('should call onReady when the ready button is clicked', () => {
+    const onReady = vi.fn();
+    render(<PassDeviceSceneComponent nextPlayer="player" onReady={onReady} />);
+
+    fireEvent.click(screen.getByTestId('pass-device-ready-button'));
+
+    expect(onReady).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,81 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import type { CombatSide } from '@/types';
+import { HOT_SEAT_PLAYERS } from '@/scenes/PassDeviceScene';
+
+export interface PassDeviceSceneComponentProps {
+  nextPlayer: CombatSide;
+  onReady: () => void;
+}
+
+/**
+ * PassDeviceSceneComponent - React view for PassDeviceScene
+ * Full-screen cover shown between hot-seat turns so neither player
+ * sees the other's hand
+ */
+export const PassDeviceSceneComponent: React.FC<PassDeviceSceneComponentProps> = ({
+  nextPlayer,
+  onReady,
+}) => {
+  const { name } = HOT_SEAT_PLAYERS[nextPlayer];
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        inset: 0,
+        zIndex: 20,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '1.5rem',
+        background: 'linear-gradient(135deg, #1a1a2e 0%, #16213e 100%)',
+        color: '#fff',
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+      }}
+      data-testid="pass-device-scene"
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Pass the device to ${name}`}
+    >
+      <motion.h1
+        initial={{ opacity: 0, y: -30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+        style={{
+          fontSize: 'clamp(2rem, 6vw, 3.5rem)',
+          fontWeight: 'bold',
+          textAlign: 'center',
+          margin: 0,
+        }}
+      >
+        Pass the device to {name}
+      </motion.h1>
+
+      <p style={{ fontSize: '1.1rem', color: '#a0a0a0', textAlign: 'center', margin: 0 }}>
+        {name}, press ready when the other player is not looking.
+      </p>
+
+      <motion.button
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        onClick={onReady}
+        style={{
+          padding: '1rem 2.5rem',
+          fontSize: '1.2rem',
+          fontWeight: 'bold',
+          color: '#fff',
+          background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+          border: 'none',
+          borderRadius: '8px',
+          cursor: 'pointer',
+        }}
+        autoFocus
+        data-testid="pass-device-ready-button"
+      >
+        Ready
+      </motion.button>
+    </div>
+  );
+};
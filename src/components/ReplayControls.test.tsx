@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { ReplayControls } from './ReplayControls';
+import { useGameStore } from '@/stores/gameStore';
+import type { MatchRecording } from '@/systems/MatchReplay';
+import { ReplayPlayer } from '@/systems/MatchReplay';
+import type { Card } from '@/types';
+
+// Mock framer-motion
+vi.mock('framer-motion', () => ({
+  motion: {
+    div: ({ children, initial, animate, ...props }: any) => <div {...props}>{children}</div>,
+  },
+}));
+
+describe('ReplayControls', () => {
+  const card: Card = {
+    id: 'card_001',
+    name: 'Swift Strike',
+    type: 'attack',
+    rarity: 'common',
+    stats: { attack: 8, defense: 2, speed: 9 },
+    artwork: '/test.png',
+  };
+
+  const deck = [card, card, card, card, card, card];
+
+  const recording: MatchRecording = {
+    version: 1,
+    id: 'replay_test',
+    seed: 42,
+    mode: 'alternating',
+    startedAt: 0,
+    playerDeck: deck,
+    opponentDeck: deck,
+    events: [
+      { event: { type: 'START_COMBAT', seed: 42, playerDeck: deck, opponentDeck: deck }, timestamp: 0 },
+      { event: { type: 'PLAY_CARD', card }, timestamp: 400 },
+      { event: { type: 'ANIMATION_COMPLETE' }, timestamp: 800 },
+    ],
+    winner: null,
+  };
+
+  const playAvatarAnimation = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    playAvatarAnimation.mockClear();
+    useGameStore.setState({ playAvatarAnimation });
+    useGameStore.getState().resetGameState();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should render controls at the start of the replay', () => {
+    render(<ReplayControls recording={recording} />);
+
+    expect(screen.getByTestId('replay-controls')).toBeInTheDocument();
+    expect(screen.getByTestId('replay-position')).toHaveTextContent('Event 0 / 3');
+  });
+
+  it('should step through events and sync the store', () => {
+    render(<ReplayControls recording={recording} />);
+
+    fireEvent.click(screen.getByTestId('replay-step-button'));
+    expect(useGameStore.getState().combat.state).toBe('PLAYER_TURN');
+    expect(useGameStore.getState().cards.playerHand).toHaveLength(5);
+
+    fireEvent.click(screen.getByTestId('replay-step-button'));
+    fireEvent.click(screen.getByTestId('replay-step-button'));
+
+    expect(useGameStore.getState().combat.state).toBe('RESOLVE');
+    expect(useGameStore.getState().combat.opponentHP).toBe(92);
+    expect(screen.getByTestId('replay-position')).toHaveTextContent('Event 3 / 3');
+    expect(screen.getByTestId('replay-step-button')).toBeDisabled();
+  });
+
+  it('should trigger avatar animations', () => {
+    render(<ReplayControls recording={recording} />);
+
+    fireEvent.click(screen.getByTestId('replay-step-button'));
+    fireEvent.click(screen.getByTestId('replay-step-button'));
+
+    expect(playAvatarAnimation).toHaveBeenCalledWith('player', 'attack');
+  });
+
+  it('should play and pause on a timer', () => {
+    render(<ReplayControls recording={recording} />);
+
+    fireEvent.click(screen.getByTestId('replay-play-button'));
+    expect(screen.getByTestId('replay-play-button')).toHaveTextContent('Pause');
+
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(screen.getByTestId('replay-position')).toHaveTextContent('Event 2 / 3');
+
+    fireEvent.click(screen.getByTestId('replay-play-button'));
+    act(() => {
+      vi.advanceTimersByTime(2000);
+    });
+    expect(screen.getByTestId('replay-position')).toHaveTextContent('Event 2 / 3');
+  });
+
+  it('should seek with the slider', () => {
+    render(<ReplayControls recording={recording} />);
+
+    fireEvent.change(screen.getByTestId('replay-seek'), { target: { value: '3' } });
+    expect(screen.getByTestId('replay-position')).toHaveTextContent('Event 3 / 3');
+
+    fireEvent.change(screen.getByTestId('replay-seek'), { target: { value: '1' } });
+    expect(screen.getByTestId('replay-position')).toHaveTextContent('Event 1 / 3');
+    expect(useGameStore.getState().combat.opponentHP).toBe(100);
+  });
+
+  it('should call onClose', () => {
+    const onClose = vi.fn();
+    render(<ReplayControls recording={recording} onClose={onClose} />);
+
+    fireEvent.click(screen.getByTestId('replay-close-button'));
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('should dispose the replay when unmounted', () => {
+    const dispose = vi.spyOn(ReplayPlayer.prototype, 'dispose');
+    const { unmount } = render(<ReplayControls recording={recording} />);
+
+    unmount();
+    expect(dispose).toHaveBeenCalledTimes(1);
+
+    dispose.mockRestore();
+  });
+});
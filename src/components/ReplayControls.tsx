@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useGameStore } from '@/stores/gameStore';
+import type { MatchRecording } from '@/systems/MatchReplay';
+import { ReplayPlayer, exportRecording } from '@/systems/MatchReplay';
+import { formatCombatState } from '@/systems/CombatStateMachine';
+import {
+  AvatarCombatIntegration,
+  setupAvatarIntegration,
+} from '@/systems/AvatarCombatIntegration';
+
+export interface ReplayControlsProps {
+  recording: MatchRecording;
+  onClose?: () => void;
+  className?: string;
+}
+
+const PLAYBACK_INTERVAL = 100; // ms between playback updates
+const SPEEDS = [0.5, 1, 2, 4];
+
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  borderRadius: '4px',
+  border: '1px solid #444',
+  backgroundColor: '#333',
+  color: '#fff',
+  fontSize: '14px',
+  cursor: 'pointer',
+};
+
+/**
+ * ReplayControls - Play back a recorded match
+ * Drives the combat UI through the game store and avatar animations
+ * through the avatar integration, with pause, step, seek and speed
+ */
+export const ReplayControls: React.FC<ReplayControlsProps> = ({
+  recording,
+  onClose,
+  className = '',
+}) => {
+  const syncCombatContext = useGameStore((state) => state.syncCombatContext);
+  const playAvatarAnimation = useGameStore((state) => state.playAvatarAnimation);
+
+  const player = useMemo(() => new ReplayPlayer(recording), [recording]);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Mirror replayed snapshots into the store and avatars
+  useEffect(() => {
+    const storeSubscription = player.subscribe((snapshot) => {
+      syncCombatContext(formatCombatState(snapshot.value), snapshot.context);
+      setPosition(player.getPosition());
+      setIsPlaying(player.isPlaying());
+    });
+
+    const avatarSubscription = setupAvatarIntegration(
+      player,
+      new AvatarCombatIntegration(
+        {
+          playAnimation: (avatarId, state) => {
+            playAvatarAnimation(avatarId as 'player' | 'ai', state);
+          },
+        },
+        'player',
+        'ai'
+      )
+    );
+
+    return () => {
+      storeSubscription.unsubscribe();
+      avatarSubscription.unsubscribe();
+      player.dispose();
+    };
+  }, [player, syncCombatContext, playAvatarAnimation]);
+
+  // Advance playback while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      player.update(PLAYBACK_INTERVAL / 1000);
+      if (!player.isPlaying()) {
+        setIsPlaying(false);
+      }
+    }, PLAYBACK_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [player, isPlaying]);
+
+  const handlePlayPause = () => {
+    if (player.isPlaying()) {
+      player.pause();
+    } else {
+      if (player.isFinished()) {
+        player.seek(0);
+      }
+      player.play();
+    }
+    setIsPlaying(player.isPlaying());
+  };
+
+  const handleStep = () => {
+    player.pause();
+    setIsPlaying(false);
+    player.step();
+  };
+
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    player.seek(parseInt(e.target.value, 10));
+  };
+
+  const handleSpeedChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = parseFloat(e.target.value);
+    player.setSpeed(value);
+    setSpeed(value);
+  };
+
+  return (
+    <motion.div
+      className={`replay-controls ${className}`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        padding: '12px',
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        borderRadius: '8px',
+        color: '#fff',
+      }}
+      data-testid="replay-controls"
+      role="region"
+      aria-label="Replay controls"
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <button
+          onClick={handlePlayPause}
+          style={buttonStyle}
+          aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+          data-testid="replay-play-button"
+        >
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <button
+          onClick={handleStep}
+          disabled={position >= player.getLength()}
+          style={buttonStyle}
+          aria-label="Step to next event"
+          data-testid="replay-step-button"
+        >
+          Step
+        </button>
+        <select
+          value={speed}
+          onChange={handleSpeedChange}
+          style={{ ...buttonStyle, padding: '8px' }}
+          aria-label="Playback speed"
+          data-testid="replay-speed-select"
+        >
+          {SPEEDS.map((value) => (
+            <option key={value} value={value}>
+              {value}x
+            </option>
+          ))}
+        </select>
+        <span style={{ flex: 1, textAlign: 'right', fontSize: '12px', color: '#aaa' }} data-testid="replay-position">
+          Event {position} / {player.getLength()}
+        </span>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={player.getLength()}
+        value={position}
+        onChange={handleSeek}
+        aria-label="Seek replay"
+        data-testid="replay-seek"
+      />
+
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button
+          onClick={() => exportRecording(recording)}
+          style={buttonStyle}
+          data-testid="replay-export-button"
+        >
+          Export
+        </button>
+        {onClose && (
+          <button onClick={onClose} style={buttonStyle} data-testid="replay-close-button">
+            Close
+          </button>
+        )}
+      </div>
+    </motion.div>
+  );
+};
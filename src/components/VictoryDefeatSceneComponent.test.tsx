@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { VictoryDefeatSceneComponent } from './VictoryDefeatSceneComponent';
+import type { MatchStats } from '../systems/MatchStats';
+import { appendCombatLog } from '../systems/CombatLog';
+import { RULE_SETS, DEFAULT_RULE_SET } from '../systems/RuleSet';
+import { useGameStore } from '../stores/gameStore';
 
 // Mock framer-motion
 vi.mock('framer-motion', () => ({
@@ -71,6 +75,15 @@ describe('VictoryDefeatSceneComponent', () => {
     });
   });
 
+  describe('Draw State', () => {
+    it('should show the draw title, message and icon', () => {
+      render(<VictoryDefeatSceneComponent isVictory={false} isDraw />);
+      expect(screen.getByTestId('result-title')).toHaveTextContent('Draw!');
+      expect(screen.getByTestId('result-message')).toHaveTextContent('Neither side came out ahead.');
+      expect(screen.getByText('🤝')).toBeInTheDocument();
+    });
+  });
+
   describe('Defeat State', () => {
     it('should show defeat title', () => {
       render(<VictoryDefeatSceneComponent isVictory={false} />);
@@ -159,6 +172,88 @@ describe('VictoryDefeatSceneComponent', () => {
     });
   });
 
+  describe('Match Stats', () => {
+    const stats: MatchStats = {
+      player: { damageDealt: 42, damageTaken: 17, cardsPlayed: 6, highestHit: 12, turns: 7 },
+      opponent: { damageDealt: 17, damageTaken: 42, cardsPlayed: 5, highestHit: 6, turns: 6 },
+      rounds: 6,
+      durationMs: 95000,
+      hpTimeline: [{ seq: 0, round: 0, player: 50, opponent: 50 }],
+      winner: 'player',
+    };
+    const log = appendCombatLog([], 1, { type: 'matchEnd', winner: 'player' });
+
+    it('should show the stats when given', () => {
+      render(<VictoryDefeatSceneComponent isVictory={true} stats={stats} />);
+      expect(screen.getByTestId('match-stats')).toBeInTheDocument();
+      expect(screen.getByTestId('hp-chart')).toBeInTheDocument();
+    });
+
+    it('should not show stats or the log action without them', () => {
+      render(<VictoryDefeatSceneComponent isVictory={true} />);
+      expect(screen.queryByTestId('match-stats')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('view-log-button')).not.toBeInTheDocument();
+    });
+
+    it('should toggle the combat log', () => {
+      render(<VictoryDefeatSceneComponent isVictory={true} stats={stats} log={log} />);
+
+      const button = screen.getByTestId('view-log-button');
+      expect(button).toHaveAttribute('aria-expanded', 'false');
+      expect(screen.queryByTestId('combat-log')).not.toBeInTheDocument();
+
+      fireEvent.click(button);
+      expect(button).toHaveTextContent('Hide Log');
+      expect(screen.getByTestId('combat-log-entry')).toHaveTextContent('Player wins');
+
+      fireEvent.click(button);
+      expect(screen.queryByTestId('combat-log')).not.toBeInTheDocument();
+    });
+
+    it('should summarize a match played to the end in the store', () => {
+      const store = useGameStore.getState();
+      store.setRuleSet(RULE_SETS.quick);
+      store.startMatch(7);
+      store.mulligan([]);
+      for (let turn = 0; turn < 100 && useGameStore.getState().combat.state !== 'END'; turn++) {
+        useGameStore.getState().playCard(0);
+      }
+
+      const { matchStats, combatLog } = useGameStore.getState();
+      expect(matchStats.winner).not.toBeNull();
+      expect(matchStats.player.cardsPlayed).toBeGreaterThan(0);
+
+      render(
+        <VictoryDefeatSceneComponent isVictory={matchStats.winner === 'player'} stats={matchStats} log={combatLog} />
+      );
+      expect(screen.getByTestId('match-stats-cardsPlayed')).toHaveTextContent(
+        `${matchStats.player.cardsPlayed}${matchStats.opponent.cardsPlayed}`
+      );
+      expect(screen.getByTestId('match-stats-summary')).toHaveTextContent(`${matchStats.rounds} rounds`);
+
+      fireEvent.click(screen.getByTestId('view-log-button'));
+      expect(screen.getAllByTestId('combat-log-entry')).toHaveLength(combatLog.length);
+
+      store.resetGameState();
+      store.setRuleSet(DEFAULT_RULE_SET);
+    });
+  });
+
+  describe('Watch Replay Button', () => {
+    it('should call onWatchReplay when clicked', () => {
+      const onWatchReplay = vi.fn();
+      render(<VictoryDefeatSceneComponent isVictory={true} onWatchReplay={onWatchReplay} />);
+
+      fireEvent.click(screen.getByTestId('watch-replay-button'));
+      expect(onWatchReplay).toHaveBeenCalled();
+    });
+
+    it('should not offer a replay without one', () => {
+      render(<VictoryDefeatSceneComponent isVictory={true} />);
+      expect(screen.queryByTestId('watch-replay-button')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Layout', () => {
     it('should center content', () => {
       render(<VictoryDefeatSceneComponent isVictory={true} />);
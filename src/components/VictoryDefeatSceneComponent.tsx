@@ -1,21 +1,38 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
+import type { CombatLogEntry, CombatLogNames } from '@/systems/CombatLog';
+import type { MatchStats } from '@/systems/MatchStats';
+import { MatchStatsPanel } from './MatchStatsPanel';
+import { CombatLogPanel } from './CombatLogPanel';
 
 export interface VictoryDefeatSceneComponentProps {
   isVictory: boolean;
+  isDraw?: boolean; // Neither side won; shown in place of victory or defeat
+  stats?: MatchStats;
+  log?: CombatLogEntry[];
+  names?: CombatLogNames;
   onPlayAgain?: () => void;
   onReturnToMenu?: () => void;
+  onWatchReplay?: () => void; // Offered when the match was recorded
 }
 
 /**
  * VictoryDefeatSceneComponent - React wrapper for VictoryDefeatScene
- * Displays victory or defeat message with action buttons
+ * Displays victory or defeat message, the match stats and action buttons,
+ * including watching a replay of the match when one is available
  */
 export const VictoryDefeatSceneComponent: React.FC<VictoryDefeatSceneComponentProps> = ({
   isVictory,
+  isDraw = false,
+  stats,
+  log,
+  names,
   onPlayAgain,
   onReturnToMenu,
+  onWatchReplay,
 }) => {
+  const [showLog, setShowLog] = useState(false);
+
   const handlePlayAgain = () => {
     if (onPlayAgain) {
       onPlayAgain();
@@ -62,7 +79,7 @@ export const VictoryDefeatSceneComponent: React.FC<VictoryDefeatSceneComponentPr
           marginBottom: '2rem',
         }}
       >
-        {isVictory ? '🏆' : '💀'}
+        {isDraw ? '🤝' : isVictory ? '🏆' : '💀'}
       </motion.div>
 
       {/* Title */}
@@ -75,16 +92,18 @@ export const VictoryDefeatSceneComponent: React.FC<VictoryDefeatSceneComponentPr
           fontWeight: 'bold',
           marginBottom: '1rem',
           textAlign: 'center',
-          background: isVictory
-            ? 'linear-gradient(135deg, #FFD700 0%, #FFA500 100%)'
-            : 'linear-gradient(135deg, #f44336 0%, #9c27b0 100%)',
+          background: isDraw
+            ? 'linear-gradient(135deg, #90a4ae 0%, #607d8b 100%)'
+            : isVictory
+              ? 'linear-gradient(135deg, #FFD700 0%, #FFA500 100%)'
+              : 'linear-gradient(135deg, #f44336 0%, #9c27b0 100%)',
           WebkitBackgroundClip: 'text',
           WebkitTextFillColor: 'transparent',
           backgroundClip: 'text',
         }}
         data-testid="result-title"
       >
-        {isVictory ? 'Victory!' : 'Defeat!'}
+        {isDraw ? 'Draw!' : isVictory ? 'Victory!' : 'Defeat!'}
       </motion.h1>
 
       {/* Message */}
@@ -95,16 +114,28 @@ export const VictoryDefeatSceneComponent: React.FC<VictoryDefeatSceneComponentPr
         style={{
           fontSize: '1.5rem',
           color: '#a0a0a0',
-          marginBottom: '3rem',
+          marginBottom: stats ? '1.5rem' : '3rem',
           textAlign: 'center',
         }}
         data-testid="result-message"
       >
-        {isVictory
-          ? 'You have defeated your opponent!'
-          : 'Better luck next time!'}
+        {isDraw
+          ? 'Neither side came out ahead.'
+          : isVictory
+            ? 'You have defeated your opponent!'
+            : 'Better luck next time!'}
       </motion.p>
 
+      {/* Match Stats */}
+      {stats && <MatchStatsPanel stats={stats} names={names} />}
+
+      {/* Combat Log */}
+      {log && showLog && (
+        <div style={{ width: '100%', maxWidth: '480px', marginBottom: '1.5rem' }} id="post-match-log">
+          <CombatLogPanel entries={log} names={names} maxHeight={200} />
+        </div>
+      )}
+
       {/* Buttons */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -183,6 +214,46 @@ export const VictoryDefeatSceneComponent: React.FC<VictoryDefeatSceneComponentPr
         >
           Return to Menu
         </motion.button>
+
+        {/* View Log Button */}
+        {log && (
+          <button
+            onClick={() => setShowLog((shown) => !shown)}
+            style={{
+              padding: '0.75rem 2rem',
+              fontSize: '1rem',
+              color: '#a0a0a0',
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              textDecoration: 'underline',
+            }}
+            aria-expanded={showLog}
+            aria-controls="post-match-log"
+            data-testid="view-log-button"
+          >
+            {showLog ? 'Hide Log' : 'View Log'}
+          </button>
+        )}
+
+        {/* Watch Replay Button */}
+        {onWatchReplay && (
+          <button
+            onClick={onWatchReplay}
+            style={{
+              padding: '0.75rem 2rem',
+              fontSize: '1rem',
+              color: '#a0a0a0',
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              textDecoration: 'underline',
+            }}
+            data-testid="watch-replay-button"
+          >
+            Watch Replay
+          </button>
+        )}
       </motion.div>
     </div>
   );
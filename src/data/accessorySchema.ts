@@ -0,0 +1,109 @@
+/**
+ * Accessory Schema Validator
+ *
+ * Validates avatar accessory data loaded from JSON.
+ */
+
+import type { Vector3Tuple } from './animationClipSchema';
+import type { AIDifficulty } from '@/systems/AIOpponent';
+import { AI_DIFFICULTIES } from '@/systems/AIOpponent';
+
+export type AccessorySlot = 'hat' | 'weapon' | 'shield';
+
+export type DetailLevel = 'high' | 'medium' | 'low';
+
+export interface AttachmentTransform {
+  position?: Vector3Tuple; // Offset from the slot's attach point
+  rotation?: Vector3Tuple; // Euler angles in radians
+  scale?: Vector3Tuple;
+}
+
+export interface AccessoryDefinition {
+  id: string;
+  name: string;
+  slot: AccessorySlot;
+  size: Vector3Tuple; // Box dimensions of the procedural mesh
+  color: string; // Hex colour of the procedural mesh
+  attachment?: AttachmentTransform;
+  excludes?: string[]; // Slots or accessory ids it cannot be worn with, e.g. 'shield' for two-handed weapons
+  lowestDetail?: DetailLevel; // Lowest level of detail it is still drawn at; defaults to medium
+  unlocked?: boolean; // Available from the start; defaults to true
+  unlockDifficulty?: AIDifficulty; // Beating the AI at this difficulty or harder unlocks it
+}
+
+export interface AccessoryDatabase {
+  version: string;
+  accessories: AccessoryDefinition[];
+}
+
+export const ACCESSORY_SLOTS: AccessorySlot[] = ['hat', 'weapon', 'shield'];
+
+export const DETAIL_LEVELS: DetailLevel[] = ['high', 'medium', 'low'];
+
+const isVector3 = (value: unknown): value is Vector3Tuple =>
+  Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === 'number' && Number.isFinite(n));
+
+/**
+ * Validates an attachment transform against the schema
+ */
+export function validateAttachmentTransform(attachment: unknown): attachment is AttachmentTransform {
+  if (typeof attachment !== 'object' || attachment === null) {
+    return false;
+  }
+
+  const a = attachment as Record<string, unknown>;
+
+  return ['position', 'rotation', 'scale'].every((channel) => a[channel] === undefined || isVector3(a[channel]));
+}
+
+/**
+ * Validates an accessory object against the schema
+ */
+export function validateAccessory(accessory: unknown): accessory is AccessoryDefinition {
+  if (typeof accessory !== 'object' || accessory === null) {
+    return false;
+  }
+
+  const a = accessory as Record<string, unknown>;
+
+  if (typeof a.id !== 'string' || a.id.length === 0) return false;
+  if (typeof a.name !== 'string' || a.name.length === 0) return false;
+  if (!ACCESSORY_SLOTS.includes(a.slot as AccessorySlot)) return false;
+  if (!isVector3(a.size) || !a.size.every((n) => n > 0)) return false;
+  if (typeof a.color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(a.color)) return false;
+
+  if (a.attachment !== undefined && !validateAttachmentTransform(a.attachment)) return false;
+  if (a.excludes !== undefined) {
+    if (!Array.isArray(a.excludes) || !a.excludes.every((entry) => typeof entry === 'string')) return false;
+  }
+  if (a.lowestDetail !== undefined && !DETAIL_LEVELS.includes(a.lowestDetail as DetailLevel)) return false;
+  if (a.unlocked !== undefined && typeof a.unlocked !== 'boolean') return false;
+  if (a.unlockDifficulty !== undefined && !AI_DIFFICULTIES.includes(a.unlockDifficulty as AIDifficulty)) return false;
+
+  return true;
+}
+
+/**
+ * Validates an accessory database object against the schema
+ * Accessory ids must be unique
+ */
+export function validateAccessoryDatabase(db: unknown): db is AccessoryDatabase {
+  if (typeof db !== 'object' || db === null) {
+    return false;
+  }
+
+  const database = db as Record<string, unknown>;
+
+  // Check version
+  if (typeof database.version !== 'string' || database.version.length === 0) {
+    return false;
+  }
+
+  // Check accessories array
+  if (!Array.isArray(database.accessories) || !database.accessories.every(validateAccessory)) {
+    return false;
+  }
+
+  const ids = database.accessories.map((accessory) => accessory.id);
+  return new Set(ids).size === ids.length;
+}
@@ -0,0 +1,125 @@
+/**
+ * Animation Clip Schema Validator
+ *
+ * Validates avatar animation clip data loaded from JSON.
+ */
+
+export type Vector3Tuple = [number, number, number];
+
+export interface KeyframeDefinition {
+  time: number; // Seconds from the start of the clip
+  position?: Vector3Tuple;
+  rotation?: Vector3Tuple; // Euler angles in radians
+  scale?: Vector3Tuple;
+}
+
+export interface AnimationEventDefinition {
+  name: string; // e.g. 'impact' on the frame an attack lands
+  time: number; // Seconds from the start of the clip
+}
+
+export interface AnimationClipDefinition {
+  state: string;
+  duration: number;
+  loop: boolean;
+  hold?: boolean; // Non-looping clip keeps its last frame instead of returning to idle
+  keyframes: KeyframeDefinition[];
+  events?: AnimationEventDefinition[];
+}
+
+export interface AnimationClipDatabase {
+  version: string;
+  clips: AnimationClipDefinition[];
+}
+
+const isVector3 = (value: unknown): value is Vector3Tuple =>
+  Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === 'number' && Number.isFinite(n));
+
+/**
+ * Validates a keyframe object against the schema
+ * A keyframe must set at least one channel
+ */
+export function validateKeyframe(keyframe: unknown): keyframe is KeyframeDefinition {
+  if (typeof keyframe !== 'object' || keyframe === null) {
+    return false;
+  }
+
+  const k = keyframe as Record<string, unknown>;
+
+  if (typeof k.time !== 'number' || !Number.isFinite(k.time) || k.time < 0) return false;
+
+  const channels = ['position', 'rotation', 'scale'].filter((channel) => k[channel] !== undefined);
+  if (channels.length === 0) return false;
+
+  return channels.every((channel) => isVector3(k[channel]));
+}
+
+/**
+ * Validates an animation event marker against the schema
+ */
+export function validateAnimationEvent(event: unknown): event is AnimationEventDefinition {
+  if (typeof event !== 'object' || event === null) {
+    return false;
+  }
+
+  const e = event as Record<string, unknown>;
+
+  if (typeof e.name !== 'string' || e.name.length === 0) return false;
+  return typeof e.time === 'number' && Number.isFinite(e.time) && e.time >= 0;
+}
+
+/**
+ * Validates an animation clip object against the schema
+ * Keyframes must be in time order; keyframes and events must fall within
+ * the clip's duration
+ */
+export function validateAnimationClip(clip: unknown): clip is AnimationClipDefinition {
+  if (typeof clip !== 'object' || clip === null) {
+    return false;
+  }
+
+  const c = clip as Record<string, unknown>;
+
+  if (typeof c.state !== 'string' || c.state.length === 0) return false;
+  if (typeof c.duration !== 'number' || !Number.isFinite(c.duration) || c.duration <= 0) return false;
+  if (typeof c.loop !== 'boolean') return false;
+  if (c.hold !== undefined && typeof c.hold !== 'boolean') return false;
+
+  if (!Array.isArray(c.keyframes) || c.keyframes.length === 0) return false;
+  if (!c.keyframes.every(validateKeyframe)) return false;
+
+  const duration = c.duration;
+  const keyframesInOrder = c.keyframes.every(
+    (keyframe, i, keyframes) =>
+      keyframe.time <= duration && (i === 0 || keyframe.time >= keyframes[i - 1].time)
+  );
+  if (!keyframesInOrder) return false;
+
+  if (c.events === undefined) return true;
+  if (!Array.isArray(c.events) || !c.events.every(validateAnimationEvent)) return false;
+  return c.events.every((event) => event.time <= duration);
+}
+
+/**
+ * Validates an animation clip database object against the schema
+ */
+export function validateAnimationClipDatabase(db: unknown): db is AnimationClipDatabase {
+  if (typeof db !== 'object' || db === null) {
+    return false;
+  }
+
+  const database = db as Record<string, unknown>;
+
+  // Check version
+  if (typeof database.version !== 'string' || database.version.length === 0) {
+    return false;
+  }
+
+  // Check clips array
+  if (!Array.isArray(database.clips)) {
+    return false;
+  }
+
+  // Validate each clip
+  return database.clips.every(validateAnimationClip);
+}
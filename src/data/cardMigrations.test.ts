@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CURRENT_CARD_DATABASE_VERSION,
+  compareVersions,
+  migrateCardDatabase,
+  resolveLegacyCardId,
+} from './cardMigrations';
+import { validateCardDatabase } from './cardSchema';
+import { parseCardDatabase, getCardById, loadCardDatabase } from '@/systems/CardSystem';
+
+describe('cardMigrations', () => {
+  const legacyDatabase = {
+    version: '0.9.0',
+    cards: [
+      {
+        id: '1',
+        name: 'Swift Strike',
+        type: 'speed',
+        rarity: 'common',
+        attack: 8,
+        defense: 2,
+        image: '/assets/cards/swift-strike.png',
+      },
+      {
+        id: '2',
+        name: 'Iron Shield',
+        type: 'defense',
+        rarity: 'common',
+        attack: 2,
+        defense: 10,
+        image: '/assets/cards/iron-shield.png',
+      },
+    ],
+  };
+  
+  describe('compareVersions', () => {
+    it('should compare numerically per segment', () => {
+      expect(compareVersions('1.0.0', '1.0.0')).toBe(0);
+      expect(compareVersions('0.9.0', '1.0.0')).toBeLessThan(0);
+      expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+      expect(compareVersions('1.1', '1.1.0')).toBe(0);
+    });
+  });
+  
+  describe('migrateCardDatabase', () => {
+    it('should upgrade a legacy database to the current schema', () => {
+      const { database, report } = migrateCardDatabase(legacyDatabase);
+      
+      expect(validateCardDatabase(database)).toBe(true);
+      expect((database as any).version).toBe(CURRENT_CARD_DATABASE_VERSION);
+      
+      const [strike] = (database as any).cards;
+      expect(strike.id).toBe('card_001');
+      expect(strike.type).toBe('attack');
+      expect(strike.stats).toEqual({ attack: 8, defense: 2, speed: 5 });
+      expect(strike.artwork).toBe('/assets/cards/swift-strike.png');
+      expect(strike.image).toBeUndefined();
+      
+      expect(report.fromVersion).toBe('0.9.0');
+      expect(report.toVersion).toBe(CURRENT_CARD_DATABASE_VERSION);
+      expect(report.steps.map(s => s.to)).toEqual(['1.0.0', '1.1.0']);
+      expect(report.renamedIds).toEqual({ '1': 'card_001', '2': 'card_002' });
+      expect(report.steps[1].changes).toEqual(["card_001: type 'speed' split into 'attack'"]);
+    });
+    
+    it('should leave a current database unchanged', () => {
+      const current = { version: CURRENT_CARD_DATABASE_VERSION, cards: [] };
+      
+      const { database, report } = migrateCardDatabase(current);
+      
+      expect(database).toEqual(current);
+      expect(report.steps).toEqual([]);
+    });
+    
+    it('should reject databases newer than supported', () => {
+      expect(() => migrateCardDatabase({ version: '99.0.0', cards: [] }))
+        .toThrow('newer than supported');
+    });
+    
+    it('should reject versions without a migration path', () => {
+      expect(() => migrateCardDatabase({ version: '0.5.0', cards: [] }))
+        .toThrow('No migration path');
+    });
+    
+    it('should reject malformed input', () => {
+      expect(() => migrateCardDatabase(null)).toThrow('Invalid card database format');
+      expect(() => migrateCardDatabase({ cards: [] })).toThrow('Invalid card database format');
+    });
+    
+    it('should leave malformed cards for validation to reject', () => {
+      const { database } = migrateCardDatabase({ ...legacyDatabase, cards: [...legacyDatabase.cards, 'not a card'] });
+      
+      expect((database as { cards: unknown[] }).cards[2]).toBe('not a card');
+      expect(validateCardDatabase(database)).toBe(false);
+    });
+  });
+  
+  describe('legacy card IDs', () => {
+    it('should resolve old IDs to current IDs', () => {
+      expect(resolveLegacyCardId('7')).toBe('card_007');
+      expect(resolveLegacyCardId('card_007')).toBe('card_007');
+    });
+    
+    it('should find cards by legacy ID', () => {
+      const database = loadCardDatabase();
+      
+      expect(getCardById(database, '3')?.id).toBe('card_003');
+    });
+    
+    it('should parse and validate a legacy database', () => {
+      const { database, report } = parseCardDatabase(legacyDatabase);
+      
+      expect(database.cards).toHaveLength(2);
+      expect(report.steps).toHaveLength(2);
+    });
+  });
+});
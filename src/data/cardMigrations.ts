@@ -0,0 +1,183 @@
+/**
+ * Card Database Migrations
+ *
+ * Upgrades card databases written against older schema versions to the
+ * current one, step by step, and reports what each step changed.
+ * Card ID renames are kept so saved decks and replays can still resolve
+ * cards by the IDs they were recorded with.
+ */
+
+export const CURRENT_CARD_DATABASE_VERSION = '1.1.0';
+
+/**
+ * A card as stored by some schema version, not yet validated
+ */
+export type RawCard = Record<string, unknown>;
+
+export interface CardMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrateCard(card: RawCard, changes: string[]): RawCard;
+  renameId?: (id: string) => string;
+}
+
+export interface MigrationStep {
+  from: string;
+  to: string;
+  description: string;
+  changes: string[];
+}
+
+export interface MigrationReport {
+  fromVersion: string;
+  toVersion: string;
+  steps: MigrationStep[];
+  renamedIds: Record<string, string>; // old ID -> current ID
+}
+
+/**
+ * Ordered migration chain, oldest first
+ */
+export const CARD_MIGRATIONS: CardMigration[] = [
+  {
+    from: '0.9.0',
+    to: '1.0.0',
+    description: 'Move attack/defense into stats, add speed stat, rename image to artwork, prefix IDs',
+    renameId: (id) => (/^\d+$/.test(id) ? `card_${id.padStart(3, '0')}` : id),
+    migrateCard: (card, changes) => {
+      const { attack, defense, image, ...rest } = card;
+      const migrated: RawCard = {
+        ...rest,
+        stats: {
+          attack: attack ?? 0,
+          defense: defense ?? 0,
+          speed: 5,
+        },
+        artwork: image ?? '',
+      };
+      changes.push(`${card.id}: moved attack/defense into stats, speed defaulted to 5`);
+      if (image !== undefined) {
+        changes.push(`${card.id}: renamed image to artwork`);
+      }
+      return migrated;
+    },
+  },
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: "Retire the 'speed' card type; speed cards become attack cards",
+    migrateCard: (card, changes) => {
+      if (card.type !== 'speed') return card;
+      changes.push(`${card.id}: type 'speed' split into 'attack'`);
+      return { ...card, type: 'attack' };
+    },
+  },
+];
+
+const isRawCard = (card: unknown): card is RawCard =>
+  typeof card === 'object' && card !== null && !Array.isArray(card);
+
+/**
+ * Compare dotted version strings numerically
+ * Returns negative if a < b, 0 if equal, positive if a > b
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  const length = Math.max(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+
+  return 0;
+}
+
+/**
+ * Map a card ID recorded against any older schema to its current ID
+ */
+export function resolveLegacyCardId(id: string): string {
+  return CARD_MIGRATIONS.reduce(
+    (current, migration) => (migration.renameId ? migration.renameId(current) : current),
+    id
+  );
+}
+
+/**
+ * Upgrade a raw card database to the current version
+ * Throws if the version is unknown or newer than this build supports
+ */
+export function migrateCardDatabase(raw: unknown): { database: unknown; report: MigrationReport } {
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error('Invalid card database format');
+  }
+
+  const db = raw as Record<string, unknown>;
+  if (typeof db.version !== 'string' || !Array.isArray(db.cards)) {
+    throw new Error('Invalid card database format');
+  }
+
+  const report: MigrationReport = {
+    fromVersion: db.version,
+    toVersion: db.version,
+    steps: [],
+    renamedIds: {},
+  };
+
+  if (compareVersions(db.version, CURRENT_CARD_DATABASE_VERSION) > 0) {
+    throw new Error(
+      `Card database version ${db.version} is newer than supported ${CURRENT_CARD_DATABASE_VERSION}`
+    );
+  }
+
+  let version: string = db.version;
+  let cards: unknown[] = db.cards;
+
+  while (compareVersions(version, CURRENT_CARD_DATABASE_VERSION) < 0) {
+    const migration = CARD_MIGRATIONS.find((m) => m.from === version);
+    if (!migration) {
+      throw new Error(`No migration path from card database version ${version}`);
+    }
+
+    const changes: string[] = [];
+    cards = cards.map((card) => {
+      // Malformed cards are left for validation to reject
+      if (!isRawCard(card)) return card;
+
+      let migrated = migration.migrateCard(card, changes);
+
+      if (migration.renameId && typeof card.id === 'string') {
+        const newId = migration.renameId(card.id);
+        if (newId !== card.id) {
+          migrated = { ...migrated, id: newId };
+          changes.push(`${card.id}: renamed to ${newId}`);
+
+          // Keep the map pointing from the original ID to the latest one
+          const originalId =
+            Object.keys(report.renamedIds).find((old) => report.renamedIds[old] === card.id) ??
+            card.id;
+          report.renamedIds[originalId] = newId;
+        }
+      }
+
+      return migrated;
+    });
+
+    report.steps.push({
+      from: migration.from,
+      to: migration.to,
+      description: migration.description,
+      changes,
+    });
+    version = migration.to;
+  }
+
+  report.toVersion = version;
+
+  return {
+    database: { ...db, version, cards },
+    report,
+  };
+}
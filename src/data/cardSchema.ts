@@ -4,7 +4,7 @@
  * Validates card data against the defined schema to ensure data integrity.
  */
 
-import type { Card } from '@/types';
+import type { Card, CardEffect, CardEffectType } from '@/types';
 
 export interface CardDatabase {
   version: string;
@@ -29,7 +29,7 @@ export function validateCard(card: unknown): card is Card {
   if (typeof c.artwork !== 'string') return false;
   
   // Validate type enum
-  const validTypes = ['attack', 'defense', 'speed', 'special'];
+  const validTypes = ['attack', 'defense', 'special'];
   if (!validTypes.includes(c.type as string)) return false;
   
   // Validate rarity enum
@@ -44,9 +44,49 @@ export function validateCard(card: unknown): card is Card {
   if (typeof stats.defense !== 'number' || stats.defense < 0) return false;
   if (typeof stats.speed !== 'number' || stats.speed < 0) return false;
   
+  // Effects are optional, but every listed effect must be valid
+  if (c.effects !== undefined) {
+    if (!Array.isArray(c.effects)) return false;
+    if (!c.effects.every(validateCardEffect)) return false;
+  }
+  
   return true;
 }
 
+/**
+ * Required numeric fields for each effect type
+ * Every field must be a positive integer
+ */
+const EFFECT_FIELDS: Record<CardEffectType, string[]> = {
+  heal: ['amount'],
+  shield: ['amount'],
+  draw: ['count'],
+  damageOverTime: ['damage', 'turns'],
+  stun: ['turns'],
+  weaken: ['amount', 'turns'],
+  regen: ['amount', 'turns'],
+  buffNextCard: ['attack'],
+  discard: ['count'],
+};
+
+/**
+ * Validates a card effect object against the schema
+ */
+export function validateCardEffect(effect: unknown): effect is CardEffect {
+  if (typeof effect !== 'object' || effect === null) {
+    return false;
+  }
+  
+  const e = effect as Record<string, unknown>;
+  
+  if (typeof e.type !== 'string' || !Object.hasOwn(EFFECT_FIELDS, e.type)) return false;
+  
+  return EFFECT_FIELDS[e.type as CardEffectType].every((field) => {
+    const value = e[field];
+    return typeof value === 'number' && Number.isInteger(value) && value > 0;
+  });
+}
+
 /**
  * Validates a card database object against the schema
  */
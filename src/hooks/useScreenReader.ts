@@ -1,4 +1,4 @@
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 
 /**
  * useScreenReader - Hook for screen reader announcements
@@ -32,12 +32,13 @@ export const useScreenReader = () => {
     };
   }, []);
 
-  const announce = (message: string, priority: 'polite' | 'assertive' = 'polite') => {
+  // Stable identity so effects that announce do not re-run every render
+  const announce = useCallback((message: string, priority: 'polite' | 'assertive' = 'polite') => {
     if (liveRegionRef.current) {
       liveRegionRef.current.setAttribute('aria-live', priority);
       liveRegionRef.current.textContent = message;
     }
-  };
+  }, []);
 
   return { announce };
 };
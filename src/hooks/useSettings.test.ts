@@ -22,6 +22,9 @@ describe('useSettings', () => {
         sfxVolume: 70,
         showPerformanceMonitor: false,
         reducedMotion: false,
+        aiDifficulty: 'easy',
+        ruleSet: 'standard',
+        turnTimerSeconds: 0,
       });
     });
 
@@ -42,6 +45,9 @@ describe('useSettings', () => {
         sfxVolume: 60,
         showPerformanceMonitor: true,
         reducedMotion: true,
+        aiDifficulty: 'hard',
+        ruleSet: 'quick',
+        turnTimerSeconds: 30,
       };
 
       localStorage.setItem('bigbear-game-settings', JSON.stringify(savedSettings));
@@ -66,6 +72,9 @@ describe('useSettings', () => {
         sfxVolume: 70,
         showPerformanceMonitor: false,
         reducedMotion: false,
+        aiDifficulty: 'easy',
+        ruleSet: 'standard',
+        turnTimerSeconds: 0,
       });
     });
   });
@@ -162,6 +171,9 @@ describe('useSettings', () => {
         sfxVolume: 70,
         showPerformanceMonitor: false,
         reducedMotion: false,
+        aiDifficulty: 'easy',
+        ruleSet: 'standard',
+        turnTimerSeconds: 0,
       });
     });
 
@@ -198,6 +210,9 @@ describe('useSettings', () => {
         sfxVolume: 70,
         showPerformanceMonitor: false,
         reducedMotion: false,
+        aiDifficulty: 'easy',
+        ruleSet: 'standard',
+        turnTimerSeconds: 0,
       });
 
       consoleErrorSpy.mockRestore();
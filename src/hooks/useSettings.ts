@@ -1,4 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
+import type { AIDifficulty } from '@/systems/AIOpponent';
+import type { RuleSetId } from '@/systems/RuleSet';
 
 export interface GameSettings {
   volume: number; // 0-100
@@ -6,6 +8,9 @@ export interface GameSettings {
   sfxVolume: number; // 0-100
   showPerformanceMonitor: boolean;
   reducedMotion: boolean;
+  aiDifficulty: AIDifficulty;
+  ruleSet: RuleSetId;
+  turnTimerSeconds: number; // 0 = no turn timer
 }
 
 const DEFAULT_SETTINGS: GameSettings = {
@@ -14,6 +19,9 @@ const DEFAULT_SETTINGS: GameSettings = {
   sfxVolume: 70,
   showPerformanceMonitor: false,
   reducedMotion: false,
+  aiDifficulty: 'easy',
+  ruleSet: 'standard',
+  turnTimerSeconds: 0,
 };
 
 const SETTINGS_KEY = 'bigbear-game-settings';
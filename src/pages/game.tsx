@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { Helmet } from 'react-helmet';
 import { GameLayout } from '@/components/GameLayout';
 import { GameController } from '@/components/GameController';
@@ -8,6 +8,10 @@ import { CombatSceneComponent } from '@/components/CombatSceneComponent';
 import { VictoryDefeatSceneComponent } from '@/components/VictoryDefeatSceneComponent';
 import { GameErrorBoundary } from '@/components/GameErrorBoundary';
 import { useGameStore } from '@/stores/gameStore';
+import { PassDeviceScene, HOT_SEAT_PLAYERS } from '@/scenes/PassDeviceScene';
+import { DEFAULT_LOG_NAMES } from '@/systems/CombatLog';
+import { formatCombatState } from '@/systems/CombatStateMachine';
+import type { MatchRecording } from '@/systems/MatchReplay';
 
 /**
  * Game Page - Main game container
@@ -15,13 +19,28 @@ import { useGameStore } from '@/stores/gameStore';
  */
 const GamePage: React.FC = () => {
   const currentScene = useGameStore((state) => state.ui.currentScene);
+  const matchStats = useGameStore((state) => state.matchStats);
+  const combatLog = useGameStore((state) => state.combatLog);
+  const isHotSeat = useGameStore((state) => state.hotSeat.enabled);
+  const liveMatch = useGameStore((state) => state.liveMatch);
+  const [replay, setReplay] = useState<MatchRecording | null>(null);
+
+  const logNames = isHotSeat
+    ? { player: HOT_SEAT_PLAYERS.player.name, opponent: HOT_SEAT_PLAYERS.opponent.name }
+    : DEFAULT_LOG_NAMES;
+
+  // Hot-seat interstitial between turns
+  const passDeviceScene = useMemo(() => new PassDeviceScene(), []);
+  const scenes = useMemo(() => [passDeviceScene], [passDeviceScene]);
 
   const handleSceneChange = (sceneName: string) => {
     console.log(`Scene changed to: ${sceneName}`);
   };
 
   const resetGameState = useGameStore((state) => state.resetGameState);
+  const startMatch = useGameStore((state) => state.startMatch);
   const setCurrentScene = useGameStore((state) => state.setCurrentScene);
+  const syncCombatContext = useGameStore((state) => state.syncCombatContext);
 
   const handleVictory = () => {
     console.log('Victory!');
@@ -37,8 +56,15 @@ const GamePage: React.FC = () => {
     }
   };
 
+  const handleDraw = () => {
+    console.log('Draw!');
+    if ((window as any).__sceneTransition) {
+      (window as any).__sceneTransition('draw');
+    }
+  };
+
   const handlePlayAgain = () => {
-    resetGameState();
+    startMatch();
     if ((window as any).__sceneTransition) {
       (window as any).__sceneTransition('combat');
     }
@@ -51,6 +77,24 @@ const GamePage: React.FC = () => {
     }
   };
 
+  const handleWatchMatchReplay = () => {
+    const recording = liveMatch?.getRecording();
+    if (recording) {
+      setReplay(recording);
+    }
+  };
+
+  const handleCloseReplay = () => {
+    setReplay(null);
+    // The replay drove the store; put back the finished match it was opened from
+    if (liveMatch) {
+      const snapshot = liveMatch.getSnapshot();
+      syncCombatContext(formatCombatState(snapshot.value), snapshot.context);
+    } else {
+      resetGameState();
+    }
+  };
+
   const handleErrorRetry = () => {
     // Reset to main menu on error retry
     resetGameState();
@@ -78,20 +122,28 @@ const GamePage: React.FC = () => {
           onRetry={handleErrorRetry}
           onReturnToMenu={handleErrorReturnToMenu}
         >
-          <GameController initialScene="mainMenu" onSceneChange={handleSceneChange}>
+          <GameController initialScene="mainMenu" scenes={scenes} onSceneChange={handleSceneChange}>
             <SceneRenderer>
-              {currentScene === 'mainMenu' && <MainMenuSceneComponent />}
+              {replay && <CombatSceneComponent replay={replay} onCloseReplay={handleCloseReplay} />}
+              {!replay && currentScene === 'mainMenu' && <MainMenuSceneComponent onWatchReplay={setReplay} />}
               {currentScene === 'combat' && (
                 <CombatSceneComponent
                   onVictory={handleVictory}
                   onDefeat={handleDefeat}
+                  onDraw={handleDraw}
+                  passDeviceScene={passDeviceScene}
                 />
               )}
-              {(currentScene === 'victory' || currentScene === 'defeat') && (
+              {!replay && (currentScene === 'victory' || currentScene === 'defeat' || currentScene === 'draw') && (
                 <VictoryDefeatSceneComponent
                   isVictory={currentScene === 'victory'}
+                  isDraw={currentScene === 'draw'}
+                  stats={matchStats}
+                  log={combatLog}
+                  names={logNames}
                   onPlayAgain={handlePlayAgain}
                   onReturnToMenu={handleReturnToMenu}
+                  onWatchReplay={liveMatch?.getRecording() ? handleWatchMatchReplay : undefined}
                 />
               )}
             </SceneRenderer>
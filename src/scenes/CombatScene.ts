@@ -1,6 +1,7 @@
 import { Scene } from '../systems/SceneManager';
 import { WebAudioManager } from '../systems/WebAudioManager';
 import { GameLoop } from '../systems/GameLoop';
+import { AnimationTimeline } from '../systems/AnimationTimeline';
 import { createMachine, interpret } from 'xstate';
 import { useGameStore } from '../stores/gameStore';
 import { AvatarCombatIntegration, setupAvatarIntegration, CombatStateSubscription } from '../systems/AvatarCombatIntegration';
@@ -13,15 +14,17 @@ export class CombatScene implements Scene {
   name = 'combat';
   private audioManager: WebAudioManager | null = null;
   private gameLoop: GameLoop | null = null;
+  private animationTimeline: AnimationTimeline | null = null;
   private combatMachine: any | null = null;
   private onVictoryCallback: (() => void) | null = null;
   private onDefeatCallback: (() => void) | null = null;
   private avatarIntegration: AvatarCombatIntegration | null = null;
   private avatarSubscription: CombatStateSubscription | null = null;
 
-  constructor(audioManager?: WebAudioManager, gameLoop?: GameLoop) {
+  constructor(audioManager?: WebAudioManager, gameLoop?: GameLoop, animationTimeline?: AnimationTimeline) {
     this.audioManager = audioManager || null;
     this.gameLoop = gameLoop || null;
+    this.animationTimeline = animationTimeline || null;
   }
 
   /**
@@ -56,6 +59,9 @@ export class CombatScene implements Scene {
     // Wire up avatar animations to combat events
     this.setupAvatarCombatIntegration();
 
+    // Give the turn timer this scene's audio for its warning sound
+    this.setupTurnTimerAudio();
+
     // Start combat music
     if (this.audioManager) {
       this.audioManager.playMusic('combatMusic', true);
@@ -100,6 +106,11 @@ export class CombatScene implements Scene {
       this.avatarSubscription = null;
     }
 
+    // Stop listening to avatar animation events
+    if (this.avatarIntegration) {
+      this.avatarIntegration.dispose();
+    }
+
     // Dispose avatar system
     this.disposeAvatars();
 
@@ -201,6 +212,13 @@ export class CombatScene implements Scene {
     }
   }
 
+  private setupTurnTimerAudio(): void {
+    if (!this.audioManager) return;
+
+    const { turnTimer, setTurnTimer } = useGameStore.getState();
+    setTurnTimer(turnTimer.duration, this.audioManager);
+  }
+
   private initializeAvatars(): void {
     // Get canvas element for avatar rendering
     const canvas = document.getElementById('avatar-canvas') as HTMLCanvasElement;
@@ -226,16 +244,23 @@ export class CombatScene implements Scene {
       return;
     }
 
-    // Create avatar integration
+    // Create avatar integration; hits land on the attack clip's impact frame
     const store = useGameStore.getState();
     this.avatarIntegration = new AvatarCombatIntegration(
       {
         playAnimation: (avatarId: string, state: any) => {
           store.playAvatarAnimation(avatarId as 'player' | 'ai', state);
         },
+        onAnimationEvent: (callback) => store.onAvatarAnimationEvent(callback),
       },
       'player',
-      'ai'
+      'ai',
+      {
+        animationTimeline: this.animationTimeline ?? undefined,
+        shakeTarget: () => document.getElementById('combat-scene'),
+        audioManager: this.audioManager ?? undefined,
+        onDamageNumber: (side, damage) => store.showDamageNumber(side, damage),
+      }
     );
 
     // Subscribe to combat state machine
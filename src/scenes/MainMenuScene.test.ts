@@ -102,6 +102,36 @@ describe('MainMenuScene', () => {
     });
   });
 
+  describe('Continue Match', () => {
+    const savedMatch = { version: 1 } as any;
+
+    const createPersistence = (match: any) => ({
+      saveMatch: vi.fn(),
+      loadMatch: vi.fn(() => match),
+      clearMatch: vi.fn(),
+      hasSavedMatch: vi.fn(() => match !== null),
+    });
+
+    it('should show continue button when a match is saved', () => {
+      const sceneWithSave = new MainMenuScene(mockAudioManager, createPersistence(savedMatch));
+      const callback = vi.fn();
+      sceneWithSave.setOnContinue(callback);
+      sceneWithSave.enter();
+
+      document.getElementById('continue-button')?.click();
+
+      expect(callback).toHaveBeenCalledWith(savedMatch);
+    });
+
+    it('should hide continue button without a saved match', () => {
+      const sceneWithoutSave = new MainMenuScene(mockAudioManager, createPersistence(null));
+      sceneWithoutSave.enter();
+
+      expect(document.getElementById('continue-button')).toBeNull();
+      expect(sceneWithoutSave.triggerContinue()).toBe(false);
+    });
+  });
+
   describe('Update Loop', () => {
     it('should handle update calls', () => {
       scene.update(16.67);
@@ -1,17 +1,22 @@
 import { Scene } from '../systems/SceneManager';
 import { WebAudioManager } from '../systems/WebAudioManager';
+import type { MatchPersistence, SavedMatch } from '../systems/MatchPersistence';
+import { LocalStorageMatchPersistence } from '../systems/MatchPersistence';
 
 /**
  * MainMenuScene - Entry point for the game
- * Displays title, play button, and settings
+ * Displays title, play button, continue button (when a match is saved), and settings
  */
 export class MainMenuScene implements Scene {
   name = 'mainMenu';
   private audioManager: WebAudioManager | null = null;
   private onPlayCallback: (() => void) | null = null;
+  private onContinueCallback: ((match: SavedMatch) => void) | null = null;
+  private matchPersistence: MatchPersistence;
 
-  constructor(audioManager?: WebAudioManager) {
+  constructor(audioManager?: WebAudioManager, matchPersistence?: MatchPersistence) {
     this.audioManager = audioManager || null;
+    this.matchPersistence = matchPersistence || new LocalStorageMatchPersistence();
   }
 
   /**
@@ -30,6 +35,29 @@ export class MainMenuScene implements Scene {
     }
   }
 
+  /**
+   * Set callback for when continue match is clicked
+   */
+  setOnContinue(callback: (match: SavedMatch) => void): void {
+    this.onContinueCallback = callback;
+  }
+
+  /**
+   * Resume the saved match, if there is one
+   * Returns false when no valid saved match exists
+   */
+  triggerContinue(): boolean {
+    const match = this.matchPersistence.loadMatch();
+    if (!match) {
+      return false;
+    }
+
+    if (this.onContinueCallback) {
+      this.onContinueCallback(match);
+    }
+    return true;
+  }
+
   async load(): Promise<void> {
     // Lazy load menu assets
     // In a real implementation, this would load React components
@@ -64,6 +92,7 @@ export class MainMenuScene implements Scene {
   cleanup(): void {
     // Release resources
     this.onPlayCallback = null;
+    this.onContinueCallback = null;
   }
 
   private mountUI(): void {
@@ -71,9 +100,14 @@ export class MainMenuScene implements Scene {
     // For now, just create a simple DOM structure for testing
     const container = document.getElementById('scene-container');
     if (container) {
+      const continueButton = this.matchPersistence.hasSavedMatch()
+        ? '<button id="continue-button">Continue Match</button>'
+        : '';
+
       container.innerHTML = `
         <div id="main-menu">
           <h1>Card Battle</h1>
+          ${continueButton}
           <button id="play-button">Play</button>
           <button id="settings-button">Settings</button>
         </div>
@@ -83,6 +117,11 @@ export class MainMenuScene implements Scene {
       if (playButton) {
         playButton.addEventListener('click', () => this.triggerPlay());
       }
+
+      const continueElement = document.getElementById('continue-button');
+      if (continueElement) {
+        continueElement.addEventListener('click', () => this.triggerContinue());
+      }
     }
   }
 
@@ -0,0 +1,95 @@
+import { Scene } from '../systems/SceneManager';
+import { WebAudioManager } from '../systems/WebAudioManager';
+import type { CombatSide } from '../types';
+
+export interface HotSeatPlayer {
+  side: CombatSide;
+  name: string;
+}
+
+export const HOT_SEAT_PLAYERS: Record<CombatSide, HotSeatPlayer> = {
+  player: { side: 'player', name: 'Player 1' },
+  opponent: { side: 'opponent', name: 'Player 2' },
+};
+
+/**
+ * PassDeviceScene - Hot-seat interstitial between turns
+ * Covers the screen so the next player can take the device without
+ * seeing the previous player's hand, then hands back to combat on ready.
+ * Its view is PassDeviceSceneComponent, drawn over the combat board
+ * while the scene is active
+ */
+export class PassDeviceScene implements Scene {
+  name = 'passDevice';
+  private audioManager: WebAudioManager | null = null;
+  private nextPlayer: HotSeatPlayer = HOT_SEAT_PLAYERS.player;
+  private onReadyCallback: ((player: HotSeatPlayer) => void) | null = null;
+  private active = false;
+
+  constructor(audioManager?: WebAudioManager) {
+    this.audioManager = audioManager || null;
+  }
+
+  /**
+   * Set the player the device is being passed to
+   */
+  setNextPlayer(side: CombatSide): void {
+    this.nextPlayer = HOT_SEAT_PLAYERS[side];
+  }
+
+  /**
+   * Get the player the device is being passed to
+   */
+  getNextPlayer(): HotSeatPlayer {
+    return this.nextPlayer;
+  }
+
+  /**
+   * Set callback for when the next player is ready
+   */
+  setOnReady(callback: (player: HotSeatPlayer) => void): void {
+    this.onReadyCallback = callback;
+  }
+
+  /**
+   * Trigger ready action, from the view's ready button
+   */
+  triggerReady(): void {
+    if (this.onReadyCallback) {
+      this.onReadyCallback(this.nextPlayer);
+    }
+  }
+
+  /**
+   * Whether the device is being passed, between enter and exit
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  async load(): Promise<void> {
+    // Nothing to load - the interstitial is plain UI
+  }
+
+  enter(): void {
+    // Soft cue so the current player knows to hand over the device
+    if (this.audioManager) {
+      this.audioManager.playSound('turnChange');
+    }
+
+    this.active = true;
+  }
+
+  exit(): void {
+    this.active = false;
+  }
+
+  update(_deltaTime: number): void {
+    // No game loop updates needed
+  }
+
+  cleanup(): void {
+    // Release resources
+    this.onReadyCallback = null;
+  }
+}
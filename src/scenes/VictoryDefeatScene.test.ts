@@ -93,6 +93,30 @@ describe('VictoryDefeatScene', () => {
       expect(container?.innerHTML).toContain('💀');
     });
 
+    it('should display match stats when set', () => {
+      const side = { damageDealt: 42, damageTaken: 17, cardsPlayed: 6, highestHit: 12, turns: 7 };
+      scene.setStats({
+        player: side,
+        opponent: side,
+        rounds: 6,
+        durationMs: 95000,
+        hpTimeline: [],
+        winner: 'player',
+      });
+      scene.enter();
+
+      const container = document.getElementById('scene-container');
+      expect(container?.querySelector('#match-stats')).not.toBeNull();
+      expect(container?.innerHTML).toContain('<dd>42</dd>');
+      expect(container?.innerHTML).toContain('1:35');
+    });
+
+    it('should not display stats by default', () => {
+      scene.enter();
+
+      expect(document.getElementById('match-stats')).toBeNull();
+    });
+
     it('should exit scene and stop music', () => {
       scene.enter();
       scene.exit();
@@ -1,6 +1,8 @@
 import { Scene } from '../systems/SceneManager';
 import { WebAudioManager } from '../systems/WebAudioManager';
 import { AnimationTimeline } from '../systems/AnimationTimeline';
+import type { MatchStats } from '../systems/MatchStats';
+import { formatDuration } from '../systems/MatchStats';
 
 export type VictoryDefeatType = 'victory' | 'defeat';
 
@@ -14,6 +16,7 @@ export class VictoryDefeatScene implements Scene {
   private audioManager: WebAudioManager | null = null;
   private animationTimeline: AnimationTimeline | null = null;
   private onPlayAgainCallback: (() => void) | null = null;
+  private stats: MatchStats | null = null;
 
   constructor(
     type: VictoryDefeatType,
@@ -39,6 +42,20 @@ export class VictoryDefeatScene implements Scene {
     return this.type;
   }
 
+  /**
+   * Set the stats shown under the result
+   */
+  setStats(stats: MatchStats | null): void {
+    this.stats = stats;
+  }
+
+  /**
+   * Get the stats shown under the result
+   */
+  getStats(): MatchStats | null {
+    return this.stats;
+  }
+
   /**
    * Set callback for play again button
    */
@@ -105,6 +122,7 @@ export class VictoryDefeatScene implements Scene {
   cleanup(): void {
     // Release resources
     this.onPlayAgainCallback = null;
+    this.stats = null;
   }
 
   private mountUI(): void {
@@ -113,9 +131,21 @@ export class VictoryDefeatScene implements Scene {
       const message = this.type === 'victory' ? 'Victory!' : 'Defeat';
       const emoji = this.type === 'victory' ? '🎉' : '💀';
 
+      const stats = this.stats
+        ? `
+          <dl id="match-stats">
+            <dt>Damage dealt</dt><dd>${this.stats.player.damageDealt}</dd>
+            <dt>Damage taken</dt><dd>${this.stats.player.damageTaken}</dd>
+            <dt>Cards played</dt><dd>${this.stats.player.cardsPlayed}</dd>
+            <dt>Highest hit</dt><dd>${this.stats.player.highestHit}</dd>
+            <dt>Turns taken</dt><dd>${this.stats.player.turns}</dd>
+            <dt>Match length</dt><dd>${formatDuration(this.stats.durationMs)}</dd>
+          </dl>`
+        : '';
+
       container.innerHTML = `
         <div id="victory-defeat-scene">
-          <h1>${emoji} ${message} ${emoji}</h1>
+          <h1>${emoji} ${message} ${emoji}</h1>${stats}
           <button id="play-again-button">Play Again</button>
           <button id="main-menu-button">Main Menu</button>
         </div>
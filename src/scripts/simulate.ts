@@ -0,0 +1,81 @@
+/**
+ * Balance simulation CLI
+ *
+ * Usage:
+ *   npm run simulate -- --games 1000 --player hard --opponent medium \
+ *     --mode initiative --rules quick --mulligan true --seed 42 --format csv --out report.csv
+ *
+ * Hand rules: --drawPerTurn 1 --maxHandSize 7 --refillHand false --fatigueDamage 1
+ *
+ * Prints the report to stdout unless --out is given.
+ */
+
+import { writeFileSync } from 'fs';
+import type { AIDifficulty } from '@/systems/AIOpponent';
+import { AI_DIFFICULTIES } from '@/systems/AIOpponent';
+import type { CombatMode } from '@/systems/CombatStateMachine';
+import type { RuleSet, RuleSetId } from '@/systems/RuleSet';
+import { RULE_SETS, RULE_SET_IDS } from '@/systems/RuleSet';
+import {
+  formatSimulationCSV,
+  formatSimulationJSON,
+  runSimulation,
+} from '@/systems/MatchSimulator';
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--') && i + 1 < argv.length) {
+      args[argv[i].slice(2)] = argv[++i];
+    }
+  }
+  return args;
+};
+
+const parseDifficulty = (value: string | undefined): AIDifficulty => {
+  if (value === undefined) return 'easy';
+  if (!AI_DIFFICULTIES.includes(value as AIDifficulty)) {
+    throw new Error(`Unknown AI difficulty: ${value}`);
+  }
+  return value as AIDifficulty;
+};
+
+const parseRuleSet = (value: string | undefined): RuleSet | undefined => {
+  if (value === undefined) return undefined;
+  if (!RULE_SET_IDS.includes(value as RuleSetId)) {
+    throw new Error(`Unknown rule set: ${value}`);
+  }
+  return RULE_SETS[value as RuleSetId];
+};
+
+const parseNumber = (value: string | undefined): number | undefined =>
+  value !== undefined ? Number(value) : undefined;
+
+const args = parseArgs(process.argv.slice(2));
+
+const report = runSimulation({
+  games: Number(args.games ?? 100),
+  seed: args.seed !== undefined ? Number(args.seed) : undefined,
+  playerPolicy: parseDifficulty(args.player),
+  opponentPolicy: parseDifficulty(args.opponent),
+  mode: (args.mode as CombatMode | undefined) ?? 'alternating',
+  ruleSet: parseRuleSet(args.rules),
+  deckSize: args.deckSize !== undefined ? Number(args.deckSize) : undefined,
+  maxTurns: args.maxTurns !== undefined ? Number(args.maxTurns) : undefined,
+  mulligan: args.mulligan === 'true',
+  handRules: {
+    drawPerTurn: parseNumber(args.drawPerTurn),
+    maxHandSize: parseNumber(args.maxHandSize),
+    refillHand: args.refillHand !== undefined ? args.refillHand === 'true' : undefined,
+    fatigueDamage: parseNumber(args.fatigueDamage),
+  },
+});
+
+const output = args.format === 'csv' ? formatSimulationCSV(report) : formatSimulationJSON(report);
+
+if (args.out) {
+  writeFileSync(args.out, output);
+  console.log(`Wrote ${report.games} simulated games to ${args.out}`);
+} else {
+  console.log(output);
+}
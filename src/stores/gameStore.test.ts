@@ -1,6 +1,15 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { useGameStore } from './gameStore';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createActor } from 'xstate';
+import { useGameStore, DAMAGE_NUMBER_DURATION_MS } from './gameStore';
 import type { Card } from '@/types';
+import { combatMachine } from '@/systems/CombatStateMachine';
+import { createSavedMatch } from '@/systems/MatchPersistence';
+import { AI_PRESET, PLAYER_TWO_PRESET } from '@/systems/AvatarPresets';
+import { DEFAULT_HAND_RULES } from '@/systems/HandRules';
+import { RULE_SETS, DEFAULT_RULE_SET } from '@/systems/RuleSet';
+import { CardPackRegistry } from '@/systems/CardPackRegistry';
+import { AssetLoader } from '@/systems/AssetLoader';
+import { LocalStorageDeckPersistence } from '@/systems/DeckPersistence';
 
 describe('GameStore', () => {
   beforeEach(() => {
@@ -46,6 +55,15 @@ describe('GameStore', () => {
         isTransitioning: false,
         showPauseMenu: false,
       },
+      hotSeat: {
+        enabled: false,
+        handHidden: false,
+      },
+      handRules: {
+        rules: DEFAULT_HAND_RULES,
+        fatigue: { player: 0, opponent: 0 },
+        discardPile: { player: [], opponent: [] },
+      },
     });
   });
   
@@ -142,6 +160,235 @@ describe('GameStore', () => {
       const state = useGameStore.getState();
       expect(state.combat.currentTurn).toBe('opponent');
     });
+    
+    it('should resume a saved match', () => {
+      const card: Card = {
+        id: 'card_001',
+        name: 'Swift Strike',
+        type: 'attack',
+        rarity: 'common',
+        stats: { attack: 8, defense: 2, speed: 9 },
+        artwork: '/test.png',
+      };
+      const actor = createActor(combatMachine);
+      actor.start();
+      actor.send({ type: 'START_COMBAT', seed: 3, mode: 'initiative', playerDeck: [card, card, card, card, card, card] });
+      
+      useGameStore.getState().resumeMatch(
+        createSavedMatch(actor.getSnapshot(), {
+          avatars: {
+            player: { customization: AI_PRESET.customization, currentAnimation: 'idle' },
+            ai: { customization: AI_PRESET.customization, currentAnimation: 'victory' },
+          },
+        })
+      );
+      
+      const state = useGameStore.getState();
+      expect(state.combat.state).toBe('INITIATIVE.COMMIT');
+      expect(state.cards.playerHand).toHaveLength(5);
+      expect(state.cards.playerDeck).toHaveLength(1);
+      expect(state.avatars.player.customization).toEqual(AI_PRESET.customization);
+      expect(state.avatars.ai.currentAnimation).toBe('victory');
+    });
+    
+    it('should sync status effects and clear them on reset', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      actor.send({ type: 'START_COMBAT', seed: 3 });
+      const context = actor.getSnapshot().context;
+      
+      const store = useGameStore.getState();
+      store.syncCombatContext('PLAYER_TURN', {
+        ...context,
+        effects: { ...context.effects, opponent: { ...context.effects.opponent, stunnedTurns: 2 } },
+      });
+      expect(useGameStore.getState().effects.opponent.stunnedTurns).toBe(2);
+      
+      store.resetGameState();
+      expect(useGameStore.getState().effects.opponent.stunnedTurns).toBe(0);
+      
+      actor.stop();
+    });
+    
+    it('should play a live match on the combat machine under the rule set', () => {
+      const store = useGameStore.getState();
+      store.setRuleSet(RULE_SETS.quick);
+      store.startMatch(7);
+      
+      let state = useGameStore.getState();
+      expect(state.combat.state).toBe('MULLIGAN');
+      expect(state.combat.playerHP).toBe(RULE_SETS.quick.startingHP);
+      expect(state.cards.playerHand).toHaveLength(RULE_SETS.quick.openingHandSize);
+      expect(state.cards.opponentDeck.length + state.cards.opponentHand.length).toBe(RULE_SETS.quick.deckSize);
+      
+      // The player keeps the opening hand; the AI has made its own choice
+      store.mulligan([]);
+      expect(useGameStore.getState().combat.state).toBe('PLAYER_TURN');
+      
+      store.playCard(0);
+      
+      state = useGameStore.getState();
+      expect(state.combat.state).toBe('PLAYER_TURN');
+      expect(state.combatLog.some((entry) => entry.type === 'cardPlayed' && entry.side === 'opponent')).toBe(true);
+      expect(state.matchStats.player.cardsPlayed).toBe(1);
+      expect(state.matchStats.opponent.cardsPlayed).toBe(1);
+      expect(state.battlefield.opponentSide.activeCard).not.toBeNull();
+      
+      store.resetGameState();
+      expect(useGameStore.getState().liveMatch).toBeNull();
+      store.setRuleSet(DEFAULT_RULE_SET);
+    });
+    
+    it('should skip the mulligan in hot-seat matches', () => {
+      const store = useGameStore.getState();
+      store.setHotSeat(true);
+      store.startMatch(7);
+      
+      expect(useGameStore.getState().combat.state).toBe('PLAYER_TURN');
+      
+      store.resetGameState();
+      store.setHotSeat(false);
+    });
+    
+    it('should deal the same match from the same seed', () => {
+      const store = useGameStore.getState();
+      store.startMatch(21);
+      const first = useGameStore.getState().cards;
+      store.startMatch(21);
+      const second = useGameStore.getState().cards;
+      
+      expect(second.playerHand).toEqual(first.playerHand);
+      expect(second.opponentDeck).toEqual(first.opponentDeck);
+      
+      store.resetGameState();
+    });
+    
+    it('should deal the deck builder deck in every match', () => {
+      const card: Card = {
+        id: 'card_built',
+        name: 'Built Card',
+        type: 'attack',
+        rarity: 'common',
+        stats: { attack: 4, defense: 2, speed: 5 },
+        artwork: '/test.png',
+      };
+      const store = useGameStore.getState();
+      store.setMatchDeck(Array.from({ length: 20 }, () => card));
+      
+      store.startMatch(7);
+      store.startMatch(7);
+      
+      const { cards } = useGameStore.getState();
+      expect([...cards.playerHand, ...cards.playerDeck].every((c) => c.id === 'card_built')).toBe(true);
+      
+      store.resetGameState();
+      store.setMatchDeck(null);
+    });
+    
+    // Cards without effects, so no stun or shield changes how the turns go
+    const plainCard: Card = {
+      id: 'card_plain',
+      name: 'Plain Strike',
+      type: 'attack',
+      rarity: 'common',
+      stats: { attack: 5, defense: 2, speed: 8 },
+      artwork: '/test.png',
+    };
+    const plainDeck = Array.from({ length: 20 }, () => plainCard);
+    
+    it('should save the live match each turn and resume it where it was left', () => {
+      const store = useGameStore.getState();
+      store.setMatchDeck(plainDeck);
+      store.startMatch(7);
+      expect(store.matchPersistence.loadMatch()).toBeNull();
+      
+      store.mulligan([]);
+      store.playCard(0);
+      const saved = store.matchPersistence.loadMatch();
+      expect(saved?.state).toBe('PLAYER_TURN');
+      expect(saved?.context).toEqual(useGameStore.getState().liveMatch?.getSnapshot().context);
+      expect(saved?.rngState).toBe(useGameStore.getState().liveMatch?.getRandomState());
+      
+      store.resetGameState();
+      store.resumeMatch(saved!);
+      
+      let state = useGameStore.getState();
+      expect(store.matchPersistence.loadMatch()).toBeNull();
+      expect(state.combat.state).toBe('PLAYER_TURN');
+      expect(state.cards.playerHand).toEqual(saved!.context.playerHand);
+      expect(state.matchStats.player.cardsPlayed).toBe(1);
+      
+      store.playCard(0);
+      state = useGameStore.getState();
+      expect(state.matchStats.player.cardsPlayed).toBe(2);
+      expect(store.matchPersistence.loadMatch()).not.toBeNull();
+      
+      store.resetGameState();
+      store.matchPersistence.clearMatch();
+      store.setMatchDeck(null);
+    });
+    
+    it('should resume a saved match at the difficulty it was saved with', () => {
+      const store = useGameStore.getState();
+      store.setMatchDeck(plainDeck);
+      store.setAIDifficulty('hard');
+      store.startMatch(7);
+      store.mulligan([]);
+      store.playCard(0);
+      const saved = store.matchPersistence.loadMatch()!;
+      expect(saved.difficulty).toBe('hard');
+      
+      store.resetGameState();
+      store.setAIDifficulty('easy');
+      store.resumeMatch(saved);
+      
+      expect(useGameStore.getState().liveMatch?.getDifficulty()).toBe('hard');
+      expect(useGameStore.getState().aiDifficulty).toBe('hard');
+      
+      store.resetGameState();
+      store.matchPersistence.clearMatch();
+      store.setAIDifficulty('easy');
+      store.setMatchDeck(null);
+    });
+    
+    it('should keep the save and the match in play when a save cannot be resumed', () => {
+      const store = useGameStore.getState();
+      store.setMatchDeck(plainDeck);
+      store.startMatch(7);
+      store.mulligan([]);
+      store.playCard(0);
+      const saved = store.matchPersistence.loadMatch()!;
+      const { liveMatch, combat } = useGameStore.getState();
+      
+      expect(() => store.resumeMatch({ ...saved, state: 'BOGUS' as typeof saved.state })).toThrow();
+      
+      expect(store.matchPersistence.loadMatch()).toEqual(saved);
+      expect(useGameStore.getState().liveMatch).toBe(liveMatch);
+      expect(useGameStore.getState().combat).toEqual(combat);
+      
+      store.resetGameState();
+      store.matchPersistence.clearMatch();
+      store.setMatchDeck(null);
+    });
+    
+    it('should clear the saved match once it ends', () => {
+      const store = useGameStore.getState();
+      store.setMatchDeck(plainDeck);
+      store.startMatch(7);
+      store.mulligan([]);
+      store.playCard(0);
+      expect(store.matchPersistence.hasSavedMatch()).toBe(true);
+      
+      // Knocked out by the next card, however little damage the random opponent lets through
+      useGameStore.getState().liveMatch!.getSnapshot().context.opponentHP = 0;
+      store.playCard(0);
+      
+      expect(useGameStore.getState().combat.state).toBe('END');
+      expect(store.matchPersistence.hasSavedMatch()).toBe(false);
+      
+      store.resetGameState();
+      store.setMatchDeck(null);
+    });
   });
   
   describe('Card State Management', () => {
@@ -230,6 +477,446 @@ describe('GameStore', () => {
     });
   });
   
+  describe('Card Packs', () => {
+    const packCard = {
+      id: 'frost_001',
+      name: 'Frost Bite',
+      type: 'attack',
+      rarity: 'rare',
+      stats: { attack: 7, defense: 3, speed: 6 },
+      artwork: '/assets/cards/frost_001.png',
+    };
+    const { cardPacks: bundledPacks, cardDatabase: bundledDatabase } = useGameStore.getState();
+    const originalFetch = global.fetch;
+    
+    beforeEach(() => {
+      // No bundled cards, so every card dealt comes from the pack
+      const cardPacks = new CardPackRegistry({ version: '1.1.0', cards: [] }, new AssetLoader());
+      useGameStore.setState({ cardPacks, cardDatabase: cardPacks.getDatabase() });
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ version: '1.1.0', cards: [packCard] }),
+      });
+    });
+    
+    afterEach(() => {
+      useGameStore.setState({ cardPacks: bundledPacks, cardDatabase: bundledDatabase });
+      global.fetch = originalFetch;
+    });
+    
+    it('should deal cards from loaded card packs', async () => {
+      const store = useGameStore.getState();
+      await store.loadCardPack('frost', '/packs/frost.json');
+      
+      store.startMatch(7);
+      
+      const { cards } = useGameStore.getState();
+      expect(cards.playerHand.length).toBeGreaterThan(0);
+      expect([...cards.playerHand, ...cards.opponentHand].every((card) => card.id === packCard.id)).toBe(true);
+      
+      store.resetGameState();
+      store.matchPersistence.clearMatch();
+    });
+    
+    it('should drop a disabled pack from the card database', async () => {
+      const store = useGameStore.getState();
+      await store.loadCardPack('frost', '/packs/frost.json');
+      expect(useGameStore.getState().cardDatabase.cards.map((card) => card.id)).toEqual([packCard.id]);
+      
+      store.setCardPackEnabled('frost', false);
+      
+      expect(useGameStore.getState().cardDatabase.cards).toHaveLength(0);
+    });
+  });
+  
+  describe('Active Deck', () => {
+    it('should start with the deck picked in an earlier session', async () => {
+      const persistence = new LocalStorageDeckPersistence();
+      const cardIds = Array.from({ length: 20 }, () => 'card_001');
+      persistence.saveDeck({ id: 'deck-1', name: 'Aggro', cardIds });
+      persistence.setActiveDeckId('deck-1');
+      
+      vi.resetModules();
+      const { useGameStore: freshStore } = await import('./gameStore');
+      
+      const { matchDeck } = freshStore.getState();
+      expect(matchDeck).toHaveLength(20);
+      expect(matchDeck?.every((card) => card.id === 'card_001')).toBe(true);
+      localStorage.clear();
+    });
+  });
+  
+  describe('Hand Rules', () => {
+    const mockCard: Card = {
+      id: 'card_001',
+      name: 'Test Card',
+      type: 'attack',
+      rarity: 'common',
+      stats: { attack: 5, defense: 2, speed: 8 },
+      artwork: '/test.png',
+    };
+    
+    it('should deal fatigue damage when drawing from an empty deck', () => {
+      const store = useGameStore.getState();
+      store.setHandRules({ fatigueDamage: 3 });
+      store.setPlayerDeck([]);
+      
+      store.drawCard();
+      store.drawCard();
+      
+      const state = useGameStore.getState();
+      expect(state.handRules.fatigue.player).toBe(2);
+      expect(state.combat.playerHP).toBe(91);
+      expect(state.battlefield.playerSide.hp).toBe(91);
+    });
+    
+    it('should respect the configured hand limit', () => {
+      const store = useGameStore.getState();
+      store.setHandRules({ maxHandSize: 2 });
+      store.setPlayerHand([mockCard, mockCard]);
+      store.setPlayerDeck([mockCard]);
+      
+      store.drawCard();
+      
+      expect(useGameStore.getState().cards.playerHand).toHaveLength(2);
+    });
+    
+    it('should not refill after a play when refill is off', () => {
+      const store = useGameStore.getState();
+      store.setHandRules({ refillHand: false });
+      store.setPlayerHand([mockCard, mockCard]);
+      store.setPlayerDeck([mockCard]);
+      
+      store.playCard(0);
+      
+      const state = useGameStore.getState();
+      expect(state.cards.playerHand).toHaveLength(1);
+      expect(state.cards.playerDeck).toHaveLength(1);
+    });
+    
+    it('should sync hand rules, fatigue and discards from the combat machine', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      actor.send({
+        type: 'START_COMBAT',
+        handRules: { drawPerTurn: 1, refillHand: false },
+        playerDeck: Array.from({ length: 6 }, (_, i) => ({ ...mockCard, id: `card_${i}` })),
+      });
+      
+      useGameStore.getState().syncCombatContext('PLAYER_TURN', actor.getSnapshot().context);
+      
+      const { handRules } = useGameStore.getState();
+      expect(handRules.rules.drawPerTurn).toBe(1);
+      expect(handRules.discardPile.player.map((c) => c.id)).toEqual(['card_5']);
+      
+      actor.stop();
+    });
+    
+    it('should sync the combat log and match stats and clear them on reset', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      actor.send({ type: 'START_COMBAT', seed: 3 });
+      actor.send({ type: 'PLAY_CARD', card: mockCard });
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      actor.send({ type: 'DAMAGE_APPLIED' });
+      
+      const store = useGameStore.getState();
+      store.syncCombatContext('AI_TURN', actor.getSnapshot().context);
+      expect(useGameStore.getState().combatLog.length).toBeGreaterThan(0);
+      expect(useGameStore.getState().combatLog[0].seq).toBe(1);
+      expect(useGameStore.getState().matchStats.player.cardsPlayed).toBe(1);
+      expect(useGameStore.getState().matchStats.hpTimeline).toHaveLength(2);
+      
+      store.resetGameState();
+      expect(useGameStore.getState().combatLog).toEqual([]);
+      expect(useGameStore.getState().matchStats.player.cardsPlayed).toBe(0);
+      
+      actor.stop();
+    });
+    
+    it('should keep the rules but clear fatigue on reset', () => {
+      const store = useGameStore.getState();
+      store.setHandRules({ fatigueDamage: 1 });
+      store.drawCard();
+      
+      store.resetGameState();
+      
+      const { handRules } = useGameStore.getState();
+      expect(handRules.rules.fatigueDamage).toBe(1);
+      expect(handRules.fatigue.player).toBe(0);
+    });
+    
+    it('should keep the chosen deck when the rule set changes before a match', () => {
+      const store = useGameStore.getState();
+      store.setPlayerDeck([mockCard, mockCard]);
+      
+      store.setRuleSet(RULE_SETS.quick);
+      
+      const state = useGameStore.getState();
+      expect(state.cards.playerDeck).toEqual([mockCard, mockCard]);
+      expect(state.combat.playerHP).toBe(RULE_SETS.quick.startingHP);
+      expect(state.battlefield.opponentSide.maxHP).toBe(RULE_SETS.quick.startingHP);
+      expect(state.handRules.rules).toEqual(RULE_SETS.quick.hand);
+    });
+  });
+  
+  describe('Hot-seat Mode', () => {
+    const mockCard: Card = {
+      id: 'card_001',
+      name: 'Test Card',
+      type: 'attack',
+      rarity: 'common',
+      stats: { attack: 5, defense: 2, speed: 8 },
+      artwork: '/test.png',
+    };
+    
+    it('should show the second player avatar on the opponent side', () => {
+      useGameStore.getState().setHotSeat(true);
+      
+      let state = useGameStore.getState();
+      expect(state.hotSeat.enabled).toBe(true);
+      expect(state.avatars.ai.customization).toEqual(PLAYER_TWO_PRESET.customization);
+      
+      state.setHotSeat(false);
+      
+      state = useGameStore.getState();
+      expect(state.avatars.ai.customization).toEqual(AI_PRESET.customization);
+    });
+    
+    it('should play from the current player hand and pass the device', () => {
+      const store = useGameStore.getState();
+      store.setHotSeat(true);
+      store.setCurrentTurn('opponent');
+      store.setOpponentHand([mockCard, { ...mockCard, id: 'card_002' }]);
+      
+      store.playCard(0);
+      
+      const state = useGameStore.getState();
+      expect(state.cards.opponentHand.map((card) => card.id)).toEqual(['card_002']);
+      expect(state.combat.currentTurn).toBe('player');
+      expect(state.hotSeat.handHidden).toBe(true);
+    });
+    
+    it('should not play while the hand is hidden', () => {
+      const store = useGameStore.getState();
+      store.setHotSeat(true);
+      store.setPlayerHand([mockCard]);
+      useGameStore.setState({ hotSeat: { enabled: true, handHidden: true } });
+      
+      store.playCard(0);
+      expect(useGameStore.getState().cards.playerHand).toHaveLength(1);
+      
+      store.revealHand();
+      store.playCard(0);
+      expect(useGameStore.getState().cards.playerHand).toHaveLength(0);
+    });
+    
+    it('should hide the hand when a synced turn changes sides', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      actor.send({ type: 'START_COMBAT', seed: 3, opponent: 'human' });
+      
+      const store = useGameStore.getState();
+      store.syncCombatContext('PLAYER_TURN', actor.getSnapshot().context);
+      expect(useGameStore.getState().hotSeat).toEqual({ enabled: true, handHidden: false });
+      
+      actor.send({ type: 'PLAY_CARD', card: mockCard });
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      actor.send({ type: 'DAMAGE_APPLIED' });
+      store.syncCombatContext('AI_TURN', actor.getSnapshot().context);
+      expect(useGameStore.getState().hotSeat.handHidden).toBe(true);
+      
+      actor.stop();
+    });
+  });
+  
+  describe('Turn Timer', () => {
+    const createCard = (id: string, attack: number): Card => ({
+      id,
+      name: `Card ${id}`,
+      type: 'attack',
+      rarity: 'common',
+      stats: { attack, defense: 2, speed: 8 },
+      artwork: '/test.png',
+    });
+    
+    beforeEach(() => {
+      useGameStore.getState().setTurnTimer(0);
+    });
+    
+    it('should do nothing while the timer is off', () => {
+      const store = useGameStore.getState();
+      store.startTurnTimer();
+      
+      expect(useGameStore.getState().turnTimerInstance).toBeNull();
+      expect(useGameStore.getState().turnTimer.running).toBe(false);
+    });
+    
+    it('should count down whole seconds', () => {
+      const store = useGameStore.getState();
+      store.setTurnTimer(10);
+      store.startTurnTimer();
+      
+      const timer = useGameStore.getState().turnTimerInstance!;
+      timer.update(0.4);
+      expect(useGameStore.getState().turnTimer.remaining).toBe(10);
+      
+      timer.update(3);
+      expect(useGameStore.getState().turnTimer.remaining).toBe(7);
+      expect(useGameStore.getState().turnTimer.warning).toBe(false);
+      
+      timer.update(3);
+      expect(useGameStore.getState().turnTimer.warning).toBe(true);
+    });
+    
+    it('should play a card automatically when time runs out', () => {
+      const store = useGameStore.getState();
+      store.setPlayerHand([createCard('a', 3), createCard('b', 9)]);
+      store.setTurnTimer(5);
+      store.startTurnTimer();
+      
+      useGameStore.getState().turnTimerInstance!.update(5);
+      
+      const state = useGameStore.getState();
+      expect(state.cards.playerHand).toHaveLength(1);
+      // The next turn starts with the full time again
+      expect(state.turnTimer.running).toBe(true);
+      expect(state.turnTimer.remaining).toBe(5);
+    });
+    
+    it('should pick the automatic card from the live match seed', () => {
+      const autoPlay = () => {
+        const store = useGameStore.getState();
+        store.startMatch(13);
+        store.mulligan([]);
+        store.setTurnTimer(5);
+        store.startTurnTimer();
+        
+        useGameStore.getState().turnTimerInstance!.update(5);
+        
+        const { combatLog } = useGameStore.getState();
+        store.resetGameState();
+        return combatLog;
+      };
+      
+      const log = autoPlay();
+      expect(log.some((entry) => entry.type === 'cardPlayed' && entry.side === 'player')).toBe(true);
+      expect(autoPlay()).toEqual(log);
+    });
+    
+    it('should stop after passing the device in hot-seat', () => {
+      const store = useGameStore.getState();
+      store.setHotSeat(true);
+      store.setPlayerHand([createCard('a', 3)]);
+      store.setTurnTimer(5);
+      store.startTurnTimer();
+      
+      useGameStore.getState().turnTimerInstance!.update(5);
+      
+      const state = useGameStore.getState();
+      expect(state.cards.playerHand).toHaveLength(0);
+      expect(state.hotSeat.handHidden).toBe(true);
+      expect(state.turnTimer.running).toBe(false);
+    });
+    
+    it('should stop when the game resets', () => {
+      const store = useGameStore.getState();
+      store.setTurnTimer(5);
+      store.startTurnTimer();
+      store.resetGameState();
+      
+      expect(useGameStore.getState().turnTimer.running).toBe(false);
+      expect(useGameStore.getState().turnTimerInstance!.isRunning()).toBe(false);
+    });
+  });
+  
+  describe('Hit Feedback', () => {
+    beforeEach(() => {
+      useGameStore.setState({ damageNumbers: [], avatarAnimationListeners: [] });
+    });
+    
+    it('should show a damage number over the hit side, then remove it', () => {
+      vi.useFakeTimers();
+      const store = useGameStore.getState();
+      
+      store.showDamageNumber('opponent', 12);
+      store.showDamageNumber('player', 3);
+      
+      const shown = useGameStore.getState().damageNumbers;
+      expect(shown.map((damage) => damage.value)).toEqual([12, 3]);
+      expect(shown[0].y).toBeLessThan(shown[1].y);
+      expect(shown[0].id).not.toBe(shown[1].id);
+      
+      vi.advanceTimersByTime(DAMAGE_NUMBER_DURATION_MS);
+      expect(useGameStore.getState().damageNumbers).toEqual([]);
+      vi.useRealTimers();
+    });
+    
+    it('should add and remove avatar animation event listeners', () => {
+      const listener = vi.fn();
+      const stop = useGameStore.getState().onAvatarAnimationEvent(listener);
+      
+      expect(useGameStore.getState().avatarAnimationListeners).toEqual([listener]);
+      
+      stop();
+      expect(useGameStore.getState().avatarAnimationListeners).toEqual([]);
+    });
+    
+    it('should clear damage numbers on reset', () => {
+      useGameStore.getState().showDamageNumber('player', 5);
+      useGameStore.getState().resetGameState();
+      
+      expect(useGameStore.getState().damageNumbers).toEqual([]);
+    });
+  });
+  
+  describe('Accessory Unlocks', () => {
+    beforeEach(() => {
+      useGameStore.setState({ unlockedAccessories: [] });
+      localStorage.clear();
+    });
+    
+    it('should unlock a locked accessory once', () => {
+      const store = useGameStore.getState();
+      
+      expect(store.accessories.isUnlocked('crown', store.unlockedAccessories)).toBe(false);
+      
+      store.unlockAccessory('crown');
+      store.unlockAccessory('crown');
+      
+      const { accessories, unlockedAccessories } = useGameStore.getState();
+      expect(unlockedAccessories).toEqual(['crown']);
+      expect(accessories.isUnlocked('crown', unlockedAccessories)).toBe(true);
+      expect(store.persistence.loadUnlockedAccessories()).toEqual(['crown']);
+    });
+    
+    it('should unlock accessories by beating the AI', () => {
+      const store = useGameStore.getState();
+      store.setAIDifficulty('medium');
+      store.startMatch(7);
+      store.mulligan([]);
+      
+      useGameStore.getState().liveMatch!.getSnapshot().context.opponentHP = 0;
+      store.playCard(0);
+      
+      expect(useGameStore.getState().combat.state).toBe('END');
+      expect(useGameStore.getState().unlockedAccessories).toEqual(['tower']);
+      
+      store.resetGameState();
+      store.setAIDifficulty('easy');
+    });
+    
+    it('should ignore unknown accessories', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      
+      useGameStore.getState().unlockAccessory('jetpack');
+      
+      expect(useGameStore.getState().unlockedAccessories).toEqual([]);
+      expect(warn).toHaveBeenCalledWith('Unknown accessory: jetpack');
+      warn.mockRestore();
+    });
+  });
+  
   describe('UI State Management', () => {
     it('should change current scene', () => {
       const store = useGameStore.getState();
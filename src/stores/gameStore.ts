@@ -1,11 +1,38 @@
 import { create } from 'zustand';
 import { GameLoop } from '@/systems/GameLoop';
-import type { Card, BattlefieldState, CustomizationData, AnimationState } from '@/types';
+import type { Card, BattlefieldState, CombatSide, CustomizationData, AnimationState, DamageNumber } from '@/types';
 import { AvatarSystemImpl } from '@/systems/AvatarSystem';
-import { AnimationControllerImpl } from '@/systems/AnimationController';
+import { AnimationControllerImpl, DEFAULT_FADE_TIME } from '@/systems/AnimationController';
+import type { AnimationEvent } from '@/systems/AnimationController';
+import { AnimationClipLibrary } from '@/systems/AnimationClipLibrary';
+import { defaultAccessoryRegistry } from '@/systems/AccessoryRegistry';
+import type { AccessoryRegistry } from '@/systems/AccessoryRegistry';
 import { CameraControllerImpl } from '@/systems/CameraController';
 import { LocalStoragePersistence } from '@/systems/AvatarPersistence';
-import { PLAYER_PRESET, AI_PRESET } from '@/systems/AvatarPresets';
+import { PLAYER_PRESET, AI_PRESET, getOpponentPreset } from '@/systems/AvatarPresets';
+import type { CombatContext } from '@/systems/CombatStateMachine';
+import { formatCombatState } from '@/systems/CombatStateMachine';
+import type { MatchPersistence, SavedMatch } from '@/systems/MatchPersistence';
+import { LocalStorageMatchPersistence, createSavedMatch } from '@/systems/MatchPersistence';
+import type { HandRules } from '@/systems/HandRules';
+import { DEFAULT_HAND_RULES, createHandRules, drawCards } from '@/systems/HandRules';
+import { createActiveEffects } from '@/systems/CardEffects';
+import type { ActiveEffects } from '@/systems/CardEffects';
+import type { RuleSet } from '@/systems/RuleSet';
+import { DEFAULT_RULE_SET } from '@/systems/RuleSet';
+import { resetBattlefield } from '@/systems/BattlefieldSystem';
+import { TurnTimer } from '@/systems/TurnTimer';
+import type { CombatLogEntry } from '@/systems/CombatLog';
+import { MatchStatsCollector } from '@/systems/MatchStats';
+import type { MatchStats } from '@/systems/MatchStats';
+import { EasyAI } from '@/systems/AIOpponent';
+import type { AIDifficulty } from '@/systems/AIOpponent';
+import { LiveMatch, startLiveMatch, resumeLiveMatch } from '@/systems/LiveMatch';
+import { CardPackRegistry } from '@/systems/CardPackRegistry';
+import { buildMatchDeck } from '@/systems/DeckBuilder';
+import { LocalStorageDeckPersistence, loadActiveDeck } from '@/systems/DeckPersistence';
+import type { CardDatabase } from '@/data/cardSchema';
+import type { WebAudioManager } from '@/systems/WebAudioManager';
 import * as THREE from 'three';
 
 interface GameLoopState {
@@ -32,6 +59,38 @@ interface CardState {
   dragPosition: { x: number; y: number } | null;
 }
 
+interface HotSeatState {
+  enabled: boolean; // Opponent side is a second local player
+  handHidden: boolean; // Hand stays face down until the next player is ready
+}
+
+interface HandRulesState {
+  rules: HandRules;
+  fatigue: Record<CombatSide, number>; // Draws attempted from an empty deck
+  discardPile: Record<CombatSide, Card[]>; // Cards drawn into a full hand
+}
+
+interface TurnTimerState {
+  duration: number; // Seconds per turn; 0 turns the timer off
+  remaining: number; // Whole seconds left, for display
+  running: boolean;
+  warning: boolean; // Time is nearly up
+}
+
+// Called with an avatar id ('player' or 'ai') and the marker its clip passed
+type AvatarAnimationEventListener = (avatarId: string, event: AnimationEvent) => void;
+
+// How long a damage number stays on the battlefield
+export const DAMAGE_NUMBER_DURATION_MS = 1000;
+
+// Where each side's damage numbers appear, in battlefield percent
+const DAMAGE_NUMBER_POSITIONS: Record<CombatSide, { x: number; y: number }> = {
+  player: { x: 50, y: 75 },
+  opponent: { x: 50, y: 25 },
+};
+
+let damageNumberId = 0;
+
 interface UIState {
   currentScene: string;
   isTransitioning: boolean;
@@ -69,6 +128,17 @@ interface GameStore {
   combat: CombatState;
   cards: CardState;
   battlefield: BattlefieldState;
+  damageNumbers: DamageNumber[]; // Hits shown over the battlefield
+  effects: Record<CombatSide, ActiveEffects>; // Status effects on each side
+  combatLog: CombatLogEntry[];
+  matchStats: MatchStats; // Collected from the combat log for the post-match screen
+  hotSeat: HotSeatState;
+  handRules: HandRulesState;
+  ruleSet: RuleSet; // Rules for the next match, or the match in progress
+  matchDeck: Card[] | null; // Deck from the deck builder for each match; null deals a random one
+  cardDatabase: CardDatabase; // Bundled cards and enabled card packs; matches and the deck builder use it
+  aiDifficulty: AIDifficulty; // Of the AI opponent in the next match, or the match in progress
+  turnTimer: TurnTimerState;
   ui: UIState;
   avatars: AvatarState;
   camera: CameraState;
@@ -77,10 +147,25 @@ interface GameStore {
   // Game Loop instance
   gameLoopInstance: GameLoop | null;
   
+  // Turn timer instance, advanced by the game loop
+  turnTimerInstance: TurnTimer | null;
+  
+  // Stats collector, fed by combat context syncs
+  matchStatsCollector: MatchStatsCollector;
+  
+  // Match in progress on the combat machine, mirrored into the store
+  liveMatch: LiveMatch | null;
+  
   // Avatar system instances
   avatarSystem: AvatarSystemImpl | null;
   cameraController: CameraControllerImpl | null;
+  animationClips: AnimationClipLibrary; // Shared by both avatars; load more clips here
+  accessories: AccessoryRegistry;
+  unlockedAccessories: string[]; // Locked accessories the player has unlocked; saved across sessions
+  avatarAnimationListeners: AvatarAnimationEventListener[];
   persistence: LocalStoragePersistence;
+  matchPersistence: MatchPersistence; // Match in progress, saved for the main menu's Continue
+  cardPacks: CardPackRegistry;
   
   // Actions
   startGameLoop: () => void;
@@ -94,20 +179,43 @@ interface GameStore {
   setPlayerHP: (hp: number) => void;
   setOpponentHP: (hp: number) => void;
   setCurrentTurn: (turn: 'player' | 'opponent') => void;
+  syncCombatContext: (state: string, context: CombatContext) => void;
+  resumeMatch: (match: SavedMatch) => void;
+  startMatch: (seed?: number) => void; // A random seed unless given
   
   // Card actions
   setPlayerHand: (hand: Card[]) => void;
   setOpponentHand: (hand: Card[]) => void;
   setPlayerDeck: (deck: Card[]) => void;
   setOpponentDeck: (deck: Card[]) => void;
+  setMatchDeck: (deck: Card[] | null) => void;
   selectCard: (index: number | null) => void;
   playCard: (cardIndex: number) => void;
-  drawCard: () => void;
+  mulligan: (cardIds: string[]) => void;
+  drawCard: (side?: CombatSide) => void;
+  setHandRules: (rules: Partial<HandRules>) => void;
+  setRuleSet: (ruleSet: RuleSet) => void;
+  setAIDifficulty: (difficulty: AIDifficulty) => void;
   setIsDragging: (isDragging: boolean) => void;
   setDragPosition: (position: { x: number; y: number } | null) => void;
   
+  // Card pack actions
+  loadCardPack: (packId: string, url: string) => Promise<void>;
+  setCardPackEnabled: (packId: string, enabled: boolean) => void;
+  
   // Battlefield actions
   setBattlefield: (battlefield: BattlefieldState) => void;
+  showDamageNumber: (side: CombatSide, value: number) => void;
+  
+  // Hot-seat actions
+  setHotSeat: (enabled: boolean) => void;
+  revealHand: () => void;
+  
+  // Turn timer actions
+  setTurnTimer: (duration: number, audioManager?: WebAudioManager) => void;
+  startTurnTimer: () => void;
+  stopTurnTimer: () => void;
+  autoPlayCard: () => void;
   
   // UI actions
   setCurrentScene: (scene: string) => void;
@@ -121,6 +229,8 @@ interface GameStore {
   initializeAvatarSystem: (canvas: HTMLCanvasElement) => Promise<void>;
   updateAvatarCustomization: (avatarId: 'player' | 'ai', customization: CustomizationData) => void;
   playAvatarAnimation: (avatarId: 'player' | 'ai', state: AnimationState) => void;
+  onAvatarAnimationEvent: (listener: AvatarAnimationEventListener) => () => void;
+  unlockAccessory: (accessoryId: string) => void;
   
   // Camera actions
   orbitCamera: (deltaX: number, deltaY: number) => void;
@@ -138,6 +248,46 @@ interface GameStore {
   resetGameState: () => void;
 }
 
+/**
+ * Mirror a live match into the store; it is saved each time the turn passes
+ * to a human and the save is cleared once the match ends
+ */
+function followLiveMatch(liveMatch: LiveMatch, get: () => GameStore): void {
+  liveMatch.subscribe((snapshot) => {
+    const { syncCombatContext, matchPersistence, avatars, accessories, unlockAccessory } = get();
+    syncCombatContext(formatCombatState(snapshot.value), snapshot.context);
+    
+    if (liveMatch.isFinished()) {
+      matchPersistence.clearMatch();
+      
+      // Beating the AI unlocks the accessories of its difficulty
+      if (snapshot.context.winner === 'player' && snapshot.context.opponentController === 'ai') {
+        accessories.getVictoryUnlocks(liveMatch.getDifficulty()).forEach((id) => unlockAccessory(id));
+      }
+    } else if (liveMatch.isWaitingForPlayer()) {
+      matchPersistence.saveMatch(
+        createSavedMatch(snapshot, {
+          rngState: liveMatch.getRandomState(),
+          difficulty: liveMatch.getDifficulty(),
+          avatars: {
+            player: { customization: avatars.player.customization, currentAnimation: avatars.player.currentAnimation },
+            ai: { customization: avatars.ai.customization, currentAnimation: avatars.ai.currentAnimation },
+          },
+        })
+      );
+    }
+  });
+  
+  const snapshot = liveMatch.getSnapshot();
+  get().syncCombatContext(formatCombatState(snapshot.value), snapshot.context);
+}
+
+const avatarPersistence = new LocalStoragePersistence();
+const cardPacks = new CardPackRegistry();
+
+// The deck picked in the deck builder in an earlier session, so matches use it from the start
+const activeDeck = loadActiveDeck(new LocalStorageDeckPersistence());
+
 export const useGameStore = create<GameStore>((set, get) => ({
   // Initial state
   gameLoop: {
@@ -174,8 +324,8 @@ export const useGameStore = create<GameStore>((set, get) => ({
   
   combat: {
     state: 'IDLE',
-    playerHP: 100,
-    opponentHP: 100,
+    playerHP: DEFAULT_RULE_SET.startingHP,
+    opponentHP: DEFAULT_RULE_SET.startingHP,
     currentTurn: 'player',
   },
   
@@ -189,17 +339,41 @@ export const useGameStore = create<GameStore>((set, get) => ({
     dragPosition: null,
   },
   
-  battlefield: {
-    playerSide: {
-      activeCard: null,
-      hp: 100,
-      maxHP: 100,
-    },
-    opponentSide: {
-      activeCard: null,
-      hp: 100,
-      maxHP: 100,
-    },
+  battlefield: resetBattlefield(DEFAULT_RULE_SET.startingHP),
+  
+  damageNumbers: [],
+  
+  effects: {
+    player: createActiveEffects(),
+    opponent: createActiveEffects(),
+  },
+  
+  combatLog: [],
+  
+  matchStats: new MatchStatsCollector().getStats(),
+  
+  hotSeat: {
+    enabled: false,
+    handHidden: false,
+  },
+  
+  handRules: {
+    rules: DEFAULT_HAND_RULES,
+    fatigue: { player: 0, opponent: 0 },
+    discardPile: { player: [], opponent: [] },
+  },
+  
+  ruleSet: DEFAULT_RULE_SET,
+  
+  matchDeck: activeDeck ? buildMatchDeck(activeDeck, cardPacks.getDatabase()) : null,
+  
+  aiDifficulty: 'easy',
+  
+  turnTimer: {
+    duration: 0,
+    remaining: 0,
+    running: false,
+    warning: false,
   },
   
   ui: {
@@ -209,9 +383,19 @@ export const useGameStore = create<GameStore>((set, get) => ({
   },
   
   gameLoopInstance: null,
+  turnTimerInstance: null,
+  matchStatsCollector: new MatchStatsCollector(),
+  liveMatch: null,
   avatarSystem: null,
   cameraController: null,
-  persistence: new LocalStoragePersistence(),
+  animationClips: new AnimationClipLibrary(),
+  accessories: defaultAccessoryRegistry,
+  unlockedAccessories: avatarPersistence.loadUnlockedAccessories(),
+  avatarAnimationListeners: [],
+  persistence: avatarPersistence,
+  matchPersistence: new LocalStorageMatchPersistence(),
+  cardPacks,
+  cardDatabase: cardPacks.getDatabase(),
   
   // Game Loop Actions
   startGameLoop: () => {
@@ -228,6 +412,12 @@ export const useGameStore = create<GameStore>((set, get) => ({
           const frameTime = loop.getFrameTime();
           get().updateGameLoopMetrics(fps, frameTime);
           
+          // Update turn timer; it pauses along with the loop
+          const { turnTimerInstance } = get();
+          if (turnTimerInstance) {
+            turnTimerInstance.update(deltaTime);
+          }
+          
           // Update camera controller
           const { cameraController, avatarSystem } = get();
           if (cameraController) {
@@ -335,6 +525,105 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }));
   },
   
+  syncCombatContext: (machineState, context) => {
+    const hotSeat = context.opponentController === 'human';
+    
+    const { matchStatsCollector } = get();
+    matchStatsCollector.record(context.log, { player: context.playerHP, opponent: context.opponentHP });
+    
+    set((state) => ({
+      combat: {
+        state: machineState,
+        playerHP: context.playerHP,
+        opponentHP: context.opponentHP,
+        currentTurn: context.currentTurn,
+      },
+      cards: {
+        ...state.cards,
+        playerHand: context.playerHand,
+        opponentHand: context.opponentHand,
+        playerDeck: context.playerDeck,
+        opponentDeck: context.opponentDeck,
+        selectedCardIndex: null,
+      },
+      battlefield: context.battlefield,
+      effects: context.effects,
+      combatLog: context.log,
+      matchStats: matchStatsCollector.getStats(),
+      handRules: {
+        rules: context.handRules,
+        fatigue: context.fatigue,
+        discardPile: context.discardPile,
+      },
+      ruleSet: context.ruleSet,
+      hotSeat: {
+        enabled: hotSeat,
+        // Hide the hand whenever the device changes hands
+        handHidden:
+          hotSeat && (state.hotSeat.handHidden || context.currentTurn !== state.combat.currentTurn),
+      },
+    }));
+  },
+  
+  resumeMatch: (match) => {
+    // Restore first, so a save that cannot be resumed is kept and the store left as it was
+    const liveMatch = resumeLiveMatch(match);
+    
+    // The stats start from the resumed match's starting HP; a rematch keeps its difficulty
+    set({ ruleSet: match.context.ruleSet, aiDifficulty: match.difficulty });
+    get().resetGameState();
+    get().matchPersistence.clearMatch();
+    
+    followLiveMatch(liveMatch, get);
+    set({ liveMatch });
+    
+    // Whoever picks up a resumed hot-seat match must not see the hand first
+    if (match.context.opponentController === 'human') {
+      set((state) => ({ hotSeat: { ...state.hotSeat, handHidden: true } }));
+    }
+    
+    const savedAvatars = match.avatars;
+    if (!savedAvatars) return;
+    
+    const { avatarSystem } = get();
+    if (avatarSystem) {
+      try {
+        avatarSystem.updateAvatar('player', savedAvatars.player.customization);
+        avatarSystem.updateAvatar('ai', savedAvatars.ai.customization);
+      } catch (error) {
+        console.error('Failed to restore avatars:', error);
+      }
+    }
+    
+    set((state) => ({
+      avatars: {
+        player: { ...state.avatars.player, ...savedAvatars.player },
+        ai: { ...state.avatars.ai, ...savedAvatars.ai },
+      },
+    }));
+  },
+  
+  startMatch: (seed) => {
+    get().resetGameState();
+    
+    // A new match replaces any saved one
+    const { ruleSet, hotSeat, matchDeck, aiDifficulty, matchPersistence, cardDatabase } = get();
+    matchPersistence.clearMatch();
+    
+    const liveMatch = startLiveMatch({
+      seed,
+      ruleSet,
+      opponent: hotSeat.enabled ? 'human' : 'ai',
+      difficulty: aiDifficulty,
+      // Hot-seat players would see each other's opening hands
+      mulligan: !hotSeat.enabled,
+      playerDeck: matchDeck ?? undefined,
+      database: cardDatabase,
+    });
+    followLiveMatch(liveMatch, get);
+    set({ liveMatch });
+  },
+  
   // Card Actions
   setPlayerHand: (hand) => {
     set((state) => ({
@@ -360,6 +649,13 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }));
   },
   
+  setMatchDeck: (deck) => {
+    set((state) => ({
+      matchDeck: deck,
+      cards: deck ? { ...state.cards, playerDeck: deck } : state.cards,
+    }));
+  },
+  
   selectCard: (index) => {
     set((state) => ({
       cards: { ...state.cards, selectedCardIndex: index },
@@ -367,45 +663,126 @@ export const useGameStore = create<GameStore>((set, get) => ({
   },
   
   playCard: (cardIndex) => {
-    const { cards } = get();
-    const card = cards.playerHand[cardIndex];
+    const { cards, combat, hotSeat, liveMatch } = get();
     
-    if (!card) return;
+    // In hot-seat matches the hand in play belongs to whoever's turn it is
+    const side: CombatSide = hotSeat.enabled ? combat.currentTurn : 'player';
+    const handKey = side === 'player' ? 'playerHand' : 'opponentHand';
+    const card = cards[handKey][cardIndex];
     
-    // Remove card from hand
-    const newHand = cards.playerHand.filter((_, i) => i !== cardIndex);
+    if (!card || (hotSeat.enabled && hotSeat.handHidden)) return;
     
-    set((state) => ({
-      cards: {
-        ...state.cards,
-        playerHand: newHand,
-        selectedCardIndex: null,
-      },
-    }));
+    if (liveMatch) {
+      // The combat machine resolves the card and the AI's reply; its snapshots
+      // update the hands, HP, log and turn
+      if (!liveMatch.playCard(card)) return;
+    } else {
+      // Remove card from hand
+      const newHand = cards[handKey].filter((_, i) => i !== cardIndex);
+      
+      set((state) => ({
+        cards: {
+          ...state.cards,
+          [handKey]: newHand,
+          selectedCardIndex: null,
+        },
+      }));
+      
+      // Draw a replacement card when the hand rules refill the hand
+      if (get().handRules.rules.refillHand) {
+        get().drawCard(side);
+      }
+    }
     
-    // Draw a new card to refill hand
-    get().drawCard();
+    // Pass the device to the other player
+    if (hotSeat.enabled) {
+      if (!liveMatch) {
+        set((state) => ({
+          combat: { ...state.combat, currentTurn: side === 'player' ? 'opponent' : 'player' },
+          hotSeat: { ...state.hotSeat, handHidden: true },
+        }));
+      }
+      get().stopTurnTimer();
+    } else if (get().turnTimer.running) {
+      // Next turn gets the full time again
+      get().startTurnTimer();
+    }
+  },
+  
+  mulligan: (cardIds) => {
+    get().liveMatch?.mulligan(cardIds);
   },
   
-  drawCard: () => {
-    const { cards } = get();
+  drawCard: (side = 'player') => {
+    const { cards, combat, battlefield, handRules } = get();
+    const handKey = side === 'player' ? 'playerHand' : 'opponentHand';
+    const deckKey = side === 'player' ? 'playerDeck' : 'opponentDeck';
+    const hpKey = side === 'player' ? 'playerHP' : 'opponentHP';
+    const sideKey = side === 'player' ? 'playerSide' : 'opponentSide';
     
-    // Don't draw if hand is full or deck is empty
-    if (cards.playerHand.length >= 5 || cards.playerDeck.length === 0) {
+    // Don't draw into a full hand
+    if (cards[handKey].length >= handRules.rules.maxHandSize) {
       return;
     }
     
-    const [drawnCard, ...remainingDeck] = cards.playerDeck;
+    // An empty deck deals fatigue damage instead
+    const result = drawCards(
+      {
+        hp: combat[hpKey],
+        maxHP: battlefield[sideKey].maxHP,
+        hand: cards[handKey],
+        deck: cards[deckKey],
+        effects: createActiveEffects(),
+      },
+      1,
+      handRules.rules,
+      handRules.fatigue[side]
+    );
     
     set((state) => ({
+      combat: { ...state.combat, [hpKey]: result.combatant.hp },
       cards: {
         ...state.cards,
-        playerHand: [...state.cards.playerHand, drawnCard],
-        playerDeck: remainingDeck,
+        [handKey]: result.combatant.hand,
+        [deckKey]: result.combatant.deck,
+      },
+      battlefield: {
+        ...state.battlefield,
+        [sideKey]: { ...state.battlefield[sideKey], hp: result.combatant.hp },
+      },
+      handRules: {
+        ...state.handRules,
+        fatigue: { ...state.handRules.fatigue, [side]: result.fatigue },
       },
     }));
   },
   
+  setRuleSet: (ruleSet) => {
+    set((state) => ({
+      ruleSet,
+      handRules: { ...state.handRules, rules: ruleSet.hand },
+    }));
+    
+    // Before a match starts, show the new starting HP; the chosen deck stays
+    if (get().combat.state === 'IDLE') {
+      const { startingHP } = ruleSet;
+      set((state) => ({
+        combat: { ...state.combat, playerHP: startingHP, opponentHP: startingHP },
+        battlefield: resetBattlefield(startingHP),
+      }));
+    }
+  },
+  
+  setAIDifficulty: (difficulty) => {
+    set({ aiDifficulty: difficulty });
+  },
+  
+  setHandRules: (rules) => {
+    set((state) => ({
+      handRules: { ...state.handRules, rules: createHandRules({ ...state.handRules.rules, ...rules }) },
+    }));
+  },
+  
   setIsDragging: (isDragging) => {
     set((state) => ({
       cards: { ...state.cards, isDragging },
@@ -418,11 +795,133 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }));
   },
   
+  // Card Pack Actions
+  loadCardPack: async (packId, url) => {
+    const { cardPacks } = get();
+    await cardPacks.loadPack(packId, url);
+    set({ cardDatabase: cardPacks.getDatabase() });
+  },
+  
+  setCardPackEnabled: (packId, enabled) => {
+    const { cardPacks } = get();
+    cardPacks.setPackEnabled(packId, enabled);
+    set({ cardDatabase: cardPacks.getDatabase() });
+  },
+  
   // Battlefield Actions
   setBattlefield: (battlefield) => {
     set({ battlefield });
   },
   
+  showDamageNumber: (side, value) => {
+    const damageNumber: DamageNumber = {
+      id: `damage-${++damageNumberId}`,
+      value,
+      ...DAMAGE_NUMBER_POSITIONS[side],
+    };
+    
+    set((state) => ({ damageNumbers: [...state.damageNumbers, damageNumber] }));
+    
+    setTimeout(() => {
+      set((state) => ({
+        damageNumbers: state.damageNumbers.filter((shown) => shown.id !== damageNumber.id),
+      }));
+    }, DAMAGE_NUMBER_DURATION_MS);
+  },
+  
+  // Hot-seat Actions
+  setHotSeat: (enabled) => {
+    const changed = get().hotSeat.enabled !== enabled;
+    set({ hotSeat: { enabled, handHidden: false } });
+    if (!changed) return;
+    
+    // The opponent avatar shows the second player instead of the AI
+    const customization = getOpponentPreset(enabled ? 'human' : 'ai').customization;
+    if (get().avatarSystem) {
+      get().updateAvatarCustomization('ai', customization);
+    } else {
+      set((state) => ({
+        avatars: { ...state.avatars, ai: { ...state.avatars.ai, customization } },
+      }));
+    }
+  },
+  
+  revealHand: () => {
+    set((state) => ({
+      hotSeat: { ...state.hotSeat, handHidden: false },
+    }));
+  },
+  
+  // Turn Timer Actions
+  setTurnTimer: (duration, audioManager) => {
+    const { turnTimerInstance } = get();
+    if (turnTimerInstance) {
+      turnTimerInstance.dispose();
+    }
+    
+    const seconds = Number.isFinite(duration) ? Math.max(0, Math.floor(duration)) : 0;
+    let timer: TurnTimer | null = null;
+    
+    if (seconds > 0) {
+      const instance = new TurnTimer({ duration: seconds }, audioManager);
+      instance.setOnTick((remaining) => {
+        // Only re-render when the displayed second changes
+        const display = Math.ceil(remaining);
+        if (display !== get().turnTimer.remaining) {
+          set((state) => ({ turnTimer: { ...state.turnTimer, remaining: display } }));
+        }
+      });
+      instance.setOnWarning(() => {
+        set((state) => ({ turnTimer: { ...state.turnTimer, warning: true } }));
+      });
+      instance.setOnExpire(() => {
+        get().autoPlayCard();
+        
+        // Playing a card restarts the timer for the next turn
+        if (!instance.isRunning()) {
+          set((state) => ({ turnTimer: { ...state.turnTimer, running: false, remaining: 0 } }));
+        }
+      });
+      timer = instance;
+    }
+    
+    set({
+      turnTimerInstance: timer,
+      turnTimer: { duration: seconds, remaining: seconds, running: false, warning: false },
+    });
+  },
+  
+  startTurnTimer: () => {
+    const { turnTimerInstance } = get();
+    if (!turnTimerInstance) return;
+    
+    turnTimerInstance.start();
+    set((state) => ({
+      turnTimer: { ...state.turnTimer, remaining: state.turnTimer.duration, running: true, warning: false },
+    }));
+  },
+  
+  stopTurnTimer: () => {
+    const { turnTimerInstance } = get();
+    if (turnTimerInstance) {
+      turnTimerInstance.stop();
+    }
+    set((state) => ({
+      turnTimer: { ...state.turnTimer, remaining: state.turnTimer.duration, running: false, warning: false },
+    }));
+  },
+  
+  autoPlayCard: () => {
+    const { cards, combat, hotSeat, liveMatch } = get();
+    const side: CombatSide = hotSeat.enabled ? combat.currentTurn : 'player';
+    const hand = side === 'player' ? cards.playerHand : cards.opponentHand;
+    
+    if (hand.length === 0 || (hotSeat.enabled && hotSeat.handHidden)) return;
+    
+    // Play the card the easy AI would pick; live matches pick from their seed
+    get().playCard(liveMatch ? liveMatch.selectAutoPlayCard(hand) : new EasyAI().selectCard(hand));
+  },
+  
   // UI Actions
   setCurrentScene: (scene) => {
     set((state) => ({
@@ -501,13 +1000,21 @@ export const useGameStore = create<GameStore>((set, get) => ({
       playerAvatar.mesh.position.set(-2, 0, 0);
       aiAvatar.mesh.position.set(2, 0, 0);
       
-      // Create animation controllers
-      const playerAnimController = new AnimationControllerImpl(playerAvatar.mesh);
-      const aiAnimController = new AnimationControllerImpl(aiAvatar.mesh);
+      // Create animation controllers that cross-fade between clips
+      const animationOptions = { fadeTime: DEFAULT_FADE_TIME, clips: get().animationClips };
+      const playerAnimController = new AnimationControllerImpl(playerAvatar.mesh, animationOptions);
+      const aiAnimController = new AnimationControllerImpl(aiAvatar.mesh, animationOptions);
       
       playerAvatar.animationController = playerAnimController;
       aiAvatar.animationController = aiAnimController;
       
+      // Pass clip event markers, such as an attack's impact frame, to listeners
+      const forwardEvents = (avatarId: 'player' | 'ai') => (event: AnimationEvent) => {
+        [...get().avatarAnimationListeners].forEach((listener) => listener(avatarId, event));
+      };
+      playerAnimController.onAnimationEvent(forwardEvents('player'));
+      aiAnimController.onAnimationEvent(forwardEvents('ai'));
+      
       // Create camera controller
       const camera = avatarSystem.getCamera();
       if (camera) {
@@ -592,6 +1099,31 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }
   },
   
+  onAvatarAnimationEvent: (listener) => {
+    set((state) => ({ avatarAnimationListeners: [...state.avatarAnimationListeners, listener] }));
+    
+    return () => {
+      set((state) => ({
+        avatarAnimationListeners: state.avatarAnimationListeners.filter((existing) => existing !== listener),
+      }));
+    };
+  },
+  
+  unlockAccessory: (accessoryId) => {
+    const { accessories, unlockedAccessories, persistence } = get();
+    
+    if (!accessories.has(accessoryId)) {
+      console.warn(`Unknown accessory: ${accessoryId}`);
+      return;
+    }
+    
+    if (!unlockedAccessories.includes(accessoryId)) {
+      const unlocked = [...unlockedAccessories, accessoryId];
+      set({ unlockedAccessories: unlocked });
+      persistence.saveUnlockedAccessories(unlocked);
+    }
+  },
+  
   // Camera Actions
   orbitCamera: (deltaX, deltaY) => {
     const { cameraController } = get();
@@ -663,11 +1195,23 @@ export const useGameStore = create<GameStore>((set, get) => ({
   
   // Reset game state
   resetGameState: () => {
+    const { startingHP } = get().ruleSet;
+    
+    const { turnTimerInstance, matchStatsCollector, liveMatch } = get();
+    if (turnTimerInstance) {
+      turnTimerInstance.stop();
+    }
+    if (liveMatch) {
+      liveMatch.stop();
+    }
+    matchStatsCollector.reset(startingHP);
+    
     set({
+      liveMatch: null,
       combat: {
         state: 'IDLE',
-        playerHP: 100,
-        opponentHP: 100,
+        playerHP: startingHP,
+        opponentHP: startingHP,
         currentTurn: 'player',
       },
       cards: {
@@ -679,17 +1223,21 @@ export const useGameStore = create<GameStore>((set, get) => ({
         isDragging: false,
         dragPosition: null,
       },
-      battlefield: {
-        playerSide: {
-          activeCard: null,
-          hp: 100,
-          maxHP: 100,
-        },
-        opponentSide: {
-          activeCard: null,
-          hp: 100,
-          maxHP: 100,
-        },
+      battlefield: resetBattlefield(startingHP),
+      effects: {
+        player: createActiveEffects(),
+        opponent: createActiveEffects(),
+      },
+      combatLog: [],
+      matchStats: matchStatsCollector.getStats(),
+      damageNumbers: [],
+      // A rematch keeps the same players and rules
+      hotSeat: { ...get().hotSeat, handHidden: false },
+      turnTimer: { ...get().turnTimer, remaining: get().turnTimer.duration, running: false, warning: false },
+      handRules: {
+        rules: get().handRules.rules,
+        fatigue: { player: 0, opponent: 0 },
+        discardPile: { player: [], opponent: [] },
       },
     });
   },
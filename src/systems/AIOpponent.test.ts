@@ -1,6 +1,19 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { EasyAI } from './AIOpponent';
-import type { Card } from '@/types';
+import {
+  EasyAI,
+  MediumAI,
+  HardAI,
+  createAIOpponent,
+  createAIGameState,
+  simulatePlay,
+  openingHandValue,
+} from './AIOpponent';
+import type { AIGameState } from './AIOpponent';
+import { createActiveEffects } from './CardEffects';
+import type { Combatant } from './CardEffects';
+import { SeededRandom } from './SeededRandom';
+import { DEFAULT_RULE_SET } from './RuleSet';
+import type { Card, CardEffect } from '@/types';
 
 describe('AIOpponent', () => {
   let ai: EasyAI;
@@ -279,4 +292,218 @@ describe('AIOpponent', () => {
       expect(selectedIndices.size).toBe(hand.length);
     });
   });
+  
+  describe('Seeded Random Source', () => {
+    it('should make identical decisions for the same seed', () => {
+      const hand = [
+        createMockCard('1', 5),
+        createMockCard('2', 8),
+        createMockCard('3', 6),
+      ];
+      
+      const aiA = new EasyAI({ suboptimalMoveChance: 0.5 }, new SeededRandom(77));
+      const aiB = new EasyAI({ suboptimalMoveChance: 0.5 }, new SeededRandom(77));
+      
+      for (let i = 0; i < 20; i++) {
+        expect(aiA.selectCard(hand)).toBe(aiB.selectCard(hand));
+        expect(aiA.getPlayDelay()).toBe(aiB.getPlayDelay());
+      }
+    });
+    
+    it('should use a replaced random source', () => {
+      const seededAI = new EasyAI();
+      seededAI.setRandomSource({ next: () => 0 });
+      
+      expect(seededAI.getPlayDelay()).toBe(1000);
+      expect(seededAI.shouldMakeSuboptimalMove()).toBe(true);
+    });
+  });
+  
+  describe('Mulligan', () => {
+    const deck = [createMockCard('d1', 8), createMockCard('d2', 8), createMockCard('d3', 8)];
+    const hand = [
+      createMockCard('1', 9),
+      createMockCard('2', 2),
+      createMockCard('3', 7),
+      createMockCard('4', 1),
+    ];
+    
+    it('should value attack, defense and effects', () => {
+      const effect: CardEffect = { type: 'heal', amount: 5 };
+      expect(openingHandValue(createMockCard('a', 10))).toBe(12.5);
+      expect(openingHandValue({ ...createMockCard('b', 10), effects: [effect] })).toBe(15.5);
+    });
+    
+    it('should replace cards weaker than an average draw, weakest first', () => {
+      const hard = new HardAI();
+      expect(hard.selectMulligan(hand, deck)).toEqual([1, 2, 3]);
+      
+      const easy = new EasyAI({ suboptimalMoveChance: 0 });
+      expect(easy.selectMulligan(hand, deck)).toEqual([3]);
+      
+      const medium = new MediumAI({ suboptimalMoveChance: 0 });
+      expect(medium.selectMulligan(hand, deck)).toEqual([1, 3]);
+    });
+    
+    it('should not replace more cards than the deck holds', () => {
+      expect(new HardAI().selectMulligan(hand, deck.slice(0, 1))).toEqual([3]);
+    });
+    
+    it('should keep the hand when the deck is empty', () => {
+      expect(new HardAI().selectMulligan(hand, [])).toEqual([]);
+    });
+    
+    it('should keep the hand on a suboptimal move', () => {
+      const careless = new EasyAI({ suboptimalMoveChance: 1 });
+      expect(careless.selectMulligan(hand, deck)).toEqual([]);
+    });
+  });
+  
+  describe('Game State', () => {
+    const createCard = (
+      id: string,
+      attack: number,
+      defense: number,
+      effects?: CardEffect[]
+    ): Card => ({
+      id,
+      name: `Card ${id}`,
+      type: 'attack',
+      rarity: 'common',
+      stats: { attack, defense, speed: 5 },
+      artwork: '/test.png',
+      effects,
+    });
+    
+    const createCombatant = (hp: number, hand: Card[] = []): Combatant => ({
+      hp,
+      maxHP: 100,
+      hand,
+      deck: [],
+      effects: createActiveEffects(),
+    });
+    
+    const createState = (
+      selfHP: number,
+      opponentHP: number,
+      opponentActiveCard: Card | null = null,
+      opponentHand: Card[] = []
+    ): AIGameState => ({
+      self: createCombatant(selfHP),
+      opponent: createCombatant(opponentHP, opponentHand),
+      selfActiveCard: null,
+      opponentActiveCard,
+      damageFormula: 'standard',
+    });
+    
+    it('should build the opponent view of a combat context', () => {
+      const playerCard = createCard('p', 10, 2);
+      const state = createAIGameState({
+        playerHP: 80,
+        opponentHP: 60,
+        playerHand: [],
+        opponentHand: [createCard('o', 5, 5)],
+        playerDeck: [],
+        opponentDeck: [],
+        battlefield: {
+          playerSide: { activeCard: playerCard, hp: 80, maxHP: 100 },
+          opponentSide: { activeCard: null, hp: 60, maxHP: 100 },
+        },
+        effects: { player: createActiveEffects(), opponent: createActiveEffects() },
+        ruleSet: DEFAULT_RULE_SET,
+      } as any);
+      
+      expect(state.self.hp).toBe(60);
+      expect(state.opponent.hp).toBe(80);
+      expect(state.self.hand).toHaveLength(1);
+      expect(state.opponentActiveCard).toBe(playerCard);
+    });
+    
+    it('should simulate a play with defense reduction', () => {
+      const card = createCard('a', 12, 3);
+      const state = createState(100, 100, createCard('d', 5, 8));
+      state.self.hand = [card];
+      
+      const next = simulatePlay(state, card);
+      
+      expect(next.opponent.hp).toBe(96);
+      expect(next.self.hand).toHaveLength(0);
+      expect(next.selfActiveCard).toBe(card);
+    });
+    
+    it('should simulate a play under the match damage formula', () => {
+      const card = createCard('a', 12, 3);
+      const state = { ...createState(100, 100, createCard('d', 5, 8)), damageFormula: 'piercing' as const };
+      state.self.hand = [card];
+      
+      expect(simulatePlay(state, card).opponent.hp).toBe(92);
+    });
+    
+    describe('MediumAI', () => {
+      it('should take lethal over a bigger defensive card', () => {
+        const medium = new MediumAI({ suboptimalMoveChance: 0 });
+        const hand = [createCard('wall', 2, 15), createCard('finisher', 8, 0)];
+        
+        expect(medium.selectCard(hand, createState(20, 6, createCard('p', 10, 1)))).toBe(1);
+      });
+      
+      it('should block a strong active card when behind in the HP race', () => {
+        const medium = new MediumAI({ suboptimalMoveChance: 0 });
+        const hand = [createCard('glass', 7, 0), createCard('wall', 4, 12)];
+        
+        expect(medium.selectCard(hand, createState(30, 90, createCard('p', 15, 0)))).toBe(1);
+      });
+      
+      it('should account for the player active card defense', () => {
+        const medium = new MediumAI({ suboptimalMoveChance: 0 });
+        // 10 attack into 9 defense deals 1; 8 attack with a heal is worth more
+        const hand = [
+          createCard('blunt', 10, 0),
+          createCard('drain', 8, 0, [{ type: 'heal', amount: 10 }]),
+        ];
+        
+        expect(medium.selectCard(hand, createState(50, 50, createCard('p', 0, 9)))).toBe(1);
+      });
+      
+      it('should fall back to highest attack without game state', () => {
+        const medium = new MediumAI({ suboptimalMoveChance: 0 });
+        
+        expect(medium.selectCard([createCard('1', 3, 0), createCard('2', 9, 0)])).toBe(1);
+      });
+    });
+    
+    describe('HardAI', () => {
+      it('should find lethal', () => {
+        const hard = new HardAI();
+        const hand = [createCard('wall', 3, 12), createCard('finisher', 10, 0)];
+        
+        expect(hard.selectCard(hand, createState(50, 9))).toBe(1);
+      });
+      
+      it('should stun to survive the player lethal reply', () => {
+        const hard = new HardAI({ searchDepth: 2 });
+        const playerHand = [createCard('p', 20, 0)];
+        const hand = [
+          createCard('hit', 10, 0),
+          createCard('stun', 1, 0, [{ type: 'stun', turns: 1 }]),
+        ];
+        
+        expect(hard.selectCard(hand, createState(15, 100, null, playerHand))).toBe(1);
+      });
+      
+      it('should never make suboptimal moves by default', () => {
+        expect(new HardAI().getConfig().suboptimalMoveChance).toBe(0);
+        expect(new HardAI().getSearchDepth()).toBe(3);
+      });
+    });
+    
+    describe('createAIOpponent', () => {
+      it('should create an AI for each difficulty', () => {
+        expect(createAIOpponent('easy')).toBeInstanceOf(EasyAI);
+        expect(createAIOpponent('medium')).toBeInstanceOf(MediumAI);
+        expect(createAIOpponent('hard')).toBeInstanceOf(HardAI);
+        expect(createAIOpponent('hard').difficulty).toBe('hard');
+      });
+    });
+  });
 });
@@ -1,11 +1,27 @@
 /**
  * AI Opponent System
  * 
- * Implements an easy-difficulty AI that makes random card selections
- * with occasional suboptimal moves and realistic play delays.
+ * Pluggable AI opponents behind a common interface:
+ * - EasyAI: highest attack or a random card, with occasional suboptimal moves
+ * - MediumAI: one-move heuristic weighing damage, defense and the HP race
+ * - HardAI: alpha-beta minimax over both hands, simulating card resolution
+ *
+ * Every AI also decides its opening-hand mulligan, replacing cards worth
+ * less than an average draw from its deck
  */
 
-import type { Card } from '@/types';
+import type { Card, CombatSide } from '@/types';
+import type { CombatContext } from './CombatStateMachine';
+import type { Combatant } from './CardEffects';
+import { resolveCard, tickEffects, isStunned } from './CardEffects';
+import { calculateDamage } from './BattlefieldSystem';
+import type { DamageFormula } from './BattlefieldSystem';
+import type { RandomSource } from './SeededRandom';
+import { mathRandom, randomInt } from './SeededRandom';
+
+export type AIDifficulty = 'easy' | 'medium' | 'hard';
+
+export const AI_DIFFICULTIES: AIDifficulty[] = ['easy', 'medium', 'hard'];
 
 export interface AIConfig {
   minPlayDelay: number; // Minimum delay in milliseconds
@@ -14,54 +30,186 @@ export interface AIConfig {
 }
 
 /**
- * EasyAI - Simple AI opponent with random card selection
+ * What the AI can see of the match when choosing a card
+ * "self" is the AI's side, "opponent" the side it is playing against
+ */
+export interface AIGameState {
+  self: Combatant;
+  opponent: Combatant;
+  selfActiveCard: Card | null;
+  opponentActiveCard: Card | null;
+  damageFormula: DamageFormula; // From the match rule set
+}
+
+/**
+ * Common interface for every AI difficulty
+ * Card selection returns an index into the given hand; mulligan selection
+ * returns the indices of the opening-hand cards to replace
+ */
+export interface AIOpponent {
+  readonly difficulty: AIDifficulty;
+  selectCard(hand: Card[], state?: AIGameState): number;
+  selectMulligan(hand: Card[], deck: Card[]): number[];
+  getPlayDelay(): number;
+  executeTurn(hand: Card[], state?: AIGameState): Promise<number>;
+  setRandomSource(rng: RandomSource): void;
+  updateConfig(config: Partial<AIConfig>): void;
+  getConfig(): AIConfig;
+}
+
+/**
+ * Build the AI's view of a combat context for one side
  */
-export class EasyAI {
-  private config: AIConfig;
+export function createAIGameState(
+  context: CombatContext,
+  side: CombatSide = 'opponent'
+): AIGameState {
+  const player: Combatant = {
+    hp: context.playerHP,
+    maxHP: context.battlefield.playerSide.maxHP,
+    hand: context.playerHand,
+    deck: context.playerDeck,
+    effects: context.effects.player,
+  };
+  const opponent: Combatant = {
+    hp: context.opponentHP,
+    maxHP: context.battlefield.opponentSide.maxHP,
+    hand: context.opponentHand,
+    deck: context.opponentDeck,
+    effects: context.effects.opponent,
+  };
+  const playerCard = context.battlefield.playerSide.activeCard;
+  const opponentCard = context.battlefield.opponentSide.activeCard;
+  const { damageFormula } = context.ruleSet;
+
+  return side === 'opponent'
+    ? { self: opponent, opponent: player, selfActiveCard: opponentCard, opponentActiveCard: playerCard, damageFormula }
+    : { self: player, opponent, selfActiveCard: playerCard, opponentActiveCard: opponentCard, damageFormula };
+}
+
+/**
+ * Play a card for "self" the way the combat machine resolves it:
+ * damage is reduced by the defender's active card under the match's
+ * damage formula, effects apply, and the card becomes self's active card
+ */
+export function simulatePlay(state: AIGameState, card: Card): AIGameState {
+  const index = state.self.hand.indexOf(card);
+  const attacker: Combatant = {
+    ...state.self,
+    hand: index === -1 ? state.self.hand : state.self.hand.filter((_, i) => i !== index),
+  };
+  
+  const result = resolveCard(
+    card,
+    attacker,
+    state.opponent,
+    calculateDamage(card, state.opponentActiveCard, state.damageFormula)
+  );
   
-  constructor(config?: Partial<AIConfig>) {
+  return {
+    self: result.attacker,
+    opponent: result.defender,
+    selfActiveCard: card,
+    opponentActiveCard: state.opponentActiveCard,
+    damageFormula: state.damageFormula,
+  };
+}
+
+/**
+ * Swap perspectives so the other side becomes "self"
+ */
+const flipState = (state: AIGameState): AIGameState => ({
+  self: state.opponent,
+  opponent: state.self,
+  selfActiveCard: state.opponentActiveCard,
+  opponentActiveCard: state.selfActiveCard,
+  damageFormula: state.damageFormula,
+});
+
+const pendingDamageOverTime = (combatant: Combatant): number =>
+  combatant.effects.damageOverTime.reduce((total, dot) => total + dot.damage * dot.turnsRemaining, 0);
+
+const pendingRegen = (combatant: Combatant): number =>
+  combatant.effects.regen.reduce((total, regen) => total + regen.amount * regen.turnsRemaining, 0);
+
+const pendingWeaken = (combatant: Combatant): number =>
+  combatant.effects.weaken ? combatant.effects.weaken.amount * combatant.effects.weaken.turnsRemaining : 0;
+
+/**
+ * Static evaluation of a position from self's point of view
+ * Positive favours self; decisive positions dominate everything else
+ */
+export function evaluateState(state: AIGameState): number {
+  const { self, opponent } = state;
+  
+  if (opponent.hp <= 0 && self.hp > 0) return 10000;
+  if (self.hp <= 0 && opponent.hp > 0) return -10000;
+  
+  const effective = (combatant: Combatant) =>
+    combatant.hp +
+    combatant.effects.shield * 0.8 -
+    pendingDamageOverTime(combatant) +
+    pendingRegen(combatant) * 0.8;
+  
+  return (
+    effective(self) -
+    effective(opponent) +
+    (opponent.effects.stunnedTurns - self.effects.stunnedTurns) * 6 +
+    (pendingWeaken(opponent) - pendingWeaken(self)) * 0.5 +
+    (self.effects.nextCardBuff - opponent.effects.nextCardBuff) * 0.5 +
+    ((state.selfActiveCard?.stats.defense ?? 0) - (state.opponentActiveCard?.stats.defense ?? 0)) * 0.5
+  );
+}
+
+/**
+ * Rough worth of a card in an opening hand, independent of the board
+ */
+export function openingHandValue(card: Card): number {
+  return card.stats.attack + card.stats.defense * 0.5 + (card.effects?.length ?? 0) * 3;
+}
+
+/**
+ * Shared delay, configuration, randomness and mulligan handling
+ */
+abstract class BaseAI implements AIOpponent {
+  abstract readonly difficulty: AIDifficulty;
+  protected config: AIConfig;
+  protected rng: RandomSource;
+  
+  constructor(defaults: AIConfig, config?: Partial<AIConfig>, rng: RandomSource = mathRandom) {
     this.config = {
-      minPlayDelay: 1000,
-      maxPlayDelay: 2000,
-      suboptimalMoveChance: 0.3,
+      ...defaults,
       ...config,
     };
+    this.rng = rng;
   }
   
+  abstract selectCard(hand: Card[], state?: AIGameState): number;
+  
   /**
-   * Select a card from the AI's hand
-   * Returns the index of the selected card
+   * Most opening-hand cards this AI will replace
    */
-  selectCard(hand: Card[]): number {
-    if (hand.length === 0) {
-      throw new Error('Cannot select card from empty hand');
-    }
-    
-    // Check if AI should make suboptimal move
-    if (this.shouldMakeSuboptimalMove()) {
-      // Select a random card (potentially suboptimal)
-      return Math.floor(Math.random() * hand.length);
-    }
-    
-    // Select best card (highest attack)
-    return this.selectBestCard(hand);
-  }
+  protected abstract readonly mulliganLimit: number;
   
   /**
-   * Select the best card from hand (highest attack stat)
+   * Choose opening-hand cards to replace: the weakest cards worth less
+   * than an average draw from the deck, up to mulliganLimit
+   * Suboptimal moves keep the hand as dealt
    */
-  private selectBestCard(hand: Card[]): number {
-    let bestIndex = 0;
-    let bestAttack = hand[0].stats.attack;
-    
-    for (let i = 1; i < hand.length; i++) {
-      if (hand[i].stats.attack > bestAttack) {
-        bestAttack = hand[i].stats.attack;
-        bestIndex = i;
-      }
+  selectMulligan(hand: Card[], deck: Card[]): number[] {
+    if (deck.length === 0 || this.shouldMakeSuboptimalMove()) {
+      return [];
     }
     
-    return bestIndex;
+    const expected = deck.reduce((total, card) => total + openingHandValue(card), 0) / deck.length;
+    
+    return hand
+      .map((card, index) => ({ index, value: openingHandValue(card) }))
+      .filter(({ value }) => value < expected)
+      .sort((a, b) => a.value - b.value || a.index - b.index)
+      .slice(0, Math.min(this.mulliganLimit, deck.length))
+      .map(({ index }) => index)
+      .sort((a, b) => a - b);
   }
   
   /**
@@ -72,7 +220,7 @@ export class EasyAI {
     const min = this.config.minPlayDelay;
     const max = this.config.maxPlayDelay;
     
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+    return randomInt(this.rng, max - min + 1) + min;
   }
   
   /**
@@ -80,19 +228,26 @@ export class EasyAI {
    * Returns true with probability equal to suboptimalMoveChance
    */
   shouldMakeSuboptimalMove(): boolean {
-    return Math.random() < this.config.suboptimalMoveChance;
+    return this.rng.next() < this.config.suboptimalMoveChance;
   }
   
   /**
    * Execute AI turn with delay
    * Returns a promise that resolves with the selected card index
    */
-  async executeTurn(hand: Card[]): Promise<number> {
+  async executeTurn(hand: Card[], state?: AIGameState): Promise<number> {
     const delay = this.getPlayDelay();
     
     await new Promise(resolve => setTimeout(resolve, delay));
     
-    return this.selectCard(hand);
+    return this.selectCard(hand, state);
+  }
+  
+  /**
+   * Replace the random source (e.g. with a match-seeded generator)
+   */
+  setRandomSource(rng: RandomSource): void {
+    this.rng = rng;
   }
   
   /**
@@ -111,4 +266,260 @@ export class EasyAI {
   getConfig(): AIConfig {
     return { ...this.config };
   }
+  
+  protected assertHand(hand: Card[]): void {
+    if (hand.length === 0) {
+      throw new Error('Cannot select card from empty hand');
+    }
+  }
+}
+
+/**
+ * Index of the highest-scoring card; earlier cards win ties
+ */
+const indexOfBest = (hand: Card[], score: (card: Card) => number): number => {
+  let bestIndex = 0;
+  let bestScore = -Infinity;
+  
+  hand.forEach((card, index) => {
+    const value = score(card);
+    if (value > bestScore) {
+      bestScore = value;
+      bestIndex = index;
+    }
+  });
+  
+  return bestIndex;
+};
+
+/**
+ * EasyAI - Simple AI opponent with random card selection
+ */
+export class EasyAI extends BaseAI {
+  readonly difficulty: AIDifficulty = 'easy';
+  protected readonly mulliganLimit = 1;
+  
+  constructor(config?: Partial<AIConfig>, rng: RandomSource = mathRandom) {
+    super(
+      {
+        minPlayDelay: 1000,
+        maxPlayDelay: 2000,
+        suboptimalMoveChance: 0.3,
+      },
+      config,
+      rng
+    );
+  }
+  
+  /**
+   * Select a card from the AI's hand
+   * Returns the index of the selected card
+   */
+  selectCard(hand: Card[]): number {
+    this.assertHand(hand);
+    
+    // Check if AI should make suboptimal move
+    if (this.shouldMakeSuboptimalMove()) {
+      // Select a random card (potentially suboptimal)
+      return randomInt(this.rng, hand.length);
+    }
+    
+    // Select best card (highest attack)
+    return this.selectBestCard(hand);
+  }
+  
+  /**
+   * Select the best card from hand (highest attack stat)
+   */
+  private selectBestCard(hand: Card[]): number {
+    return indexOfBest(hand, card => card.stats.attack);
+  }
+}
+
+/**
+ * MediumAI - Scores each card against the current board
+ * Takes lethal when available, otherwise weighs damage after the player's
+ * active card defense, how much of the player's active attack the card
+ * would block next turn, and card effects, leaning defensive when behind
+ * in the HP race
+ */
+export class MediumAI extends BaseAI {
+  readonly difficulty: AIDifficulty = 'medium';
+  protected readonly mulliganLimit = 2;
+  
+  constructor(config?: Partial<AIConfig>, rng: RandomSource = mathRandom) {
+    super(
+      {
+        minPlayDelay: 1000,
+        maxPlayDelay: 2000,
+        suboptimalMoveChance: 0.1,
+      },
+      config,
+      rng
+    );
+  }
+  
+  /**
+   * Select a card from the AI's hand
+   * Without a game state this falls back to the highest attack card
+   */
+  selectCard(hand: Card[], state?: AIGameState): number {
+    this.assertHand(hand);
+    
+    if (this.shouldMakeSuboptimalMove()) {
+      return randomInt(this.rng, hand.length);
+    }
+    
+    if (!state) {
+      return indexOfBest(hand, card => card.stats.attack);
+    }
+    
+    return indexOfBest(hand, card => this.scoreCard(card, state));
+  }
+  
+  /**
+   * Heuristic value of playing a card in the given state
+   */
+  scoreCard(card: Card, state: AIGameState): number {
+    const next = simulatePlay(state, card);
+    
+    if (next.opponent.hp <= 0) {
+      return 10000;
+    }
+    
+    const damage = state.opponent.hp - next.opponent.hp;
+    
+    // Damage the player's active card would deal into this card next turn
+    const threat = state.opponentActiveCard;
+    const blocked = threat
+      ? threat.stats.attack - calculateDamage(threat, card, state.damageFormula)
+      : card.stats.defense / 2;
+    
+    // Behind (or level) in the HP race: survival matters more than damage
+    const defenseWeight = state.self.hp <= state.opponent.hp ? 1.2 : 0.6;
+    
+    const effectValue = evaluateState(next) - evaluateState({ ...state, selfActiveCard: card }) - damage;
+    
+    return damage + blocked * defenseWeight + effectValue;
+  }
+}
+
+export interface HardAIConfig extends AIConfig {
+  searchDepth: number; // Plies to search (AI and player moves)
+}
+
+/**
+ * HardAI - Alpha-beta minimax over the AI's hand and the player's hand
+ * Each ply ticks lingering effects, skips stunned turns and resolves the
+ * card exactly as the combat machine would; leaves are scored with
+ * evaluateState
+ */
+export class HardAI extends BaseAI {
+  readonly difficulty: AIDifficulty = 'hard';
+  protected readonly mulliganLimit = Infinity;
+  private searchDepth: number;
+  
+  constructor(config?: Partial<HardAIConfig>, rng: RandomSource = mathRandom) {
+    const { searchDepth = 3, ...aiConfig } = config ?? {};
+    super(
+      {
+        minPlayDelay: 1200,
+        maxPlayDelay: 2200,
+        suboptimalMoveChance: 0,
+      },
+      aiConfig,
+      rng
+    );
+    this.searchDepth = Math.max(1, searchDepth);
+  }
+  
+  /**
+   * Select a card from the AI's hand
+   * Without a game state this falls back to the highest attack card
+   */
+  selectCard(hand: Card[], state?: AIGameState): number {
+    this.assertHand(hand);
+    
+    if (this.shouldMakeSuboptimalMove()) {
+      return randomInt(this.rng, hand.length);
+    }
+    
+    if (!state) {
+      return indexOfBest(hand, card => card.stats.attack);
+    }
+    
+    const root: AIGameState = { ...state, self: { ...state.self, hand } };
+    let alpha = -Infinity;
+    
+    return indexOfBest(hand, card => {
+      const value = -this.search(flipState(simulatePlay(root, card)), this.searchDepth - 1, -Infinity, -alpha);
+      alpha = Math.max(alpha, value);
+      return value;
+    });
+  }
+  
+  /**
+   * Get the configured search depth
+   */
+  getSearchDepth(): number {
+    return this.searchDepth;
+  }
+  
+  /**
+   * Negamax with alpha-beta pruning; "self" is the side to move
+   */
+  private search(state: AIGameState, depth: number, alpha: number, beta: number): number {
+    if (depth === 0 || state.self.hp <= 0 || state.opponent.hp <= 0) {
+      // Prefer faster wins and slower losses
+      return evaluateState(state) * (1 + depth * 0.01);
+    }
+    
+    // Start of turn: lingering effects tick, stunned sides pass
+    const ticked: AIGameState = { ...state, self: tickEffects(state.self) };
+    if (ticked.self.hp <= 0) {
+      return evaluateState(ticked);
+    }
+    
+    if (isStunned(ticked.self.effects) || ticked.self.hand.length === 0) {
+      const passed: AIGameState = {
+        ...ticked,
+        self: {
+          ...ticked.self,
+          effects: {
+            ...ticked.self.effects,
+            stunnedTurns: Math.max(0, ticked.self.effects.stunnedTurns - 1),
+          },
+        },
+      };
+      return -this.search(flipState(passed), depth - 1, -beta, -alpha);
+    }
+    
+    let best = -Infinity;
+    for (const card of ticked.self.hand) {
+      const value = -this.search(flipState(simulatePlay(ticked, card)), depth - 1, -beta, -alpha);
+      best = Math.max(best, value);
+      alpha = Math.max(alpha, value);
+      if (alpha >= beta) break;
+    }
+    
+    return best;
+  }
+}
+
+/**
+ * Create an AI opponent for a difficulty
+ */
+export function createAIOpponent(
+  difficulty: AIDifficulty,
+  rng: RandomSource = mathRandom
+): AIOpponent {
+  switch (difficulty) {
+    case 'medium':
+      return new MediumAI(undefined, rng);
+    case 'hard':
+      return new HardAI(undefined, rng);
+    case 'easy':
+    default:
+      return new EasyAI(undefined, rng);
+  }
 }
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { AccessoryRegistry, isDrawnAtDetail, parseAccessories } from './AccessoryRegistry';
+import { validateAccessory } from '../data/accessorySchema';
+import type { AccessoryDefinition } from '../data/accessorySchema';
+
+describe('AccessoryRegistry', () => {
+  const plume: AccessoryDefinition = {
+    id: 'plume',
+    name: 'Plume',
+    slot: 'hat',
+    size: [0.1, 0.6, 0.1],
+    color: '#ff00ff',
+  };
+
+  describe('bundled accessories', () => {
+    it('should list accessories by slot', () => {
+      const registry = new AccessoryRegistry();
+
+      expect(registry.getBySlot('hat').map((accessory) => accessory.id)).toEqual(['cap', 'helmet', 'crown']);
+      expect(registry.getBySlot('weapon').map((accessory) => accessory.id)).toEqual(['sword', 'axe', 'staff']);
+      expect(registry.getBySlot('shield').map((accessory) => accessory.id)).toEqual(['round', 'kite', 'tower']);
+    });
+
+    it('should check the slot an accessory is worn in', () => {
+      const registry = new AccessoryRegistry();
+
+      expect(registry.isValidForSlot('sword', 'weapon')).toBe(true);
+      expect(registry.isValidForSlot('sword', 'hat')).toBe(false);
+      expect(registry.isValidForSlot('laser', 'weapon')).toBe(false);
+    });
+
+    it('should fill in identity attachment transforms', () => {
+      const registry = new AccessoryRegistry();
+
+      expect(registry.getAttachment('cap')).toEqual({
+        position: [0, 0, 0],
+        rotation: [0, 0, 0],
+        scale: [1, 1, 1],
+      });
+      expect(registry.getAttachment('axe').rotation).toEqual([0, 0, -0.3]);
+    });
+  });
+
+  describe('compatibility', () => {
+    it('should keep shields out of the off hand of two-handed weapons', () => {
+      const registry = new AccessoryRegistry();
+
+      expect(registry.getConflicts('staff', { weapon: 'staff', shield: 'round' })).toEqual(['round']);
+      expect(registry.getConflicts('round', { weapon: 'staff', shield: 'round' })).toEqual(['staff']);
+      expect(registry.isCompatible({ weapon: 'staff', shield: 'kite' })).toBe(false);
+      expect(registry.isCompatible({ hat: 'cap', weapon: 'staff' })).toBe(true);
+      expect(registry.isCompatible({ weapon: 'axe', shield: 'round' })).toBe(true);
+    });
+
+    it('should exclude by accessory id as well as by slot', () => {
+      const registry = new AccessoryRegistry({
+        version: '1.0.0',
+        accessories: [
+          { ...plume, excludes: ['tower'] },
+          { ...plume, id: 'tower', name: 'Tower', slot: 'shield' },
+          { ...plume, id: 'buckler', name: 'Buckler', slot: 'shield' },
+        ],
+      });
+
+      expect(registry.isCompatible({ hat: 'plume', shield: 'tower' })).toBe(false);
+      expect(registry.isCompatible({ hat: 'plume', shield: 'buckler' })).toBe(true);
+    });
+
+    it('should only equip unlocked accessories that fit the slot and the rest', () => {
+      const registry = new AccessoryRegistry();
+
+      expect(registry.canEquip('staff', 'weapon', { shield: 'round' })).toBe(false);
+      expect(registry.canEquip('staff', 'weapon', { weapon: 'sword' })).toBe(true);
+      expect(registry.canEquip('staff', 'shield', {})).toBe(false);
+      expect(registry.canEquip('crown', 'hat', {})).toBe(false);
+      expect(registry.canEquip('crown', 'hat', {}, ['crown'])).toBe(true);
+    });
+  });
+
+  describe('unlocks', () => {
+    it('should treat accessories as unlocked unless they say otherwise', () => {
+      const registry = new AccessoryRegistry();
+
+      expect(registry.isUnlocked('sword')).toBe(true);
+      expect(registry.isUnlocked('tower')).toBe(false);
+      expect(registry.isUnlocked('tower', ['tower'])).toBe(true);
+      expect(registry.isUnlocked('laser', ['laser'])).toBe(false);
+    });
+
+    it('should unlock accessories by beating the AI at their difficulty or harder', () => {
+      const registry = new AccessoryRegistry();
+
+      expect(registry.getVictoryUnlocks('easy')).toEqual([]);
+      expect(registry.getVictoryUnlocks('medium')).toEqual(['tower']);
+      expect(registry.getVictoryUnlocks('hard').sort()).toEqual(['crown', 'tower']);
+    });
+  });
+
+  describe('level of detail', () => {
+    it('should draw accessories down to their lowest detail level', () => {
+      const registry = new AccessoryRegistry();
+
+      expect(registry.isVisibleAtDetail('cap', 'high')).toBe(true);
+      expect(registry.isVisibleAtDetail('cap', 'medium')).toBe(false);
+      expect(registry.isVisibleAtDetail('sword', 'medium')).toBe(true);
+      expect(registry.isVisibleAtDetail('sword', 'low')).toBe(false);
+      expect(registry.isVisibleAtDetail('crown', 'low')).toBe(true);
+      expect(isDrawnAtDetail('low', 'low')).toBe(true);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject bad accessories', () => {
+      expect(validateAccessory(plume)).toBe(true);
+      expect(validateAccessory({ ...plume, slot: 'boots' })).toBe(false);
+      expect(validateAccessory({ ...plume, size: [0.1, 0, 0.1] })).toBe(false);
+      expect(validateAccessory({ ...plume, color: 'pink' })).toBe(false);
+      expect(validateAccessory({ ...plume, attachment: { position: [0, 1] } })).toBe(false);
+      expect(validateAccessory({ ...plume, excludes: 'shield' })).toBe(false);
+      expect(validateAccessory({ ...plume, lowestDetail: 'ultra' })).toBe(false);
+      expect(validateAccessory({ ...plume, unlocked: 'yes' })).toBe(false);
+      expect(validateAccessory({ ...plume, unlockDifficulty: 'nightmare' })).toBe(false);
+    });
+
+    it('should name the invalid accessory', () => {
+      expect(() => parseAccessories({ version: '1.0.0', accessories: [plume, { ...plume, id: 'bad', color: 1 }] })).toThrow(
+        'Invalid accessory: bad'
+      );
+      expect(() => parseAccessories({ accessories: [] })).toThrow('Invalid accessory database format');
+      expect(() => parseAccessories({ version: '1.0.0', accessories: [plume, plume] })).toThrow(
+        'Invalid accessory database format'
+      );
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Accessory Registry
+ *
+ * Avatar accessories from the bundled accessories.json: the slot each one is
+ * worn in, its transform relative to the slot's attach point, what it cannot
+ * be worn with, the lowest level of detail it is drawn at and whether it is
+ * available from the start. The mesh builders, the customization validator
+ * and the customization panel all read their rules from here.
+ */
+
+import accessoryData from '@/data/accessories.json';
+import type {
+  AccessoryDatabase,
+  AccessoryDefinition,
+  AccessorySlot,
+  DetailLevel,
+} from '@/data/accessorySchema';
+import { ACCESSORY_SLOTS, DETAIL_LEVELS, validateAccessory, validateAccessoryDatabase } from '@/data/accessorySchema';
+import type { Vector3Tuple } from '@/data/animationClipSchema';
+import type { AIDifficulty } from './AIOpponent';
+import { AI_DIFFICULTIES } from './AIOpponent';
+
+export type AccessorySelection = Partial<Record<AccessorySlot, string>>;
+
+export interface ResolvedAttachment {
+  position: Vector3Tuple;
+  rotation: Vector3Tuple;
+  scale: Vector3Tuple;
+}
+
+// Accessories are drawn down to medium detail unless they say otherwise
+const DEFAULT_LOWEST_DETAIL: DetailLevel = 'medium';
+
+/**
+ * Parse accessory JSON into definitions
+ */
+export function parseAccessories(raw: unknown): AccessoryDefinition[] {
+  if (!validateAccessoryDatabase(raw)) {
+    const accessories = (raw as { accessories?: unknown })?.accessories;
+    const invalid = Array.isArray(accessories) ? accessories.find((entry) => !validateAccessory(entry)) : undefined;
+    const id = (invalid as { id?: unknown })?.id;
+    throw new Error(typeof id === 'string' ? `Invalid accessory: ${id}` : 'Invalid accessory database format');
+  }
+
+  return raw.accessories;
+}
+
+/**
+ * AccessoryRegistry - Accessory definitions by id with per-slot rules
+ */
+export class AccessoryRegistry {
+  private accessories: Map<string, AccessoryDefinition>;
+
+  constructor(database: AccessoryDatabase = accessoryData as AccessoryDatabase) {
+    this.accessories = new Map(parseAccessories(database).map((accessory) => [accessory.id, accessory]));
+  }
+
+  get(id: string): AccessoryDefinition | undefined {
+    return this.accessories.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.accessories.has(id);
+  }
+
+  getAll(): AccessoryDefinition[] {
+    return [...this.accessories.values()];
+  }
+
+  getBySlot(slot: AccessorySlot): AccessoryDefinition[] {
+    return this.getAll().filter((accessory) => accessory.slot === slot);
+  }
+
+  /**
+   * Whether an accessory exists and is worn in the given slot
+   */
+  isValidForSlot(id: string, slot: AccessorySlot): boolean {
+    return this.get(id)?.slot === slot;
+  }
+
+  /**
+   * Transform relative to the slot's attach point, with identity defaults
+   */
+  getAttachment(id: string): ResolvedAttachment {
+    const attachment = this.get(id)?.attachment;
+    return {
+      position: attachment?.position ?? [0, 0, 0],
+      rotation: attachment?.rotation ?? [0, 0, 0],
+      scale: attachment?.scale ?? [1, 1, 1],
+    };
+  }
+
+  /**
+   * Accessories in a selection that the given accessory cannot be worn with
+   * Exclusions apply both ways, so a shield conflicts with a two-handed
+   * weapon even though only the weapon names the shield slot
+   */
+  getConflicts(id: string, selection: AccessorySelection): string[] {
+    const accessory = this.get(id);
+    if (!accessory) return [];
+
+    return ACCESSORY_SLOTS.filter((slot) => slot !== accessory.slot)
+      .map((slot) => selection[slot])
+      .filter((other): other is string => !!other && this.excludes(accessory, other))
+      .filter((other, index, conflicts) => conflicts.indexOf(other) === index);
+  }
+
+  /**
+   * Whether every accessory in a selection can be worn together
+   */
+  isCompatible(selection: AccessorySelection): boolean {
+    return ACCESSORY_SLOTS.every((slot) => {
+      const id = selection[slot];
+      return !id || this.getConflicts(id, selection).length === 0;
+    });
+  }
+
+  /**
+   * Whether an accessory is available; locked ones need an unlock id
+   */
+  isUnlocked(id: string, unlocked: readonly string[] = []): boolean {
+    const accessory = this.get(id);
+    if (!accessory) return false;
+    return accessory.unlocked !== false || unlocked.includes(id);
+  }
+
+  /**
+   * Locked accessories unlocked by beating the AI at a difficulty
+   */
+  getVictoryUnlocks(difficulty: AIDifficulty): string[] {
+    const rank = AI_DIFFICULTIES.indexOf(difficulty);
+    return this.getAll()
+      .filter((accessory) => accessory.unlocked === false && accessory.unlockDifficulty !== undefined)
+      .filter((accessory) => AI_DIFFICULTIES.indexOf(accessory.unlockDifficulty!) <= rank)
+      .map((accessory) => accessory.id);
+  }
+
+  /**
+   * Whether an accessory can be put in a slot next to the rest of a selection
+   */
+  canEquip(
+    id: string,
+    slot: AccessorySlot,
+    selection: AccessorySelection,
+    unlocked: readonly string[] = []
+  ): boolean {
+    return (
+      this.isValidForSlot(id, slot) &&
+      this.isUnlocked(id, unlocked) &&
+      this.getConflicts(id, { ...selection, [slot]: id }).length === 0
+    );
+  }
+
+  getLowestDetail(id: string): DetailLevel {
+    return this.get(id)?.lowestDetail ?? DEFAULT_LOWEST_DETAIL;
+  }
+
+  /**
+   * Whether an accessory is drawn at a level of detail
+   */
+  isVisibleAtDetail(id: string, level: DetailLevel): boolean {
+    return isDrawnAtDetail(this.getLowestDetail(id), level);
+  }
+
+  private excludes(accessory: AccessoryDefinition, otherId: string): boolean {
+    const other = this.get(otherId);
+    const blocks = (from: AccessoryDefinition, to: { id: string; slot?: AccessorySlot }) =>
+      (from.excludes ?? []).some((entry) => entry === to.id || entry === to.slot);
+
+    return blocks(accessory, { id: otherId, slot: other?.slot }) || (!!other && blocks(other, accessory));
+  }
+}
+
+/**
+ * Whether something drawn down to lowestDetail shows at a level
+ */
+export function isDrawnAtDetail(lowestDetail: DetailLevel, level: DetailLevel): boolean {
+  return DETAIL_LEVELS.indexOf(level) <= DETAIL_LEVELS.indexOf(lowestDetail);
+}
+
+/**
+ * Registry of the bundled accessories, shared by the builders, validator and UI
+ */
+export const defaultAccessoryRegistry = new AccessoryRegistry();
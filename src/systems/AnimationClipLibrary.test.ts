@@ -0,0 +1,210 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as THREE from 'three';
+import {
+  AnimationClipLibrary,
+  createClipFromGLTF,
+  parseAnimationClips,
+} from './AnimationClipLibrary';
+import { AssetLoader } from './AssetLoader';
+import { validateAnimationClip } from '../data/animationClipSchema';
+
+describe('AnimationClipLibrary', () => {
+  const createDatabase = (clips: unknown[]) => ({ version: '1.0.0', clips });
+
+  const wave = {
+    state: 'wave',
+    duration: 1,
+    loop: false,
+    keyframes: [
+      { time: 0, rotation: [0, 0, 0] },
+      { time: 0.5, rotation: [0, 0, 0.4] },
+      { time: 1, rotation: [0, 0, 0] },
+    ],
+  };
+
+  describe('bundled clips', () => {
+    it('should include the built-in and data-only states', () => {
+      const library = new AnimationClipLibrary();
+
+      ['idle', 'attack', 'defend', 'damaged', 'victory', 'defeat', 'cast', 'taunt', 'spawn'].forEach((state) => {
+        expect(library.has(state)).toBe(true);
+      });
+    });
+
+    it('should build vectors and Euler angles from the data', () => {
+      const attack = new AnimationClipLibrary().get('attack')!;
+
+      expect(attack.keyframes[1].position).toBeInstanceOf(THREE.Vector3);
+      expect(attack.keyframes[1].position!.x).toBe(0.5);
+      expect(new AnimationClipLibrary().get('damaged')!.keyframes[1].rotation).toBeInstanceOf(THREE.Euler);
+    });
+
+    it('should hold victory and defeat', () => {
+      const library = new AnimationClipLibrary();
+
+      expect(library.get('victory')!.hold).toBe(true);
+      expect(library.get('defeat')!.hold).toBe(true);
+      expect(library.get('attack')!.hold).toBe(false);
+    });
+
+    it('should mark the impact frame of attacks', () => {
+      const library = new AnimationClipLibrary();
+
+      expect(library.get('attack')!.events).toEqual([{ name: 'impact', time: 0.2 }]);
+      expect(library.get('idle')!.events).toEqual([]);
+    });
+  });
+
+  describe('validation', () => {
+    it('should accept a valid clip', () => {
+      expect(validateAnimationClip(wave)).toBe(true);
+    });
+
+    it('should reject bad clips', () => {
+      expect(validateAnimationClip({ ...wave, state: '' })).toBe(false);
+      expect(validateAnimationClip({ ...wave, duration: 0 })).toBe(false);
+      expect(validateAnimationClip({ ...wave, keyframes: [] })).toBe(false);
+      expect(validateAnimationClip({ ...wave, keyframes: [{ time: 0 }] })).toBe(false);
+      expect(validateAnimationClip({ ...wave, keyframes: [{ time: 0, position: [0, 0] }] })).toBe(false);
+      expect(validateAnimationClip({ ...wave, keyframes: [{ time: 2, position: [0, 0, 0] }] })).toBe(false);
+      expect(
+        validateAnimationClip({
+          ...wave,
+          keyframes: [
+            { time: 0.5, scale: [1, 1, 1] },
+            { time: 0.2, scale: [1, 1, 1] },
+          ],
+        })
+      ).toBe(false);
+    });
+
+    it('should check event markers', () => {
+      expect(validateAnimationClip({ ...wave, events: [{ name: 'wave', time: 0.5 }] })).toBe(true);
+      expect(validateAnimationClip({ ...wave, events: [{ name: 'end', time: 1 }] })).toBe(true);
+      expect(validateAnimationClip({ ...wave, events: [{ name: '', time: 0.5 }] })).toBe(false);
+      expect(validateAnimationClip({ ...wave, events: [{ name: 'late', time: 1.5 }] })).toBe(false);
+      expect(validateAnimationClip({ ...wave, events: [{ name: 'early', time: -0.1 }] })).toBe(false);
+      expect(validateAnimationClip({ ...wave, events: { name: 'wave', time: 0.5 } })).toBe(false);
+    });
+
+    it('should name the invalid clip', () => {
+      expect(() => parseAnimationClips(createDatabase([wave, { ...wave, state: 'bow', loop: 'yes' }]))).toThrow(
+        'Invalid animation clip: bow'
+      );
+      expect(() => parseAnimationClips({ clips: [] })).toThrow('Invalid animation clip database format');
+    });
+  });
+
+  describe('loadClips', () => {
+    const mockFetchJSON = (files: Record<string, unknown>) => {
+      const mockFetch = vi.fn().mockImplementation(async (url: string) => ({
+        ok: url in files,
+        json: async () => files[url],
+      }));
+      global.fetch = mockFetch;
+      return mockFetch;
+    };
+
+    it('should load, register and cache clips', async () => {
+      const mockFetch = mockFetchJSON({ '/animations/emotes.json': createDatabase([wave]) });
+      const library = new AnimationClipLibrary(undefined, new AssetLoader());
+
+      const clips = await library.loadClips('/animations/emotes.json');
+      const again = await library.loadClips('/animations/emotes.json');
+
+      expect(clips.map((clip) => clip.state)).toEqual(['wave']);
+      expect(again).toBe(clips);
+      expect(library.get('wave')).toBe(clips[0]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should replace a clip with the same state', async () => {
+      mockFetchJSON({ '/animations/idle.json': createDatabase([{ ...wave, state: 'idle', loop: true }]) });
+      const library = new AnimationClipLibrary(undefined, new AssetLoader());
+
+      await library.loadClips('/animations/idle.json');
+
+      expect(library.get('idle')!.duration).toBe(1);
+    });
+
+    it('should reject invalid clip files without registering them', async () => {
+      mockFetchJSON({ '/animations/bad.json': createDatabase([{ ...wave, duration: -1 }]) });
+      const library = new AnimationClipLibrary(undefined, new AssetLoader());
+
+      await expect(library.loadClips('/animations/bad.json')).rejects.toThrow(
+        'Invalid animation clips /animations/bad.json: Invalid animation clip: wave'
+      );
+      expect(library.has('wave')).toBe(false);
+    });
+  });
+
+  describe('glTF animations', () => {
+    const createGLTFAnimation = () =>
+      new THREE.AnimationClip('Cheer', 1, [
+        new THREE.VectorKeyframeTrack('Root.position', [0, 0.5, 1], [0, 0, 0, 0, 0.4, 0, 0, 0, 0]),
+        new THREE.QuaternionKeyframeTrack(
+          'Root.quaternion',
+          [0, 1],
+          [...new THREE.Quaternion().toArray(), ...new THREE.Quaternion().setFromEuler(new THREE.Euler(0, 0, 0.5)).toArray()]
+        ),
+        new THREE.VectorKeyframeTrack('Spine.position', [0, 1], [0, 1, 0, 0, 2, 0]),
+      ]);
+
+    it('should turn the root node tracks into keyframes', () => {
+      const clip = createClipFromGLTF(createGLTFAnimation());
+
+      expect(clip.state).toBe('Cheer');
+      expect(clip.duration).toBe(1);
+      expect(clip.keyframes.map((frame) => frame.time)).toEqual([0, 0.5, 1]);
+      expect(clip.keyframes[1].position!.y).toBeCloseTo(0.4, 5);
+      expect(clip.keyframes[1].rotation!.z).toBeCloseTo(0.25, 2);
+      expect(clip.keyframes[2].rotation!.z).toBeCloseTo(0.5, 5);
+    });
+
+    it('should rename, loop and pick the driving node', () => {
+      const clip = createClipFromGLTF(createGLTFAnimation(), {
+        node: 'Spine',
+        states: { Cheer: 'taunt' },
+        loop: ['taunt'],
+      });
+
+      expect(clip.state).toBe('taunt');
+      expect(clip.loop).toBe(true);
+      expect(clip.keyframes.map((frame) => frame.position!.y)).toEqual([1, 2]);
+      expect(clip.keyframes[0].rotation).toBeUndefined();
+    });
+
+    it('should add event markers by state', () => {
+      const clip = createClipFromGLTF(createGLTFAnimation(), {
+        states: { Cheer: 'attack' },
+        events: { attack: [{ name: 'impact', time: 0.5 }] },
+      });
+
+      expect(clip.events).toEqual([{ name: 'impact', time: 0.5 }]);
+      expect(() =>
+        createClipFromGLTF(createGLTFAnimation(), { events: { Cheer: [{ name: 'impact', time: 2 }] } })
+      ).toThrow('Invalid animation clip: Cheer');
+    });
+
+    it('should reject animations without transform tracks', () => {
+      const animation = new THREE.AnimationClip('Blink', 1, [
+        new THREE.NumberKeyframeTrack('Face.morphTargetInfluences[0]', [0, 1], [0, 1]),
+      ]);
+
+      expect(() => createClipFromGLTF(animation)).toThrow('glTF animation Blink has no transform tracks');
+    });
+
+    it('should load clips from a model through the asset loader', async () => {
+      const assetLoader = new AssetLoader();
+      const loadAsset = vi.spyOn(assetLoader, 'loadAsset').mockResolvedValue({ animations: [createGLTFAnimation()] });
+      const library = new AnimationClipLibrary(undefined, assetLoader);
+
+      await library.loadGLTFClips('/models/rig.glb', { states: { Cheer: 'cheer' } });
+      await library.loadGLTFClips('/models/rig.glb', { states: { Cheer: 'cheer' } });
+
+      expect(loadAsset).toHaveBeenCalledWith('/models/rig.glb', 'gltf');
+      expect(loadAsset).toHaveBeenCalledTimes(1);
+      expect(library.has('cheer')).toBe(true);
+    });
+  });
+});
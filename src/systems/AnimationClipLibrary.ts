@@ -0,0 +1,207 @@
+/**
+ * Animation Clip Library
+ *
+ * Avatar animation clips by state name. The built-in clips come from the
+ * bundled animationClips.json; more load at runtime through the AssetLoader,
+ * either as clip JSON or as glTF animations from an imported rig, and
+ * replace clips of the same name. Any state in the library can be played by
+ * AnimationControllerImpl, so new states need no code. Clips can carry named
+ * event markers, such as the frame an attack lands, that the controller
+ * emits as it plays them.
+ */
+
+import * as THREE from 'three';
+import clipData from '@/data/animationClips.json';
+import type {
+  AnimationClipDefinition,
+  AnimationEventDefinition,
+  KeyframeDefinition,
+} from '@/data/animationClipSchema';
+import { validateAnimationClip, validateAnimationClipDatabase } from '@/data/animationClipSchema';
+import type { AnimationClip, AnimationClipName, Keyframe } from './AnimationController';
+import { AssetLoader } from './AssetLoader';
+
+export interface GLTFClipOptions {
+  node?: string; // Node whose transform drives the avatar; defaults to the first animated node
+  states?: Record<string, AnimationClipName>; // glTF animation name to state; unmapped names are kept
+  loop?: AnimationClipName[]; // States that loop
+  hold?: AnimationClipName[]; // States that hold their last frame
+  events?: Record<string, AnimationEventDefinition[]>; // Markers by state; glTF animations carry none
+}
+
+const toVector3 = (value: [number, number, number]) => new THREE.Vector3(...value);
+
+/**
+ * Build a playable clip from a validated definition
+ */
+export function createAnimationClip(definition: AnimationClipDefinition): AnimationClip {
+  return {
+    state: definition.state,
+    duration: definition.duration,
+    loop: definition.loop,
+    hold: definition.hold ?? false,
+    keyframes: definition.keyframes.map((keyframe: KeyframeDefinition) => {
+      const frame: Keyframe = { time: keyframe.time };
+      if (keyframe.position) frame.position = toVector3(keyframe.position);
+      if (keyframe.rotation) frame.rotation = new THREE.Euler(...keyframe.rotation);
+      if (keyframe.scale) frame.scale = toVector3(keyframe.scale);
+      return frame;
+    }),
+    events: (definition.events ?? []).map((event) => ({ name: event.name, time: event.time })),
+  };
+}
+
+/**
+ * Parse clip JSON into playable clips
+ */
+export function parseAnimationClips(raw: unknown): AnimationClip[] {
+  if (!validateAnimationClipDatabase(raw)) {
+    const clips = (raw as { clips?: unknown })?.clips;
+    const invalid = Array.isArray(clips) ? clips.find((clip) => !validateAnimationClip(clip)) : undefined;
+    const name = (invalid as { state?: unknown })?.state;
+    throw new Error(
+      typeof name === 'string' ? `Invalid animation clip: ${name}` : 'Invalid animation clip database format'
+    );
+  }
+
+  return raw.clips.map(createAnimationClip);
+}
+
+/**
+ * Convert a glTF animation into a clip
+ * Only the driving node's position, rotation and scale are used; the
+ * avatar moves as a whole, so bone tracks of a skinned rig are ignored
+ */
+export function createClipFromGLTF(animation: THREE.AnimationClip, options: GLTFClipOptions = {}): AnimationClip {
+  const state = options.states?.[animation.name] ?? animation.name;
+
+  const tracks = animation.tracks.map((track) => ({
+    track,
+    ...THREE.PropertyBinding.parseTrackName(track.name),
+  }));
+  const node = options.node ?? tracks[0]?.nodeName;
+
+  const channelTracks = {
+    position: tracks.find((t) => t.nodeName === node && t.propertyName === 'position')?.track,
+    quaternion: tracks.find((t) => t.nodeName === node && t.propertyName === 'quaternion')?.track,
+    scale: tracks.find((t) => t.nodeName === node && t.propertyName === 'scale')?.track,
+  };
+
+  const animated = Object.values(channelTracks).filter((track): track is THREE.KeyframeTrack => !!track);
+  if (animated.length === 0) {
+    throw new Error(`glTF animation ${animation.name} has no transform tracks for node ${node}`);
+  }
+
+  // One keyframe at every time any channel has a key
+  const times = [...new Set(animated.flatMap((track) => Array.from(track.times)))].sort((a, b) => a - b);
+  const sample = (track: THREE.KeyframeTrack, time: number): number[] =>
+    Array.from(track.createInterpolant().evaluate(time));
+
+  const duration = animation.duration > 0 ? animation.duration : times[times.length - 1];
+
+  const definition: AnimationClipDefinition = {
+    state,
+    duration,
+    loop: options.loop?.includes(state) ?? false,
+    hold: options.hold?.includes(state) ?? false,
+    keyframes: times.map((time) => {
+      const keyframe: KeyframeDefinition = { time };
+      if (channelTracks.position) {
+        keyframe.position = sample(channelTracks.position, time) as [number, number, number];
+      }
+      if (channelTracks.quaternion) {
+        const [x, y, z, w] = sample(channelTracks.quaternion, time);
+        const euler = new THREE.Euler().setFromQuaternion(new THREE.Quaternion(x, y, z, w));
+        keyframe.rotation = [euler.x, euler.y, euler.z];
+      }
+      if (channelTracks.scale) {
+        keyframe.scale = sample(channelTracks.scale, time) as [number, number, number];
+      }
+      return keyframe;
+    }),
+    events: options.events?.[state],
+  };
+
+  if (!validateAnimationClip(definition)) {
+    throw new Error(`Invalid animation clip: ${state}`);
+  }
+
+  return createAnimationClip(definition);
+}
+
+/**
+ * AnimationClipLibrary - Clips by state, with runtime loading
+ */
+export class AnimationClipLibrary {
+  private clips: Map<AnimationClipName, AnimationClip>;
+  private assetLoader: AssetLoader;
+  private loaded: Map<string, AnimationClip[]>;
+
+  constructor(database: unknown = clipData, assetLoader?: AssetLoader) {
+    this.clips = new Map();
+    this.assetLoader = assetLoader ?? new AssetLoader();
+    this.loaded = new Map();
+
+    parseAnimationClips(database).forEach((clip) => this.register(clip));
+  }
+
+  get(state: AnimationClipName): AnimationClip | undefined {
+    return this.clips.get(state);
+  }
+
+  has(state: AnimationClipName): boolean {
+    return this.clips.has(state);
+  }
+
+  getStates(): AnimationClipName[] {
+    return [...this.clips.keys()];
+  }
+
+  /**
+   * Add a clip, replacing any clip for the same state
+   */
+  register(clip: AnimationClip): void {
+    this.clips.set(clip.state, clip);
+  }
+
+  /**
+   * Load clips from a JSON URL
+   * Each URL is parsed once; loading it again returns the same clips
+   */
+  async loadClips(url: string): Promise<AnimationClip[]> {
+    return this.loadOnce(`json:${url}`, async () => {
+      const raw = await this.assetLoader.loadAsset(url, 'json');
+      try {
+        return parseAnimationClips(raw);
+      } catch (error) {
+        throw new Error(`Invalid animation clips ${url}: ${(error as Error).message}`);
+      }
+    });
+  }
+
+  /**
+   * Load clips from the animations of a glTF model
+   */
+  async loadGLTFClips(url: string, options: GLTFClipOptions = {}): Promise<AnimationClip[]> {
+    return this.loadOnce(`gltf:${url}`, async () => {
+      const gltf = await this.assetLoader.loadAsset(url, 'gltf');
+      try {
+        return (gltf.animations as THREE.AnimationClip[]).map((animation) => createClipFromGLTF(animation, options));
+      } catch (error) {
+        throw new Error(`Invalid animation clips ${url}: ${(error as Error).message}`);
+      }
+    });
+  }
+
+  private async loadOnce(key: string, load: () => Promise<AnimationClip[]>): Promise<AnimationClip[]> {
+    const cached = this.loaded.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const clips = await load();
+    clips.forEach((clip) => this.register(clip));
+    this.loaded.set(key, clips);
+    return clips;
+  }
+}
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import * as THREE from 'three';
 import { AnimationControllerImpl } from './AnimationController';
+import type { AnimationClip, AnimationEvent, AnimationEventMarker } from './AnimationController';
+import { AnimationClipLibrary } from './AnimationClipLibrary';
 import type { AnimationState } from '../types';
 
 describe('AnimationController', () => {
@@ -268,7 +270,7 @@ describe('AnimationController', () => {
       expect(callback).toHaveBeenCalledOnce();
     });
 
-    it('should clear callback after calling', () => {
+    it('should call callback for each clip with the finished state', () => {
       const callback = vi.fn();
       controller.playAnimation('attack');
       controller.onAnimationComplete(callback);
@@ -279,8 +281,33 @@ describe('AnimationController', () => {
       controller.playAnimation('defend');
       controller.update(0.4);
       
-      // Callback should still only be called once (from attack)
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(callback).toHaveBeenNthCalledWith(1, 'attack');
+      expect(callback).toHaveBeenNthCalledWith(2, 'defend');
+    });
+    
+    it('should stop calling after unsubscribing', () => {
+      const callback = vi.fn();
+      const unsubscribe = controller.onAnimationComplete(callback);
+      unsubscribe();
+      
+      controller.playAnimation('attack');
+      controller.update(0.6);
+      
+      expect(callback).not.toHaveBeenCalled();
+    });
+    
+    it('should not call callback for interrupted clips', () => {
+      const callback = vi.fn();
+      controller.onAnimationComplete(callback);
+      
+      controller.playAnimation('attack');
+      controller.update(0.2);
+      controller.playAnimation('defend');
+      controller.update(0.4);
+      
       expect(callback).toHaveBeenCalledOnce();
+      expect(callback).toHaveBeenCalledWith('defend');
     });
 
     it('should not call callback for looping animations', () => {
@@ -374,4 +401,291 @@ describe('AnimationController', () => {
       expect(controller.getCurrentState()).toBe('idle');
     });
   });
+
+  describe('cross-fades', () => {
+    beforeEach(() => {
+      controller = new AnimationControllerImpl(mesh, { fadeTime: 0.2 });
+    });
+
+    it('should default to switching clips at once', () => {
+      expect(new AnimationControllerImpl(new THREE.Group()).getFadeTime()).toBe(0);
+      expect(controller.getFadeTime()).toBe(0.2);
+    });
+
+    it('should blend the outgoing and incoming clips by weight', () => {
+      controller.playAnimation('victory');
+      controller.update(0.5);
+      expect(mesh.position.y).toBeCloseTo(0.5, 5);
+
+      controller.playAnimation('attack');
+      controller.update(0.1);
+
+      // Halfway through the fade: victory at 0.6s (y 0.46) and attack at 0.1s (y 0)
+      expect(controller.getBlendWeight()).toBeCloseTo(0.5, 5);
+      expect(mesh.position.y).toBeCloseTo(0.23, 5);
+      expect(mesh.position.x).toBeCloseTo(0.125, 5);
+    });
+
+    it('should blend channels only one clip animates against the rest pose', () => {
+      controller.playAnimation('damaged');
+      controller.update(0.2);
+      expect(mesh.rotation.z).toBeCloseTo(-0.2, 5);
+
+      controller.playAnimation('defend');
+      controller.update(0.05);
+
+      // Damaged rotation (-0.15) fades out while defend scale fades in
+      expect(mesh.rotation.z).toBeCloseTo(-0.1125, 5);
+      expect(mesh.scale.y).toBeLessThan(1.1);
+      expect(mesh.scale.y).toBeGreaterThan(1);
+    });
+
+    it('should play the incoming clip alone once the fade ends', () => {
+      controller.playAnimation('attack');
+      controller.update(0.2);
+
+      expect(controller.getBlendWeight()).toBe(1);
+      expect(mesh.position.x).toBeCloseTo(0.5, 5);
+    });
+
+    it('should change the fade time', () => {
+      controller.setFadeTime(0);
+      controller.playAnimation('attack');
+      controller.update(0.1);
+
+      expect(controller.getBlendWeight()).toBe(1);
+      expect(mesh.position.x).toBeCloseTo(0.25, 5);
+    });
+  });
+
+  describe('additive layers', () => {
+    it('should add a hit reaction over idle', () => {
+      controller.update(1.0);
+      controller.playAdditive('damaged');
+      controller.update(0.1);
+
+      // Idle keeps moving while the layer tilts the avatar
+      expect(controller.getCurrentState()).toBe('idle');
+      expect(mesh.position.y).toBeCloseTo(0.09, 5);
+      expect(mesh.rotation.z).toBeCloseTo(0.2, 5);
+    });
+
+    it('should scale the layer by its weight', () => {
+      controller.playAdditive('damaged', 0.5);
+      controller.update(0.1);
+
+      expect(mesh.rotation.z).toBeCloseTo(0.1, 5);
+    });
+
+    it('should remove the layer and report it when it finishes', () => {
+      const callback = vi.fn();
+      controller.onAnimationComplete(callback);
+
+      controller.playAdditive('defend');
+      controller.update(0.15);
+      expect(mesh.scale.y).toBeCloseTo(1.1, 5);
+
+      controller.update(0.2);
+
+      expect(callback).toHaveBeenCalledWith('defend');
+      expect(controller.getCurrentState()).toBe('idle');
+    });
+  });
+
+  describe('animation queue', () => {
+    it('should play queued clips in order', () => {
+      const callback = vi.fn();
+      controller.onAnimationComplete(callback);
+
+      controller.playAnimation('attack');
+      controller.queueAnimation('defend');
+      controller.queueAnimation('victory');
+      expect(controller.getQueue()).toEqual(['defend', 'victory']);
+
+      controller.update(0.5);
+      expect(controller.getCurrentState()).toBe('defend');
+
+      controller.update(0.3);
+      expect(controller.getCurrentState()).toBe('victory');
+
+      controller.update(1.0);
+      expect(controller.getCurrentState()).toBe('victory');
+      expect(callback.mock.calls.map(([state]) => state)).toEqual(['attack', 'defend', 'victory']);
+    });
+
+    it('should replace a looping clip straight away', () => {
+      controller.queueAnimation('attack');
+
+      expect(controller.getCurrentState()).toBe('attack');
+      expect(controller.getQueue()).toEqual([]);
+    });
+
+    it('should return to idle when the queue is empty', () => {
+      controller.playAnimation('attack');
+      controller.queueAnimation('defend');
+
+      controller.update(0.5);
+      controller.update(0.3);
+
+      expect(controller.getCurrentState()).toBe('idle');
+    });
+
+    it('should drop queued clips when another clip is played', () => {
+      controller.playAnimation('attack');
+      controller.queueAnimation('defend');
+
+      controller.playAnimation('damaged');
+
+      expect(controller.getQueue()).toEqual([]);
+      controller.update(0.5);
+      expect(controller.getCurrentState()).toBe('idle');
+    });
+  });
+
+  describe('data-driven clips', () => {
+    it('should play states that exist only in clip data', () => {
+      controller.playAnimation('spawn');
+      controller.update(0.4);
+
+      expect(controller.getCurrentState()).toBe('spawn');
+      expect(mesh.scale.x).toBeCloseTo(1.1, 5);
+
+      controller.update(0.3);
+      expect(controller.getCurrentState()).toBe('idle');
+    });
+
+    it('should play clips registered at runtime', () => {
+      const clips = new AnimationClipLibrary();
+      clips.register({
+        state: 'bow',
+        duration: 1,
+        loop: false,
+        hold: true,
+        keyframes: [
+          { time: 0, rotation: new THREE.Euler(0, 0, 0) },
+          { time: 1, rotation: new THREE.Euler(0.8, 0, 0) },
+        ],
+      });
+      controller = new AnimationControllerImpl(mesh, { clips });
+
+      controller.playAnimation('bow');
+      controller.update(1.5);
+
+      expect(controller.getCurrentState()).toBe('bow');
+      expect(mesh.rotation.x).toBeCloseTo(0.8, 5);
+    });
+
+    it('should play idle for unknown states', () => {
+      controller.playAnimation('juggle');
+      controller.update(1.0);
+
+      expect(mesh.position.y).toBeCloseTo(0.1, 5);
+    });
+  });
+
+  describe('animation events', () => {
+    const createClips = (...clips: AnimationClip[]) => {
+      const library = new AnimationClipLibrary();
+      clips.forEach((clip) => library.register(clip));
+      return library;
+    };
+
+    const clip = (state: string, loop: boolean, events: AnimationEventMarker[]): AnimationClip => ({
+      state,
+      duration: 1,
+      loop,
+      keyframes: [{ time: 0, position: new THREE.Vector3() }],
+      events,
+    });
+
+    it('should emit the attack impact on its frame', () => {
+      const events: AnimationEvent[] = [];
+      controller.onAnimationEvent((event) => events.push(event));
+
+      controller.playAnimation('attack');
+      controller.update(0.15);
+      expect(events).toEqual([]);
+
+      controller.update(0.1);
+      expect(events).toEqual([{ name: 'impact', time: 0.2, state: 'attack' }]);
+
+      controller.update(0.5);
+      expect(events).toHaveLength(1);
+    });
+
+    it('should emit markers in order, including one at the end before completion', () => {
+      controller = new AnimationControllerImpl(mesh, {
+        clips: createClips(
+          clip('combo', false, [
+            { name: 'end', time: 1 },
+            { name: 'second', time: 0.6 },
+            { name: 'first', time: 0.3 },
+          ])
+        ),
+      });
+      const calls: string[] = [];
+      controller.onAnimationEvent((event) => calls.push(event.name));
+      controller.onAnimationComplete((state) => calls.push(`complete:${state}`));
+
+      controller.playAnimation('combo');
+      controller.update(1.2);
+
+      expect(calls).toEqual(['first', 'second', 'end', 'complete:combo']);
+    });
+
+    it('should emit looping markers once per loop', () => {
+      controller = new AnimationControllerImpl(mesh, {
+        clips: createClips(clip('march', true, [{ name: 'step', time: 0.5 }])),
+      });
+      const listener = vi.fn();
+      controller.onAnimationEvent(listener);
+
+      controller.playAnimation('march');
+      controller.update(0.6);
+      controller.update(0.6);
+      controller.update(0.6);
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should emit markers of additive layers and queued clips', () => {
+      controller = new AnimationControllerImpl(mesh, {
+        clips: createClips(clip('flinch', false, [{ name: 'hurt', time: 0.1 }])),
+      });
+      const names: string[] = [];
+      controller.onAnimationEvent((event) => names.push(`${event.state}:${event.name}`));
+
+      controller.playAdditive('flinch', 0.5);
+      controller.playAnimation('attack');
+      controller.queueAnimation('flinch');
+      controller.update(0.35);
+      controller.update(0.35);
+
+      expect(names).toEqual(['flinch:hurt', 'attack:impact', 'flinch:hurt']);
+    });
+
+    it('should not emit from a clip fading out', () => {
+      controller = new AnimationControllerImpl(mesh, { fadeTime: 0.5 });
+      const listener = vi.fn();
+      controller.onAnimationEvent(listener);
+
+      controller.playAnimation('attack');
+      controller.update(0.1);
+      controller.playAnimation('defend');
+      controller.update(0.2);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should stop emitting to removed listeners', () => {
+      const listener = vi.fn();
+      const stop = controller.onAnimationEvent(listener);
+      stop();
+
+      controller.playAnimation('attack');
+      controller.update(0.3);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import type { AnimationState } from '../types';
+import { AnimationClipLibrary } from './AnimationClipLibrary';
 
 export interface Keyframe {
   time: number;
@@ -8,195 +9,381 @@ export interface Keyframe {
   scale?: THREE.Vector3;
 }
 
+// A built-in state or any other state in the clip library, e.g. 'cast'
+export type AnimationClipName = AnimationState | (string & {});
+
+// Named point in a clip, e.g. 'impact' on the frame an attack lands
+export interface AnimationEventMarker {
+  name: string;
+  time: number;
+}
+
 export interface AnimationClip {
-  state: AnimationState;
+  state: AnimationClipName;
   duration: number;
   loop: boolean;
+  hold?: boolean; // Non-looping clip keeps its last frame instead of returning to idle
   keyframes: Keyframe[];
+  events?: AnimationEventMarker[];
+}
+
+export interface AnimationEvent extends AnimationEventMarker {
+  state: AnimationClipName; // Clip the marker belongs to
 }
 
+export interface AnimationControllerOptions {
+  fadeTime?: number; // Seconds to cross-fade between clips; 0 switches at once
+  clips?: AnimationClipLibrary; // Defaults to the bundled clips
+}
+
+/**
+ * Cross-fade used for avatars in the game
+ */
+export const DEFAULT_FADE_TIME = 0.2;
+
+export type AnimationCompleteCallback = (state: AnimationClipName) => void;
+
+export type AnimationEventCallback = (event: AnimationEvent) => void;
+
 export interface AnimationController {
-  playAnimation(state: AnimationState): void;
-  getCurrentState(): AnimationState;
+  playAnimation(state: AnimationClipName): void;
+  queueAnimation(state: AnimationClipName): void;
+  playAdditive(state: AnimationClipName, weight?: number): void;
+  getCurrentState(): AnimationClipName;
   update(deltaTime: number): void;
-  onAnimationComplete(callback: () => void): void;
+  onAnimationComplete(callback: AnimationCompleteCallback): () => void;
+  onAnimationEvent(callback: AnimationEventCallback): () => void;
 }
 
+interface ClipPlayback {
+  clip: AnimationClip;
+  time: number;
+  finished: boolean;
+}
+
+interface AdditiveLayer extends ClipPlayback {
+  weight: number;
+}
+
+// Rotation is sampled as a vector of Euler angles so it can be blended
+interface Pose {
+  position?: THREE.Vector3;
+  rotation?: THREE.Vector3;
+  scale?: THREE.Vector3;
+}
+
+type Channel = keyof Pose;
+
+const CHANNELS: Channel[] = ['position', 'rotation', 'scale'];
+
 export class AnimationControllerImpl implements AnimationController {
-  private currentState: AnimationState = 'idle';
-  private currentTime: number = 0;
-  private currentClip: AnimationClip | null = null;
+  private currentState: AnimationClipName = 'idle';
+  private current: ClipPlayback;
+  private outgoing: ClipPlayback | null = null;
+  private fadeElapsed: number = 0;
+  private fadeTime: number;
+  private layers: AdditiveLayer[] = [];
+  private queue: AnimationClipName[] = [];
+  private clips: AnimationClipLibrary;
   private mesh: THREE.Group;
-  private onCompleteCallback: (() => void) | null = null;
+  private restPose: Required<Pose>;
+  private completeCallbacks: AnimationCompleteCallback[] = [];
+  private eventCallbacks: AnimationEventCallback[] = [];
 
-  constructor(mesh: THREE.Group) {
+  constructor(mesh: THREE.Group, options: AnimationControllerOptions = {}) {
     this.mesh = mesh;
-    this.currentClip = this.getAnimationClip('idle');
+    this.fadeTime = Math.max(0, options.fadeTime ?? 0);
+    this.clips = options.clips ?? new AnimationClipLibrary();
+    this.restPose = {
+      position: mesh.position.clone(),
+      rotation: new THREE.Vector3(mesh.rotation.x, mesh.rotation.y, mesh.rotation.z),
+      scale: mesh.scale.clone(),
+    };
+    this.current = this.createPlayback('idle');
   }
 
-  playAnimation(state: AnimationState): void {
-    if (this.currentState === state) return;
+  /**
+   * Cross-fade to a clip, dropping any queued clips
+   */
+  playAnimation(state: AnimationClipName): void {
+    this.queue = [];
+    this.startClip(state);
+  }
 
-    this.currentState = state;
-    this.currentTime = 0;
-    this.currentClip = this.getAnimationClip(state);
+  /**
+   * Play a clip after the current one finishes
+   * A looping clip never finishes, so it is replaced straight away
+   */
+  queueAnimation(state: AnimationClipName): void {
+    if (this.current.clip.loop && this.queue.length === 0) {
+      this.startClip(state);
+      return;
+    }
+    this.queue.push(state);
+  }
+
+  /**
+   * Layer a clip on top of the current one, e.g. a hit reaction over idle
+   * The layer adds its movement away from its first keyframe, scaled by weight
+   */
+  playAdditive(state: AnimationClipName, weight: number = 1): void {
+    this.layers.push({ ...this.createPlayback(state), weight });
   }
 
-  getCurrentState(): AnimationState {
+  getCurrentState(): AnimationClipName {
     return this.currentState;
   }
 
+  getQueue(): AnimationClipName[] {
+    return [...this.queue];
+  }
+
+  getFadeTime(): number {
+    return this.fadeTime;
+  }
+
+  setFadeTime(fadeTime: number): void {
+    this.fadeTime = Math.max(0, fadeTime);
+  }
+
+  /**
+   * Weight of the current clip, from 0 to 1 while a cross-fade runs
+   */
+  getBlendWeight(): number {
+    if (!this.outgoing || this.fadeTime === 0) return 1;
+    return Math.min(1, this.fadeElapsed / this.fadeTime);
+  }
+
   update(deltaTime: number): void {
-    if (!this.currentClip) return;
+    const playing = this.current;
+    const from = playing.time;
+    playing.time += deltaTime;
+
+    if (this.outgoing) {
+      this.advanceOutgoing(deltaTime);
+    }
 
-    this.currentTime += deltaTime;
+    for (const layer of [...this.layers]) {
+      const layerFrom = layer.time;
+      layer.time += deltaTime;
+      this.emitEvents(layer, layerFrom, layer.time);
+    }
+
+    // A clip holding its last frame has already passed all its markers
+    if (!playing.finished) {
+      this.emitEvents(playing, from, playing.time);
+    }
 
     // Check if animation complete
-    if (this.currentTime >= this.currentClip.duration) {
-      if (this.currentClip.loop) {
-        this.currentTime = 0;
-      } else {
-        // Call completion callback before transitioning
-        if (this.onCompleteCallback) {
-          this.onCompleteCallback();
-          this.onCompleteCallback = null;
+    if (this.current.time >= this.current.clip.duration) {
+      if (this.current.clip.loop) {
+        this.current.time %= this.current.clip.duration;
+        this.emitEvents(this.current, 0, this.current.time);
+      } else if (!this.current.finished) {
+        const finished = this.current;
+        finished.finished = true;
+
+        // Notify before transitioning
+        this.notifyComplete(finished.clip.state);
+
+        const next = this.queue.shift();
+        if (next) {
+          this.startClip(next);
+          this.current.time = Math.min(finished.time - finished.clip.duration, this.current.clip.duration);
+          this.emitEvents(this.current, 0, this.current.time);
+          this.applyPose();
+          return;
         }
 
-        // Non-looping animations return to idle (except victory/defeat)
-        if (
-          this.currentState !== 'idle' &&
-          this.currentState !== 'victory' &&
-          this.currentState !== 'defeat'
-        ) {
-          this.playAnimation('idle');
+        // Non-looping animations return to idle unless they hold (victory/defeat)
+        if (!finished.clip.hold) {
+          this.startClip('idle');
           return;
         }
-        
+      }
+
+      if (this.current.finished) {
         // For victory/defeat, clamp time to duration to hold final frame
-        this.currentTime = this.currentClip.duration;
+        this.current.time = this.current.clip.duration;
       }
     }
 
-    // Apply keyframe interpolation
-    this.applyKeyframes(this.currentTime);
-  }
-
-  onAnimationComplete(callback: () => void): void {
-    this.onCompleteCallback = callback;
-  }
-
-  private getAnimationClip(state: AnimationState): AnimationClip {
-    switch (state) {
-      case 'idle':
-        return {
-          state: 'idle',
-          duration: 2.0,
-          loop: true,
-          keyframes: [
-            { time: 0, position: new THREE.Vector3(0, 0, 0) },
-            { time: 1.0, position: new THREE.Vector3(0, 0.1, 0) },
-            { time: 2.0, position: new THREE.Vector3(0, 0, 0) },
-          ],
-        };
-
-      case 'attack':
-        return {
-          state: 'attack',
-          duration: 0.5,
-          loop: false,
-          keyframes: [
-            { time: 0, position: new THREE.Vector3(0, 0, 0) },
-            { time: 0.2, position: new THREE.Vector3(0.5, 0, 0.5) },
-            { time: 0.5, position: new THREE.Vector3(0, 0, 0) },
-          ],
-        };
-
-      case 'defend':
-        return {
-          state: 'defend',
-          duration: 0.3,
-          loop: false,
-          keyframes: [
-            { time: 0, scale: new THREE.Vector3(1, 1, 1) },
-            { time: 0.15, scale: new THREE.Vector3(0.9, 1.1, 0.9) },
-            { time: 0.3, scale: new THREE.Vector3(1, 1, 1) },
-          ],
-        };
-
-      case 'damaged':
-        return {
-          state: 'damaged',
-          duration: 0.4,
-          loop: false,
-          keyframes: [
-            { time: 0, rotation: new THREE.Euler(0, 0, 0) },
-            { time: 0.1, rotation: new THREE.Euler(0, 0, 0.2) },
-            { time: 0.2, rotation: new THREE.Euler(0, 0, -0.2) },
-            { time: 0.4, rotation: new THREE.Euler(0, 0, 0) },
-          ],
-        };
-
-      case 'victory':
-        return {
-          state: 'victory',
-          duration: 1.0,
-          loop: false,
-          keyframes: [
-            { time: 0, position: new THREE.Vector3(0, 0, 0) },
-            { time: 0.5, position: new THREE.Vector3(0, 0.5, 0) },
-            { time: 1.0, position: new THREE.Vector3(0, 0.3, 0) },
-          ],
-        };
-
-      case 'defeat':
-        return {
-          state: 'defeat',
-          duration: 1.0,
-          loop: false,
-          keyframes: [
-            { time: 0, rotation: new THREE.Euler(0, 0, 0) },
-            { time: 1.0, rotation: new THREE.Euler(Math.PI / 2, 0, 0) },
-          ],
-        };
-
-      default:
-        return this.getAnimationClip('idle');
+    this.updateLayers();
+    this.applyPose();
+  }
+
+  /**
+   * Listen for clips that finish, including queued clips and additive layers
+   * Returns a function that stops listening
+   */
+  onAnimationComplete(callback: AnimationCompleteCallback): () => void {
+    this.completeCallbacks.push(callback);
+    return () => {
+      this.completeCallbacks = this.completeCallbacks.filter((cb) => cb !== callback);
+    };
+  }
+
+  /**
+   * Listen for event markers as playback passes them, on the current clip
+   * and on additive layers; clips fading out emit nothing
+   * Returns a function that stops listening
+   */
+  onAnimationEvent(callback: AnimationEventCallback): () => void {
+    this.eventCallbacks.push(callback);
+    return () => {
+      this.eventCallbacks = this.eventCallbacks.filter((cb) => cb !== callback);
+    };
+  }
+
+  private startClip(state: AnimationClipName): void {
+    if (this.currentState === state && !this.current.finished) return;
+
+    // Keep the previous clip playing while it fades out
+    this.outgoing = this.fadeTime > 0 ? this.current : null;
+    this.fadeElapsed = 0;
+
+    this.currentState = state;
+    this.current = this.createPlayback(state);
+  }
+
+  private createPlayback(state: AnimationClipName): ClipPlayback {
+    return { clip: this.getAnimationClip(state), time: 0, finished: false };
+  }
+
+  private advanceOutgoing(deltaTime: number): void {
+    const outgoing = this.outgoing!;
+    this.fadeElapsed += deltaTime;
+
+    if (this.fadeElapsed >= this.fadeTime) {
+      this.outgoing = null;
+      return;
+    }
+
+    outgoing.time += deltaTime;
+    if (outgoing.time >= outgoing.clip.duration) {
+      outgoing.time = outgoing.clip.loop
+        ? outgoing.time % outgoing.clip.duration
+        : outgoing.clip.duration;
     }
   }
 
-  private applyKeyframes(time: number): void {
-    if (!this.currentClip) return;
+  private updateLayers(): void {
+    const done = this.layers.filter((layer) => layer.time >= layer.clip.duration && !layer.clip.loop);
+    if (done.length === 0) return;
 
-    // Find surrounding keyframes
-    const keyframes = this.currentClip.keyframes;
-    let prevFrame = keyframes[0];
-    let nextFrame = keyframes[keyframes.length - 1];
+    this.layers = this.layers.filter((layer) => !done.includes(layer));
+    done.forEach((layer) => this.notifyComplete(layer.clip.state));
+  }
 
-    for (let i = 0; i < keyframes.length - 1; i++) {
-      if (time >= keyframes[i].time && time <= keyframes[i + 1].time) {
-        prevFrame = keyframes[i];
-        nextFrame = keyframes[i + 1];
-        break;
+  private notifyComplete(state: AnimationClipName): void {
+    [...this.completeCallbacks].forEach((callback) => callback(state));
+  }
+
+  /**
+   * Emit the markers a playback passed between two times
+   * Markers at the very end fire once the clip reaches its end
+   */
+  private emitEvents(playback: ClipPlayback, from: number, to: number): void {
+    const { clip } = playback;
+    if (!clip.events || clip.events.length === 0) return;
+
+    const reachedEnd = to >= clip.duration;
+    const passed = clip.events
+      .filter((marker) => marker.time >= from && (marker.time < to || (reachedEnd && marker.time <= clip.duration)))
+      .sort((a, b) => a.time - b.time);
+
+    for (const marker of passed) {
+      const event: AnimationEvent = { name: marker.name, time: marker.time, state: clip.state };
+      [...this.eventCallbacks].forEach((callback) => callback(event));
+    }
+  }
+
+  /**
+   * Look up a clip by state; unknown states play idle
+   */
+  private getAnimationClip(state: AnimationClipName): AnimationClip {
+    return this.clips.get(state) ?? this.clips.get('idle')!;
+  }
+
+  /**
+   * Interpolate a clip's keyframes at a time, per channel
+   * Channels the clip does not animate are left out
+   */
+  private sampleClip(clip: AnimationClip, time: number): Pose {
+    const pose: Pose = {};
+
+    for (const channel of CHANNELS) {
+      const frames = clip.keyframes.filter((frame) => frame[channel]);
+      if (frames.length === 0) continue;
+
+      // Find surrounding keyframes
+      let prevFrame = frames[0];
+      let nextFrame = frames[frames.length - 1];
+
+      for (let i = 0; i < frames.length - 1; i++) {
+        if (time >= frames[i].time && time <= frames[i + 1].time) {
+          prevFrame = frames[i];
+          nextFrame = frames[i + 1];
+          break;
+        }
+      }
+
+      const span = nextFrame.time - prevFrame.time;
+      const t = span > 0 ? THREE.MathUtils.clamp((time - prevFrame.time) / span, 0, 1) : 0;
+
+      pose[channel] = new THREE.Vector3().lerpVectors(
+        toVector(prevFrame[channel]!),
+        toVector(nextFrame[channel]!),
+        t
+      );
+    }
+
+    return pose;
+  }
+
+  private applyPose(): void {
+    const pose = this.sampleClip(this.current.clip, this.current.time);
+
+    // Blend from the outgoing clip; a channel only one clip animates
+    // blends against the rest pose
+    if (this.outgoing) {
+      const from = this.sampleClip(this.outgoing.clip, this.outgoing.time);
+      const weight = this.getBlendWeight();
+
+      for (const channel of CHANNELS) {
+        if (!pose[channel] && !from[channel]) continue;
+        pose[channel] = new THREE.Vector3().lerpVectors(
+          from[channel] ?? this.restPose[channel],
+          pose[channel] ?? this.restPose[channel],
+          weight
+        );
       }
     }
 
-    // Interpolate between keyframes
-    const t = (time - prevFrame.time) / (nextFrame.time - prevFrame.time);
+    for (const layer of this.layers) {
+      const offset = this.sampleClip(layer.clip, layer.time);
+      const start = this.sampleClip(layer.clip, 0);
 
-    if (prevFrame.position && nextFrame.position) {
-      this.mesh.position.lerpVectors(prevFrame.position, nextFrame.position, t);
+      for (const channel of CHANNELS) {
+        if (!offset[channel]) continue;
+        const base = pose[channel] ?? this.restPose[channel].clone();
+        pose[channel] = base.addScaledVector(offset[channel]!.sub(start[channel]!), layer.weight);
+      }
     }
 
-    if (prevFrame.rotation && nextFrame.rotation) {
-      this.mesh.rotation.set(
-        THREE.MathUtils.lerp(prevFrame.rotation.x, nextFrame.rotation.x, t),
-        THREE.MathUtils.lerp(prevFrame.rotation.y, nextFrame.rotation.y, t),
-        THREE.MathUtils.lerp(prevFrame.rotation.z, nextFrame.rotation.z, t)
-      );
+    if (pose.position) {
+      this.mesh.position.copy(pose.position);
     }
 
-    if (prevFrame.scale && nextFrame.scale) {
-      this.mesh.scale.lerpVectors(prevFrame.scale, nextFrame.scale, t);
+    if (pose.rotation) {
+      this.mesh.rotation.set(pose.rotation.x, pose.rotation.y, pose.rotation.z);
+    }
+
+    if (pose.scale) {
+      this.mesh.scale.copy(pose.scale);
     }
   }
 }
+
+const toVector = (value: THREE.Vector3 | THREE.Euler): THREE.Vector3 =>
+  value instanceof THREE.Euler ? new THREE.Vector3(value.x, value.y, value.z) : value.clone();
@@ -189,4 +189,36 @@ describe('AssetLoader', () => {
       await expect(loader.loadAsset('/test.json', 'json')).rejects.toThrow();
     });
   });
+
+  describe('glTF models', () => {
+    const gltf = JSON.stringify({
+      asset: { version: '2.0' },
+      scene: 0,
+      scenes: [{ nodes: [0] }],
+      nodes: [{ name: 'Root' }],
+    });
+
+    it('should parse and cache a glTF model', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        arrayBuffer: async () => new TextEncoder().encode(gltf).buffer,
+      });
+      global.fetch = mockFetch;
+
+      const model = await loader.loadAsset('/models/avatar.gltf', 'gltf');
+      await loader.loadAsset('/models/avatar.gltf', 'gltf');
+
+      expect(model.scene.getObjectByName('Root')).toBeDefined();
+      expect(model.animations).toEqual([]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a missing model', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 404 });
+
+      await expect(loader.loadAsset('/models/missing.glb', 'gltf')).rejects.toThrow(
+        'Failed to load glTF: /models/missing.glb'
+      );
+    });
+  });
 });
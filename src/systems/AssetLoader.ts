@@ -1,14 +1,20 @@
 /**
  * Asset Loader System
  * 
- * Handles lazy loading of game assets (cards, audio, images)
+ * Handles lazy loading of game assets (cards, audio, images, glTF models)
  * with caching and error recovery
  */
 
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import type { GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js';
+
+export type AssetType = 'image' | 'audio' | 'json' | 'gltf';
+
 export interface AssetManifest {
   cards?: string[];
   audio?: string[];
   images?: string[];
+  models?: string[];
 }
 
 export interface LoadProgress {
@@ -32,7 +38,7 @@ export class AssetLoader {
   /**
    * Load a single asset with caching
    */
-  async loadAsset(url: string, type: 'image' | 'audio' | 'json' = 'image'): Promise<any> {
+  async loadAsset(url: string, type: AssetType = 'image'): Promise<any> {
     // Return cached asset if available
     if (this.cache.has(url)) {
       return this.cache.get(url);
@@ -63,7 +69,7 @@ export class AssetLoader {
     manifest: AssetManifest,
     onProgress?: (progress: LoadProgress) => void
   ): Promise<void> {
-    const allAssets: Array<{ url: string; type: 'image' | 'audio' | 'json' }> = [];
+    const allAssets: Array<{ url: string; type: AssetType }> = [];
     
     if (manifest.cards) {
       allAssets.push(...manifest.cards.map(url => ({ url, type: 'json' as const })));
@@ -74,6 +80,9 @@ export class AssetLoader {
     if (manifest.images) {
       allAssets.push(...manifest.images.map(url => ({ url, type: 'image' as const })));
     }
+    if (manifest.models) {
+      allAssets.push(...manifest.models.map(url => ({ url, type: 'gltf' as const })));
+    }
     
     const total = allAssets.length;
     let loaded = 0;
@@ -133,7 +142,7 @@ export class AssetLoader {
     return this.cache.size;
   }
   
-  private async loadAssetInternal(url: string, type: 'image' | 'audio' | 'json'): Promise<any> {
+  private async loadAssetInternal(url: string, type: AssetType): Promise<any> {
     switch (type) {
       case 'image':
         return this.loadImage(url);
@@ -141,6 +150,8 @@ export class AssetLoader {
         return this.loadAudio(url);
       case 'json':
         return this.loadJSON(url);
+      case 'gltf':
+        return this.loadGLTF(url);
       default:
         throw new Error(`Unknown asset type: ${type}`);
     }
@@ -172,4 +183,18 @@ export class AssetLoader {
     }
     return response.json();
   }
+  
+  /**
+   * Load a glTF or GLB model
+   * Relative buffer and texture URIs resolve against the model's folder
+   */
+  private async loadGLTF(url: string): Promise<GLTF> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load glTF: ${url}`);
+    }
+    const arrayBuffer = await response.arrayBuffer();
+    const basePath = url.substring(0, url.lastIndexOf('/') + 1);
+    return new GLTFLoader().parseAsync(arrayBuffer, basePath);
+  }
 }
@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { AvatarCombatIntegration, setupAvatarIntegration } from './AvatarCombatIntegration';
-import type { AvatarAnimationTrigger, CombatService } from './AvatarCombatIntegration';
+import { BLOCK_SOUND, HIT_SOUND, IMPACT_EVENT, getShakeIntensity } from './AvatarCombatIntegration';
+import type { AvatarAnimationTrigger, CombatService, HitFeedback } from './AvatarCombatIntegration';
+import type { AnimationEvent } from './AnimationController';
 import type { AnimationState } from '../types';
+import { createActiveEffects } from './CardEffects';
 
 describe('AvatarCombatIntegration', () => {
   let mockAvatarSystem: AvatarAnimationTrigger;
@@ -139,6 +142,120 @@ describe('AvatarCombatIntegration', () => {
       expect(mockAvatarSystem.playAnimation).toHaveBeenCalledTimes(10);
     });
   });
+
+  describe('hit timing', () => {
+    let emit: (avatarId: string, event: AnimationEvent) => void;
+    let feedback: Required<HitFeedback>;
+    let shakeTarget: HTMLElement;
+
+    const impact = (avatarId: string) => emit(avatarId, { name: IMPACT_EVENT, time: 0.2, state: 'attack' });
+
+    beforeEach(() => {
+      shakeTarget = document.createElement('div');
+      feedback = {
+        animationTimeline: { screenShake: vi.fn() },
+        shakeTarget: () => shakeTarget,
+        audioManager: { playSound: vi.fn() },
+        onDamageNumber: vi.fn(),
+      };
+      mockAvatarSystem = {
+        playAnimation: vi.fn(),
+        onAnimationEvent: vi.fn((callback) => {
+          emit = callback;
+          return vi.fn();
+        }),
+      };
+      integration = new AvatarCombatIntegration(mockAvatarSystem, playerAvatarId, aiAvatarId, feedback);
+    });
+
+    it('should land a hit as soon as it is reported without animation events', () => {
+      integration = new AvatarCombatIntegration({ playAnimation: vi.fn() }, playerAvatarId, aiAvatarId, feedback);
+
+      integration.onPlayerAttack();
+      integration.onAIDamaged(12);
+
+      expect(integration.isSyncedToAnimation()).toBe(false);
+      expect(feedback.onDamageNumber).toHaveBeenCalledWith('opponent', 12);
+    });
+
+    it('should hold the hit until the attacker reaches its impact frame', () => {
+      integration.onPlayerAttack();
+      integration.onAIDamaged(12);
+
+      expect(mockAvatarSystem.playAnimation).not.toHaveBeenCalledWith(aiAvatarId, 'damaged');
+      expect(feedback.onDamageNumber).not.toHaveBeenCalled();
+
+      impact(playerAvatarId);
+
+      expect(mockAvatarSystem.playAnimation).toHaveBeenLastCalledWith(aiAvatarId, 'damaged');
+      expect(feedback.onDamageNumber).toHaveBeenCalledWith('opponent', 12);
+      expect(feedback.animationTimeline.screenShake).toHaveBeenCalledWith(shakeTarget, getShakeIntensity(12));
+      expect(feedback.audioManager.playSound).toHaveBeenCalledWith(HIT_SOUND);
+    });
+
+    it('should land a hit reported after the impact straight away', () => {
+      integration.onAIAttack();
+      impact(aiAvatarId);
+      integration.onPlayerDamaged(7);
+
+      expect(feedback.onDamageNumber).toHaveBeenCalledWith('player', 7);
+    });
+
+    it('should ignore other markers and the defender\'s impact', () => {
+      integration.onPlayerAttack();
+      integration.onAIDamaged(5);
+      emit(playerAvatarId, { name: 'windup', time: 0.1, state: 'attack' });
+      impact(aiAvatarId);
+
+      expect(feedback.onDamageNumber).not.toHaveBeenCalled();
+    });
+
+    it('should block without a number or shake for zero damage', () => {
+      integration.onPlayerDamaged(0);
+
+      expect(mockAvatarSystem.playAnimation).toHaveBeenCalledWith(playerAvatarId, 'damaged');
+      expect(feedback.onDamageNumber).not.toHaveBeenCalled();
+      expect(feedback.animationTimeline.screenShake).not.toHaveBeenCalled();
+      expect(feedback.audioManager.playSound).toHaveBeenCalledWith(BLOCK_SOUND);
+    });
+
+    it('should cap the screen shake', () => {
+      expect(getShakeIntensity(10)).toBeLessThan(getShakeIntensity(20));
+      expect(getShakeIntensity(999)).toBe(20);
+    });
+
+    it('should land held hits before the next swing or the end of the match', () => {
+      integration.onPlayerAttack();
+      integration.onAIDamaged(4);
+      integration.onPlayerAttack();
+      expect(feedback.onDamageNumber).toHaveBeenCalledWith('opponent', 4);
+
+      integration.onAIDamaged(6);
+      integration.onVictory();
+      expect(feedback.onDamageNumber).toHaveBeenCalledWith('opponent', 6);
+    });
+
+    it('should tell impact listeners which side struck', () => {
+      const listener = vi.fn();
+      integration.onImpact(listener);
+
+      impact(playerAvatarId);
+      expect(listener).not.toHaveBeenCalled();
+
+      integration.onAIAttack();
+      impact(aiAvatarId);
+      expect(listener).toHaveBeenCalledWith('opponent');
+    });
+
+    it('should stop listening when disposed', () => {
+      const stop = vi.mocked(mockAvatarSystem.onAnimationEvent!).mock.results[0].value;
+
+      integration.dispose();
+
+      expect(stop).toHaveBeenCalled();
+      expect(integration.isSyncedToAnimation()).toBe(false);
+    });
+  });
 });
 
 describe('setupAvatarIntegration', () => {
@@ -246,6 +363,185 @@ describe('setupAvatarIntegration', () => {
     });
   });
 
+  describe('opponent turn', () => {
+    it('should trigger the AI attack and player damage when the opponent card resolves', () => {
+      setupAvatarIntegration(mockCombatService, integration);
+      
+      stateCallback({
+        matches: (state: string) => state === 'AI_TURN',
+        context: { currentTurn: 'opponent', lastDamage: 10 },
+      });
+      stateCallback({
+        matches: (state: string) => state === 'CHECK_WIN',
+        context: { currentTurn: 'player', lastDamage: 7 },
+      });
+      
+      expect(mockAvatarSystem.playAnimation).toHaveBeenCalledTimes(2);
+      expect(mockAvatarSystem.playAnimation).toHaveBeenNthCalledWith(1, 'ai', 'attack');
+      expect(mockAvatarSystem.playAnimation).toHaveBeenNthCalledWith(2, 'player', 'damaged');
+    });
+
+    it('should not trigger a strike when the opponent passes', () => {
+      setupAvatarIntegration(mockCombatService, integration);
+      
+      stateCallback({
+        matches: (state: string) => state === 'AI_TURN',
+        context: { currentTurn: 'opponent', lastDamage: 10 },
+      });
+      stateCallback({
+        matches: (state: string) => state === 'CHECK_WIN',
+        context: { currentTurn: 'player', selectedCard: null, lastDamage: 0 },
+      });
+      
+      expect(mockAvatarSystem.playAnimation).not.toHaveBeenCalled();
+    });
+    
+    it('should not trigger a strike when the win check follows the player card', () => {
+      setupAvatarIntegration(mockCombatService, integration);
+      
+      stateCallback({
+        matches: (state: string) => state === 'RESOLVE',
+        context: { currentTurn: 'player', lastDamage: 10 },
+      });
+      stateCallback({
+        matches: (state: string) => state === 'CHECK_WIN',
+        context: { currentTurn: 'player', lastDamage: 10 },
+      });
+      
+      expect(mockAvatarSystem.playAnimation).toHaveBeenCalledTimes(1);
+      expect(mockAvatarSystem.playAnimation).toHaveBeenCalledWith('ai', 'damaged');
+    });
+  });
+
+  describe('INITIATIVE.STRIKE state', () => {
+    it('should trigger attacker and defender animations for the striking side', () => {
+      setupAvatarIntegration(mockCombatService, integration);
+      
+      stateCallback({
+        matches: (state: unknown) =>
+          typeof state === 'object' && (state as Record<string, string>).INITIATIVE === 'STRIKE',
+        context: {
+          currentTurn: 'opponent',
+          selectedCard: { stats: { attack: 9 } },
+        },
+      });
+      
+      expect(mockAvatarSystem.playAnimation).toHaveBeenCalledWith('ai', 'attack');
+      expect(mockAvatarSystem.playAnimation).toHaveBeenCalledWith('player', 'damaged');
+    });
+  });
+
+  describe('impact markers', () => {
+    let emit: (avatarId: string, event: AnimationEvent) => void;
+
+    const impact = (avatarId: string) => emit(avatarId, { name: IMPACT_EVENT, time: 0.2, state: 'attack' });
+
+    beforeEach(() => {
+      mockAvatarSystem = {
+        playAnimation: vi.fn(),
+        onAnimationEvent: (callback) => {
+          emit = callback;
+          return () => {};
+        },
+      };
+      integration = new AvatarCombatIntegration(mockAvatarSystem, 'player', 'ai');
+    });
+
+    it('should complete card play when the attack lands', () => {
+      setupAvatarIntegration(mockCombatService, integration);
+      
+      stateCallback({
+        matches: (state: string) => state === 'CARD_PLAY',
+        context: { currentTurn: 'player' },
+      });
+      expect(mockCombatService.send).not.toHaveBeenCalled();
+      
+      impact('player');
+      
+      expect(mockCombatService.send).toHaveBeenCalledWith({ type: 'ANIMATION_COMPLETE' });
+    });
+
+    it('should hold an initiative strike\'s damage until the attack lands', () => {
+      setupAvatarIntegration(mockCombatService, integration);
+      
+      stateCallback({
+        matches: (state: unknown) =>
+          typeof state === 'object' && (state as Record<string, string>).INITIATIVE === 'STRIKE',
+        context: { currentTurn: 'player', lastDamage: 6 },
+      });
+      expect(mockAvatarSystem.playAnimation).not.toHaveBeenCalledWith('ai', 'damaged');
+      
+      impact('player');
+      
+      expect(mockAvatarSystem.playAnimation).toHaveBeenCalledWith('ai', 'damaged');
+      expect(mockCombatService.send).not.toHaveBeenCalled();
+    });
+
+    it('should stop completing card play after unsubscribing', () => {
+      const subscription = setupAvatarIntegration(mockCombatService, integration);
+      
+      stateCallback({
+        matches: (state: string) => state === 'CARD_PLAY',
+        context: { currentTurn: 'opponent' },
+      });
+      subscription.unsubscribe();
+      impact('ai');
+      
+      expect(mockCombatService.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('status effects', () => {
+    const stateWithEffects = (player = createActiveEffects(), opponent = createActiveEffects()) => ({
+      matches: () => false,
+      context: { effects: { player, opponent } },
+    });
+
+    it('should react to newly applied effects', () => {
+      setupAvatarIntegration(mockCombatService, integration);
+      
+      stateCallback(stateWithEffects());
+      expect(mockAvatarSystem.playAnimation).not.toHaveBeenCalled();
+      
+      stateCallback(
+        stateWithEffects(
+          { ...createActiveEffects(), shield: 5 },
+          { ...createActiveEffects(), stunnedTurns: 1 }
+        )
+      );
+      
+      expect(mockAvatarSystem.playAnimation).toHaveBeenCalledWith('player', 'defend');
+      expect(mockAvatarSystem.playAnimation).toHaveBeenCalledWith('ai', 'damaged');
+    });
+
+    it('should not react to effects ticking down or expiring', () => {
+      setupAvatarIntegration(mockCombatService, integration);
+      
+      stateCallback(
+        stateWithEffects({ ...createActiveEffects(), damageOverTime: [{ damage: 3, turnsRemaining: 2 }] })
+      );
+      stateCallback(
+        stateWithEffects({ ...createActiveEffects(), damageOverTime: [{ damage: 3, turnsRemaining: 1 }] })
+      );
+      stateCallback(stateWithEffects());
+      
+      expect(mockAvatarSystem.playAnimation).not.toHaveBeenCalled();
+    });
+
+    it('should react to another poison stack', () => {
+      setupAvatarIntegration(mockCombatService, integration);
+      const dot = { damage: 3, turnsRemaining: 2 };
+      
+      stateCallback(stateWithEffects(createActiveEffects(), { ...createActiveEffects(), damageOverTime: [dot] }));
+      stateCallback(
+        stateWithEffects(createActiveEffects(), { ...createActiveEffects(), damageOverTime: [dot, dot] })
+      );
+      
+      expect(mockAvatarSystem.playAnimation).toHaveBeenCalledTimes(1);
+      expect(mockAvatarSystem.playAnimation).toHaveBeenCalledWith('ai', 'damaged');
+    });
+  });
+
   describe('END state', () => {
     it('should trigger victory animations when player wins', () => {
       setupAvatarIntegration(mockCombatService, integration);
@@ -1,4 +1,9 @@
-import type { AnimationState } from '../types';
+import type { AnimationState, CombatSide } from '../types';
+import type { AnimationEvent } from './AnimationController';
+import type { AnimationTimeline } from './AnimationTimeline';
+import type { WebAudioManager } from './WebAudioManager';
+import type { StatusEffect } from './StatusEffects';
+import { STATUS_EFFECTS, getStatusEffects, getAppliedStatusEffects } from './StatusEffects';
 
 export interface CombatEventListener {
   onPlayerAttack(): void;
@@ -7,52 +12,192 @@ export interface CombatEventListener {
   onAIDamaged(damage: number): void;
   onVictory(): void;
   onDefeat(): void;
+  onStatusApplied(side: CombatSide, status: StatusEffect): void;
 }
 
 export interface AvatarAnimationTrigger {
   playAnimation(avatarId: string, state: AnimationState): void;
+  // Clip event markers from any avatar; without it hits land as soon as combat reports them
+  onAnimationEvent?(callback: (avatarId: string, event: AnimationEvent) => void): () => void;
 }
 
+/**
+ * Feedback played on the frame a hit lands
+ */
+export interface HitFeedback {
+  animationTimeline?: Pick<AnimationTimeline, 'screenShake'>;
+  shakeTarget?: () => HTMLElement | null; // Looked up per hit, as the UI can mount after setup
+  audioManager?: Pick<WebAudioManager, 'playSound'>;
+  onDamageNumber?: (side: CombatSide, damage: number) => void;
+}
+
+// Marker in attack clips on the frame the blow lands
+export const IMPACT_EVENT = 'impact';
+
+export const HIT_SOUND = 'hit';
+export const BLOCK_SOUND = 'block';
+
+const MAX_SHAKE_INTENSITY = 20;
+
+/**
+ * Screen shake for a hit, stronger for bigger hits
+ */
+export function getShakeIntensity(damage: number): number {
+  return Math.min(MAX_SHAKE_INTENSITY, 4 + damage / 2);
+}
+
+const other = (side: CombatSide): CombatSide => (side === 'player' ? 'opponent' : 'player');
+
 export class AvatarCombatIntegration implements CombatEventListener {
   private avatarSystem: AvatarAnimationTrigger;
   private playerAvatarId: string;
   private aiAvatarId: string;
+  private feedback: HitFeedback;
+  private awaitingImpact: Record<CombatSide, boolean> = { player: false, opponent: false }; // By attacker
+  private pendingHits: Record<CombatSide, number | null> = { player: null, opponent: null }; // By defender
+  private impactListeners: Array<(attacker: CombatSide) => void> = [];
+  private stopListening: (() => void) | null;
 
   constructor(
     avatarSystem: AvatarAnimationTrigger,
     playerAvatarId: string,
-    aiAvatarId: string
+    aiAvatarId: string,
+    feedback: HitFeedback = {}
   ) {
     this.avatarSystem = avatarSystem;
     this.playerAvatarId = playerAvatarId;
     this.aiAvatarId = aiAvatarId;
+    this.feedback = feedback;
+    this.stopListening =
+      avatarSystem.onAnimationEvent?.((avatarId, event) => this.handleAnimationEvent(avatarId, event)) ?? null;
   }
 
   onPlayerAttack(): void {
-    this.avatarSystem.playAnimation(this.playerAvatarId, 'attack');
+    this.startAttack('player');
   }
 
   onAIAttack(): void {
-    this.avatarSystem.playAnimation(this.aiAvatarId, 'attack');
+    this.startAttack('opponent');
   }
 
   onPlayerDamaged(damage: number): void {
-    this.avatarSystem.playAnimation(this.playerAvatarId, 'damaged');
+    this.receiveHit('player', damage);
   }
 
   onAIDamaged(damage: number): void {
-    this.avatarSystem.playAnimation(this.aiAvatarId, 'damaged');
+    this.receiveHit('opponent', damage);
   }
 
   onVictory(): void {
+    this.flushPendingHits();
     this.avatarSystem.playAnimation(this.playerAvatarId, 'victory');
     this.avatarSystem.playAnimation(this.aiAvatarId, 'defeat');
   }
 
   onDefeat(): void {
+    this.flushPendingHits();
     this.avatarSystem.playAnimation(this.playerAvatarId, 'defeat');
     this.avatarSystem.playAnimation(this.aiAvatarId, 'victory');
   }
+
+  onStatusApplied(side: CombatSide, status: StatusEffect): void {
+    this.avatarSystem.playAnimation(this.getAvatarId(side), STATUS_EFFECTS[status.type].animation);
+  }
+
+  /**
+   * Whether hits wait for the attacker's impact marker
+   */
+  isSyncedToAnimation(): boolean {
+    return this.stopListening !== null;
+  }
+
+  /**
+   * Listen for attacks landing on their impact frame
+   * Returns a function that stops listening
+   */
+  onImpact(callback: (attacker: CombatSide) => void): () => void {
+    this.impactListeners.push(callback);
+    return () => {
+      this.impactListeners = this.impactListeners.filter((listener) => listener !== callback);
+    };
+  }
+
+  /**
+   * Stop listening to avatar animations
+   */
+  dispose(): void {
+    this.stopListening?.();
+    this.stopListening = null;
+    this.impactListeners = [];
+    this.awaitingImpact = { player: false, opponent: false };
+    this.pendingHits = { player: null, opponent: null };
+  }
+
+  private getAvatarId(side: CombatSide): string {
+    return side === 'player' ? this.playerAvatarId : this.aiAvatarId;
+  }
+
+  private startAttack(attacker: CombatSide): void {
+    // A previous swing that never reached its impact still lands
+    this.flushPendingHit(other(attacker));
+
+    this.avatarSystem.playAnimation(this.getAvatarId(attacker), 'attack');
+    this.awaitingImpact[attacker] = this.isSyncedToAnimation();
+  }
+
+  /**
+   * Land a hit now, or hold it until the attacker's swing reaches its impact
+   */
+  private receiveHit(defender: CombatSide, damage: number): void {
+    if (this.awaitingImpact[other(defender)]) {
+      this.pendingHits[defender] = damage;
+      return;
+    }
+    this.applyHit(defender, damage);
+  }
+
+  private handleAnimationEvent(avatarId: string, event: AnimationEvent): void {
+    if (event.name !== IMPACT_EVENT) return;
+
+    const attacker: CombatSide | null =
+      avatarId === this.playerAvatarId ? 'player' : avatarId === this.aiAvatarId ? 'opponent' : null;
+    if (!attacker || !this.awaitingImpact[attacker]) return;
+
+    this.awaitingImpact[attacker] = false;
+    this.flushPendingHit(other(attacker));
+    [...this.impactListeners].forEach((listener) => listener(attacker));
+  }
+
+  private flushPendingHit(defender: CombatSide): void {
+    const damage = this.pendingHits[defender];
+    if (damage === null) return;
+
+    this.pendingHits[defender] = null;
+    this.applyHit(defender, damage);
+  }
+
+  private flushPendingHits(): void {
+    this.awaitingImpact = { player: false, opponent: false };
+    this.flushPendingHit('player');
+    this.flushPendingHit('opponent');
+  }
+
+  private applyHit(defender: CombatSide, damage: number): void {
+    this.avatarSystem.playAnimation(this.getAvatarId(defender), 'damaged');
+
+    const { animationTimeline, shakeTarget, audioManager, onDamageNumber } = this.feedback;
+
+    if (damage > 0) {
+      onDamageNumber?.(defender, damage);
+
+      const target = shakeTarget?.();
+      if (animationTimeline && target) {
+        animationTimeline.screenShake(target, getShakeIntensity(damage));
+      }
+    }
+
+    audioManager?.playSound(damage > 0 ? HIT_SOUND : BLOCK_SOUND);
+  }
 }
 
 // XState Integration Helper
@@ -65,15 +210,59 @@ export interface CombatService {
   send(event: any): void;
 }
 
+/**
+ * Damage dealt by the card that just resolved
+ * Prefers the machine's computed damage over the card's raw attack
+ */
+function getResolvedDamage(context: any): number {
+  if (typeof context.lastDamage === 'number') {
+    return context.lastDamage;
+  }
+  return context.selectedCard?.stats?.attack || 0;
+}
+
+const SIDES: CombatSide[] = ['player', 'opponent'];
+
 export function setupAvatarIntegration(
   combatService: CombatService,
   avatarIntegration: AvatarCombatIntegration
 ): CombatStateSubscription {
-  return combatService.subscribe((state: any) => {
+  // Statuses seen in the previous state, to react only to new ones
+  let previousStatuses: Record<CombatSide, StatusEffect[]> | null = null;
+  let latestState: any = null;
+  let previousState: any = null;
+
+  // Card play waits for the attack animation; move on as the blow lands
+  const stopImpact = avatarIntegration.onImpact(() => {
+    if (latestState?.matches('CARD_PLAY')) {
+      combatService.send({ type: 'ANIMATION_COMPLETE' });
+    }
+  });
+
+  const subscription = combatService.subscribe((state: any) => {
     // Defensive checks
     if (!state || typeof state.matches !== 'function' || !state.context) {
       return;
     }
+    previousState = latestState;
+    latestState = state;
+
+    // Status effects - react to effects applied since the last state
+    const { effects } = state.context;
+    if (effects?.player && effects?.opponent) {
+      const statuses = {
+        player: getStatusEffects(effects.player),
+        opponent: getStatusEffects(effects.opponent),
+      };
+      if (previousStatuses) {
+        for (const side of SIDES) {
+          for (const status of getAppliedStatusEffects(previousStatuses[side], statuses[side])) {
+            avatarIntegration.onStatusApplied(side, status);
+          }
+        }
+      }
+      previousStatuses = statuses;
+    }
 
     // Listen for state transitions and trigger avatar animations
     
@@ -90,13 +279,32 @@ export function setupAvatarIntegration(
     // Resolve state - trigger damaged animation
     if (state.matches('RESOLVE')) {
       const turn = state.context.currentTurn;
+      const damage = getResolvedDamage(state.context);
       if (turn === 'player') {
         // Player attacked, AI takes damage
-        const damage = state.context.selectedCard?.stats?.attack || 0;
         avatarIntegration.onAIDamaged(damage);
       } else {
         // AI attacked, player takes damage
-        const damage = state.context.selectedCard?.stats?.attack || 0;
+        avatarIntegration.onPlayerDamaged(damage);
+      }
+    }
+    
+    // Opponent turn - the AI or second player's card resolves on the way to
+    // the win check, so it swings and the player reacts in one step. A pass
+    // clears the card, and nothing is struck
+    if (state.matches('CHECK_WIN') && previousState?.matches('AI_TURN') && state.context.selectedCard !== null) {
+      avatarIntegration.onAIAttack();
+      avatarIntegration.onPlayerDamaged(getResolvedDamage(state.context));
+    }
+    
+    // Initiative strike - attacker swings and defender reacts in one step
+    if (state.matches({ INITIATIVE: 'STRIKE' })) {
+      const damage = getResolvedDamage(state.context);
+      if (state.context.currentTurn === 'player') {
+        avatarIntegration.onPlayerAttack();
+        avatarIntegration.onAIDamaged(damage);
+      } else {
+        avatarIntegration.onAIAttack();
         avatarIntegration.onPlayerDamaged(damage);
       }
     }
@@ -112,4 +320,11 @@ export function setupAvatarIntegration(
       // Draw case - no special animation
     }
   });
+
+  return {
+    unsubscribe: () => {
+      stopImpact();
+      subscription.unsubscribe();
+    },
+  };
 }
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { AvatarMeshBuilderImpl } from './AvatarMeshBuilder';
 import type { AvatarParts } from './AvatarMeshBuilder';
+import { AccessoryRegistry } from './AccessoryRegistry';
 import * as THREE from 'three';
 
 describe('AvatarMeshBuilder', () => {
@@ -152,6 +153,28 @@ describe('AvatarMeshBuilder', () => {
       expect(leftHandAccessory.position.x).toBe(-0.4);
       expect(rightHandAccessory.position.x).toBe(0.4);
     });
+
+    it('should apply the registry attachment transform', () => {
+      const staff = builder.buildAccessory('staff', 'rightHand');
+      const axe = builder.buildAccessory('axe', 'rightHand');
+
+      expect(staff.position.y).toBeCloseTo(0.8, 5);
+      expect(staff.scale.y).toBe(2);
+      expect(axe.rotation.z).toBe(-0.3);
+      expect(staff.userData).toEqual({ accessoryId: 'staff', lowestDetail: 'medium' });
+      expect(builder.buildAccessory('crown', 'head').userData.lowestDetail).toBe('low');
+    });
+
+    it('should take size and colour from the registry', () => {
+      const registry = new AccessoryRegistry({
+        version: '1.0.0',
+        accessories: [{ id: 'plume', name: 'Plume', slot: 'hat', size: [0.1, 0.6, 0.1], color: '#ff00ff' }],
+      });
+      const plume = new AvatarMeshBuilderImpl(registry).buildAccessory('plume', 'head');
+
+      expect((plume.geometry as THREE.BoxGeometry).parameters.height).toBe(0.6);
+      expect((plume.material as THREE.MeshStandardMaterial).color.getHexString()).toBe('ff00ff');
+    });
   });
 
   describe('Avatar Assembly', () => {
@@ -343,4 +366,104 @@ describe('AvatarMeshBuilder', () => {
       expect(legsGroup.children.length).toBe(2); // left and right leg
     });
   });
+
+  describe('Building From Customization', () => {
+    it('should build body parts in the customization colours with accessories at their attach points', () => {
+      const avatar = builder.buildAvatar({
+        bodyParts: { head: 'default', torso: 'default', arms: 'default', legs: 'default' },
+        colors: { skin: '#ffdbac', hair: '#8b4513', clothing: '#4169e1' },
+        accessories: { hat: 'crown', weapon: 'sword' },
+      });
+
+      const head = avatar.getObjectByName('head') as THREE.Mesh;
+      const torso = avatar.getObjectByName('torso') as THREE.Mesh;
+      expect((head.material as THREE.MeshStandardMaterial).color.getHexString()).toBe('ffdbac');
+      expect((torso.material as THREE.MeshStandardMaterial).color.getHexString()).toBe('4169e1');
+      expect(avatar.getObjectByName('accessory_crown_head')).toBeDefined();
+      expect(avatar.getObjectByName('accessory_sword_rightHand')).toBeDefined();
+      expect(avatar.children.filter((child) => child.visible).length).toBe(6);
+    });
+  });
+
+  describe('Levels of Detail', () => {
+    const customization = {
+      bodyParts: { head: 'default', torso: 'default', arms: 'default', legs: 'default' },
+      colors: { skin: '#ffdbac', hair: '#8b4513', clothing: '#4169e1' },
+      accessories: { hat: 'cap', weapon: 'sword' },
+    };
+
+    const triangles = (object: THREE.Object3D) => {
+      let count = 0;
+      object.traverse((child) => {
+        if (child instanceof THREE.Mesh) count += child.geometry.index!.count / 3;
+      });
+      return count;
+    };
+
+    // Full-detail parts of an avatar, without the reduced detail groups
+    const fullDetail = (avatar: THREE.Group) => {
+      const group = new THREE.Group();
+      avatar.children.filter((child) => !child.name.startsWith('lod_')).forEach((child) => group.add(child.clone()));
+      return group;
+    };
+
+    it('should add hidden groups for medium and low detail', () => {
+      const avatar = builder.buildAvatar(customization);
+
+      expect(avatar.children.map((child) => child.name)).toEqual([
+        'head', 'torso', 'arms', 'legs', 'accessory_cap_head', 'accessory_sword_rightHand', 'lod_medium', 'lod_low',
+      ]);
+      expect(avatar.getObjectByName('lod_medium')!.visible).toBe(false);
+      expect(avatar.getObjectByName('lod_low')!.visible).toBe(false);
+    });
+
+    it('should use fewer segments and Lambert materials at medium detail', () => {
+      const avatar = builder.buildAvatar(customization);
+      const high = fullDetail(avatar);
+      const medium = avatar.getObjectByName('lod_medium')!;
+
+      const head = medium.getObjectByName('head') as THREE.Mesh;
+      expect(head.material).toBeInstanceOf(THREE.MeshLambertMaterial);
+      expect((head.material as THREE.MeshLambertMaterial).color.getHexString()).toBe('ffdbac');
+      expect(triangles(medium)).toBeLessThan(triangles(high));
+
+      // The cap is only drawn at full detail
+      expect(medium.getObjectByName('accessory_cap_head')).toBeUndefined();
+      expect(medium.getObjectByName('accessory_sword_rightHand')).toBeDefined();
+    });
+
+    it('should merge low detail into one unlit, vertex-coloured mesh', () => {
+      const avatar = builder.buildAvatar(customization);
+      const low = avatar.getObjectByName('lod_low')!;
+      const medium = avatar.getObjectByName('lod_medium')!;
+
+      const meshes: THREE.Mesh[] = [];
+      low.traverse((child) => {
+        if (child instanceof THREE.Mesh) meshes.push(child);
+      });
+
+      expect(meshes).toHaveLength(1);
+      expect(meshes[0].material).toBeInstanceOf(THREE.MeshBasicMaterial);
+      expect((meshes[0].material as THREE.MeshBasicMaterial).vertexColors).toBe(true);
+      expect(meshes[0].geometry.getAttribute('color')).toBeDefined();
+      expect(meshes[0].castShadow).toBe(false);
+      expect(triangles(low)).toBeLessThan(triangles(medium));
+    });
+
+    it('should keep accessories drawn at low detail in the merged mesh', () => {
+      const low = (accessories: Record<string, string>) =>
+        triangles(builder.buildAvatar({ ...customization, accessories }).getObjectByName('lod_low')!);
+
+      // Boxes have 12 triangles; the sword stops at medium, the crown does not
+      expect(low({ weapon: 'sword' })).toBe(low({}));
+      expect(low({ hat: 'crown' })).toBe(low({}) + 12);
+    });
+
+    it('should share merged geometry between avatars that look the same', () => {
+      const first = builder.buildAvatar(customization).getObjectByName('body') as THREE.Mesh;
+      const second = builder.buildAvatar(customization).getObjectByName('body') as THREE.Mesh;
+
+      expect(first.geometry).toBe(second.geometry);
+    });
+  });
 });
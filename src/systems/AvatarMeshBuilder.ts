@@ -1,9 +1,53 @@
 /**
  * Avatar Mesh Builder
  * Constructs 3D avatar meshes from modular body parts with geometry/material caching
+ *
+ * Avatars are built at three levels of detail for LODSystemImpl: full
+ * geometry with lit materials, fewer segments with cheaper Lambert shading,
+ * and a single merged, vertex-coloured mesh with an unlit material.
  */
 
 import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import type { CustomizationData } from '@/types';
+import type { AccessorySlot, DetailLevel } from '@/data/accessorySchema';
+import type { AccessoryRegistry } from './AccessoryRegistry';
+import { defaultAccessoryRegistry } from './AccessoryRegistry';
+
+export type { AccessorySlot };
+export type AttachPoint = 'head' | 'leftHand' | 'rightHand';
+
+// Where each accessory slot is worn
+export const ACCESSORY_ATTACH_POINTS: Record<AccessorySlot, AttachPoint> = {
+  hat: 'head',
+  weapon: 'rightHand',
+  shield: 'leftHand',
+};
+
+interface DetailSettings {
+  sphereSegments: number;
+  cylinderSegments: number;
+}
+
+// Segment counts for the rounded body parts at each level of detail
+const DETAIL_SETTINGS: Record<DetailLevel, DetailSettings> = {
+  high: { sphereSegments: 16, cylinderSegments: 8 },
+  medium: { sphereSegments: 10, cylinderSegments: 6 },
+  low: { sphereSegments: 6, cylinderSegments: 4 },
+};
+
+// Levels built as separate groups; full detail is the avatar's own parts
+export const REDUCED_DETAIL_LEVELS: DetailLevel[] = ['medium', 'low'];
+
+/**
+ * Name of the group holding an avatar's geometry for a reduced level of detail
+ */
+export function getDetailGroupName(level: DetailLevel): string {
+  return `lod_${level}`;
+}
+
+// Cache keys for the full-detail parts are kept as they were
+const detailKey = (key: string, level: DetailLevel) => (level === 'high' ? key : `${key}_${level}`);
 
 export interface AvatarParts {
   head: THREE.Mesh;
@@ -14,83 +58,91 @@ export interface AvatarParts {
 }
 
 export interface AvatarMeshBuilder {
-  buildHead(type: string, color: string): THREE.Mesh;
-  buildTorso(type: string, color: string): THREE.Mesh;
-  buildArms(type: string, color: string): THREE.Group;
-  buildLegs(type: string, color: string): THREE.Group;
-  buildAccessory(type: string, attachPoint: string): THREE.Mesh;
+  buildHead(type: string, color: string, level?: DetailLevel): THREE.Mesh;
+  buildTorso(type: string, color: string, level?: DetailLevel): THREE.Mesh;
+  buildArms(type: string, color: string, level?: DetailLevel): THREE.Group;
+  buildLegs(type: string, color: string, level?: DetailLevel): THREE.Group;
+  buildAccessory(type: string, attachPoint: string, level?: DetailLevel): THREE.Mesh;
   assembleAvatar(parts: AvatarParts): THREE.Group;
   clearCache(): void;
 }
 
-export class AvatarMeshBuilderImpl implements AvatarMeshBuilder {
+/**
+ * Builds whole avatars for AvatarSystemImpl
+ * Supplied through ThreeJSDependencies.avatarBuilderFactory
+ */
+export interface AvatarBuilder {
+  load?(): Promise<void>; // Fetch assets before the first avatar is built
+  buildAvatar(customization: CustomizationData): THREE.Group;
+  clearCache(): void;
+}
+
+export class AvatarMeshBuilderImpl implements AvatarMeshBuilder, AvatarBuilder {
   private geometryCache: Map<string, THREE.BufferGeometry> = new Map();
   private materialCache: Map<string, THREE.Material> = new Map();
+  private accessories: AccessoryRegistry;
+
+  constructor(accessories: AccessoryRegistry = defaultAccessoryRegistry) {
+    this.accessories = accessories;
+  }
 
-  buildHead(type: string, color: string): THREE.Mesh {
-    const geometry = this.getOrCreateGeometry(`head_${type}`, () => {
+  buildHead(type: string, color: string, level: DetailLevel = 'high'): THREE.Mesh {
+    const { sphereSegments } = DETAIL_SETTINGS[level];
+    const geometry = this.getOrCreateGeometry(detailKey(`head_${type}`, level), () => {
       // Simple sphere for head
-      return new THREE.SphereGeometry(0.3, 16, 16);
+      return new THREE.SphereGeometry(0.3, sphereSegments, sphereSegments);
     });
 
-    const material = this.getOrCreateMaterial(`head_${color}`, () => {
-      return new THREE.MeshStandardMaterial({ color });
-    });
+    const material = this.getOrCreateDetailMaterial(`head_${color}`, color, level);
 
     const head = new THREE.Mesh(geometry, material);
     head.position.y = 1.5;
     head.name = 'head';
-    head.castShadow = true;
-    head.receiveShadow = true;
+    this.setShadows(head, level);
 
     return head;
   }
 
-  buildTorso(type: string, color: string): THREE.Mesh {
+  buildTorso(type: string, color: string, level: DetailLevel = 'high'): THREE.Mesh {
+    // A box has no segments to drop, so every level shares it
     const geometry = this.getOrCreateGeometry(`torso_${type}`, () => {
       // Box for torso
       return new THREE.BoxGeometry(0.6, 0.8, 0.3);
     });
 
-    const material = this.getOrCreateMaterial(`torso_${color}`, () => {
-      return new THREE.MeshStandardMaterial({ color });
-    });
+    const material = this.getOrCreateDetailMaterial(`torso_${color}`, color, level);
 
     const torso = new THREE.Mesh(geometry, material);
     torso.position.y = 0.9;
     torso.name = 'torso';
-    torso.castShadow = true;
-    torso.receiveShadow = true;
+    this.setShadows(torso, level);
 
     return torso;
   }
 
-  buildArms(type: string, color: string): THREE.Group {
+  buildArms(type: string, color: string, level: DetailLevel = 'high'): THREE.Group {
     const armsGroup = new THREE.Group();
     armsGroup.name = 'arms';
 
-    const armGeometry = this.getOrCreateGeometry(`arm_${type}`, () => {
+    const { cylinderSegments } = DETAIL_SETTINGS[level];
+    const armGeometry = this.getOrCreateGeometry(detailKey(`arm_${type}`, level), () => {
       // Cylinder for arms
-      return new THREE.CylinderGeometry(0.1, 0.1, 0.6, 8);
+      return new THREE.CylinderGeometry(0.1, 0.1, 0.6, cylinderSegments);
     });
 
-    const material = this.getOrCreateMaterial(`arm_${color}`, () => {
-      return new THREE.MeshStandardMaterial({ color });
-    });
+    const material = this.getOrCreateDetailMaterial(`arm_${color}`, color, level);
 
     // Left arm
     const leftArm = new THREE.Mesh(armGeometry, material);
     leftArm.position.set(-0.4, 0.9, 0);
     leftArm.name = 'leftArm';
-    leftArm.castShadow = true;
-    leftArm.receiveShadow = true;
+    this.setShadows(leftArm, level);
 
     // Right arm
     const rightArm = new THREE.Mesh(armGeometry, material);
     rightArm.position.set(0.4, 0.9, 0);
     rightArm.name = 'rightArm';
-    rightArm.castShadow = true;
-    rightArm.receiveShadow = true;
+    this.setShadows(rightArm, level);
 
     armsGroup.add(leftArm);
     armsGroup.add(rightArm);
@@ -98,32 +150,29 @@ export class AvatarMeshBuilderImpl implements AvatarMeshBuilder {
     return armsGroup;
   }
 
-  buildLegs(type: string, color: string): THREE.Group {
+  buildLegs(type: string, color: string, level: DetailLevel = 'high'): THREE.Group {
     const legsGroup = new THREE.Group();
     legsGroup.name = 'legs';
 
-    const legGeometry = this.getOrCreateGeometry(`leg_${type}`, () => {
+    const { cylinderSegments } = DETAIL_SETTINGS[level];
+    const legGeometry = this.getOrCreateGeometry(detailKey(`leg_${type}`, level), () => {
       // Cylinder for legs
-      return new THREE.CylinderGeometry(0.12, 0.12, 0.7, 8);
+      return new THREE.CylinderGeometry(0.12, 0.12, 0.7, cylinderSegments);
     });
 
-    const material = this.getOrCreateMaterial(`leg_${color}`, () => {
-      return new THREE.MeshStandardMaterial({ color });
-    });
+    const material = this.getOrCreateDetailMaterial(`leg_${color}`, color, level);
 
     // Left leg
     const leftLeg = new THREE.Mesh(legGeometry, material);
     leftLeg.position.set(-0.15, 0.15, 0);
     leftLeg.name = 'leftLeg';
-    leftLeg.castShadow = true;
-    leftLeg.receiveShadow = true;
+    this.setShadows(leftLeg, level);
 
     // Right leg
     const rightLeg = new THREE.Mesh(legGeometry, material);
     rightLeg.position.set(0.15, 0.15, 0);
     rightLeg.name = 'rightLeg';
-    rightLeg.castShadow = true;
-    rightLeg.receiveShadow = true;
+    this.setShadows(rightLeg, level);
 
     legsGroup.add(leftLeg);
     legsGroup.add(rightLeg);
@@ -131,50 +180,20 @@ export class AvatarMeshBuilderImpl implements AvatarMeshBuilder {
     return legsGroup;
   }
 
-  buildAccessory(type: string, attachPoint: string): THREE.Mesh {
+  buildAccessory(type: string, attachPoint: string, level: DetailLevel = 'high'): THREE.Mesh {
+    const definition = this.accessories.get(type);
+
     const geometry = this.getOrCreateGeometry(`accessory_${type}`, () => {
-      // Different geometries based on accessory type
-      switch (type) {
-        case 'sword':
-        case 'axe':
-        case 'staff':
-          // Weapon - thin box
-          return new THREE.BoxGeometry(0.1, 0.5, 0.1);
-        case 'round':
-        case 'kite':
-        case 'tower':
-          // Shield - flat box
-          return new THREE.BoxGeometry(0.3, 0.4, 0.05);
-        case 'cap':
-        case 'helmet':
-        case 'crown':
-          // Hat - small box on top
-          return new THREE.BoxGeometry(0.35, 0.15, 0.35);
-        default:
-          return new THREE.BoxGeometry(0.2, 0.2, 0.2);
-      }
+      // Box sized by the accessory registry; unknown types get a small cube
+      const [width, height, depth] = definition?.size ?? [0.2, 0.2, 0.2];
+      return new THREE.BoxGeometry(width, height, depth);
     });
 
-    const material = this.getOrCreateMaterial(`accessory_${type}`, () => {
-      // Different colors based on accessory type
-      const colorMap: Record<string, number> = {
-        sword: 0xc0c0c0, // Silver
-        axe: 0x8b4513, // Brown
-        staff: 0x8b4513, // Brown
-        round: 0x8b4513, // Brown
-        kite: 0x4169e1, // Blue
-        tower: 0x808080, // Gray
-        cap: 0xff0000, // Red
-        helmet: 0xc0c0c0, // Silver
-        crown: 0xffd700, // Gold
-      };
-      return new THREE.MeshStandardMaterial({ color: colorMap[type] || 0xffffff });
-    });
+    const material = this.getOrCreateDetailMaterial(`accessory_${type}`, definition?.color ?? '#ffffff', level);
 
     const accessory = new THREE.Mesh(geometry, material);
     accessory.name = `accessory_${type}_${attachPoint}`;
-    accessory.castShadow = true;
-    accessory.receiveShadow = true;
+    this.setShadows(accessory, level);
 
     // Position based on attach point
     switch (attachPoint) {
@@ -191,9 +210,66 @@ export class AvatarMeshBuilderImpl implements AvatarMeshBuilder {
         accessory.position.set(0, 0, 0);
     }
 
+    applyAttachment(accessory, type, this.accessories);
+
     return accessory;
   }
 
+  /**
+   * Build an avatar from full-detail parts, with hidden groups holding the
+   * medium and low detail geometry for LODSystemImpl to switch to
+   */
+  buildAvatar(customization: CustomizationData): THREE.Group {
+    const avatarGroup = this.assembleAvatar(this.buildParts(customization, 'high'));
+
+    REDUCED_DETAIL_LEVELS.forEach((level) => {
+      const detail = this.buildDetail(customization, level);
+      detail.name = getDetailGroupName(level);
+      detail.visible = false;
+      avatarGroup.add(detail);
+    });
+
+    return avatarGroup;
+  }
+
+  /**
+   * Build the geometry for one level of detail
+   * Low detail merges every part into one mesh, so it is a single draw call
+   */
+  buildDetail(customization: CustomizationData, level: DetailLevel): THREE.Group {
+    const assembled = this.assembleAvatar(this.buildParts(customization, level));
+    if (level !== 'low') {
+      return assembled;
+    }
+
+    const group = new THREE.Group();
+    group.add(this.mergeParts(assembled, customization));
+    return group;
+  }
+
+  /**
+   * Build every part for a customization, leaving out accessories the
+   * registry does not draw at the level
+   */
+  buildParts(customization: CustomizationData, level: DetailLevel = 'high'): AvatarParts {
+    const parts: AvatarParts = {
+      head: this.buildHead(customization.bodyParts.head, customization.colors.skin, level),
+      torso: this.buildTorso(customization.bodyParts.torso, customization.colors.clothing, level),
+      arms: this.buildArms(customization.bodyParts.arms, customization.colors.skin, level),
+      legs: this.buildLegs(customization.bodyParts.legs, customization.colors.clothing, level),
+      accessories: [],
+    };
+
+    (Object.keys(ACCESSORY_ATTACH_POINTS) as AccessorySlot[]).forEach((slot) => {
+      const type = customization.accessories[slot];
+      if (type && this.accessories.isVisibleAtDetail(type, level)) {
+        parts.accessories.push(this.buildAccessory(type, ACCESSORY_ATTACH_POINTS[slot], level));
+      }
+    });
+
+    return parts;
+  }
+
   assembleAvatar(parts: AvatarParts): THREE.Group {
     const avatarGroup = new THREE.Group();
     avatarGroup.name = 'avatar';
@@ -226,6 +302,71 @@ export class AvatarMeshBuilderImpl implements AvatarMeshBuilder {
     this.materialCache.clear();
   }
 
+  /**
+   * Bake an assembled avatar into one vertex-coloured mesh with an unlit material
+   */
+  private mergeParts(assembled: THREE.Group, customization: CustomizationData): THREE.Mesh {
+    const key = `merged_${JSON.stringify([customization.bodyParts, customization.colors, customization.accessories])}`;
+
+    const geometry = this.getOrCreateGeometry(key, () => {
+      assembled.updateMatrixWorld(true);
+
+      const pieces: THREE.BufferGeometry[] = [];
+      assembled.traverse((child) => {
+        if (!(child instanceof THREE.Mesh)) return;
+
+        const piece = child.geometry.clone().applyMatrix4(child.matrixWorld);
+        const color = (child.material as THREE.MeshBasicMaterial).color;
+        const colors = new Float32Array(piece.attributes.position.count * 3);
+        for (let i = 0; i < colors.length; i += 3) {
+          color.toArray(colors, i);
+        }
+        piece.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+        pieces.push(piece);
+      });
+
+      const merged = mergeGeometries(pieces);
+      pieces.forEach((piece) => piece.dispose());
+      if (!merged) {
+        throw new Error('Failed to merge avatar geometry');
+      }
+      return merged;
+    });
+
+    const material = this.getOrCreateMaterial('merged_unlit', () => {
+      return new THREE.MeshBasicMaterial({ vertexColors: true });
+    });
+
+    const body = new THREE.Mesh(geometry, material);
+    body.name = 'body';
+    this.setShadows(body, 'low');
+
+    return body;
+  }
+
+  /**
+   * Lit materials at high detail, cheaper Lambert shading at medium and
+   * unlit colour at low
+   */
+  private getOrCreateDetailMaterial(key: string, color: string, level: DetailLevel): THREE.Material {
+    return this.getOrCreateMaterial(detailKey(key, level), () => {
+      switch (level) {
+        case 'medium':
+          return new THREE.MeshLambertMaterial({ color });
+        case 'low':
+          return new THREE.MeshBasicMaterial({ color });
+        default:
+          return new THREE.MeshStandardMaterial({ color });
+      }
+    });
+  }
+
+  // Distant avatars skip the shadow pass
+  private setShadows(mesh: THREE.Mesh, level: DetailLevel): void {
+    mesh.castShadow = level !== 'low';
+    mesh.receiveShadow = level !== 'low';
+  }
+
   // Cache management
   private getOrCreateGeometry(
     key: string,
@@ -244,6 +385,10 @@ export class AvatarMeshBuilderImpl implements AvatarMeshBuilder {
     return this.materialCache.get(key)!;
   }
 
+  getAccessoryRegistry(): AccessoryRegistry {
+    return this.accessories;
+  }
+
   // Getters for testing
   getGeometryCacheSize(): number {
     return this.geometryCache.size;
@@ -253,3 +398,21 @@ export class AvatarMeshBuilderImpl implements AvatarMeshBuilder {
     return this.materialCache.size;
   }
 }
+
+/**
+ * Offset, turn and scale an accessory by its registry attachment and tag it
+ * with the lowest level of detail it is drawn at for LODSystemImpl
+ */
+export function applyAttachment(
+  accessory: THREE.Object3D,
+  type: string,
+  accessories: AccessoryRegistry = defaultAccessoryRegistry
+): void {
+  const { position, rotation, scale } = accessories.getAttachment(type);
+
+  accessory.position.add(new THREE.Vector3(...position));
+  accessory.rotation.set(...rotation);
+  accessory.scale.set(...scale);
+  accessory.userData.accessoryId = type;
+  accessory.userData.lowestDetail = accessories.getLowestDetail(type);
+}
@@ -286,6 +286,31 @@ describe('LocalStoragePersistence', () => {
     });
   });
 
+  describe('unlocked accessories', () => {
+    it('should save and load unlocked accessories', () => {
+      expect(persistence.loadUnlockedAccessories()).toEqual([]);
+
+      persistence.saveUnlockedAccessories(['crown', 'tower']);
+
+      expect(persistence.loadUnlockedAccessories()).toEqual(['crown', 'tower']);
+    });
+
+    it('should ignore invalid unlock data', () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      localStorage.setItem('avatar_unlocked_accessories', JSON.stringify([1, 'crown']));
+
+      expect(persistence.loadUnlockedAccessories()).toEqual([]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should not be listed as an avatar', () => {
+      persistence.saveUnlockedAccessories(['crown']);
+
+      expect(persistence.getAllAvatarIds()).toEqual([]);
+    });
+  });
+
   describe('persistence round trip', () => {
     it('should preserve all customization data', () => {
       const customization: CustomizationData = {
@@ -5,10 +5,13 @@ export interface AvatarPersistence {
   saveCustomization(avatarId: string, data: CustomizationData): void;
   loadCustomization(avatarId: string): CustomizationData | null;
   clearCustomization(avatarId: string): void;
+  saveUnlockedAccessories(accessoryIds: string[]): void;
+  loadUnlockedAccessories(): string[];
 }
 
 export class LocalStoragePersistence implements AvatarPersistence {
   private readonly STORAGE_KEY_PREFIX = 'avatar_customization_';
+  private readonly UNLOCKS_KEY = 'avatar_unlocked_accessories';
 
   saveCustomization(avatarId: string, data: CustomizationData): void {
     try {
@@ -55,6 +58,34 @@ export class LocalStoragePersistence implements AvatarPersistence {
     }
   }
 
+  saveUnlockedAccessories(accessoryIds: string[]): void {
+    try {
+      localStorage.setItem(this.UNLOCKS_KEY, JSON.stringify(accessoryIds));
+    } catch (error) {
+      console.warn('Failed to save accessory unlocks:', error);
+    }
+  }
+
+  loadUnlockedAccessories(): string[] {
+    try {
+      const serialized = localStorage.getItem(this.UNLOCKS_KEY);
+      if (!serialized) {
+        return [];
+      }
+
+      const parsed = JSON.parse(serialized);
+      if (!Array.isArray(parsed) || !parsed.every((id) => typeof id === 'string')) {
+        console.warn('Invalid accessory unlocks in localStorage, ignoring');
+        return [];
+      }
+
+      return parsed;
+    } catch (error) {
+      console.warn('Failed to load accessory unlocks:', error);
+      return [];
+    }
+  }
+
   // Utility method to check if localStorage is available
   isAvailable(): boolean {
     try {
@@ -3,7 +3,10 @@ import {
   PresetManagerImpl,
   PLAYER_PRESET,
   AI_PRESET,
+  PLAYER_TWO_PRESET,
+  getOpponentPreset,
 } from './AvatarPresets';
+import { validateCustomizationData } from './CustomizationValidator';
 import type { AvatarPreset } from '@/types';
 
 describe('AvatarPresets', () => {
@@ -37,6 +40,24 @@ describe('AvatarPresets', () => {
     });
   });
 
+  describe('Hot-seat Presets', () => {
+    it('should have a valid player two preset', () => {
+      expect(PLAYER_TWO_PRESET.id).toBe('player_two_default');
+      expect(validateCustomizationData(PLAYER_TWO_PRESET.customization)).toBe(true);
+    });
+
+    it('should look different from player one', () => {
+      expect(PLAYER_TWO_PRESET.customization.colors).not.toEqual(
+        PLAYER_PRESET.customization.colors
+      );
+    });
+
+    it('should pick the opponent preset by controller', () => {
+      expect(getOpponentPreset('ai')).toBe(AI_PRESET);
+      expect(getOpponentPreset('human')).toBe(PLAYER_TWO_PRESET);
+    });
+  });
+
   describe('PresetManager', () => {
     let manager: PresetManagerImpl;
 
@@ -255,6 +276,11 @@ describe('AvatarPresets', () => {
         expect(preset).not.toBeNull();
       });
 
+      it('should not delete player two default preset', () => {
+        expect(manager.deletePreset('player_two_default')).toBe(false);
+        expect(manager.getPreset('player_two_default')).not.toBeNull();
+      });
+
       it('should return false for non-existent preset', () => {
         const deleted = manager.deletePreset('non_existent');
         expect(deleted).toBe(false);
@@ -48,6 +48,40 @@ export const AI_PRESET: AvatarPreset = {
   },
 };
 
+/**
+ * Second human player in hot-seat matches, shown on the opponent side
+ */
+export const PLAYER_TWO_PRESET: AvatarPreset = {
+  id: 'player_two_default',
+  name: 'Player Two',
+  customization: {
+    bodyParts: {
+      head: 'default',
+      torso: 'default',
+      arms: 'default',
+      legs: 'default',
+    },
+    colors: {
+      skin: '#c68642',
+      hair: '#f4d03f',
+      clothing: '#2e8b57',
+    },
+    accessories: {
+      weapon: 'staff',
+    },
+  },
+};
+
+/**
+ * Avatar preset for the side playing the opponent
+ * Hot-seat matches show the second player instead of the AI
+ */
+export function getOpponentPreset(controller: 'ai' | 'human'): AvatarPreset {
+  return controller === 'human' ? PLAYER_TWO_PRESET : AI_PRESET;
+}
+
+const DEFAULT_PRESET_IDS = [PLAYER_PRESET.id, AI_PRESET.id, PLAYER_TWO_PRESET.id];
+
 export interface PresetManager {
   getPreset(id: string): AvatarPreset | null;
   getAllPresets(): AvatarPreset[];
@@ -64,6 +98,7 @@ export class PresetManagerImpl implements PresetManager {
     // Initialize with default presets
     this.presets.set(PLAYER_PRESET.id, PLAYER_PRESET);
     this.presets.set(AI_PRESET.id, AI_PRESET);
+    this.presets.set(PLAYER_TWO_PRESET.id, PLAYER_TWO_PRESET);
   }
 
   getPreset(id: string): AvatarPreset | null {
@@ -90,7 +125,7 @@ export class PresetManagerImpl implements PresetManager {
 
   deletePreset(id: string): boolean {
     // Don't allow deleting default presets
-    if (id === PLAYER_PRESET.id || id === AI_PRESET.id) {
+    if (DEFAULT_PRESET_IDS.includes(id)) {
       return false;
     }
     return this.presets.delete(id);
@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { AvatarSystemImpl } from './AvatarSystem';
 import type { ThreeJSDependencies } from './AvatarSystemDI';
+import type { AvatarBuilder } from './AvatarMeshBuilder';
+import type { LODSystem } from './LODSystem';
+import * as THREE from 'three';
 import type { AvatarPreset } from '@/types';
 
 // Mock Three.js objects
@@ -404,6 +407,30 @@ describe('AvatarSystem', () => {
       expect(mockScene.remove).toHaveBeenCalledTimes(2);
     });
 
+    it('should remove a single avatar from the scene and the LOD system', async () => {
+      const lodSystem = { updateLOD: vi.fn(), removeAvatar: vi.fn() } as unknown as LODSystem;
+      const system = new AvatarSystemImpl({ ...mockDependencies, lodSystemFactory: () => lodSystem });
+      vi.spyOn(system, 'isWebGLAvailable').mockReturnValue(true);
+      await system.initialize(mockCanvas);
+
+      const avatar = system.createAvatar({
+        id: 'avatar1',
+        name: 'Avatar 1',
+        customization: {
+          bodyParts: { head: 'default', torso: 'default', arms: 'default', legs: 'default' },
+          colors: { skin: '#ffdbac', hair: '#8b4513', clothing: '#4169e1' },
+          accessories: {},
+        },
+      });
+      system.removeAvatar('avatar1');
+
+      expect(mockScene.remove).toHaveBeenCalledWith(avatar.mesh);
+      expect(system.getAvatar('avatar1')).toBeUndefined();
+      expect(lodSystem.removeAvatar).toHaveBeenCalledWith('avatar1');
+
+      system.dispose();
+    });
+
     it('should not crash when disposing before initialization', () => {
       expect(() => avatarSystem.dispose()).not.toThrow();
     });
@@ -418,6 +445,68 @@ describe('AvatarSystem', () => {
     });
   });
 
+  describe('Avatar Builder', () => {
+    const testPreset: AvatarPreset = {
+      id: 'test_avatar',
+      name: 'Test Avatar',
+      customization: {
+        bodyParts: { head: 'default', torso: 'default', arms: 'default', legs: 'default' },
+        colors: { skin: '#ffdbac', hair: '#8b4513', clothing: '#4169e1' },
+        accessories: {},
+      },
+    };
+
+    const createBuilder = (load?: () => Promise<void>): AvatarBuilder => ({
+      load: load && vi.fn(load),
+      buildAvatar: vi.fn(() => new THREE.Group()),
+      clearCache: vi.fn(),
+    });
+
+    const createSystem = (builder: AvatarBuilder) => {
+      const system = new AvatarSystemImpl({ ...mockDependencies, avatarBuilderFactory: () => builder });
+      vi.spyOn(system, 'isWebGLAvailable').mockReturnValue(true);
+      return system;
+    };
+
+    it('should build avatars with the injected builder', async () => {
+      const builder = createBuilder();
+      const system = createSystem(builder);
+      await system.initialize(mockCanvas);
+
+      const avatar = system.createAvatar(testPreset);
+      system.updateAvatar('test_avatar', testPreset.customization);
+
+      expect(builder.buildAvatar).toHaveBeenCalledTimes(2);
+      expect(builder.buildAvatar).toHaveBeenCalledWith(testPreset.customization);
+      expect(avatar.mesh.name).toBe('avatar_test_avatar');
+
+      system.dispose();
+      expect(builder.clearCache).toHaveBeenCalled();
+    });
+
+    it('should load the builder\'s assets during initialization', async () => {
+      const builder = createBuilder(() => Promise.resolve());
+      const system = createSystem(builder);
+
+      await system.initialize(mockCanvas);
+
+      expect(builder.load).toHaveBeenCalledTimes(1);
+      system.dispose();
+    });
+
+    it('should carry on with procedural avatars when the assets fail to load', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const builder = createBuilder(() => Promise.reject(new Error('Not found')));
+      const system = createSystem(builder);
+
+      await expect(system.initialize(mockCanvas)).resolves.toBeUndefined();
+
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('procedural avatars'), expect.any(Error));
+      warn.mockRestore();
+      system.dispose();
+    });
+  });
+
   describe('WebGL Detection', () => {
     it('should return true when WebGL is available', () => {
       expect(avatarSystem.isWebGLAvailable()).toBe(true);
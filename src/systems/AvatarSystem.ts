@@ -9,7 +9,8 @@ import type { ThreeJSDependencies } from './AvatarSystemDI';
 import { defaultThreeJSDependencies } from './AvatarSystemDI';
 import { isWebGLAvailable } from './WebGLDetection';
 import { AvatarMeshBuilderImpl } from './AvatarMeshBuilder';
-import type { AvatarParts } from './AvatarMeshBuilder';
+import type { AvatarBuilder } from './AvatarMeshBuilder';
+import type { LODSystem } from './LODSystem';
 import { validateCustomizationData } from './CustomizationValidator';
 
 export class AvatarSystemImpl {
@@ -20,11 +21,13 @@ export class AvatarSystemImpl {
   private animationFrameId: number | null = null;
   private dependencies: ThreeJSDependencies;
   private canvas: HTMLCanvasElement | null = null;
-  private meshBuilder: AvatarMeshBuilderImpl;
+  private avatarBuilder: AvatarBuilder;
+  private lodSystem: LODSystem | null;
 
   constructor(dependencies: ThreeJSDependencies = defaultThreeJSDependencies) {
     this.dependencies = dependencies;
-    this.meshBuilder = new AvatarMeshBuilderImpl();
+    this.avatarBuilder = dependencies.avatarBuilderFactory?.() ?? new AvatarMeshBuilderImpl();
+    this.lodSystem = dependencies.lodSystemFactory?.() ?? null;
   }
 
   isWebGLAvailable(): boolean {
@@ -54,6 +57,9 @@ export class AvatarSystemImpl {
     // Setup lighting
     this.setupLighting();
 
+    // Fetch the builder's models; without them avatars are procedural
+    await this.loadAvatarAssets();
+
     // Start render loop
     this.startRenderLoop();
 
@@ -83,9 +89,20 @@ export class AvatarSystemImpl {
     this.scene.add(pointLight);
   }
 
+  private async loadAvatarAssets(): Promise<void> {
+    if (!this.avatarBuilder.load) return;
+
+    try {
+      await this.avatarBuilder.load();
+    } catch (error) {
+      console.warn('Failed to load avatar models, using procedural avatars:', error);
+    }
+  }
+
   private startRenderLoop(): void {
     const render = () => {
       if (this.renderer && this.scene && this.camera) {
+        this.lodSystem?.updateLOD(this.camera, [...this.avatars.values()]);
         this.renderer.render(this.scene, this.camera);
       }
       this.animationFrameId = requestAnimationFrame(render);
@@ -117,46 +134,8 @@ export class AvatarSystemImpl {
   createAvatar(preset: AvatarPreset): Avatar {
     const { customization } = preset;
 
-    // Build avatar parts
-    const parts: AvatarParts = {
-      head: this.meshBuilder.buildHead(
-        customization.bodyParts.head,
-        customization.colors.skin
-      ),
-      torso: this.meshBuilder.buildTorso(
-        customization.bodyParts.torso,
-        customization.colors.clothing
-      ),
-      arms: this.meshBuilder.buildArms(
-        customization.bodyParts.arms,
-        customization.colors.skin
-      ),
-      legs: this.meshBuilder.buildLegs(
-        customization.bodyParts.legs,
-        customization.colors.clothing
-      ),
-      accessories: [],
-    };
-
-    // Add accessories if present
-    if (customization.accessories.hat) {
-      parts.accessories.push(
-        this.meshBuilder.buildAccessory(customization.accessories.hat, 'head')
-      );
-    }
-    if (customization.accessories.weapon) {
-      parts.accessories.push(
-        this.meshBuilder.buildAccessory(customization.accessories.weapon, 'rightHand')
-      );
-    }
-    if (customization.accessories.shield) {
-      parts.accessories.push(
-        this.meshBuilder.buildAccessory(customization.accessories.shield, 'leftHand')
-      );
-    }
-
-    // Assemble avatar
-    const mesh = this.meshBuilder.assembleAvatar(parts);
+    // Build avatar
+    const mesh = this.avatarBuilder.buildAvatar(customization);
     mesh.name = `avatar_${preset.id}`;
 
     if (this.scene) {
@@ -190,46 +169,8 @@ export class AvatarSystemImpl {
       this.scene.remove(avatar.mesh);
     }
 
-    // Build new avatar parts with updated customization
-    const parts: AvatarParts = {
-      head: this.meshBuilder.buildHead(
-        customization.bodyParts.head,
-        customization.colors.skin
-      ),
-      torso: this.meshBuilder.buildTorso(
-        customization.bodyParts.torso,
-        customization.colors.clothing
-      ),
-      arms: this.meshBuilder.buildArms(
-        customization.bodyParts.arms,
-        customization.colors.skin
-      ),
-      legs: this.meshBuilder.buildLegs(
-        customization.bodyParts.legs,
-        customization.colors.clothing
-      ),
-      accessories: [],
-    };
-
-    // Add accessories if present
-    if (customization.accessories.hat) {
-      parts.accessories.push(
-        this.meshBuilder.buildAccessory(customization.accessories.hat, 'head')
-      );
-    }
-    if (customization.accessories.weapon) {
-      parts.accessories.push(
-        this.meshBuilder.buildAccessory(customization.accessories.weapon, 'rightHand')
-      );
-    }
-    if (customization.accessories.shield) {
-      parts.accessories.push(
-        this.meshBuilder.buildAccessory(customization.accessories.shield, 'leftHand')
-      );
-    }
-
-    // Assemble new avatar mesh
-    const newMesh = this.meshBuilder.assembleAvatar(parts);
+    // Build new avatar mesh with updated customization
+    const newMesh = this.avatarBuilder.buildAvatar(customization);
     newMesh.name = avatar.mesh.name;
     newMesh.position.copy(avatar.mesh.position);
     newMesh.rotation.copy(avatar.mesh.rotation);
@@ -245,6 +186,17 @@ export class AvatarSystemImpl {
     }
   }
 
+  removeAvatar(avatarId: string): void {
+    const avatar = this.avatars.get(avatarId);
+    if (!avatar) return;
+
+    if (this.scene) {
+      this.scene.remove(avatar.mesh);
+    }
+    this.avatars.delete(avatarId);
+    this.lodSystem?.removeAvatar(avatarId);
+  }
+
   playAnimation(avatarId: string, _state: AnimationState): void {
     const avatar = this.avatars.get(avatarId);
     if (!avatar) {
@@ -262,15 +214,10 @@ export class AvatarSystemImpl {
     }
 
     // Dispose avatars
-    this.avatars.forEach((avatar) => {
-      if (this.scene) {
-        this.scene.remove(avatar.mesh);
-      }
-    });
-    this.avatars.clear();
+    [...this.avatars.keys()].forEach((avatarId) => this.removeAvatar(avatarId));
 
-    // Clear mesh builder cache (disposes geometries and materials)
-    this.meshBuilder.clearCache();
+    // Clear avatar builder cache (disposes geometries and materials)
+    this.avatarBuilder.clearCache();
 
     // Dispose renderer
     if (this.renderer) {
@@ -4,11 +4,19 @@
  */
 
 import * as THREE from 'three';
+import { AvatarMeshBuilderImpl } from './AvatarMeshBuilder';
+import type { AvatarBuilder } from './AvatarMeshBuilder';
+import { GLTFAvatarBuilderImpl } from './GLTFAvatarBuilder';
+import type { GLTFAvatarRig } from './GLTFAvatarBuilder';
+import type { AssetLoader } from './AssetLoader';
+import type { LODSystem } from './LODSystem';
 
 export interface ThreeJSDependencies {
   rendererFactory: (canvas: HTMLCanvasElement) => THREE.WebGLRenderer;
   sceneFactory: () => THREE.Scene;
   cameraFactory: (fov: number, aspect: number, near: number, far: number) => THREE.PerspectiveCamera;
+  avatarBuilderFactory?: () => AvatarBuilder; // Defaults to the procedural mesh builder
+  lodSystemFactory?: () => LODSystem; // Switches avatar detail by camera distance each frame; none by default
 }
 
 export const defaultThreeJSDependencies: ThreeJSDependencies = {
@@ -20,4 +28,15 @@ export const defaultThreeJSDependencies: ThreeJSDependencies = {
   sceneFactory: () => new THREE.Scene(),
   cameraFactory: (fov: number, aspect: number, near: number, far: number) => 
     new THREE.PerspectiveCamera(fov, aspect, near, far),
+  avatarBuilderFactory: () => new AvatarMeshBuilderImpl(),
 };
+
+/**
+ * Default dependencies, building avatars from a rigged glTF character
+ */
+export function createGLTFAvatarDependencies(rig: GLTFAvatarRig, assetLoader?: AssetLoader): ThreeJSDependencies {
+  return {
+    ...defaultThreeJSDependencies,
+    avatarBuilderFactory: () => new GLTFAvatarBuilderImpl(rig, assetLoader),
+  };
+}
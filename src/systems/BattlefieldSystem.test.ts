@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   calculateDamage,
+  getDamageBreakdown,
   placeCardOnPlayerSide,
   placeCardOnOpponentSide,
   applyDamageToPlayer,
@@ -84,6 +85,52 @@ describe('BattlefieldSystem', () => {
     });
   });
   
+  describe('Damage Breakdown', () => {
+    it('should explain the defense reduction', () => {
+      expect(getDamageBreakdown(mockAttacker, mockDefender, 'piercing')).toEqual({
+        formula: 'piercing',
+        attack: 10,
+        defense: 8,
+        reduction: 4,
+        damage: 6,
+      });
+    });
+    
+    it('should report no reduction without a defender', () => {
+      const breakdown = getDamageBreakdown(mockAttacker, null);
+      
+      expect(breakdown.defense).toBe(0);
+      expect(breakdown.reduction).toBe(0);
+      expect(breakdown.damage).toBe(calculateDamage(mockAttacker, null));
+    });
+  });
+  
+  describe('Damage Formulas', () => {
+    it('should default to the standard formula', () => {
+      expect(calculateDamage(mockAttacker, mockDefender, 'standard')).toBe(
+        calculateDamage(mockAttacker, mockDefender)
+      );
+    });
+    
+    it('should halve defense under the piercing formula', () => {
+      // 10 attack - floor(8 / 2) defense = 6 damage
+      expect(calculateDamage(mockAttacker, mockDefender, 'piercing')).toBe(6);
+    });
+    
+    it('should scale attack under the ratio formula', () => {
+      // round(10 * 10 / 18) = 6 damage
+      expect(calculateDamage(mockAttacker, mockDefender, 'ratio')).toBe(6);
+    });
+    
+    it('should deal at least 1 damage under every formula', () => {
+      const weakAttacker: Card = { ...mockAttacker, stats: { attack: 1, defense: 0, speed: 1 } };
+      const wall: Card = { ...mockDefender, stats: { attack: 0, defense: 50, speed: 1 } };
+      
+      expect(calculateDamage(weakAttacker, wall, 'piercing')).toBe(1);
+      expect(calculateDamage(weakAttacker, wall, 'ratio')).toBe(1);
+    });
+  });
+  
   describe('Card Placement', () => {
     it('should place card on player side', () => {
       const battlefield = placeCardOnPlayerSide(initialBattlefield, mockAttacker);
@@ -197,6 +244,13 @@ describe('BattlefieldSystem', () => {
       expect(reset.playerSide.activeCard).toBeNull();
       expect(reset.opponentSide.activeCard).toBeNull();
     });
+    
+    it('should reset to a custom starting HP', () => {
+      const reset = resetBattlefield(50);
+      
+      expect(reset.playerSide).toEqual({ activeCard: null, hp: 50, maxHP: 50 });
+      expect(reset.opponentSide.maxHP).toBe(50);
+    });
   });
   
   describe('Win/Loss Conditions', () => {
@@ -7,20 +7,72 @@
 import type { Card, BattlefieldState } from '@/types';
 
 /**
- * Calculate damage dealt by attacker to defender
- * Damage = attacker.attack - defender.defense (minimum 1)
+ * How a defending card reduces incoming damage
+ * - standard: attack - defense
+ * - piercing: attack - half the defense (rounded down)
+ * - ratio: attack scaled by 10 / (10 + defense), rounded
+ * Every formula deals at least 1 damage against a defender
+ */
+export type DamageFormula = 'standard' | 'piercing' | 'ratio';
+
+export const DAMAGE_FORMULAS: DamageFormula[] = ['standard', 'piercing', 'ratio'];
+
+/**
+ * How a hit's damage was reached, for the combat log
+ */
+export interface DamageBreakdown {
+  formula: DamageFormula;
+  attack: number;
+  defense: number; // Defending card's defense, 0 without a defender
+  reduction: number; // Damage prevented by the defense
+  damage: number;
+}
+
+/**
+ * Work out damage dealt by attacker to defender, step by step
  */
-export function calculateDamage(attacker: Card, defender: Card | null): number {
+export function getDamageBreakdown(
+  attacker: Card,
+  defender: Card | null,
+  formula: DamageFormula = 'standard'
+): DamageBreakdown {
+  const { attack } = attacker.stats;
+  
   if (!defender) {
     // No defender, full attack damage
-    return attacker.stats.attack;
+    return { formula, attack, defense: 0, reduction: 0, damage: attack };
   }
   
   // Calculate damage with defense reduction
-  const rawDamage = attacker.stats.attack - defender.stats.defense;
+  const { defense } = defender.stats;
+  let rawDamage: number;
+  switch (formula) {
+    case 'piercing':
+      rawDamage = attack - Math.floor(defense / 2);
+      break;
+    case 'ratio':
+      rawDamage = Math.round((attack * 10) / (10 + Math.max(0, defense)));
+      break;
+    default:
+      rawDamage = attack - defense;
+  }
   
   // Minimum 1 damage
-  return Math.max(1, rawDamage);
+  const damage = Math.max(1, rawDamage);
+  return { formula, attack, defense, reduction: attack - damage, damage };
+}
+
+/**
+ * Calculate damage dealt by attacker to defender
+ * Damage = attacker.attack - defender.defense (minimum 1) under the
+ * standard formula
+ */
+export function calculateDamage(
+  attacker: Card,
+  defender: Card | null,
+  formula: DamageFormula = 'standard'
+): number {
+  return getDamageBreakdown(attacker, defender, formula).damage;
 }
 
 /**
@@ -113,19 +165,19 @@ export function clearBattlefield(battlefield: BattlefieldState): BattlefieldStat
 }
 
 /**
- * Reset battlefield to initial state
+ * Reset battlefield to initial state, both sides at full HP
  */
-export function resetBattlefield(): BattlefieldState {
+export function resetBattlefield(maxHP: number = 100): BattlefieldState {
   return {
     playerSide: {
       activeCard: null,
-      hp: 100,
-      maxHP: 100,
+      hp: maxHP,
+      maxHP,
     },
     opponentSide: {
       activeCard: null,
-      hp: 100,
-      maxHP: 100,
+      hp: maxHP,
+      maxHP,
     },
   };
 }
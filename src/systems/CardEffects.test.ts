@@ -0,0 +1,296 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createActiveEffects,
+  applyDamage,
+  applyEffect,
+  resolveCard,
+  tickEffects,
+  isStunned,
+  consumeStun,
+  type Combatant,
+} from './CardEffects';
+import type { Card, CardEffect } from '@/types';
+
+describe('CardEffects', () => {
+  const createCard = (id: string, attack: number, effects?: CardEffect[]): Card => ({
+    id,
+    name: `Card ${id}`,
+    type: 'special',
+    rarity: 'common',
+    stats: { attack, defense: 2, speed: 5 },
+    artwork: '/test.png',
+    effects,
+  });
+  
+  const createCombatant = (overrides: Partial<Combatant> = {}): Combatant => ({
+    hp: 100,
+    maxHP: 100,
+    hand: [],
+    deck: [],
+    effects: createActiveEffects(),
+    ...overrides,
+  });
+  
+  describe('applyDamage', () => {
+    it('should reduce HP by damage', () => {
+      const result = applyDamage(createCombatant(), 10);
+      
+      expect(result.combatant.hp).toBe(90);
+      expect(result.damage).toBe(10);
+    });
+    
+    it('should absorb damage with shield first', () => {
+      const target = createCombatant({
+        effects: { ...createActiveEffects(), shield: 6 },
+      });
+      
+      const result = applyDamage(target, 10);
+      
+      expect(result.combatant.hp).toBe(96);
+      expect(result.combatant.effects.shield).toBe(0);
+      expect(result.damage).toBe(4);
+    });
+    
+    it('should not reduce HP below 0', () => {
+      const result = applyDamage(createCombatant({ hp: 5 }), 20);
+      
+      expect(result.combatant.hp).toBe(0);
+    });
+  });
+  
+  describe('applyEffect', () => {
+    it('should heal up to max HP', () => {
+      const { attacker } = applyEffect(
+        { type: 'heal', amount: 30 },
+        createCombatant({ hp: 80 }),
+        createCombatant()
+      );
+      
+      expect(attacker.hp).toBe(100);
+    });
+    
+    it('should add shield to the attacker', () => {
+      const { attacker } = applyEffect(
+        { type: 'shield', amount: 5 },
+        createCombatant(),
+        createCombatant()
+      );
+      
+      expect(attacker.effects.shield).toBe(5);
+    });
+    
+    it('should draw cards from the top of the deck', () => {
+      const deck = [createCard('a', 1), createCard('b', 2), createCard('c', 3)];
+      
+      const { attacker } = applyEffect(
+        { type: 'draw', count: 2 },
+        createCombatant({ deck }),
+        createCombatant()
+      );
+      
+      expect(attacker.hand.map(c => c.id)).toEqual(['a', 'b']);
+      expect(attacker.deck.map(c => c.id)).toEqual(['c']);
+    });
+    
+    it('should only draw what remains in the deck', () => {
+      const { attacker } = applyEffect(
+        { type: 'draw', count: 3 },
+        createCombatant({ deck: [createCard('a', 1)] }),
+        createCombatant()
+      );
+      
+      expect(attacker.hand).toHaveLength(1);
+      expect(attacker.deck).toHaveLength(0);
+    });
+    
+    it('should apply damage over time to the defender', () => {
+      const { defender } = applyEffect(
+        { type: 'damageOverTime', damage: 3, turns: 2 },
+        createCombatant(),
+        createCombatant()
+      );
+      
+      expect(defender.effects.damageOverTime).toEqual([{ damage: 3, turnsRemaining: 2 }]);
+    });
+    
+    it('should stun the defender', () => {
+      const { defender } = applyEffect(
+        { type: 'stun', turns: 1 },
+        createCombatant(),
+        createCombatant()
+      );
+      
+      expect(isStunned(defender.effects)).toBe(true);
+    });
+    
+    it('should buff the attacker next card', () => {
+      const { attacker } = applyEffect(
+        { type: 'buffNextCard', attack: 4 },
+        createCombatant(),
+        createCombatant()
+      );
+      
+      expect(attacker.effects.nextCardBuff).toBe(4);
+    });
+    
+    it('should discard from the end of the defender hand', () => {
+      const hand = [createCard('a', 1), createCard('b', 2), createCard('c', 3)];
+      
+      const { defender } = applyEffect(
+        { type: 'discard', count: 2 },
+        createCombatant(),
+        createCombatant({ hand })
+      );
+      
+      expect(defender.hand.map(c => c.id)).toEqual(['a']);
+    });
+  });
+  
+  describe('resolveCard', () => {
+    it('should deal attack damage and apply effects', () => {
+      const card = createCard('x', 10, [
+        { type: 'heal', amount: 5 },
+        { type: 'stun', turns: 1 },
+      ]);
+      
+      const result = resolveCard(card, createCombatant({ hp: 50 }), createCombatant());
+      
+      expect(result.damage).toBe(10);
+      expect(result.defender.hp).toBe(90);
+      expect(result.attacker.hp).toBe(55);
+      expect(result.defender.effects.stunnedTurns).toBe(1);
+    });
+    
+    it('should consume a pending buff on the next card', () => {
+      const attacker = createCombatant({
+        effects: { ...createActiveEffects(), nextCardBuff: 4 },
+      });
+      
+      const result = resolveCard(createCard('x', 6), attacker, createCombatant());
+      
+      expect(result.damage).toBe(10);
+      expect(result.attacker.effects.nextCardBuff).toBe(0);
+    });
+    
+    it('should not consume a buff granted by the same card', () => {
+      const card = createCard('x', 6, [{ type: 'buffNextCard', attack: 3 }]);
+      
+      const result = resolveCard(card, createCombatant(), createCombatant());
+      
+      expect(result.damage).toBe(6);
+      expect(result.attacker.effects.nextCardBuff).toBe(3);
+    });
+    
+    it('should use a provided base damage', () => {
+      const result = resolveCard(createCard('x', 10), createCombatant(), createCombatant(), 4);
+      
+      expect(result.damage).toBe(4);
+    });
+  });
+  
+  describe('tickEffects', () => {
+    it('should apply damage over time and expire it', () => {
+      let combatant = createCombatant({
+        effects: {
+          ...createActiveEffects(),
+          shield: 10,
+          damageOverTime: [{ damage: 3, turnsRemaining: 2 }],
+        },
+      });
+      
+      combatant = tickEffects(combatant);
+      expect(combatant.hp).toBe(97);
+      expect(combatant.effects.shield).toBe(10);
+      expect(combatant.effects.damageOverTime).toHaveLength(1);
+      
+      combatant = tickEffects(combatant);
+      expect(combatant.hp).toBe(94);
+      expect(combatant.effects.damageOverTime).toHaveLength(0);
+    });
+  });
+  
+  describe('weaken', () => {
+    it('should keep the strongest weaken on the defender', () => {
+      let defender = createCombatant();
+      
+      defender = applyEffect({ type: 'weaken', amount: 2, turns: 3 }, createCombatant(), defender).defender;
+      defender = applyEffect({ type: 'weaken', amount: 4, turns: 1 }, createCombatant(), defender).defender;
+      
+      expect(defender.effects.weaken).toEqual({ amount: 4, turnsRemaining: 3 });
+    });
+    
+    it('should reduce damage and wear off one card at a time', () => {
+      const attacker = createCombatant({
+        effects: { ...createActiveEffects(), weaken: { amount: 3, turnsRemaining: 2 } },
+      });
+      
+      const first = resolveCard(createCard('a', 10), attacker, createCombatant());
+      expect(first.damage).toBe(7);
+      expect(first.attacker.effects.weaken).toEqual({ amount: 3, turnsRemaining: 1 });
+      
+      const second = resolveCard(createCard('b', 2), first.attacker, first.defender);
+      expect(second.damage).toBe(0);
+      expect(second.attacker.effects.weaken).toBeNull();
+    });
+  });
+  
+  describe('regen', () => {
+    it('should stack regen on the attacker', () => {
+      let attacker = createCombatant();
+      
+      attacker = applyEffect({ type: 'regen', amount: 2, turns: 2 }, attacker, createCombatant()).attacker;
+      attacker = applyEffect({ type: 'regen', amount: 3, turns: 1 }, attacker, createCombatant()).attacker;
+      
+      expect(attacker.effects.regen).toHaveLength(2);
+    });
+    
+    it('should heal each turn up to max HP and expire', () => {
+      let combatant = createCombatant({
+        hp: 95,
+        effects: {
+          ...createActiveEffects(),
+          regen: [
+            { amount: 2, turnsRemaining: 2 },
+            { amount: 3, turnsRemaining: 1 },
+          ],
+        },
+      });
+      
+      combatant = tickEffects(combatant);
+      expect(combatant.hp).toBe(100);
+      expect(combatant.effects.regen).toEqual([{ amount: 2, turnsRemaining: 1 }]);
+      
+      combatant = tickEffects({ ...combatant, hp: 50 });
+      expect(combatant.hp).toBe(52);
+      expect(combatant.effects.regen).toHaveLength(0);
+    });
+    
+    it('should not revive a combatant killed by poison', () => {
+      const combatant = tickEffects(
+        createCombatant({
+          hp: 2,
+          effects: {
+            ...createActiveEffects(),
+            damageOverTime: [{ damage: 5, turnsRemaining: 1 }],
+            regen: [{ amount: 10, turnsRemaining: 1 }],
+          },
+        })
+      );
+      
+      expect(combatant.hp).toBe(0);
+    });
+  });
+  
+  describe('stun', () => {
+    it('should consume one stun turn at a time', () => {
+      const effects = { ...createActiveEffects(), stunnedTurns: 2 };
+      
+      const once = consumeStun(effects);
+      expect(isStunned(once)).toBe(true);
+      
+      const twice = consumeStun(once);
+      expect(isStunned(twice)).toBe(false);
+      expect(consumeStun(twice).stunnedTurns).toBe(0);
+    });
+  });
+});
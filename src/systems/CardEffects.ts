@@ -0,0 +1,310 @@
+/**
+ * Card Effects System
+ *
+ * Interprets the declarative effects authored on cards (heal, shield,
+ * draw, damage-over-time, stun, weaken, regen, buff, discard) and the
+ * per-side effect state they leave behind between turns.
+ */
+
+import type { Card, CardEffect } from '@/types';
+
+export interface DamageOverTime {
+  damage: number;
+  turnsRemaining: number;
+}
+
+export interface TimedEffect {
+  amount: number;
+  turnsRemaining: number;
+}
+
+/**
+ * Lingering effects on one side of the battle
+ */
+export interface ActiveEffects {
+  shield: number;
+  damageOverTime: DamageOverTime[];
+  stunnedTurns: number;
+  nextCardBuff: number;
+  weaken: TimedEffect | null; // Reduces the damage of this side's cards
+  regen: TimedEffect[]; // Heals at the start of this side's turn
+}
+
+/**
+ * One side of the battle as seen by the effect resolver
+ */
+export interface Combatant {
+  hp: number;
+  maxHP: number;
+  hand: Card[];
+  deck: Card[];
+  effects: ActiveEffects;
+}
+
+export interface CardResolution {
+  attacker: Combatant;
+  defender: Combatant;
+  damage: number; // Damage dealt to the defender after shields
+}
+
+/**
+ * Create an empty effect state
+ */
+export function createActiveEffects(): ActiveEffects {
+  return {
+    shield: 0,
+    damageOverTime: [],
+    stunnedTurns: 0,
+    nextCardBuff: 0,
+    weaken: null,
+    regen: [],
+  };
+}
+
+/**
+ * Combine two weaken effects: the stronger amount and the longer duration win
+ */
+export function mergeWeaken(current: TimedEffect | null, incoming: TimedEffect): TimedEffect {
+  if (!current) {
+    return incoming;
+  }
+  return {
+    amount: Math.max(current.amount, incoming.amount),
+    turnsRemaining: Math.max(current.turnsRemaining, incoming.turnsRemaining),
+  };
+}
+
+/**
+ * Apply damage to a combatant, absorbing it with shield first
+ * Returns the updated combatant and the damage that reached HP
+ */
+export function applyDamage(
+  target: Combatant,
+  damage: number
+): { combatant: Combatant; damage: number } {
+  const clampedDamage = Math.max(0, damage);
+  const absorbed = Math.min(target.effects.shield, clampedDamage);
+  const remaining = clampedDamage - absorbed;
+
+  return {
+    combatant: {
+      ...target,
+      hp: Math.max(0, target.hp - remaining),
+      effects: {
+        ...target.effects,
+        shield: target.effects.shield - absorbed,
+      },
+    },
+    damage: remaining,
+  };
+}
+
+/**
+ * Apply a single effect from a card played by attacker
+ */
+export function applyEffect(
+  effect: CardEffect,
+  attacker: Combatant,
+  defender: Combatant
+): { attacker: Combatant; defender: Combatant } {
+  switch (effect.type) {
+    case 'heal':
+      return {
+        attacker: {
+          ...attacker,
+          hp: Math.min(attacker.maxHP, attacker.hp + effect.amount),
+        },
+        defender,
+      };
+
+    case 'shield':
+      return {
+        attacker: {
+          ...attacker,
+          effects: {
+            ...attacker.effects,
+            shield: attacker.effects.shield + effect.amount,
+          },
+        },
+        defender,
+      };
+
+    case 'draw': {
+      const drawn = attacker.deck.slice(0, effect.count);
+      return {
+        attacker: {
+          ...attacker,
+          hand: [...attacker.hand, ...drawn],
+          deck: attacker.deck.slice(drawn.length),
+        },
+        defender,
+      };
+    }
+
+    case 'damageOverTime':
+      return {
+        attacker,
+        defender: {
+          ...defender,
+          effects: {
+            ...defender.effects,
+            damageOverTime: [
+              ...defender.effects.damageOverTime,
+              { damage: effect.damage, turnsRemaining: effect.turns },
+            ],
+          },
+        },
+      };
+
+    case 'stun':
+      return {
+        attacker,
+        defender: {
+          ...defender,
+          effects: {
+            ...defender.effects,
+            stunnedTurns: defender.effects.stunnedTurns + effect.turns,
+          },
+        },
+      };
+
+    case 'weaken':
+      return {
+        attacker,
+        defender: {
+          ...defender,
+          effects: {
+            ...defender.effects,
+            weaken: mergeWeaken(defender.effects.weaken, {
+              amount: effect.amount,
+              turnsRemaining: effect.turns,
+            }),
+          },
+        },
+      };
+
+    case 'regen':
+      return {
+        attacker: {
+          ...attacker,
+          effects: {
+            ...attacker.effects,
+            regen: [...attacker.effects.regen, { amount: effect.amount, turnsRemaining: effect.turns }],
+          },
+        },
+        defender,
+      };
+
+    case 'buffNextCard':
+      return {
+        attacker: {
+          ...attacker,
+          effects: {
+            ...attacker.effects,
+            nextCardBuff: attacker.effects.nextCardBuff + effect.attack,
+          },
+        },
+        defender,
+      };
+
+    case 'discard':
+      // Discard from the end of the hand so resolution stays deterministic
+      return {
+        attacker,
+        defender: {
+          ...defender,
+          hand: defender.hand.slice(0, Math.max(0, defender.hand.length - effect.count)),
+        },
+      };
+
+    default:
+      return { attacker, defender };
+  }
+}
+
+/**
+ * Resolve a played card: deal its damage, then apply its effects in order
+ * A pending buff from a previous card is added to the damage and consumed;
+ * weaken is subtracted and loses one turn
+ */
+export function resolveCard(
+  card: Card,
+  attacker: Combatant,
+  defender: Combatant,
+  baseDamage: number = card.stats.attack
+): CardResolution {
+  const buff = attacker.effects.nextCardBuff;
+  const { weaken } = attacker.effects;
+  let nextAttacker: Combatant = {
+    ...attacker,
+    effects: {
+      ...attacker.effects,
+      nextCardBuff: 0,
+      weaken:
+        weaken && weaken.turnsRemaining > 1
+          ? { ...weaken, turnsRemaining: weaken.turnsRemaining - 1 }
+          : null,
+    },
+  };
+
+  const hit = applyDamage(defender, baseDamage + buff - (weaken?.amount ?? 0));
+  let nextDefender = hit.combatant;
+
+  for (const effect of card.effects ?? []) {
+    const result = applyEffect(effect, nextAttacker, nextDefender);
+    nextAttacker = result.attacker;
+    nextDefender = result.defender;
+  }
+
+  return {
+    attacker: nextAttacker,
+    defender: nextDefender,
+    damage: hit.damage,
+  };
+}
+
+/**
+ * Tick lingering effects at the start of a combatant's turn
+ * Damage-over-time ignores shields, then regen heals up to max HP; both
+ * expire when their turns run out
+ */
+export function tickEffects(combatant: Combatant): Combatant {
+  const tickDamage = combatant.effects.damageOverTime.reduce(
+    (total, dot) => total + dot.damage,
+    0
+  );
+  const tickHealing = combatant.effects.regen.reduce((total, regen) => total + regen.amount, 0);
+  const damagedHP = Math.max(0, combatant.hp - tickDamage);
+
+  return {
+    ...combatant,
+    // A combatant finished off by poison stays down
+    hp: damagedHP > 0 ? Math.min(combatant.maxHP, damagedHP + tickHealing) : 0,
+    effects: {
+      ...combatant.effects,
+      damageOverTime: combatant.effects.damageOverTime
+        .map((dot) => ({ ...dot, turnsRemaining: dot.turnsRemaining - 1 }))
+        .filter((dot) => dot.turnsRemaining > 0),
+      regen: combatant.effects.regen
+        .map((regen) => ({ ...regen, turnsRemaining: regen.turnsRemaining - 1 }))
+        .filter((regen) => regen.turnsRemaining > 0),
+    },
+  };
+}
+
+/**
+ * Check if a combatant must skip its turn
+ */
+export function isStunned(effects: ActiveEffects): boolean {
+  return effects.stunnedTurns > 0;
+}
+
+/**
+ * Consume one turn of stun
+ */
+export function consumeStun(effects: ActiveEffects): ActiveEffects {
+  return {
+    ...effects,
+    stunnedTurns: Math.max(0, effects.stunnedTurns - 1),
+  };
+}
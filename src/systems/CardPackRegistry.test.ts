@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CardPackRegistry } from './CardPackRegistry';
+import { AssetLoader } from './AssetLoader';
+import { loadCardDatabase, findCardIdCollisions, mergeCardDatabases } from './CardSystem';
+
+describe('CardPackRegistry', () => {
+  let registry: CardPackRegistry;
+  
+  const createPack = (ids: string[]) => ({
+    version: '1.1.0',
+    cards: ids.map(id => ({
+      id,
+      name: `Pack Card ${id}`,
+      type: 'attack',
+      rarity: 'rare',
+      stats: { attack: 7, defense: 3, speed: 6 },
+      artwork: `/assets/cards/${id}.png`,
+    })),
+  });
+  
+  const mockFetchJSON = (packs: Record<string, unknown>) => {
+    const mockFetch = vi.fn().mockImplementation(async (url: string) => ({
+      ok: url in packs,
+      json: async () => packs[url],
+    }));
+    global.fetch = mockFetch;
+    return mockFetch;
+  };
+  
+  beforeEach(() => {
+    registry = new CardPackRegistry(loadCardDatabase(), new AssetLoader());
+  });
+  
+  describe('loadPack', () => {
+    it('should load and merge a pack', async () => {
+      mockFetchJSON({ '/packs/frost.json': createPack(['frost_001', 'frost_002']) });
+      
+      const pack = await registry.loadPack('frost', '/packs/frost.json');
+      
+      expect(pack.enabled).toBe(true);
+      expect(registry.getDatabase().cards.map(c => c.id)).toContain('frost_002');
+      expect(registry.getDatabase().cards).toHaveLength(loadCardDatabase().cards.length + 2);
+    });
+    
+    it('should reject packs that collide with the base database', async () => {
+      mockFetchJSON({ '/packs/bad.json': createPack(['frost_001', 'card_001']) });
+      
+      await expect(registry.loadPack('bad', '/packs/bad.json'))
+        .rejects.toThrow('Card ID collision in pack bad: card_001');
+      expect(registry.getPacks()).toHaveLength(0);
+    });
+    
+    it('should reject packs that collide with another enabled pack', async () => {
+      mockFetchJSON({
+        '/packs/a.json': createPack(['shared_001']),
+        '/packs/b.json': createPack(['shared_001']),
+      });
+      
+      await registry.loadPack('a', '/packs/a.json');
+      
+      await expect(registry.loadPack('b', '/packs/b.json')).rejects.toThrow('shared_001');
+    });
+    
+    it('should reject packs with duplicate IDs inside the pack', async () => {
+      mockFetchJSON({ '/packs/dup.json': createPack(['dup_001', 'dup_001']) });
+      
+      await expect(registry.loadPack('dup', '/packs/dup.json')).rejects.toThrow('dup_001');
+    });
+    
+    it('should reject packs that fail schema validation', async () => {
+      const pack = createPack(['broken_001']);
+      (pack.cards[0] as any).stats = { attack: -1, defense: 0, speed: 0 };
+      mockFetchJSON({ '/packs/broken.json': pack });
+      
+      await expect(registry.loadPack('broken', '/packs/broken.json'))
+        .rejects.toThrow('Invalid card pack broken');
+    });
+    
+    it('should migrate packs written for older versions', async () => {
+      mockFetchJSON({
+        '/packs/old.json': {
+          version: '1.0.0',
+          cards: [{ ...createPack(['old_001']).cards[0], type: 'speed' }],
+        },
+      });
+      
+      const pack = await registry.loadPack('old', '/packs/old.json');
+      
+      expect(pack.database.cards[0].type).toBe('attack');
+      expect(pack.report.steps).toHaveLength(1);
+    });
+    
+    it('should reject loading the same pack twice', async () => {
+      mockFetchJSON({ '/packs/frost.json': createPack(['frost_001']) });
+      
+      await registry.loadPack('frost', '/packs/frost.json');
+      
+      await expect(registry.loadPack('frost', '/packs/frost.json'))
+        .rejects.toThrow('Card pack already loaded: frost');
+    });
+  });
+  
+  describe('enable/disable', () => {
+    it('should exclude disabled packs from the database', async () => {
+      mockFetchJSON({ '/packs/frost.json': createPack(['frost_001']) });
+      await registry.loadPack('frost', '/packs/frost.json');
+      
+      registry.setPackEnabled('frost', false);
+      
+      expect(registry.getDatabase().cards.map(c => c.id)).not.toContain('frost_001');
+      expect(registry.getPack('frost')?.enabled).toBe(false);
+    });
+    
+    it('should refuse to enable a pack that now collides', async () => {
+      mockFetchJSON({
+        '/packs/a.json': createPack(['shared_001']),
+        '/packs/b.json': createPack(['shared_001']),
+      });
+      await registry.loadPack('a', '/packs/a.json');
+      registry.setPackEnabled('a', false);
+      await registry.loadPack('b', '/packs/b.json');
+      
+      expect(() => registry.setPackEnabled('a', true)).toThrow('shared_001');
+    });
+    
+    it('should throw for unknown packs', () => {
+      expect(() => registry.setPackEnabled('missing', true)).toThrow('Card pack not found: missing');
+    });
+    
+    it('should remove packs', async () => {
+      mockFetchJSON({ '/packs/frost.json': createPack(['frost_001']) });
+      await registry.loadPack('frost', '/packs/frost.json');
+      
+      registry.removePack('frost');
+      
+      expect(registry.getPacks()).toHaveLength(0);
+      expect(registry.getDatabase().cards).toHaveLength(loadCardDatabase().cards.length);
+    });
+  });
+  
+  describe('CardSystem helpers', () => {
+    it('should find collisions and merge databases', () => {
+      const base = loadCardDatabase();
+      const pack = createPack(['card_002', 'new_001']) as any;
+      
+      expect(findCardIdCollisions(pack, base)).toEqual(['card_002']);
+      expect(mergeCardDatabases(base, [pack]).cards).toHaveLength(base.cards.length + 2);
+    });
+  });
+});
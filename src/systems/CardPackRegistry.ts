@@ -0,0 +1,132 @@
+/**
+ * Card Pack Registry
+ * 
+ * Loads expansion card packs at runtime through the AssetLoader and merges
+ * the enabled ones into the bundled card database.
+ */
+
+import type { CardDatabase } from '@/data/cardSchema';
+import type { MigrationReport } from '@/data/cardMigrations';
+import { AssetLoader } from './AssetLoader';
+import {
+  findCardIdCollisions,
+  loadCardDatabase,
+  mergeCardDatabases,
+  parseCardDatabase,
+} from './CardSystem';
+
+export interface CardPack {
+  id: string;
+  url: string;
+  database: CardDatabase;
+  report: MigrationReport;
+  enabled: boolean;
+}
+
+/**
+ * CardPackRegistry - Runtime card packs with per-pack enable/disable
+ */
+export class CardPackRegistry {
+  private baseDatabase: CardDatabase;
+  private assetLoader: AssetLoader;
+  private packs: Map<string, CardPack>;
+  
+  constructor(baseDatabase?: CardDatabase, assetLoader?: AssetLoader) {
+    this.baseDatabase = baseDatabase ?? loadCardDatabase();
+    this.assetLoader = assetLoader ?? new AssetLoader();
+    this.packs = new Map();
+  }
+  
+  /**
+   * Load a card pack from a JSON URL
+   * The pack is migrated, validated and checked for ID collisions
+   * against the base database and every enabled pack before it is enabled
+   */
+  async loadPack(packId: string, url: string): Promise<CardPack> {
+    if (this.packs.has(packId)) {
+      throw new Error(`Card pack already loaded: ${packId}`);
+    }
+    
+    const raw = await this.assetLoader.loadAsset(url, 'json');
+    
+    let parsed: { database: CardDatabase; report: MigrationReport };
+    try {
+      parsed = parseCardDatabase(raw);
+    } catch (error) {
+      throw new Error(`Invalid card pack ${packId}: ${(error as Error).message}`);
+    }
+    
+    this.assertNoCollisions(packId, parsed.database);
+    
+    const pack: CardPack = {
+      id: packId,
+      url,
+      database: parsed.database,
+      report: parsed.report,
+      enabled: true,
+    };
+    this.packs.set(packId, pack);
+    
+    return pack;
+  }
+  
+  /**
+   * Enable or disable a loaded pack
+   * Enabling re-checks collisions against the currently enabled packs
+   */
+  setPackEnabled(packId: string, enabled: boolean): void {
+    const pack = this.packs.get(packId);
+    if (!pack) {
+      throw new Error(`Card pack not found: ${packId}`);
+    }
+    
+    if (enabled && !pack.enabled) {
+      this.assertNoCollisions(packId, pack.database);
+    }
+    
+    pack.enabled = enabled;
+  }
+  
+  /**
+   * Unload a pack entirely
+   */
+  removePack(packId: string): void {
+    const pack = this.packs.get(packId);
+    if (pack) {
+      this.assetLoader.clearAsset(pack.url);
+      this.packs.delete(packId);
+    }
+  }
+  
+  /**
+   * Get all loaded packs
+   */
+  getPacks(): CardPack[] {
+    return [...this.packs.values()];
+  }
+  
+  /**
+   * Get a loaded pack by ID
+   */
+  getPack(packId: string): CardPack | undefined {
+    return this.packs.get(packId);
+  }
+  
+  /**
+   * Get the base database merged with every enabled pack
+   */
+  getDatabase(): CardDatabase {
+    const enabled = this.getPacks()
+      .filter(pack => pack.enabled)
+      .map(pack => pack.database);
+    
+    return mergeCardDatabases(this.baseDatabase, enabled);
+  }
+  
+  private assertNoCollisions(packId: string, database: CardDatabase): void {
+    const collisions = findCardIdCollisions(database, this.getDatabase());
+    if (collisions.length > 0) {
+      throw new Error(`Card ID collision in pack ${packId}: ${collisions.join(', ')}`);
+    }
+  }
+}
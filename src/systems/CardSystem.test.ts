@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { loadCardDatabase, createDeck, shuffleDeck, getCardById } from './CardSystem';
-import { validateCard, validateCardDatabase } from '@/data/cardSchema';
+import { validateCard, validateCardDatabase, validateCardEffect } from '@/data/cardSchema';
+import { SeededRandom } from './SeededRandom';
 import type { Card } from '@/types';
 
 describe('CardSystem', () => {
@@ -68,6 +69,66 @@ describe('CardSystem', () => {
     });
   });
   
+  describe('Card Effect Validation', () => {
+    const baseCard = {
+      id: 'test_001',
+      name: 'Test Card',
+      type: 'special',
+      rarity: 'rare',
+      stats: { attack: 5, defense: 3, speed: 7 },
+      artwork: '/test.png',
+    };
+    
+    it('should validate a card with effects', () => {
+      const card = {
+        ...baseCard,
+        effects: [
+          { type: 'heal', amount: 5 },
+          { type: 'damageOverTime', damage: 2, turns: 3 },
+        ],
+      };
+      
+      expect(validateCard(card)).toBe(true);
+    });
+    
+    it('should reject non-array effects', () => {
+      expect(validateCard({ ...baseCard, effects: { type: 'heal', amount: 5 } })).toBe(false);
+    });
+    
+    it('should reject unknown effect types', () => {
+      expect(validateCardEffect({ type: 'teleport', amount: 5 })).toBe(false);
+    });
+    
+    it('should reject effect types named after object prototype members', () => {
+      expect(validateCardEffect({ type: 'toString' })).toBe(false);
+      expect(validateCardEffect({ type: 'constructor', amount: 5 })).toBe(false);
+      expect(validateCard({ ...baseCard, effects: [{ type: 'toString' }] })).toBe(false);
+    });
+    
+    it('should reject missing or non-positive effect values', () => {
+      expect(validateCardEffect({ type: 'draw' })).toBe(false);
+      expect(validateCardEffect({ type: 'shield', amount: 0 })).toBe(false);
+      expect(validateCardEffect({ type: 'stun', turns: 1.5 })).toBe(false);
+      expect(validateCardEffect({ type: 'damageOverTime', damage: 2 })).toBe(false);
+    });
+    
+    it('should accept every effect type', () => {
+      const effects = [
+        { type: 'heal', amount: 1 },
+        { type: 'shield', amount: 1 },
+        { type: 'draw', count: 1 },
+        { type: 'damageOverTime', damage: 1, turns: 1 },
+        { type: 'stun', turns: 1 },
+        { type: 'buffNextCard', attack: 1 },
+        { type: 'discard', count: 1 },
+      ];
+      
+      effects.forEach(effect => {
+        expect(validateCardEffect(effect)).toBe(true);
+      });
+    });
+  });
+  
   describe('Card Database Validation', () => {
     it('should validate a correct database', () => {
       const validDatabase = {
@@ -186,6 +247,16 @@ describe('CardSystem', () => {
       
       expect(foundDifferent).toBe(true);
     });
+    
+    it('should produce identical order for the same seed', () => {
+      const database = loadCardDatabase();
+      const originalDeck = database.cards.slice(0, 10);
+      
+      const first = shuffleDeck(originalDeck, new SeededRandom(2024));
+      const second = shuffleDeck(originalDeck, new SeededRandom(2024));
+      
+      expect(first.map(c => c.id)).toEqual(second.map(c => c.id));
+    });
   });
   
   describe('createDeck', () => {
@@ -230,6 +301,15 @@ describe('CardSystem', () => {
       expect(uniqueIds.size).toBeGreaterThan(0);
       expect(uniqueIds.size).toBeLessThanOrEqual(20);
     });
+    
+    it('should create identical decks for the same seed', () => {
+      const database = loadCardDatabase();
+      
+      const first = createDeck(database, 20, new SeededRandom(555));
+      const second = createDeck(database, 20, new SeededRandom(555));
+      
+      expect(first.map(c => c.id)).toEqual(second.map(c => c.id));
+    });
   });
   
   describe('getCardById', () => {
@@ -7,28 +7,75 @@
 import type { Card } from '@/types';
 import type { CardDatabase } from '@/data/cardSchema';
 import { validateCardDatabase } from '@/data/cardSchema';
+import type { MigrationReport } from '@/data/cardMigrations';
+import { migrateCardDatabase, resolveLegacyCardId } from '@/data/cardMigrations';
 import cardData from '@/data/cards.json';
+import type { RandomSource } from './SeededRandom';
+import { mathRandom, randomInt } from './SeededRandom';
+
+/**
+ * Upgrade raw card data to the current schema version, then validate it
+ * Returns the database along with a report of what the migrations changed
+ */
+export function parseCardDatabase(raw: unknown): {
+  database: CardDatabase;
+  report: MigrationReport;
+} {
+  const { database, report } = migrateCardDatabase(raw);
+  
+  // Validate the migrated data
+  if (!validateCardDatabase(database)) {
+    throw new Error('Invalid card database format');
+  }
+  
+  return { database, report };
+}
 
 /**
  * Load card database from JSON
  */
 export function loadCardDatabase(): CardDatabase {
-  // Validate the imported data
-  if (!validateCardDatabase(cardData)) {
-    throw new Error('Invalid card database format');
+  return parseCardDatabase(cardData).database;
+}
+
+/**
+ * Find card IDs that appear in both databases, or more than once in the first
+ */
+export function findCardIdCollisions(database: CardDatabase, existing: CardDatabase): string[] {
+  const existingIds = new Set(existing.cards.map(card => card.id));
+  const seen = new Set<string>();
+  const collisions = new Set<string>();
+  
+  for (const card of database.cards) {
+    if (existingIds.has(card.id) || seen.has(card.id)) {
+      collisions.add(card.id);
+    }
+    seen.add(card.id);
   }
   
-  return cardData as CardDatabase;
+  return [...collisions];
+}
+
+/**
+ * Merge card packs into a base database
+ * The base version is kept; callers are expected to check collisions first
+ */
+export function mergeCardDatabases(base: CardDatabase, packs: CardDatabase[]): CardDatabase {
+  return {
+    version: base.version,
+    cards: [...base.cards, ...packs.flatMap(pack => pack.cards)],
+  };
 }
 
 /**
  * Fisher-Yates shuffle algorithm
+ * Pass a seeded RandomSource for a reproducible order
  */
-export function shuffleDeck(deck: Card[]): Card[] {
+export function shuffleDeck(deck: Card[], rng: RandomSource = mathRandom): Card[] {
   const shuffled = [...deck];
   
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = randomInt(rng, i + 1);
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   
@@ -39,7 +86,11 @@ export function shuffleDeck(deck: Card[]): Card[] {
  * Create a deck of 20 cards from the card database
  * Randomly selects cards and shuffles them
  */
-export function createDeck(database: CardDatabase, deckSize: number = 20): Card[] {
+export function createDeck(
+  database: CardDatabase,
+  deckSize: number = 20,
+  rng: RandomSource = mathRandom
+): Card[] {
   if (database.cards.length === 0) {
     throw new Error('Card database is empty');
   }
@@ -48,17 +99,24 @@ export function createDeck(database: CardDatabase, deckSize: number = 20): Card[
   
   // Randomly select cards to fill the deck
   for (let i = 0; i < deckSize; i++) {
-    const randomIndex = Math.floor(Math.random() * database.cards.length);
+    const randomIndex = randomInt(rng, database.cards.length);
     deck.push(database.cards[randomIndex]);
   }
   
   // Shuffle the deck
-  return shuffleDeck(deck);
+  return shuffleDeck(deck, rng);
 }
 
 /**
  * Get a card by ID from the database
+ * IDs recorded against an older database version are resolved to their current ID
  */
 export function getCardById(database: CardDatabase, cardId: string): Card | null {
-  return database.cards.find(card => card.id === cardId) || null;
+  const card = database.cards.find(c => c.id === cardId);
+  if (card) return card;
+  
+  const currentId = resolveLegacyCardId(cardId);
+  if (currentId === cardId) return null;
+  
+  return database.cards.find(c => c.id === currentId) || null;
 }
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  appendCombatLog,
+  formatCombatLogEntry,
+  formatCombatLog,
+  validateCombatLog,
+  exportCombatLog,
+} from './CombatLog';
+import type { CombatLogEntry } from './CombatLog';
+
+describe('CombatLog', () => {
+  const damage: CombatLogEntry = {
+    type: 'damage',
+    side: 'player',
+    seq: 2,
+    round: 1,
+    breakdown: { formula: 'standard', attack: 10, defense: 4, reduction: 4, damage: 6 },
+    buff: 2,
+    weaken: 0,
+    absorbed: 3,
+    dealt: 5,
+  };
+
+  it('should number appended entries after the last one', () => {
+    let log = appendCombatLog([], 1, { type: 'cardPlayed', side: 'player', cardId: 'a', cardName: 'Strike' });
+    log = appendCombatLog(log, 2, { type: 'stunned', side: 'opponent' }, { type: 'suddenDeath', damage: 3 });
+
+    expect(log.map((entry) => entry.seq)).toEqual([1, 2, 3]);
+    expect(log.map((entry) => entry.round)).toEqual([1, 2, 2]);
+  });
+
+  it('should keep the same log when nothing is appended', () => {
+    const log: CombatLogEntry[] = [];
+    expect(appendCombatLog(log, 1)).toBe(log);
+  });
+
+  it('should explain damage step by step', () => {
+    expect(formatCombatLogEntry(damage)).toBe(
+      'Opponent takes 5 damage (10 attack, -4 from 4 defense (standard), +2 buff, -3 shield)'
+    );
+  });
+
+  it('should describe effects from the right side', () => {
+    expect(
+      formatCombatLogEntry({
+        type: 'effect',
+        side: 'opponent',
+        seq: 1,
+        round: 1,
+        effect: { type: 'stun', turns: 1 },
+      })
+    ).toBe('Player is stunned for 1 turn');
+    expect(
+      formatCombatLogEntry(
+        { type: 'effect', side: 'player', seq: 1, round: 1, effect: { type: 'heal', amount: 5 } },
+        { player: 'Player 1', opponent: 'Player 2' }
+      )
+    ).toBe('Player 1 heals 5');
+  });
+
+  it('should describe draws, ticks and the result', () => {
+    expect(
+      formatCombatLogEntry({ type: 'draw', side: 'player', seq: 1, round: 1, drawn: 1, discarded: 1, fatigueDamage: 0 })
+    ).toBe('Player draws 1 card, discards 1 from a full hand');
+    expect(
+      formatCombatLogEntry({ type: 'statusTick', side: 'opponent', seq: 1, round: 1, damage: 3, healing: 2 })
+    ).toBe('Opponent takes 3 poison damage and regenerates 2 HP');
+    expect(formatCombatLogEntry({ type: 'matchEnd', winner: 'draw', seq: 1, round: 1 })).toBe(
+      'The match ends in a draw'
+    );
+  });
+
+  it('should format the whole log with rounds', () => {
+    const log = appendCombatLog([], 3, { type: 'cardPlayed', side: 'player', cardId: 'a', cardName: 'Strike' }, {
+      type: 'matchEnd',
+      winner: 'player',
+    });
+
+    expect(formatCombatLog(log)).toBe('[Round 3] Player plays Strike\n[Round 3] Player wins');
+  });
+
+  it('should validate logs', () => {
+    expect(validateCombatLog([damage])).toBe(true);
+    expect(validateCombatLog([])).toBe(true);
+    expect(validateCombatLog(undefined)).toBe(false);
+    expect(validateCombatLog([{ type: 'damage' }])).toBe(false);
+  });
+
+  it('should download the log as text', () => {
+    const createObjectURL = vi.fn(() => 'blob:log');
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    exportCombatLog([damage]);
+
+    expect(createObjectURL).toHaveBeenCalledTimes(1);
+    expect(click).toHaveBeenCalledTimes(1);
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:log');
+
+    click.mockRestore();
+  });
+});
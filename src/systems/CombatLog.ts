@@ -0,0 +1,182 @@
+/**
+ * Combat Log
+ *
+ * Structured history of a match, appended by the combat machine as it
+ * resolves cards, ticks effects, draws and decides the winner. Entries are
+ * plain data so they travel with saves, replays and networked matches;
+ * formatting into readable lines happens only for display and export.
+ */
+
+import type { CardEffect, CombatSide } from '@/types';
+import type { DamageBreakdown } from './BattlefieldSystem';
+
+export type CombatLogEvent =
+  | { type: 'cardPlayed'; side: CombatSide; cardId: string; cardName: string }
+  | {
+      type: 'damage';
+      side: CombatSide; // Attacker
+      breakdown: DamageBreakdown; // Attack against the defending card
+      buff: number; // Added by a previous card's buff
+      weaken: number; // Removed by weaken
+      absorbed: number; // Taken by the defender's shield
+      dealt: number; // HP lost by the defender
+    }
+  | { type: 'effect'; side: CombatSide; effect: CardEffect } // Side that played the card
+  | { type: 'statusTick'; side: CombatSide; damage: number; healing: number }
+  | { type: 'draw'; side: CombatSide; drawn: number; discarded: number; fatigueDamage: number }
+  | { type: 'mulligan'; side: CombatSide; count: number }
+  | { type: 'stunned'; side: CombatSide }
+  | { type: 'suddenDeath'; damage: number }
+  | { type: 'matchEnd'; winner: CombatSide | 'draw' };
+
+export type CombatLogEntry = CombatLogEvent & {
+  seq: number; // Position in the log, from 1
+  round: number; // Round in progress, from 1
+};
+
+export type CombatLogNames = Record<CombatSide, string>;
+
+export const DEFAULT_LOG_NAMES: CombatLogNames = {
+  player: 'Player',
+  opponent: 'Opponent',
+};
+
+/**
+ * Append events to a log, numbering them after the last entry
+ */
+export function appendCombatLog(
+  log: CombatLogEntry[],
+  round: number,
+  ...events: CombatLogEvent[]
+): CombatLogEntry[] {
+  if (events.length === 0) return log;
+
+  const start = log.length > 0 ? log[log.length - 1].seq : 0;
+  return [...log, ...events.map((event, i) => ({ ...event, seq: start + i + 1, round }))];
+}
+
+const other = (side: CombatSide): CombatSide => (side === 'player' ? 'opponent' : 'player');
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const describeEffect = (effect: CardEffect, names: CombatLogNames, side: CombatSide): string => {
+  const self = names[side];
+  const target = names[other(side)];
+
+  switch (effect.type) {
+    case 'heal':
+      return `${self} heals ${effect.amount}`;
+    case 'shield':
+      return `${self} gains ${effect.amount} shield`;
+    case 'draw':
+      return `${self} draws ${plural(effect.count, 'card')}`;
+    case 'damageOverTime':
+      return `${target} is poisoned for ${effect.damage} damage a turn, ${plural(effect.turns, 'turn')}`;
+    case 'stun':
+      return `${target} is stunned for ${plural(effect.turns, 'turn')}`;
+    case 'weaken':
+      return `${target} is weakened by ${effect.amount}, ${plural(effect.turns, 'turn')}`;
+    case 'regen':
+      return `${self} regenerates ${effect.amount} a turn, ${plural(effect.turns, 'turn')}`;
+    case 'buffNextCard':
+      return `${self}'s next card gains +${effect.attack} attack`;
+    case 'discard':
+      return `${target} discards ${plural(effect.count, 'card')}`;
+  }
+};
+
+/**
+ * Explain a hit: attack, the defense reduction and any modifiers
+ */
+const describeDamage = (entry: Extract<CombatLogEvent, { type: 'damage' }>): string => {
+  const { breakdown, buff, weaken, absorbed } = entry;
+  const steps = [`${breakdown.attack} attack`];
+
+  if (breakdown.defense > 0) {
+    steps.push(`-${breakdown.reduction} from ${breakdown.defense} defense (${breakdown.formula})`);
+  }
+  if (buff > 0) steps.push(`+${buff} buff`);
+  if (weaken > 0) steps.push(`-${weaken} weaken`);
+  if (absorbed > 0) steps.push(`-${absorbed} shield`);
+
+  return steps.join(', ');
+};
+
+/**
+ * One log entry as a readable line
+ */
+export function formatCombatLogEntry(entry: CombatLogEntry, names: CombatLogNames = DEFAULT_LOG_NAMES): string {
+  switch (entry.type) {
+    case 'cardPlayed':
+      return `${names[entry.side]} plays ${entry.cardName}`;
+    case 'damage':
+      return `${names[other(entry.side)]} takes ${entry.dealt} damage (${describeDamage(entry)})`;
+    case 'effect':
+      return describeEffect(entry.effect, names, entry.side);
+    case 'statusTick': {
+      const parts: string[] = [];
+      if (entry.damage > 0) parts.push(`takes ${entry.damage} poison damage`);
+      if (entry.healing > 0) parts.push(`regenerates ${entry.healing} HP`);
+      return `${names[entry.side]} ${parts.join(' and ')}`;
+    }
+    case 'draw': {
+      const parts: string[] = [];
+      if (entry.drawn > 0) parts.push(`draws ${plural(entry.drawn, 'card')}`);
+      if (entry.discarded > 0) parts.push(`discards ${entry.discarded} from a full hand`);
+      if (entry.fatigueDamage > 0) parts.push(`takes ${entry.fatigueDamage} fatigue damage`);
+      return `${names[entry.side]} ${parts.join(', ')}`;
+    }
+    case 'mulligan':
+      return `${names[entry.side]} mulligans ${plural(entry.count, 'card')}`;
+    case 'stunned':
+      return `${names[entry.side]} is stunned and skips the turn`;
+    case 'suddenDeath':
+      return `Sudden death: both sides take ${entry.damage} damage`;
+    case 'matchEnd':
+      return entry.winner === 'draw' ? 'The match ends in a draw' : `${names[entry.winner]} wins`;
+  }
+}
+
+/**
+ * The whole log as plain text, one line per entry
+ */
+export function formatCombatLog(log: CombatLogEntry[], names: CombatLogNames = DEFAULT_LOG_NAMES): string {
+  return log.map((entry) => `[Round ${entry.round}] ${formatCombatLogEntry(entry, names)}`).join('\n');
+}
+
+/**
+ * Validate a log from a save file or the network
+ */
+export function validateCombatLog(data: any): data is CombatLogEntry[] {
+  return (
+    Array.isArray(data) &&
+    data.every(
+      (entry) =>
+        !!entry &&
+        typeof entry.type === 'string' &&
+        Number.isInteger(entry.seq) &&
+        Number.isInteger(entry.round)
+    )
+  );
+}
+
+/**
+ * Download the log as a text file
+ */
+export function exportCombatLog(
+  log: CombatLogEntry[],
+  names: CombatLogNames = DEFAULT_LOG_NAMES,
+  filename = 'combat-log.txt'
+): void {
+  const blob = new Blob([formatCombatLog(log, names)], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
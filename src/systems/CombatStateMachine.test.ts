@@ -6,9 +6,14 @@ import {
   deserializeCombatState, 
   saveCombatState, 
   loadCombatState, 
-  clearCombatState 
+  clearCombatState,
+  createCombatRandom,
+  getActiveHumanSide,
+  HAND_SIZE,
 } from './CombatStateMachine';
 import type { Card } from '@/types';
+import { RULE_SETS, DEFAULT_RULE_SET } from './RuleSet';
+import type { RuleSet } from './RuleSet';
 
 describe('CombatStateMachine', () => {
   const mockCard: Card = {
@@ -47,6 +52,793 @@ describe('CombatStateMachine', () => {
     actor.stop();
   });
   
+  it('should clear the last card and its damage when the AI passes', () => {
+    const actor = createActor(combatMachine);
+    actor.start();
+    
+    actor.send({ type: 'START_COMBAT' });
+    actor.send({ type: 'PLAY_CARD', card: mockCard });
+    actor.send({ type: 'ANIMATION_COMPLETE' });
+    actor.send({ type: 'DAMAGE_APPLIED' });
+    expect(actor.getSnapshot().context.lastDamage).toBeGreaterThan(0);
+    
+    actor.send({ type: 'AI_ACTION_COMPLETE' });
+    
+    const { context } = actor.getSnapshot();
+    expect(context.selectedCard).toBeNull();
+    expect(context.lastDamage).toBe(0);
+    
+    actor.stop();
+  });
+  
+  it('should store the match seed on START_COMBAT', () => {
+    const actor = createActor(combatMachine);
+    actor.start();
+    
+    actor.send({ type: 'START_COMBAT', seed: 4242 });
+    const context = actor.getSnapshot().context;
+    
+    expect(context.seed).toBe(4242);
+    expect(createCombatRandom(context).next()).toBe(createCombatRandom(context).next());
+    
+    actor.stop();
+  });
+  
+  it('should generate a seed when none is provided', () => {
+    const actor = createActor(combatMachine);
+    actor.start();
+    
+    actor.send({ type: 'START_COMBAT' });
+    const { seed } = actor.getSnapshot().context;
+    
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    
+    actor.stop();
+  });
+  
+  it('should apply card effects on RESOLVE', () => {
+    const actor = createActor(combatMachine);
+    actor.start();
+    
+    const shieldCard: Card = {
+      ...mockCard,
+      id: 'card_shield',
+      effects: [{ type: 'shield', amount: 5 }, { type: 'damageOverTime', damage: 3, turns: 1 }],
+    };
+    
+    actor.send({ type: 'START_COMBAT' });
+    actor.send({ type: 'PLAY_CARD', card: shieldCard });
+    actor.send({ type: 'ANIMATION_COMPLETE' });
+    
+    const context = actor.getSnapshot().context;
+    expect(context.opponentHP).toBe(90);
+    expect(context.effects.player.shield).toBe(5);
+    expect(context.effects.opponent.damageOverTime).toHaveLength(1);
+    
+    // Damage over time ticks when the opponent's turn starts
+    actor.send({ type: 'DAMAGE_APPLIED' });
+    expect(actor.getSnapshot().context.opponentHP).toBe(87);
+    expect(actor.getSnapshot().context.effects.opponent.damageOverTime).toHaveLength(0);
+    
+    actor.stop();
+  });
+  
+  it('should skip the opponent turn when stunned', () => {
+    const actor = createActor(combatMachine);
+    actor.start();
+    
+    const stunCard: Card = { ...mockCard, effects: [{ type: 'stun', turns: 1 }] };
+    
+    actor.send({ type: 'START_COMBAT' });
+    actor.send({ type: 'PLAY_CARD', card: stunCard });
+    actor.send({ type: 'ANIMATION_COMPLETE' });
+    actor.send({ type: 'DAMAGE_APPLIED' });
+    
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('CHECK_WIN');
+    expect(snapshot.context.currentTurn).toBe('player');
+    expect(snapshot.context.effects.opponent.stunnedTurns).toBe(0);
+    
+    actor.stop();
+  });
+  
+  it('should end the match when the player card knocks out the opponent', () => {
+    const actor = createActor(combatMachine);
+    actor.start();
+    
+    actor.send({ type: 'START_COMBAT' });
+    actor.getSnapshot().context.opponentHP = 5;
+    actor.getSnapshot().context.playerHP = 5;
+    
+    actor.send({ type: 'PLAY_CARD', card: mockCard });
+    actor.send({ type: 'ANIMATION_COMPLETE' });
+    actor.send({ type: 'DAMAGE_APPLIED' });
+    
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('CHECK_WIN');
+    expect(snapshot.context.winner).toBe('player');
+    expect(snapshot.context.playerHP).toBe(5);
+    
+    actor.send({ type: 'AI_ACTION_COMPLETE', card: mockCard });
+    expect(actor.getSnapshot().context.playerHP).toBe(5);
+    
+    actor.send({ type: 'CHECK_COMPLETE', winner: 'player' });
+    expect(actor.getSnapshot().value).toBe('END');
+    
+    actor.stop();
+  });
+  
+  it('should deal opening hands and refill after a card is played', () => {
+    const actor = createActor(combatMachine);
+    actor.start();
+    
+    const deck = Array.from({ length: 8 }, (_, i): Card => ({ ...mockCard, id: `card_${i}` }));
+    
+    actor.send({ type: 'START_COMBAT', playerDeck: deck, opponentDeck: deck });
+    
+    let context = actor.getSnapshot().context;
+    expect(context.playerHand).toHaveLength(HAND_SIZE);
+    expect(context.playerDeck).toHaveLength(3);
+    expect(context.opponentHand).toHaveLength(HAND_SIZE);
+    
+    actor.send({ type: 'PLAY_CARD', card: context.playerHand[2] });
+    actor.send({ type: 'ANIMATION_COMPLETE' });
+    
+    context = actor.getSnapshot().context;
+    expect(context.playerHand.map((c) => c.id)).toEqual([
+      'card_0', 'card_1', 'card_3', 'card_4', 'card_5',
+    ]);
+    expect(context.playerDeck).toHaveLength(2);
+    
+    actor.stop();
+  });
+  
+  describe('Battlefield rules', () => {
+    const aiCard: Card = {
+      ...mockCard,
+      id: 'card_ai',
+      stats: { attack: 9, defense: 4, speed: 5 },
+    };
+    
+    it('should place the AI card and damage the player through the player card defense', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      
+      actor.send({ type: 'START_COMBAT' });
+      actor.send({ type: 'PLAY_CARD', card: mockCard });
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      actor.send({ type: 'DAMAGE_APPLIED' });
+      actor.send({ type: 'AI_ACTION_COMPLETE', card: aiCard });
+      
+      const { context } = actor.getSnapshot();
+      expect(context.battlefield.playerSide.activeCard?.id).toBe('card_001');
+      expect(context.battlefield.opponentSide.activeCard?.id).toBe('card_ai');
+      // 9 attack - 2 defense
+      expect(context.playerHP).toBe(93);
+      expect(context.battlefield.playerSide.hp).toBe(93);
+      expect(context.lastDamage).toBe(7);
+      expect(context.currentTurn).toBe('player');
+      
+      actor.stop();
+    });
+    
+    it('should reduce player damage by the defending AI card', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      
+      actor.send({ type: 'START_COMBAT' });
+      actor.send({ type: 'PLAY_CARD', card: mockCard });
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      actor.send({ type: 'DAMAGE_APPLIED' });
+      actor.send({ type: 'AI_ACTION_COMPLETE', card: aiCard });
+      actor.send({ type: 'CHECK_COMPLETE', winner: null });
+      actor.send({ type: 'PLAY_CARD', card: mockCard });
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      
+      // First hit: 10 (no defender). Second hit: 10 - 4 defense = 6
+      expect(actor.getSnapshot().context.opponentHP).toBe(84);
+      
+      actor.stop();
+    });
+    
+    it('should apply minimum 1 damage against high defense', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      
+      const wall: Card = { ...mockCard, id: 'wall', stats: { attack: 1, defense: 50, speed: 1 } };
+      
+      actor.send({ type: 'START_COMBAT' });
+      actor.send({ type: 'PLAY_CARD', card: wall });
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      actor.send({ type: 'DAMAGE_APPLIED' });
+      actor.send({ type: 'AI_ACTION_COMPLETE', card: aiCard });
+      
+      expect(actor.getSnapshot().context.playerHP).toBe(99);
+      
+      actor.stop();
+    });
+  });
+  
+  describe('Combat log', () => {
+    const shieldCard: Card = {
+      ...mockCard,
+      id: 'card_shield',
+      name: 'Shield Bash',
+      stats: { attack: 6, defense: 3, speed: 4 },
+      effects: [{ type: 'shield', amount: 4 }],
+    };
+    
+    it('should log the card, the damage breakdown and the effects', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      
+      actor.send({ type: 'START_COMBAT', seed: 1 });
+      actor.send({ type: 'PLAY_CARD', card: mockCard });
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      actor.send({ type: 'DAMAGE_APPLIED' });
+      actor.send({ type: 'AI_ACTION_COMPLETE', card: shieldCard });
+      
+      const { log } = actor.getSnapshot().context;
+      expect(log.map((entry) => entry.type)).toEqual([
+        'cardPlayed',
+        'damage',
+        'cardPlayed',
+        'damage',
+        'effect',
+      ]);
+      expect(log.map((entry) => entry.seq)).toEqual([1, 2, 3, 4, 5]);
+      expect(log[3]).toMatchObject({
+        type: 'damage',
+        side: 'opponent',
+        round: 1,
+        breakdown: { attack: 6, defense: 2, reduction: 2, damage: 4 },
+        dealt: 4,
+      });
+      
+      actor.stop();
+    });
+    
+    it('should log shield absorption, stuns and the winner', () => {
+      const stunCard: Card = { ...mockCard, id: 'card_stun', effects: [{ type: 'stun', turns: 1 }] };
+      const actor = createActor(combatMachine);
+      actor.start();
+      
+      actor.send({ type: 'START_COMBAT', seed: 1 });
+      actor.send({ type: 'PLAY_CARD', card: stunCard });
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      actor.send({ type: 'DAMAGE_APPLIED' });
+      actor.send({ type: 'CHECK_COMPLETE', winner: 'player' });
+      
+      const { log } = actor.getSnapshot().context;
+      expect(log.map((entry) => entry.type)).toEqual(['cardPlayed', 'damage', 'effect', 'stunned', 'matchEnd']);
+      expect(log[3]).toMatchObject({ type: 'stunned', side: 'opponent' });
+      expect(log[4]).toMatchObject({ type: 'matchEnd', winner: 'player' });
+      
+      actor.stop();
+    });
+    
+    it('should log fatigue draws and start a new log each match', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      
+      actor.send({
+        type: 'START_COMBAT',
+        seed: 1,
+        playerDeck: [mockCard],
+        handRules: { fatigueDamage: 2 },
+      });
+      actor.send({ type: 'PLAY_CARD', card: mockCard });
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      
+      const { log } = actor.getSnapshot().context;
+      expect(log[log.length - 1]).toMatchObject({ type: 'draw', side: 'player', drawn: 0 });
+      expect(log.some((entry) => entry.type === 'draw' && entry.fatigueDamage > 0)).toBe(true);
+      
+      actor.stop();
+      
+      const fresh = createActor(combatMachine);
+      fresh.start();
+      fresh.send({ type: 'START_COMBAT', seed: 1 });
+      expect(fresh.getSnapshot().context.log).toEqual([]);
+      fresh.stop();
+    });
+  });
+  
+  describe('Initiative mode', () => {
+    const fastCard: Card = {
+      ...mockCard,
+      id: 'card_fast',
+      stats: { attack: 6, defense: 1, speed: 10 },
+    };
+    const slowCard: Card = {
+      ...mockCard,
+      id: 'card_slow',
+      stats: { attack: 12, defense: 3, speed: 2 },
+    };
+    
+    it('should start in the commit phase', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      
+      actor.send({ type: 'START_COMBAT', mode: 'initiative' });
+      
+      expect(actor.getSnapshot().value).toEqual({ INITIATIVE: 'COMMIT' });
+      expect(actor.getSnapshot().context.mode).toBe('initiative');
+      
+      actor.stop();
+    });
+    
+    it('should resolve the faster card first', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      
+      actor.send({ type: 'START_COMBAT', mode: 'initiative' });
+      actor.send({ type: 'COMMIT_CARD', side: 'player', card: slowCard });
+      expect(actor.getSnapshot().value).toEqual({ INITIATIVE: 'COMMIT' });
+      
+      actor.send({ type: 'COMMIT_CARD', side: 'opponent', card: fastCard });
+      
+      let snapshot = actor.getSnapshot();
+      expect(snapshot.value).toEqual({ INITIATIVE: 'STRIKE' });
+      expect(snapshot.context.currentTurn).toBe('opponent');
+      // Fast card (6 attack) is reduced by the slow card's 3 defense
+      expect(snapshot.context.playerHP).toBe(97);
+      expect(snapshot.context.opponentHP).toBe(100);
+      expect(snapshot.context.battlefield.opponentSide.activeCard?.id).toBe('card_fast');
+      
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      snapshot = actor.getSnapshot();
+      expect(snapshot.value).toEqual({ INITIATIVE: 'STRIKE' });
+      expect(snapshot.context.currentTurn).toBe('player');
+      expect(snapshot.context.opponentHP).toBe(89);
+      expect(snapshot.context.battlefield.opponentSide.hp).toBe(89);
+      
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      expect(actor.getSnapshot().value).toBe('CHECK_WIN');
+      
+      actor.send({ type: 'CHECK_COMPLETE', winner: null });
+      expect(actor.getSnapshot().value).toEqual({ INITIATIVE: 'COMMIT' });
+      expect(actor.getSnapshot().context.committedCards).toEqual({ player: null, opponent: null });
+      
+      actor.stop();
+    });
+    
+    it('should ignore a second commit from the same side', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      
+      actor.send({ type: 'START_COMBAT', mode: 'initiative' });
+      actor.send({ type: 'COMMIT_CARD', side: 'player', card: slowCard });
+      actor.send({ type: 'COMMIT_CARD', side: 'player', card: fastCard });
+      
+      expect(actor.getSnapshot().context.committedCards.player?.id).toBe('card_slow');
+      
+      actor.stop();
+    });
+    
+    it('should skip the second strike when the first knocks out the defender', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      
+      actor.send({ type: 'START_COMBAT', mode: 'initiative' });
+      const snapshot = actor.getSnapshot();
+      snapshot.context.opponentHP = 3;
+      
+      actor.send({ type: 'COMMIT_CARD', side: 'player', card: fastCard });
+      actor.send({ type: 'COMMIT_CARD', side: 'opponent', card: slowCard });
+      expect(actor.getSnapshot().context.opponentHP).toBe(0);
+      
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      expect(actor.getSnapshot().value).toBe('CHECK_WIN');
+      expect(actor.getSnapshot().context.playerHP).toBe(100);
+      
+      actor.stop();
+    });
+  });
+  
+  describe('Hot-seat mode', () => {
+    const opponentCard: Card = { ...mockCard, id: 'card_002', name: 'Second Player Attack' };
+    
+    const startHotSeat = () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      actor.send({ type: 'START_COMBAT', seed: 1, opponent: 'human' });
+      actor.send({ type: 'PLAY_CARD', card: mockCard });
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      actor.send({ type: 'DAMAGE_APPLIED' });
+      return actor;
+    };
+    
+    it('should default the opponent to the AI', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      actor.send({ type: 'START_COMBAT' });
+      
+      expect(actor.getSnapshot().context.opponentController).toBe('ai');
+      
+      actor.stop();
+    });
+    
+    it('should let the second player play a card on the opponent turn', () => {
+      const actor = startHotSeat();
+      expect(actor.getSnapshot().value).toBe('AI_TURN');
+      
+      actor.send({ type: 'PLAY_CARD', card: opponentCard });
+      
+      const snapshot = actor.getSnapshot();
+      expect(snapshot.value).toBe('CHECK_WIN');
+      expect(snapshot.context.currentTurn).toBe('player');
+      expect(snapshot.context.battlefield.opponentSide.activeCard).toEqual(opponentCard);
+      expect(snapshot.context.playerHP).toBeLessThan(100);
+      
+      actor.stop();
+    });
+    
+    it('should ignore AI actions in a hot-seat match', () => {
+      const actor = startHotSeat();
+      
+      actor.send({ type: 'AI_ACTION_COMPLETE', card: opponentCard });
+      expect(actor.getSnapshot().value).toBe('AI_TURN');
+      
+      actor.stop();
+    });
+    
+    it('should ignore PLAY_CARD on the AI turn against the AI', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      actor.send({ type: 'START_COMBAT' });
+      actor.send({ type: 'PLAY_CARD', card: mockCard });
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      actor.send({ type: 'DAMAGE_APPLIED' });
+      
+      actor.send({ type: 'PLAY_CARD', card: opponentCard });
+      expect(actor.getSnapshot().value).toBe('AI_TURN');
+      
+      actor.stop();
+    });
+    
+    it('should report which human side holds the device', () => {
+      const actor = startHotSeat();
+      const context = actor.getSnapshot().context;
+      
+      expect(getActiveHumanSide(context)).toBe('opponent');
+      expect(getActiveHumanSide({ ...context, opponentController: 'ai' })).toBeNull();
+      expect(getActiveHumanSide({ ...context, currentTurn: 'player' })).toBe('player');
+      
+      actor.stop();
+    });
+  });
+  
+  describe('Mulligan phase', () => {
+    const makeDeck = (size: number): Card[] =>
+      Array.from({ length: size }, (_, i) => ({ ...mockCard, id: `card_${i}` }));
+    
+    const startMulligan = (mode?: 'initiative') => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      actor.send({
+        type: 'START_COMBAT',
+        seed: 5,
+        mode,
+        mulligan: true,
+        playerDeck: makeDeck(20),
+        opponentDeck: makeDeck(20),
+      });
+      return actor;
+    };
+    
+    it('should start in the mulligan phase when requested', () => {
+      const actor = startMulligan();
+      
+      expect(actor.getSnapshot().value).toBe('MULLIGAN');
+      expect(actor.getSnapshot().context.playerHand).toHaveLength(HAND_SIZE);
+      
+      actor.stop();
+    });
+    
+    it('should replace chosen cards and shuffle them back into the deck', () => {
+      const actor = startMulligan();
+      
+      actor.send({ type: 'MULLIGAN', side: 'player', cardIds: ['card_0', 'card_2'] });
+      
+      const { playerHand, playerDeck } = actor.getSnapshot().context;
+      expect(playerHand).toHaveLength(HAND_SIZE);
+      expect(playerHand.map((c) => c.id)).toEqual(['card_1', 'card_3', 'card_4', 'card_5', 'card_6']);
+      expect(playerDeck).toHaveLength(20 - HAND_SIZE);
+      expect(playerDeck.map((c) => c.id)).toEqual(expect.arrayContaining(['card_0', 'card_2']));
+      
+      actor.stop();
+    });
+    
+    it('should allow only one mulligan per side', () => {
+      const actor = startMulligan();
+      
+      actor.send({ type: 'MULLIGAN', side: 'player', cardIds: [] });
+      const hand = actor.getSnapshot().context.playerHand;
+      actor.send({ type: 'MULLIGAN', side: 'player', cardIds: [hand[0].id] });
+      
+      expect(actor.getSnapshot().value).toBe('MULLIGAN');
+      expect(actor.getSnapshot().context.playerHand).toEqual(hand);
+      
+      actor.stop();
+    });
+    
+    it('should start the first turn once both sides have decided', () => {
+      const actor = startMulligan();
+      
+      actor.send({ type: 'MULLIGAN', side: 'player', cardIds: [] });
+      actor.send({ type: 'MULLIGAN', side: 'opponent', cardIds: ['card_1'] });
+      
+      expect(actor.getSnapshot().value).toBe('PLAYER_TURN');
+      expect(actor.getSnapshot().context.mulliganDone).toEqual({ player: true, opponent: true });
+      
+      actor.stop();
+    });
+    
+    it('should move on to initiative in initiative mode', () => {
+      const actor = startMulligan('initiative');
+      
+      actor.send({ type: 'MULLIGAN', side: 'opponent', cardIds: [] });
+      actor.send({ type: 'MULLIGAN', side: 'player', cardIds: [] });
+      
+      expect(actor.getSnapshot().matches('INITIATIVE')).toBe(true);
+      
+      actor.stop();
+    });
+    
+    it('should reshuffle identically for the same seed', () => {
+      const first = startMulligan();
+      const second = startMulligan();
+      
+      for (const actor of [first, second]) {
+        actor.send({ type: 'MULLIGAN', side: 'player', cardIds: ['card_0', 'card_1', 'card_2'] });
+      }
+      
+      expect(first.getSnapshot().context.playerDeck).toEqual(second.getSnapshot().context.playerDeck);
+      
+      first.stop();
+      second.stop();
+    });
+    
+    it('should deal a custom opening hand size', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      actor.send({ type: 'START_COMBAT', openingHandSize: 3, playerDeck: makeDeck(10) });
+      
+      expect(actor.getSnapshot().value).toBe('PLAYER_TURN');
+      expect(actor.getSnapshot().context.playerHand).toHaveLength(3);
+      expect(actor.getSnapshot().context.playerDeck).toHaveLength(7);
+      
+      actor.stop();
+    });
+  });
+  
+  describe('Hand rules', () => {
+    const makeDeck = (size: number, prefix = 'card'): Card[] =>
+      Array.from({ length: size }, (_, i) => ({ ...mockCard, id: `${prefix}_${i}` }));
+    
+    const start = (handRules: object, deckSize = 20) => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      actor.send({
+        type: 'START_COMBAT',
+        seed: 3,
+        handRules,
+        playerDeck: makeDeck(deckSize),
+        opponentDeck: makeDeck(deckSize, 'opp'),
+      });
+      return actor;
+    };
+    
+    const playPlayerCard = (actor: ReturnType<typeof start>) => {
+      actor.send({ type: 'PLAY_CARD', card: actor.getSnapshot().context.playerHand[0] });
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      actor.send({ type: 'DAMAGE_APPLIED' });
+    };
+    
+    it('should refill the hand after each play by default', () => {
+      const actor = start({});
+      playPlayerCard(actor);
+      
+      const context = actor.getSnapshot().context;
+      expect(context.handRules.refillHand).toBe(true);
+      expect(context.playerHand).toHaveLength(HAND_SIZE);
+      expect(context.playerDeck).toHaveLength(20 - HAND_SIZE - 1);
+      
+      actor.stop();
+    });
+    
+    it('should draw at the start of each turn', () => {
+      const actor = start({ drawPerTurn: 1, maxHandSize: 7, refillHand: false });
+      
+      // First turn draw on top of the opening hand
+      expect(actor.getSnapshot().context.playerHand).toHaveLength(HAND_SIZE + 1);
+      
+      playPlayerCard(actor);
+      const context = actor.getSnapshot().context;
+      expect(context.playerHand).toHaveLength(HAND_SIZE);
+      expect(context.opponentHand).toHaveLength(HAND_SIZE + 1);
+      
+      actor.stop();
+    });
+    
+    it('should discard draws into a full hand', () => {
+      const actor = start({ drawPerTurn: 1, refillHand: false });
+      
+      const context = actor.getSnapshot().context;
+      expect(context.playerHand).toHaveLength(HAND_SIZE);
+      expect(context.discardPile.player.map((c) => c.id)).toEqual(['card_5']);
+      
+      actor.stop();
+    });
+    
+    it('should cap the opening hand at the hand limit', () => {
+      const actor = start({ maxHandSize: 3 });
+      
+      expect(actor.getSnapshot().context.playerHand).toHaveLength(3);
+      
+      actor.stop();
+    });
+    
+    it('should deal fatigue damage when drawing from an empty deck', () => {
+      const actor = start({ drawPerTurn: 1, refillHand: false, fatigueDamage: 2 }, HAND_SIZE);
+      
+      let context = actor.getSnapshot().context;
+      expect(context.fatigue.player).toBe(1);
+      expect(context.playerHP).toBe(98);
+      
+      playPlayerCard(actor);
+      context = actor.getSnapshot().context;
+      expect(context.fatigue.opponent).toBe(1);
+      expect(context.opponentHP).toBeLessThanOrEqual(98);
+      
+      actor.send({ type: 'AI_ACTION_COMPLETE', card: context.opponentHand[0] });
+      actor.send({ type: 'CHECK_COMPLETE', winner: null });
+      
+      // Second empty draw hurts more
+      context = actor.getSnapshot().context;
+      expect(context.fatigue.player).toBe(2);
+      expect(context.battlefield.playerSide.hp).toBe(context.playerHP);
+      
+      actor.stop();
+    });
+    
+    it('should draw for both sides each initiative round', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      actor.send({
+        type: 'START_COMBAT',
+        mode: 'initiative',
+        handRules: { drawPerTurn: 2, maxHandSize: 10, refillHand: false },
+        playerDeck: makeDeck(20),
+        opponentDeck: makeDeck(20, 'opp'),
+      });
+      
+      const context = actor.getSnapshot().context;
+      expect(context.playerHand).toHaveLength(HAND_SIZE + 2);
+      expect(context.opponentHand).toHaveLength(HAND_SIZE + 2);
+      
+      actor.stop();
+    });
+  });
+  
+  describe('Rule sets', () => {
+    const makeDeck = (size: number): Card[] =>
+      Array.from({ length: size }, (_, i) => ({ ...mockCard, id: `card_${i}` }));
+    
+    const startWith = (ruleSet: RuleSet) => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      actor.send({ type: 'START_COMBAT', seed: 8, ruleSet, playerDeck: makeDeck(20), opponentDeck: makeDeck(20) });
+      return actor;
+    };
+    
+    const playRound = (actor: ReturnType<typeof startWith>) => {
+      const { context } = actor.getSnapshot();
+      actor.send({ type: 'PLAY_CARD', card: context.playerHand[0] });
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      actor.send({ type: 'DAMAGE_APPLIED' });
+      actor.send({ type: 'AI_ACTION_COMPLETE', card: actor.getSnapshot().context.opponentHand[0] });
+    };
+    
+    it('should play by the standard rules by default', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      actor.send({ type: 'START_COMBAT' });
+      
+      expect(actor.getSnapshot().context.ruleSet).toBe(RULE_SETS.standard);
+      expect(actor.getSnapshot().context.round).toBe(0);
+      
+      actor.stop();
+    });
+    
+    it('should start both sides at the rule set HP with its hand rules', () => {
+      const actor = startWith(RULE_SETS.quick);
+      const context = actor.getSnapshot().context;
+      
+      expect(context.playerHP).toBe(50);
+      expect(context.battlefield.opponentSide).toMatchObject({ hp: 50, maxHP: 50 });
+      expect(context.playerHand).toHaveLength(RULE_SETS.quick.openingHandSize);
+      expect(context.handRules).toEqual(RULE_SETS.quick.hand);
+      
+      actor.stop();
+    });
+    
+    it('should apply the rule set damage formula', () => {
+      const attacker: Card = { ...mockCard, id: 'attacker', stats: { attack: 10, defense: 0, speed: 1 } };
+      const defender: Card = { ...mockCard, id: 'defender', stats: { attack: 0, defense: 8, speed: 1 } };
+      const actor = startWith({ ...RULE_SETS.standard, damageFormula: 'piercing' });
+      
+      actor.send({ type: 'PLAY_CARD', card: defender });
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      actor.send({ type: 'DAMAGE_APPLIED' });
+      actor.send({ type: 'AI_ACTION_COMPLETE', card: attacker });
+      
+      // 10 - floor(8 / 2) = 6 damage through the player's defender
+      expect(actor.getSnapshot().context.playerHP).toBe(94);
+      
+      actor.stop();
+    });
+    
+    it('should count rounds and decide on HP at the turn limit', () => {
+      const actor = startWith({ ...RULE_SETS.standard, turnLimit: 2 });
+      
+      playRound(actor);
+      expect(actor.getSnapshot().context.round).toBe(1);
+      expect(actor.getSnapshot().context.winner).toBeNull();
+      actor.send({ type: 'CHECK_COMPLETE', winner: null });
+      
+      playRound(actor);
+      const { context } = actor.getSnapshot();
+      expect(context.round).toBe(2);
+      expect(context.winner).not.toBeNull();
+      
+      actor.send({ type: 'CHECK_COMPLETE', winner: context.winner });
+      expect(actor.getSnapshot().value).toBe('END');
+      
+      actor.stop();
+    });
+    
+    it('should decide on HP once a side runs out of cards under the default rules', () => {
+      const actor = createActor(combatMachine);
+      actor.start();
+      actor.send({ type: 'START_COMBAT', seed: 8, playerDeck: makeDeck(6), opponentDeck: makeDeck(20) });
+      expect(actor.getSnapshot().context.ruleSet).toBe(DEFAULT_RULE_SET);
+      
+      for (let round = 1; round < 6; round++) {
+        playRound(actor);
+        expect(actor.getSnapshot().context.winner).toBeNull();
+        actor.send({ type: 'CHECK_COMPLETE', winner: null });
+      }
+      
+      playRound(actor);
+      const { context } = actor.getSnapshot();
+      expect(context.playerHand).toEqual([]);
+      expect(context.playerDeck).toEqual([]);
+      expect(context.playerHP).toBeGreaterThan(0);
+      expect(context.winner).not.toBeNull();
+      
+      actor.send({ type: 'CHECK_COMPLETE', winner: context.winner });
+      expect(actor.getSnapshot().value).toBe('END');
+      
+      actor.stop();
+    });
+    
+    it('should deal escalating sudden death damage to both sides', () => {
+      const ruleSet: RuleSet = { ...RULE_SETS.standard, suddenDeath: { startRound: 1, damage: 500 } };
+      const actor = startWith(ruleSet);
+      
+      playRound(actor);
+      const { context } = actor.getSnapshot();
+      expect(context.playerHP).toBe(0);
+      expect(context.opponentHP).toBe(0);
+      expect(context.winner).toBe('draw');
+      
+      actor.stop();
+    });
+  });
+  
   it('should serialize and deserialize state', () => {
     const actor = createActor(combatMachine);
     actor.start();
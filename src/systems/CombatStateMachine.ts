@@ -1,5 +1,54 @@
-import { createMachine, assign } from 'xstate';
-import type { Card, BattlefieldState } from '@/types';
+import { createMachine, assign, and } from 'xstate';
+import type { Card, BattlefieldState, CombatSide } from '@/types';
+import { SeededRandom, createSeed } from './SeededRandom';
+import type { ActiveEffects, Combatant } from './CardEffects';
+import { determineTurnOrder } from './Initiative';
+import { shuffleDeck } from './CardSystem';
+import type { HandRules } from './HandRules';
+import type { RuleSet } from './RuleSet';
+import { DEFAULT_RULE_SET, getSuddenDeathDamage } from './RuleSet';
+import {
+  DEFAULT_HAND_RULES,
+  createHandRules,
+  drawCards,
+  enforceHandLimit,
+  getRefillCount,
+} from './HandRules';
+import type { CombatLogEntry, CombatLogEvent } from './CombatLog';
+import { appendCombatLog } from './CombatLog';
+import {
+  getDamageBreakdown,
+  placeCardOnPlayerSide,
+  placeCardOnOpponentSide,
+  resetBattlefield,
+} from './BattlefieldSystem';
+import {
+  createActiveEffects,
+  resolveCard,
+  tickEffects,
+  isStunned,
+  consumeStun,
+} from './CardEffects';
+
+/**
+ * Turn structure selected at START_COMBAT
+ * - alternating: player and AI take turns (default)
+ * - initiative: both sides commit a card, higher speed resolves first
+ */
+export type CombatMode = 'alternating' | 'initiative';
+
+/**
+ * Who plays the opponent side, selected at START_COMBAT
+ * - ai: moves arrive as AI_ACTION_COMPLETE (default)
+ * - human: local hot-seat - the second player sends PLAY_CARD on AI_TURN
+ */
+export type OpponentController = 'ai' | 'human';
+
+/**
+ * Default opening hand size and hand limit; under the default hand rules
+ * the hand is refilled up to this size after each card is played
+ */
+export const HAND_SIZE = DEFAULT_HAND_RULES.maxHandSize;
 
 // Combat context
 export interface CombatContext {
@@ -9,42 +58,397 @@ export interface CombatContext {
   selectedCard: Card | null;
   playerHand: Card[];
   opponentHand: Card[];
+  playerDeck: Card[];
+  opponentDeck: Card[];
   battlefield: BattlefieldState;
+  effects: Record<CombatSide, ActiveEffects>;
   winner: 'player' | 'opponent' | 'draw' | null;
+  seed: number; // Match seed - replaying with the same seed reproduces the match
+  mode: CombatMode;
+  opponentController: OpponentController;
+  committedCards: Record<CombatSide, Card | null>; // Initiative mode only
+  turnOrder: CombatSide[]; // Remaining strikes this initiative round
+  tieBreaker: CombatSide; // Goes first on a full initiative tie
+  lastDamage: number; // HP damage dealt by the most recently resolved card
+  mulliganDone: Record<CombatSide, boolean>; // Mulligan phase only
+  handRules: HandRules;
+  fatigue: Record<CombatSide, number>; // Draws attempted from an empty deck
+  discardPile: Record<CombatSide, Card[]>; // Cards drawn into a full hand
+  ruleSet: RuleSet;
+  round: number; // Completed rounds, for the turn limit and sudden death
+  log: CombatLogEntry[]; // What happened so far, for the combat log panel
 }
 
 // Combat events
 export type CombatEvent =
-  | { type: 'START_COMBAT' }
+  | {
+      type: 'START_COMBAT';
+      seed?: number;
+      mode?: CombatMode;
+      opponent?: OpponentController;
+      playerDeck?: Card[]; // Deals the opening hand when provided
+      opponentDeck?: Card[];
+      ruleSet?: RuleSet; // Defaults to DEFAULT_RULE_SET
+      openingHandSize?: number; // Overrides the rule set, capped at the hand limit
+      handRules?: Partial<HandRules>; // Overrides the rule set's hand rules
+      mulligan?: boolean; // Offer each side one mulligan before the first turn
+    }
+  | { type: 'MULLIGAN'; side: CombatSide; cardIds: string[] } // Empty cardIds keeps the hand
   | { type: 'PLAY_CARD'; card: Card }
+  | { type: 'COMMIT_CARD'; side: CombatSide; card: Card }
   | { type: 'ANIMATION_COMPLETE' }
   | { type: 'DAMAGE_APPLIED' }
-  | { type: 'AI_ACTION_COMPLETE' }
+  | { type: 'AI_ACTION_COMPLETE'; card?: Card }
   | { type: 'CHECK_COMPLETE'; winner: 'player' | 'opponent' | 'draw' | null };
 
 // Initial context
 const initialContext: CombatContext = {
-  playerHP: 100,
-  opponentHP: 100,
+  playerHP: DEFAULT_RULE_SET.startingHP,
+  opponentHP: DEFAULT_RULE_SET.startingHP,
   currentTurn: 'player',
   selectedCard: null,
   playerHand: [],
   opponentHand: [],
-  battlefield: {
-    playerSide: {
-      activeCard: null,
-      hp: 100,
-      maxHP: 100,
-    },
-    opponentSide: {
-      activeCard: null,
-      hp: 100,
-      maxHP: 100,
-    },
+  playerDeck: [],
+  opponentDeck: [],
+  battlefield: resetBattlefield(DEFAULT_RULE_SET.startingHP),
+  effects: {
+    player: createActiveEffects(),
+    opponent: createActiveEffects(),
   },
   winner: null,
+  seed: 0,
+  mode: 'alternating',
+  opponentController: 'ai',
+  committedCards: {
+    player: null,
+    opponent: null,
+  },
+  turnOrder: [],
+  tieBreaker: 'player',
+  lastDamage: 0,
+  mulliganDone: {
+    player: false,
+    opponent: false,
+  },
+  handRules: DEFAULT_HAND_RULES,
+  fatigue: {
+    player: 0,
+    opponent: 0,
+  },
+  discardPile: {
+    player: [],
+    opponent: [],
+  },
+  ruleSet: DEFAULT_RULE_SET,
+  round: 0,
+  log: [],
+};
+
+/**
+ * View one side of the combat context as a Combatant for effect resolution
+ */
+const getCombatant = (context: CombatContext, side: CombatSide): Combatant => {
+  if (side === 'player') {
+    return {
+      hp: context.playerHP,
+      maxHP: context.battlefield.playerSide.maxHP,
+      hand: context.playerHand,
+      deck: context.playerDeck,
+      effects: context.effects.player,
+    };
+  }
+  
+  return {
+    hp: context.opponentHP,
+    maxHP: context.battlefield.opponentSide.maxHP,
+    hand: context.opponentHand,
+    deck: context.opponentDeck,
+    effects: context.effects.opponent,
+  };
+};
+
+/**
+ * Write a resolved Combatant back into the combat context
+ */
+const withCombatant = (
+  context: CombatContext,
+  side: CombatSide,
+  combatant: Combatant
+): CombatContext => {
+  const effects = { ...context.effects, [side]: combatant.effects };
+  
+  if (side === 'player') {
+    return {
+      ...context,
+      playerHP: combatant.hp,
+      playerHand: combatant.hand,
+      playerDeck: combatant.deck,
+      battlefield: {
+        ...context.battlefield,
+        playerSide: { ...context.battlefield.playerSide, hp: combatant.hp },
+      },
+      effects,
+    };
+  }
+  
+  return {
+    ...context,
+    opponentHP: combatant.hp,
+    opponentHand: combatant.hand,
+    opponentDeck: combatant.deck,
+    battlefield: {
+      ...context.battlefield,
+      opponentSide: { ...context.battlefield.opponentSide, hp: combatant.hp },
+    },
+    effects,
+  };
+};
+
+const otherSide = (side: CombatSide): CombatSide =>
+  side === 'player' ? 'opponent' : 'player';
+
+/**
+ * Record events in the combat log under the round in progress
+ */
+const withLog = (context: CombatContext, ...events: CombatLogEvent[]): CombatContext => ({
+  ...context,
+  log: appendCombatLog(context.log, context.round + 1, ...events),
+});
+
+/**
+ * Take a played card out of the hand (first copy by ID)
+ */
+const removeFromHand = (combatant: Combatant, card: Card): Combatant => {
+  const index = combatant.hand.findIndex((c) => c === card || c.id === card.id);
+  if (index === -1) return combatant;
+  
+  return { ...combatant, hand: combatant.hand.filter((_, i) => i !== index) };
+};
+
+/**
+ * Add discarded cards to one side's discard pile
+ */
+const withDiscards = (
+  context: CombatContext,
+  side: CombatSide,
+  discarded: Card[]
+): CombatContext =>
+  discarded.length === 0
+    ? context
+    : {
+        ...context,
+        discardPile: { ...context.discardPile, [side]: [...context.discardPile[side], ...discarded] },
+      };
+
+/**
+ * Draw cards for one side under the match hand rules, recording fatigue
+ * and any cards discarded from a full hand
+ */
+const drawForSide = (context: CombatContext, side: CombatSide, count: number): CombatContext => {
+  if (count <= 0) return context;
+  
+  const result = drawCards(getCombatant(context, side), count, context.handRules, context.fatigue[side]);
+  const drawn = withDiscards(
+    {
+      ...withCombatant(context, side, result.combatant),
+      fatigue: { ...context.fatigue, [side]: result.fatigue },
+    },
+    side,
+    result.discarded
+  );
+  
+  if (result.drawn.length === 0 && result.discarded.length === 0 && result.fatigueDamage === 0) {
+    return drawn;
+  }
+  
+  return withLog(drawn, {
+    type: 'draw',
+    side,
+    drawn: result.drawn.length,
+    discarded: result.discarded.length,
+    fatigueDamage: result.fatigueDamage,
+  });
+};
+
+/**
+ * Tick one side's lingering effects, logging poison and regen
+ */
+const tickSide = (context: CombatContext, side: CombatSide): CombatContext => {
+  const combatant = getCombatant(context, side);
+  const ticked = tickEffects(combatant);
+  const poison = combatant.effects.damageOverTime.reduce((total, dot) => total + dot.damage, 0);
+  const damage = Math.min(combatant.hp, poison);
+  const healing = ticked.hp - (combatant.hp - damage);
+  const next = withCombatant(context, side, ticked);
+  
+  return damage > 0 || healing > 0
+    ? withLog(next, { type: 'statusTick', side, damage, healing })
+    : next;
+};
+
+/**
+ * Swap the chosen cards for new ones from the top of the deck, then
+ * shuffle the returned cards into the rest of the deck
+ * Replacements are drawn first so a returned card cannot come straight back
+ */
+const mulliganHand = (
+  combatant: Combatant,
+  cardIds: string[],
+  rng: SeededRandom
+): { combatant: Combatant; count: number } => {
+  const kept = [...combatant.hand];
+  const returned: Card[] = [];
+  
+  for (const id of cardIds) {
+    const index = kept.findIndex((c) => c.id === id);
+    if (index !== -1) {
+      returned.push(...kept.splice(index, 1));
+    }
+  }
+  
+  if (returned.length === 0) return { combatant, count: 0 };
+  
+  const drawn = combatant.deck.slice(0, returned.length);
+  return {
+    combatant: {
+      ...combatant,
+      hand: [...kept, ...drawn],
+      deck: shuffleDeck([...combatant.deck.slice(drawn.length), ...returned], rng),
+    },
+    count: returned.length,
+  };
+};
+
+/**
+ * Per-side mulligan shuffle, derived from the match seed so replays and
+ * networked peers reshuffle identically
+ */
+const createMulliganRandom = (context: CombatContext, side: CombatSide): SeededRandom =>
+  new SeededRandom((context.seed ^ (side === 'player' ? 0x9e3779b9 : 0x85ebca6b)) >>> 0);
+
+/**
+ * Rule set requested at START_COMBAT
+ */
+const startingRuleSet = (event: CombatEvent): RuleSet =>
+  event.type === 'START_COMBAT' && event.ruleSet ? event.ruleSet : DEFAULT_RULE_SET;
+
+/**
+ * Hand rules requested at START_COMBAT: the rule set's, with any overrides
+ */
+const startingHandRules = (event: CombatEvent): HandRules =>
+  createHandRules({
+    ...startingRuleSet(event).hand,
+    ...(event.type === 'START_COMBAT' ? event.handRules : undefined),
+  });
+
+/**
+ * Opening hand size requested at START_COMBAT, never above the hand limit
+ */
+const openingHandSize = (event: CombatEvent): number => {
+  const { maxHandSize } = startingHandRules(event);
+  const requested = event.type === 'START_COMBAT' && event.openingHandSize !== undefined
+    ? event.openingHandSize
+    : startingRuleSet(event).openingHandSize;
+  return Math.min(Math.max(0, Math.floor(requested)), maxHandSize);
+};
+
+/**
+ * Place a card on one side of the battlefield
+ */
+const placeCard = (
+  battlefield: BattlefieldState,
+  side: CombatSide,
+  card: Card
+): BattlefieldState =>
+  side === 'player'
+    ? placeCardOnPlayerSide(battlefield, card)
+    : placeCardOnOpponentSide(battlefield, card);
+
+/**
+ * Resolve a card played by one side using the battlefield rules:
+ * damage is reduced by the defender's active card, then the card's
+ * effects apply and it takes its place on the attacker's side.
+ * The card leaves the attacker's hand, which is trimmed to the hand
+ * limit and, if the hand rules say so, refilled
+ */
+const resolveStrike = (
+  context: CombatContext,
+  side: CombatSide,
+  card: Card
+): CombatContext => {
+  const defenderSide = otherSide(side);
+  const defenderCard = defenderSide === 'player'
+    ? context.battlefield.playerSide.activeCard
+    : context.battlefield.opponentSide.activeCard;
+  
+  const attacker = getCombatant(context, side);
+  const breakdown = getDamageBreakdown(card, defenderCard, context.ruleSet.damageFormula);
+  const result = resolveCard(
+    card,
+    removeFromHand(attacker, card),
+    getCombatant(context, defenderSide),
+    breakdown.damage
+  );
+  
+  // Log the hit step by step: what the buff, weaken and shield changed
+  const buff = attacker.effects.nextCardBuff;
+  const weaken = attacker.effects.weaken?.amount ?? 0;
+  const logged = withLog(
+    context,
+    { type: 'cardPlayed', side, cardId: card.id, cardName: card.name },
+    {
+      type: 'damage',
+      side,
+      breakdown,
+      buff,
+      weaken,
+      absorbed: Math.max(0, breakdown.damage + buff - weaken) - result.damage,
+      dealt: result.damage,
+    },
+    ...(card.effects ?? []).map((effect): CombatLogEvent => ({ type: 'effect', side, effect }))
+  );
+  
+  const limited = enforceHandLimit(result.attacker, context.handRules);
+  const resolved = drawForSide(
+    withDiscards(
+      withCombatant(withCombatant(logged, side, limited.combatant), defenderSide, result.defender),
+      side,
+      limited.discarded
+    ),
+    side,
+    getRefillCount(limited.combatant.hand, context.handRules)
+  );
+  
+  return {
+    ...resolved,
+    battlefield: placeCard(resolved.battlefield, side, card),
+    lastDamage: result.damage,
+  };
+};
+
+/**
+ * The healthier side wins a match that ends without a knockout
+ */
+const decideOnHP = (context: CombatContext): 'player' | 'opponent' | 'draw' => {
+  if (context.playerHP === context.opponentHP) return 'draw';
+  return context.playerHP > context.opponentHP ? 'player' : 'opponent';
+};
+
+/**
+ * A side with no cards in hand or deck can never play again
+ */
+export const isOutOfCards = (context: CombatContext, side: CombatSide): boolean => {
+  const { hand, deck } = getCombatant(context, side);
+  return hand.length === 0 && deck.length === 0;
 };
 
+/**
+ * A side has committed for this initiative round, or is stunned and sits it out
+ */
+const isReadyToStrike = (context: CombatContext, side: CombatSide): boolean =>
+  context.committedCards[side] !== null || isStunned(context.effects[side]);
+
 // Combat state machine
 export const combatMachine = createMachine(
   {
@@ -58,13 +462,51 @@ export const combatMachine = createMachine(
     states: {
       IDLE: {
         on: {
-          START_COMBAT: {
+          START_COMBAT: [
+            {
+              target: 'MULLIGAN',
+              guard: 'isMulliganStart',
+              actions: 'initializeCombat',
+            },
+            {
+              target: 'INITIATIVE',
+              guard: 'isInitiativeStart',
+              actions: 'initializeCombat',
+            },
+            {
+              target: 'PLAYER_TURN',
+              actions: 'initializeCombat',
+            },
+          ],
+        },
+      },
+      MULLIGAN: {
+        always: [
+          {
+            target: 'INITIATIVE',
+            guard: and(['isMulliganComplete', 'isInitiativeMode']),
+          },
+          {
             target: 'PLAYER_TURN',
-            actions: 'initializeCombat',
+            guard: 'isMulliganComplete',
+          },
+        ],
+        on: {
+          MULLIGAN: {
+            guard: 'canMulligan',
+            actions: 'applyMulligan',
           },
         },
       },
       PLAYER_TURN: {
+        entry: ['tickPlayerEffects', 'drawPlayerTurnCards'],
+        always: [
+          {
+            target: 'AI_TURN',
+            guard: 'isPlayerStunned',
+            actions: ['consumePlayerStun', 'switchToOpponent'],
+          },
+        ],
         on: {
           PLAY_CARD: {
             target: 'CARD_PLAY',
@@ -82,23 +524,84 @@ export const combatMachine = createMachine(
       RESOLVE: {
         entry: 'applyCardEffect',
         on: {
-          DAMAGE_APPLIED: {
-            target: 'AI_TURN',
-            actions: 'switchToOpponent',
-          },
+          DAMAGE_APPLIED: [
+            {
+              // A knockout ends the match before the opponent can strike back
+              target: 'CHECK_WIN',
+              guard: 'isKnockout',
+            },
+            {
+              target: 'AI_TURN',
+              actions: 'switchToOpponent',
+            },
+          ],
         },
       },
       AI_TURN: {
-        entry: 'triggerAIAction',
+        entry: ['tickOpponentEffects', 'drawOpponentTurnCards', 'triggerAIAction'],
+        always: [
+          {
+            target: 'CHECK_WIN',
+            guard: 'isOpponentStunned',
+            actions: ['consumeOpponentStun', 'switchToPlayer'],
+          },
+        ],
         on: {
           AI_ACTION_COMPLETE: {
             target: 'CHECK_WIN',
-            actions: 'switchToPlayer',
+            guard: 'isAIOpponent',
+            actions: ['applyAICardEffect', 'switchToPlayer'],
+          },
+          PLAY_CARD: {
+            target: 'CHECK_WIN',
+            guard: 'isHotSeat',
+            actions: ['applyAICardEffect', 'switchToPlayer'],
+          },
+        },
+      },
+      INITIATIVE: {
+        initial: 'COMMIT',
+        states: {
+          COMMIT: {
+            entry: ['tickAllEffects', 'drawRoundCards', 'clearCommittedCards'],
+            always: [
+              {
+                target: 'STRIKE',
+                guard: 'canStrike',
+                actions: 'orderStrikes',
+              },
+              {
+                target: '#combat.CHECK_WIN',
+                guard: 'allStunned',
+                actions: 'orderStrikes',
+              },
+            ],
+            on: {
+              COMMIT_CARD: {
+                guard: 'canCommit',
+                actions: 'commitCard',
+              },
+            },
+          },
+          STRIKE: {
+            entry: 'resolveNextStrike',
+            on: {
+              ANIMATION_COMPLETE: [
+                {
+                  target: '#combat.CHECK_WIN',
+                  guard: 'strikesExhausted',
+                },
+                {
+                  target: 'STRIKE',
+                  reenter: true,
+                },
+              ],
+            },
           },
         },
       },
       CHECK_WIN: {
-        entry: 'checkWinCondition',
+        entry: ['endRound', 'checkWinCondition'],
         on: {
           CHECK_COMPLETE: [
             {
@@ -106,6 +609,10 @@ export const combatMachine = createMachine(
               guard: 'hasWinner',
               actions: 'setWinner',
             },
+            {
+              target: 'INITIATIVE',
+              guard: 'isInitiativeMode',
+            },
             {
               target: 'PLAYER_TURN',
             },
@@ -120,11 +627,69 @@ export const combatMachine = createMachine(
   {
     actions: {
       initializeCombat: assign({
-        playerHP: 100,
-        opponentHP: 100,
+        playerHP: ({ event }) => startingRuleSet(event).startingHP,
+        opponentHP: ({ event }) => startingRuleSet(event).startingHP,
         currentTurn: 'player' as const,
         selectedCard: null,
         winner: null,
+        battlefield: ({ event }) => resetBattlefield(startingRuleSet(event).startingHP),
+        ruleSet: ({ event }) => startingRuleSet(event),
+        round: 0,
+        log: () => [],
+        lastDamage: 0,
+        effects: () => ({
+          player: createActiveEffects(),
+          opponent: createActiveEffects(),
+        }),
+        playerHand: ({ context, event }) =>
+          event.type === 'START_COMBAT' && event.playerDeck
+            ? event.playerDeck.slice(0, openingHandSize(event))
+            : context.playerHand,
+        playerDeck: ({ context, event }) =>
+          event.type === 'START_COMBAT' && event.playerDeck
+            ? event.playerDeck.slice(openingHandSize(event))
+            : context.playerDeck,
+        opponentHand: ({ context, event }) =>
+          event.type === 'START_COMBAT' && event.opponentDeck
+            ? event.opponentDeck.slice(0, openingHandSize(event))
+            : context.opponentHand,
+        opponentDeck: ({ context, event }) =>
+          event.type === 'START_COMBAT' && event.opponentDeck
+            ? event.opponentDeck.slice(openingHandSize(event))
+            : context.opponentDeck,
+        mulliganDone: () => ({ player: false, opponent: false }),
+        handRules: ({ event }) => startingHandRules(event),
+        fatigue: () => ({ player: 0, opponent: 0 }),
+        discardPile: () => ({ player: [], opponent: [] }),
+        mode: ({ event }) =>
+          event.type === 'START_COMBAT' && event.mode ? event.mode : 'alternating',
+        opponentController: ({ event }) =>
+          event.type === 'START_COMBAT' && event.opponent ? event.opponent : 'ai',
+        committedCards: () => ({ player: null, opponent: null }),
+        turnOrder: () => [],
+        tieBreaker: 'player' as const,
+        seed: ({ event }) => {
+          if (event.type === 'START_COMBAT' && event.seed !== undefined) {
+            return event.seed >>> 0;
+          }
+          return createSeed();
+        },
+      }),
+      
+      applyMulligan: assign(({ context, event }) => {
+        if (event.type !== 'MULLIGAN') return {};
+        
+        const { combatant, count } = mulliganHand(
+          getCombatant(context, event.side),
+          event.cardIds,
+          createMulliganRandom(context, event.side)
+        );
+        const next = withCombatant(context, event.side, combatant);
+        
+        return {
+          ...(count > 0 ? withLog(next, { type: 'mulligan', side: event.side, count }) : next),
+          mulliganDone: { ...context.mulliganDone, [event.side]: true },
+        };
       }),
       
       setSelectedCard: assign({
@@ -136,22 +701,121 @@ export const combatMachine = createMachine(
         },
       }),
       
-      applyCardEffect: assign({
-        opponentHP: ({ context }) => {
-          if (!context.selectedCard) return context.opponentHP;
-          
-          const damage = context.selectedCard.stats.attack;
-          return Math.max(0, context.opponentHP - damage);
+      applyCardEffect: assign(({ context }) => {
+        if (!context.selectedCard) return {};
+        
+        return resolveStrike(context, context.currentTurn, context.selectedCard);
+      }),
+      
+      // Opponent's card, from the AI or from the second hot-seat player
+      applyAICardEffect: assign(({ context, event }) => {
+        if (event.type !== 'AI_ACTION_COMPLETE' && event.type !== 'PLAY_CARD') return {};
+        // A pass strikes nothing; clear the last card so its hit is not reported again
+        if (!event.card) return { selectedCard: null, lastDamage: 0 };
+        
+        return {
+          ...resolveStrike(context, 'opponent', event.card),
+          selectedCard: event.card,
+        };
+      }),
+      
+      tickPlayerEffects: assign(({ context }) => tickSide(context, 'player')),
+      
+      tickOpponentEffects: assign(({ context }) => tickSide(context, 'opponent')),
+      
+      tickAllEffects: assign(({ context }) => tickSide(tickSide(context, 'player'), 'opponent')),
+      
+      drawPlayerTurnCards: assign(({ context }) =>
+        drawForSide(context, 'player', context.handRules.drawPerTurn)
+      ),
+      
+      drawOpponentTurnCards: assign(({ context }) =>
+        drawForSide(context, 'opponent', context.handRules.drawPerTurn)
+      ),
+      
+      drawRoundCards: assign(({ context }) =>
+        drawForSide(
+          drawForSide(context, 'player', context.handRules.drawPerTurn),
+          'opponent',
+          context.handRules.drawPerTurn
+        )
+      ),
+      
+      clearCommittedCards: assign({
+        committedCards: () => ({ player: null, opponent: null }),
+        turnOrder: () => [],
+      }),
+      
+      commitCard: assign({
+        committedCards: ({ context, event }) => {
+          if (event.type !== 'COMMIT_CARD') return context.committedCards;
+          return { ...context.committedCards, [event.side]: event.card };
         },
-        battlefield: ({ context }) => ({
-          ...context.battlefield,
-          playerSide: {
-            ...context.battlefield.playerSide,
-            activeCard: context.selectedCard,
+      }),
+      
+      orderStrikes: assign(({ context }) => {
+        // Stunned sides sit this round out and use up one turn of stun
+        const playerCard = isStunned(context.effects.player) ? null : context.committedCards.player;
+        const opponentCard = isStunned(context.effects.opponent) ? null : context.committedCards.opponent;
+        const { order, tieBreaker } = determineTurnOrder(playerCard, opponentCard, context.tieBreaker);
+        
+        // Both committed cards hit the table together so each defends against the other
+        let battlefield = context.battlefield;
+        if (playerCard) battlefield = placeCard(battlefield, 'player', playerCard);
+        if (opponentCard) battlefield = placeCard(battlefield, 'opponent', opponentCard);
+        
+        const stunned = (['player', 'opponent'] as const)
+          .filter((side) => isStunned(context.effects[side]))
+          .map((side): CombatLogEvent => ({ type: 'stunned', side }));
+        
+        return {
+          battlefield,
+          turnOrder: order,
+          tieBreaker,
+          effects: {
+            player: consumeStun(context.effects.player),
+            opponent: consumeStun(context.effects.opponent),
           },
-        }),
+          log: withLog(context, ...stunned).log,
+        };
       }),
       
+      resolveNextStrike: assign(({ context }) => {
+        const [side, ...remaining] = context.turnOrder;
+        if (!side) return {};
+        
+        const card = context.committedCards[side];
+        const attackerHP = side === 'player' ? context.playerHP : context.opponentHP;
+        
+        // A side knocked out by the first strike does not get to resolve its card
+        if (!card || attackerHP <= 0) {
+          return { turnOrder: remaining };
+        }
+        
+        return {
+          ...resolveStrike(context, side, card),
+          turnOrder: remaining,
+          currentTurn: side,
+          selectedCard: card,
+        };
+      }),
+      
+      consumePlayerStun: assign(({ context }) => ({
+        effects: {
+          ...context.effects,
+          player: consumeStun(context.effects.player),
+        },
+        log: withLog(context, { type: 'stunned', side: 'player' }).log,
+      })),
+      
+      consumeOpponentStun: assign(({ context }) => ({
+        effects: {
+          ...context.effects,
+          opponent: consumeStun(context.effects.opponent),
+        },
+        log: withLog(context, { type: 'stunned', side: 'opponent' }).log,
+      })),
+      
       switchToOpponent: assign({
         currentTurn: 'opponent' as const,
       }),
@@ -160,6 +824,26 @@ export const combatMachine = createMachine(
         currentTurn: 'player' as const,
       }),
       
+      // A round ends at every win check; sudden death hits both sides here
+      endRound: assign(({ context }) => {
+        const round = context.round + 1;
+        const damage = getSuddenDeathDamage(context.ruleSet, round);
+        if (damage === 0) return { round };
+        
+        const hit = (side: CombatSide) => {
+          const combatant = getCombatant(context, side);
+          return { ...combatant, hp: Math.max(0, combatant.hp - damage) };
+        };
+        
+        return {
+          ...withLog(
+            withCombatant(withCombatant(context, 'player', hit('player')), 'opponent', hit('opponent')),
+            { type: 'suddenDeath', damage }
+          ),
+          round,
+        };
+      }),
+      
       checkWinCondition: assign({
         winner: ({ context }) => {
           if (context.playerHP <= 0 && context.opponentHP <= 0) {
@@ -171,26 +855,77 @@ export const combatMachine = createMachine(
           if (context.opponentHP <= 0) {
             return 'player';
           }
+          // Out of rounds, or a side out of cards: the healthier side wins
+          const { turnLimit } = context.ruleSet;
+          if (turnLimit !== null && context.round >= turnLimit) {
+            return decideOnHP(context);
+          }
+          if (isOutOfCards(context, 'player') || isOutOfCards(context, 'opponent')) {
+            return decideOnHP(context);
+          }
           return null;
         },
       }),
       
-      setWinner: assign({
-        winner: ({ event }) => {
-          if (event.type === 'CHECK_COMPLETE') {
-            return event.winner;
-          }
-          return null;
-        },
+      setWinner: assign(({ context, event }) => {
+        const winner = event.type === 'CHECK_COMPLETE' ? event.winner : null;
+        return {
+          winner,
+          log: winner ? withLog(context, { type: 'matchEnd', winner }).log : context.log,
+        };
       }),
       
       triggerAIAction: () => {
         // AI action will be triggered externally
-        // This is just a marker action
+        // This is just a marker action - drivers skip it when
+        // context.opponentController is 'human'
       },
     },
     
     guards: {
+      isMulliganStart: ({ event }) =>
+        event.type === 'START_COMBAT' && event.mulligan === true,
+      
+      isInitiativeStart: ({ event }) =>
+        event.type === 'START_COMBAT' && event.mode === 'initiative',
+      
+      isInitiativeMode: ({ context }) => context.mode === 'initiative',
+      
+      canMulligan: ({ context, event }) =>
+        event.type === 'MULLIGAN' && !context.mulliganDone[event.side],
+      
+      isMulliganComplete: ({ context }) =>
+        context.mulliganDone.player && context.mulliganDone.opponent,
+      
+      isAIOpponent: ({ context }) => context.opponentController === 'ai',
+      
+      isHotSeat: ({ context }) => context.opponentController === 'human',
+      
+      canCommit: ({ context, event }) => {
+        if (event.type !== 'COMMIT_CARD') return false;
+        return context.committedCards[event.side] === null && !isStunned(context.effects[event.side]);
+      },
+      
+      canStrike: ({ context }) =>
+        isReadyToStrike(context, 'player') &&
+        isReadyToStrike(context, 'opponent') &&
+        !(isStunned(context.effects.player) && isStunned(context.effects.opponent)),
+      
+      allStunned: ({ context }) =>
+        isStunned(context.effects.player) && isStunned(context.effects.opponent),
+      
+      strikesExhausted: ({ context }) => {
+        const [next] = context.turnOrder;
+        if (!next) return true;
+        return (next === 'player' ? context.playerHP : context.opponentHP) <= 0;
+      },
+      
+      isKnockout: ({ context }) => context.playerHP <= 0 || context.opponentHP <= 0,
+      
+      isPlayerStunned: ({ context }) => isStunned(context.effects.player),
+      
+      isOpponentStunned: ({ context }) => isStunned(context.effects.opponent),
+      
       hasWinner: ({ event }) => {
         if (event.type === 'CHECK_COMPLETE') {
           return event.winner !== null;
@@ -201,6 +936,37 @@ export const combatMachine = createMachine(
   }
 );
 
+/**
+ * Create the match random source from the combat seed
+ * Deck creation, shuffles and AI decisions should all draw from this
+ */
+export const createCombatRandom = (context: CombatContext): SeededRandom => {
+  return new SeededRandom(context.seed);
+};
+
+/**
+ * Side whose human player should be given the device
+ * In hot-seat matches the opponent side is also human; null while waiting on the AI
+ */
+export const getActiveHumanSide = (context: CombatContext): CombatSide | null => {
+  if (context.currentTurn === 'player' || context.opponentController === 'human') {
+    return context.currentTurn;
+  }
+  return null;
+};
+
+/**
+ * Flatten a machine state value ({ INITIATIVE: 'STRIKE' }) to 'INITIATIVE.STRIKE'
+ */
+export const formatCombatState = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object') {
+    const [key, child] = Object.entries(value)[0] ?? [];
+    return key ? `${key}.${formatCombatState(child)}` : '';
+  }
+  return '';
+};
+
 // State persistence helpers
 export const serializeCombatState = (context: CombatContext): string => {
   return JSON.stringify(context);
@@ -209,7 +975,8 @@ export const serializeCombatState = (context: CombatContext): string => {
 export const deserializeCombatState = (serialized: string): CombatContext => {
   try {
     return JSON.parse(serialized);
-  } catch {
+  } catch (error) {
+    console.warn('Failed to parse combat state, using initial state:', error);
     return initialContext;
   }
 };
@@ -275,6 +275,29 @@ describe('CustomizationValidator', () => {
       expect(validateCustomizationData(invalidData)).toBe(false);
     });
 
+    it('should reject accessories in the wrong slot or unknown to the registry', () => {
+      const withAccessories = (accessories: Record<string, string>) => ({
+        bodyParts: { head: 'default', torso: 'default', arms: 'default', legs: 'default' },
+        colors: { skin: '#ffdbac', hair: '#8b4513', clothing: '#4169e1' },
+        accessories,
+      });
+
+      expect(validateCustomizationData(withAccessories({ hat: 'sword' }))).toBe(false);
+      expect(validateCustomizationData(withAccessories({ weapon: 'laser' }))).toBe(false);
+      expect(validateCustomizationData(withAccessories({ hat: 'crown' }))).toBe(true);
+    });
+
+    it('should reject a two-handed weapon with a shield', () => {
+      const withAccessories = (accessories: Record<string, string>) => ({
+        bodyParts: { head: 'default', torso: 'default', arms: 'default', legs: 'default' },
+        colors: { skin: '#ffdbac', hair: '#8b4513', clothing: '#4169e1' },
+        accessories,
+      });
+
+      expect(validateCustomizationData(withAccessories({ weapon: 'staff', shield: 'round' }))).toBe(false);
+      expect(validateCustomizationData(withAccessories({ weapon: 'axe', shield: 'round' }))).toBe(true);
+    });
+
     it('should accept data without accessories field', () => {
       const validData = {
         bodyParts: {
@@ -372,6 +395,12 @@ describe('CustomizationValidator', () => {
       expect(validateAccessoryType('unknown')).toBe(false);
       expect(validateAccessoryType('')).toBe(false);
     });
+
+    it('should check the slot when one is given', () => {
+      expect(validateAccessoryType('sword', 'weapon')).toBe(true);
+      expect(validateAccessoryType('sword', 'shield')).toBe(false);
+      expect(validateAccessoryType('kite', 'shield')).toBe(true);
+    });
   });
 
   describe('validateColorFormat', () => {
@@ -4,8 +4,19 @@
  */
 
 import type { CustomizationData } from '@/types';
+import type { AccessorySlot } from '@/data/accessorySchema';
+import { ACCESSORY_SLOTS } from '@/data/accessorySchema';
+import type { AccessoryRegistry } from './AccessoryRegistry';
+import { defaultAccessoryRegistry } from './AccessoryRegistry';
 
-export function validateCustomizationData(data: any): data is CustomizationData {
+/**
+ * Accessories must exist in the registry, suit their slot and be wearable
+ * together; unlock state is left to the UI so saved and preset avatars load
+ */
+export function validateCustomizationData(
+  data: any,
+  accessories: AccessoryRegistry = defaultAccessoryRegistry
+): data is CustomizationData {
   if (!data || typeof data !== 'object') {
     return false;
   }
@@ -43,15 +54,17 @@ export function validateCustomizationData(data: any): data is CustomizationData
     }
 
     // Validate optional accessory fields
-    const optionalAccessories = ['hat', 'weapon', 'shield'];
-    for (const accessory of optionalAccessories) {
-      if (
-        data.accessories[accessory] !== undefined &&
-        typeof data.accessories[accessory] !== 'string'
-      ) {
+    for (const slot of ACCESSORY_SLOTS) {
+      const type = data.accessories[slot];
+      if (type === undefined) continue;
+      if (typeof type !== 'string' || !accessories.isValidForSlot(type, slot)) {
         return false;
       }
     }
+
+    if (!accessories.isCompatible(data.accessories)) {
+      return false;
+    }
   }
 
   return true;
@@ -62,19 +75,12 @@ export function validateBodyPartType(type: string): boolean {
   return validTypes.includes(type);
 }
 
-export function validateAccessoryType(type: string): boolean {
-  const validAccessories = [
-    'sword',
-    'axe',
-    'staff',
-    'round',
-    'kite',
-    'tower',
-    'cap',
-    'helmet',
-    'crown',
-  ];
-  return validAccessories.includes(type);
+export function validateAccessoryType(
+  type: string,
+  slot?: AccessorySlot,
+  accessories: AccessoryRegistry = defaultAccessoryRegistry
+): boolean {
+  return slot ? accessories.isValidForSlot(type, slot) : accessories.has(type);
 }
 
 export function validateColorFormat(color: string): boolean {
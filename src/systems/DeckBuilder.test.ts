@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_DECK_RULES,
+  addCardToDeck,
+  buildMatchDeck,
+  canAddCard,
+  countCards,
+  createEmptyDeck,
+  createStarterCollection,
+  getDeckRules,
+  removeCardFromDeck,
+  validateDeck,
+  type Deck,
+} from './DeckBuilder';
+import { loadCardDatabase, getCardById } from './CardSystem';
+import { SeededRandom } from './SeededRandom';
+
+describe('DeckBuilder', () => {
+  const database = loadCardDatabase();
+  
+  const repeat = (id: string, count: number): string[] => Array(count).fill(id);
+  
+  const createValidDeck = (): Deck => ({
+    id: 'deck_test',
+    name: 'Test Deck',
+    cardIds: [
+      ...repeat('card_001', 4),
+      ...repeat('card_004', 4),
+      ...repeat('card_008', 4),
+      ...repeat('card_002', 4),
+      ...repeat('card_003', 3),
+      'card_006',
+    ],
+  });
+  
+  const errorCodes = (deck: Deck, collection?: Record<string, number>) =>
+    validateDeck(deck, database, DEFAULT_DECK_RULES, collection).errors.map(e => e.code);
+  
+  describe('validateDeck', () => {
+    it('should accept a valid deck', () => {
+      const result = validateDeck(createValidDeck(), database);
+      
+      expect(result.valid).toBe(true);
+      expect(result.errors).toEqual([]);
+    });
+    
+    it('should reject decks below minimum size', () => {
+      const deck = { ...createValidDeck(), cardIds: createValidDeck().cardIds.slice(0, 10) };
+      
+      expect(errorCodes(deck)).toContain('TOO_SMALL');
+    });
+    
+    it('should reject decks above maximum size', () => {
+      const deck = createValidDeck();
+      deck.cardIds.push(...repeat('card_005', 3), ...repeat('card_009', 2), ...repeat('card_007', 2), ...repeat('card_006', 3), 'card_010');
+      
+      expect(errorCodes(deck)).toContain('TOO_LARGE');
+    });
+    
+    it('should enforce rarity copy limits', () => {
+      const deck = createValidDeck();
+      deck.cardIds.push('card_010', 'card_010');
+      
+      const result = validateDeck(deck, database);
+      const copyError = result.errors.find(e => e.code === 'COPY_LIMIT');
+      
+      expect(copyError?.cardId).toBe('card_010');
+    });
+    
+    it('should reject unknown cards', () => {
+      const deck = createValidDeck();
+      deck.cardIds[0] = 'card_missing';
+      
+      expect(errorCodes(deck)).toContain('UNKNOWN_CARD');
+    });
+    
+    it('should reject cards not owned in the collection', () => {
+      const collection = createStarterCollection(database);
+      collection.card_001 = 1;
+      
+      expect(errorCodes(createValidDeck(), collection)).toContain('NOT_OWNED');
+    });
+    
+    it('should enforce type ratios', () => {
+      const deck: Deck = {
+        id: 'deck_defense',
+        name: 'Mostly Defense',
+        cardIds: [
+          ...repeat('card_002', 4),
+          ...repeat('card_005', 3),
+          ...repeat('card_009', 2),
+          ...repeat('card_007', 2),
+          'card_010',
+          ...repeat('card_001', 2),
+        ],
+      };
+      const rules = { ...DEFAULT_DECK_RULES, minSize: 10 };
+      
+      // 2 attack cards out of 14 is below the 25% minimum
+      const result = validateDeck(deck, database, rules);
+      expect(result.errors.map(e => e.code)).toEqual(['TYPE_RATIO']);
+      expect(result.errors[0].message).toContain('attack');
+    });
+  });
+  
+  describe('deck editing', () => {
+    it('should add and remove single copies', () => {
+      let deck = createEmptyDeck('Edit');
+      deck = addCardToDeck(deck, 'card_001');
+      deck = addCardToDeck(deck, 'card_001');
+      deck = addCardToDeck(deck, 'card_002');
+      
+      expect(countCards(deck.cardIds)).toEqual({ card_001: 2, card_002: 1 });
+      
+      deck = removeCardFromDeck(deck, 'card_001');
+      expect(countCards(deck.cardIds)).toEqual({ card_001: 1, card_002: 1 });
+      
+      expect(removeCardFromDeck(deck, 'card_999')).toBe(deck);
+    });
+    
+    it('should stop adding at the copy limit and collection count', () => {
+      const legendary = getCardById(database, 'card_010')!;
+      const deck = addCardToDeck(createEmptyDeck('Limit'), 'card_010');
+      
+      expect(canAddCard(deck, legendary)).toBe(false);
+      
+      const common = getCardById(database, 'card_001')!;
+      expect(canAddCard(deck, common, DEFAULT_DECK_RULES, { card_001: 0 })).toBe(false);
+      expect(canAddCard(deck, common, DEFAULT_DECK_RULES, { card_001: 1 })).toBe(true);
+    });
+  });
+  
+  describe('getDeckRules', () => {
+    it('should size decks to the rule set and keep the other limits', () => {
+      const rules = getDeckRules(12);
+      
+      expect(rules.minSize).toBe(12);
+      expect(rules.maxSize).toBe(12);
+      expect(rules.copyLimits).toEqual(DEFAULT_DECK_RULES.copyLimits);
+      expect(validateDeck(createValidDeck(), database, rules).errors.map(e => e.code)).toEqual(['TOO_LARGE']);
+    });
+  });
+  
+  describe('createStarterCollection', () => {
+    it('should own every card up to its copy limit', () => {
+      const collection = createStarterCollection(database);
+      
+      expect(collection.card_001).toBe(4);
+      expect(collection.card_010).toBe(1);
+      expect(Object.keys(collection)).toHaveLength(database.cards.length);
+    });
+  });
+  
+  describe('buildMatchDeck', () => {
+    it('should resolve card IDs into a shuffled deck', () => {
+      const deck = createValidDeck();
+      const cards = buildMatchDeck(deck, database, new SeededRandom(1));
+      
+      expect(cards).toHaveLength(20);
+      expect(cards.map(c => c.id).sort()).toEqual([...deck.cardIds].sort());
+    });
+    
+    it('should be reproducible with the same seed', () => {
+      const deck = createValidDeck();
+      
+      const first = buildMatchDeck(deck, database, new SeededRandom(9));
+      const second = buildMatchDeck(deck, database, new SeededRandom(9));
+      
+      expect(first.map(c => c.id)).toEqual(second.map(c => c.id));
+    });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Deck Builder System
+ *
+ * Deck model, card collection and the rules a named deck must satisfy
+ * before it can be taken into a match.
+ */
+
+import type { Card } from '@/types';
+import type { CardDatabase } from '@/data/cardSchema';
+import { getCardById, shuffleDeck } from './CardSystem';
+import type { RandomSource } from './SeededRandom';
+import { mathRandom } from './SeededRandom';
+
+export interface Deck {
+  id: string;
+  name: string;
+  cardIds: string[];
+}
+
+/**
+ * Owned copies per card ID
+ */
+export type CardCollection = Record<string, number>;
+
+export interface TypeRatio {
+  min?: number; // Minimum share of the deck (0-1)
+  max?: number; // Maximum share of the deck (0-1)
+}
+
+export interface DeckRules {
+  minSize: number;
+  maxSize: number;
+  copyLimits: Record<Card['rarity'], number>;
+  typeRatios: Record<string, TypeRatio>;
+}
+
+export const DEFAULT_DECK_RULES: DeckRules = {
+  minSize: 20,
+  maxSize: 30,
+  copyLimits: {
+    common: 4,
+    rare: 3,
+    epic: 2,
+    legendary: 1,
+  },
+  typeRatios: {
+    attack: { min: 0.25 },
+    defense: { min: 0.15 },
+    special: { max: 0.25 },
+  },
+};
+
+/**
+ * Deck limits for a rule set, whose matches deal exactly its deck size
+ */
+export function getDeckRules(deckSize: number, rules: DeckRules = DEFAULT_DECK_RULES): DeckRules {
+  return { ...rules, minSize: deckSize, maxSize: deckSize };
+}
+
+export type DeckValidationErrorCode =
+  | 'TOO_SMALL'
+  | 'TOO_LARGE'
+  | 'UNKNOWN_CARD'
+  | 'COPY_LIMIT'
+  | 'NOT_OWNED'
+  | 'TYPE_RATIO';
+
+export interface DeckValidationError {
+  code: DeckValidationErrorCode;
+  message: string;
+  cardId?: string;
+}
+
+export interface DeckValidationResult {
+  valid: boolean;
+  errors: DeckValidationError[];
+}
+
+/**
+ * Count copies of each card ID in a deck
+ */
+export function countCards(cardIds: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const id of cardIds) {
+    counts[id] = (counts[id] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Validate a deck against the rules and (optionally) the owned collection
+ */
+export function validateDeck(
+  deck: Deck,
+  database: CardDatabase,
+  rules: DeckRules = DEFAULT_DECK_RULES,
+  collection?: CardCollection
+): DeckValidationResult {
+  const errors: DeckValidationError[] = [];
+  const size = deck.cardIds.length;
+
+  if (size < rules.minSize) {
+    errors.push({
+      code: 'TOO_SMALL',
+      message: `Deck has ${size} cards, minimum is ${rules.minSize}`,
+    });
+  }
+
+  if (size > rules.maxSize) {
+    errors.push({
+      code: 'TOO_LARGE',
+      message: `Deck has ${size} cards, maximum is ${rules.maxSize}`,
+    });
+  }
+
+  const typeCounts: Record<string, number> = {};
+
+  for (const [cardId, count] of Object.entries(countCards(deck.cardIds))) {
+    const card = getCardById(database, cardId);
+    if (!card) {
+      errors.push({ code: 'UNKNOWN_CARD', message: `Unknown card: ${cardId}`, cardId });
+      continue;
+    }
+
+    const limit = rules.copyLimits[card.rarity];
+    if (count > limit) {
+      errors.push({
+        code: 'COPY_LIMIT',
+        message: `${card.name} has ${count} copies, ${card.rarity} limit is ${limit}`,
+        cardId,
+      });
+    }
+
+    if (collection && count > (collection[cardId] || 0)) {
+      errors.push({
+        code: 'NOT_OWNED',
+        message: `${card.name} needs ${count} copies, ${collection[cardId] || 0} owned`,
+        cardId,
+      });
+    }
+
+    typeCounts[card.type] = (typeCounts[card.type] || 0) + count;
+  }
+
+  if (size > 0) {
+    for (const [type, ratio] of Object.entries(rules.typeRatios)) {
+      const share = (typeCounts[type] || 0) / size;
+
+      if (ratio.min !== undefined && share < ratio.min) {
+        errors.push({
+          code: 'TYPE_RATIO',
+          message: `${type} cards are ${Math.round(share * 100)}% of the deck, minimum is ${Math.round(ratio.min * 100)}%`,
+        });
+      }
+
+      if (ratio.max !== undefined && share > ratio.max) {
+        errors.push({
+          code: 'TYPE_RATIO',
+          message: `${type} cards are ${Math.round(share * 100)}% of the deck, maximum is ${Math.round(ratio.max * 100)}%`,
+        });
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Check whether one more copy of a card can be added to the deck
+ */
+export function canAddCard(
+  deck: Deck,
+  card: Card,
+  rules: DeckRules = DEFAULT_DECK_RULES,
+  collection?: CardCollection
+): boolean {
+  if (deck.cardIds.length >= rules.maxSize) return false;
+
+  const copies = deck.cardIds.filter((id) => id === card.id).length;
+  if (copies >= rules.copyLimits[card.rarity]) return false;
+  if (collection && copies >= (collection[card.id] || 0)) return false;
+
+  return true;
+}
+
+/**
+ * Add one copy of a card to a deck
+ */
+export function addCardToDeck(deck: Deck, cardId: string): Deck {
+  return { ...deck, cardIds: [...deck.cardIds, cardId] };
+}
+
+/**
+ * Remove one copy of a card from a deck
+ */
+export function removeCardFromDeck(deck: Deck, cardId: string): Deck {
+  const index = deck.cardIds.lastIndexOf(cardId);
+  if (index === -1) return deck;
+
+  return {
+    ...deck,
+    cardIds: deck.cardIds.filter((_, i) => i !== index),
+  };
+}
+
+/**
+ * Create an empty named deck
+ */
+export function createEmptyDeck(name: string): Deck {
+  return {
+    id: `deck_${Date.now().toString(36)}`,
+    name,
+    cardIds: [],
+  };
+}
+
+/**
+ * Starter collection: every card in the database up to its rarity copy limit
+ */
+export function createStarterCollection(
+  database: CardDatabase,
+  rules: DeckRules = DEFAULT_DECK_RULES
+): CardCollection {
+  const collection: CardCollection = {};
+  for (const card of database.cards) {
+    collection[card.id] = rules.copyLimits[card.rarity];
+  }
+  return collection;
+}
+
+/**
+ * Resolve a deck's card IDs into a shuffled list of cards for a match
+ * Unknown IDs are skipped
+ */
+export function buildMatchDeck(
+  deck: Deck,
+  database: CardDatabase,
+  rng: RandomSource = mathRandom
+): Card[] {
+  const cards = deck.cardIds
+    .map((id) => getCardById(database, id))
+    .filter((card): card is Card => card !== null);
+
+  return shuffleDeck(cards, rng);
+}
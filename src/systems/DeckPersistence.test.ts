@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  LocalStorageDeckPersistence,
+  loadActiveDeck,
+  validateDeckData,
+  validateCollectionData,
+} from './DeckPersistence';
+import type { Deck } from './DeckBuilder';
+
+describe('LocalStorageDeckPersistence', () => {
+  let persistence: LocalStorageDeckPersistence;
+  const deck: Deck = { id: 'deck_1', name: 'Aggro', cardIds: ['card_001', 'card_004'] };
+
+  beforeEach(() => {
+    persistence = new LocalStorageDeckPersistence();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  describe('decks', () => {
+    it('should save and load decks', () => {
+      persistence.saveDeck(deck);
+
+      expect(persistence.loadDecks()).toEqual([deck]);
+    });
+
+    it('should overwrite a deck with the same ID', () => {
+      persistence.saveDeck(deck);
+      persistence.saveDeck({ ...deck, name: 'Renamed' });
+
+      const decks = persistence.loadDecks();
+      expect(decks).toHaveLength(1);
+      expect(decks[0].name).toBe('Renamed');
+    });
+
+    it('should delete decks and clear the active deck', () => {
+      persistence.saveDeck(deck);
+      persistence.setActiveDeckId(deck.id);
+
+      persistence.deleteDeck(deck.id);
+
+      expect(persistence.loadDecks()).toEqual([]);
+      expect(persistence.getActiveDeckId()).toBeNull();
+    });
+
+    it('should load the active deck while it is saved', () => {
+      persistence.saveDeck(deck);
+      expect(loadActiveDeck(persistence)).toBeNull();
+
+      persistence.setActiveDeckId(deck.id);
+      expect(loadActiveDeck(persistence)).toEqual(deck);
+
+      persistence.deleteDeck(deck.id);
+      expect(loadActiveDeck(persistence)).toBeNull();
+    });
+
+    it('should return empty list when nothing is stored', () => {
+      expect(persistence.loadDecks()).toEqual([]);
+    });
+
+    it('should drop corrupt decks and keep valid ones', () => {
+      localStorage.setItem('card_decks', JSON.stringify([deck, { id: 5 }]));
+
+      expect(persistence.loadDecks()).toEqual([deck]);
+    });
+
+    it('should upgrade legacy card IDs', () => {
+      localStorage.setItem('card_decks', JSON.stringify([{ ...deck, cardIds: ['1', 'card_004'] }]));
+
+      expect(persistence.loadDecks()[0].cardIds).toEqual(['card_001', 'card_004']);
+    });
+
+    it('should handle invalid JSON', () => {
+      localStorage.setItem('card_decks', 'not json');
+
+      expect(persistence.loadDecks()).toEqual([]);
+    });
+  });
+
+  describe('collection', () => {
+    it('should save and load the collection', () => {
+      persistence.saveCollection({ card_001: 2 });
+
+      expect(persistence.loadCollection()).toEqual({ card_001: 2 });
+    });
+
+    it('should reject invalid collection data', () => {
+      localStorage.setItem('card_collection', JSON.stringify({ card_001: -1 }));
+
+      expect(persistence.loadCollection()).toBeNull();
+    });
+
+    it('should upgrade legacy card IDs', () => {
+      localStorage.setItem('card_collection', JSON.stringify({ '1': 2, card_001: 1, card_004: 3 }));
+
+      expect(persistence.loadCollection()).toEqual({ card_001: 3, card_004: 3 });
+    });
+  });
+
+  describe('validation', () => {
+    it('should validate deck data', () => {
+      expect(validateDeckData(deck)).toBe(true);
+      expect(validateDeckData({ ...deck, cardIds: [1] })).toBe(false);
+      expect(validateDeckData(null)).toBe(false);
+    });
+
+    it('should validate collection data', () => {
+      expect(validateCollectionData({ a: 1, b: 0 })).toBe(true);
+      expect(validateCollectionData([])).toBe(false);
+      expect(validateCollectionData({ a: 1.5 })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import type { Deck, CardCollection } from './DeckBuilder';
+import { resolveLegacyCardId } from '@/data/cardMigrations';
+
+export interface DeckPersistence {
+  saveDeck(deck: Deck): void;
+  loadDecks(): Deck[];
+  deleteDeck(deckId: string): void;
+  saveCollection(collection: CardCollection): void;
+  loadCollection(): CardCollection | null;
+  setActiveDeckId(deckId: string | null): void;
+  getActiveDeckId(): string | null;
+}
+
+export function validateDeckData(data: any): data is Deck {
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  if (typeof data.id !== 'string' || data.id.length === 0) {
+    return false;
+  }
+
+  if (typeof data.name !== 'string') {
+    return false;
+  }
+
+  return Array.isArray(data.cardIds) && data.cardIds.every((id: unknown) => typeof id === 'string');
+}
+
+export function validateCollectionData(data: any): data is CardCollection {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return false;
+  }
+
+  return Object.values(data).every(
+    (count) => typeof count === 'number' && Number.isInteger(count) && count >= 0
+  );
+}
+
+/**
+ * The deck last picked in the deck builder, if it is still saved
+ */
+export function loadActiveDeck(persistence: DeckPersistence): Deck | null {
+  const activeId = persistence.getActiveDeckId();
+  return persistence.loadDecks().find((deck) => deck.id === activeId) ?? null;
+}
+
+export class LocalStorageDeckPersistence implements DeckPersistence {
+  private readonly DECKS_KEY = 'card_decks';
+  private readonly COLLECTION_KEY = 'card_collection';
+  private readonly ACTIVE_DECK_KEY = 'card_active_deck';
+
+  saveDeck(deck: Deck): void {
+    try {
+      const decks = this.loadDecks().filter((d) => d.id !== deck.id);
+      decks.push(deck);
+      localStorage.setItem(this.DECKS_KEY, JSON.stringify(decks));
+    } catch (error) {
+      console.warn('Failed to save deck:', error);
+    }
+  }
+
+  loadDecks(): Deck[] {
+    try {
+      const serialized = localStorage.getItem(this.DECKS_KEY);
+      if (!serialized) {
+        return [];
+      }
+
+      const parsed = JSON.parse(serialized);
+      if (!Array.isArray(parsed)) {
+        console.warn('Invalid deck data in localStorage, ignoring');
+        return [];
+      }
+
+      // Drop individual corrupt decks rather than losing all of them,
+      // and upgrade card IDs saved against an older card database
+      return parsed.filter(validateDeckData).map((deck) => ({
+        ...deck,
+        cardIds: deck.cardIds.map(resolveLegacyCardId),
+      }));
+    } catch (error) {
+      console.warn('Failed to load decks:', error);
+      return [];
+    }
+  }
+
+  deleteDeck(deckId: string): void {
+    try {
+      const decks = this.loadDecks().filter((d) => d.id !== deckId);
+      localStorage.setItem(this.DECKS_KEY, JSON.stringify(decks));
+
+      if (this.getActiveDeckId() === deckId) {
+        this.setActiveDeckId(null);
+      }
+    } catch (error) {
+      console.warn('Failed to delete deck:', error);
+    }
+  }
+
+  saveCollection(collection: CardCollection): void {
+    try {
+      localStorage.setItem(this.COLLECTION_KEY, JSON.stringify(collection));
+    } catch (error) {
+      console.warn('Failed to save card collection:', error);
+    }
+  }
+
+  loadCollection(): CardCollection | null {
+    try {
+      const serialized = localStorage.getItem(this.COLLECTION_KEY);
+      if (!serialized) {
+        return null;
+      }
+
+      const parsed = JSON.parse(serialized);
+      if (!validateCollectionData(parsed)) {
+        console.warn('Invalid collection data in localStorage, ignoring');
+        return null;
+      }
+
+      // Upgrade card IDs saved against an older card database, merging
+      // counts already held under the current ID
+      const collection: CardCollection = {};
+      for (const [cardId, count] of Object.entries(parsed)) {
+        const currentId = resolveLegacyCardId(cardId);
+        collection[currentId] = (collection[currentId] ?? 0) + count;
+      }
+      return collection;
+    } catch (error) {
+      console.warn('Failed to load card collection:', error);
+      return null;
+    }
+  }
+
+  setActiveDeckId(deckId: string | null): void {
+    try {
+      if (deckId === null) {
+        localStorage.removeItem(this.ACTIVE_DECK_KEY);
+      } else {
+        localStorage.setItem(this.ACTIVE_DECK_KEY, deckId);
+      }
+    } catch (error) {
+      console.warn('Failed to save active deck:', error);
+    }
+  }
+
+  getActiveDeckId(): string | null {
+    try {
+      return localStorage.getItem(this.ACTIVE_DECK_KEY);
+    } catch (error) {
+      console.warn('Failed to load active deck:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as THREE from 'three';
+import { GLTFAvatarBuilderImpl } from './GLTFAvatarBuilder';
+import type { GLTFAvatarRig } from './GLTFAvatarBuilder';
+import { AssetLoader } from './AssetLoader';
+import { createGLTFAvatarDependencies } from './AvatarSystemDI';
+import { defaultAccessoryRegistry } from './AccessoryRegistry';
+import type { CustomizationData } from '@/types';
+
+describe('GLTFAvatarBuilder', () => {
+  const rig: GLTFAvatarRig = {
+    url: '/models/knight.glb',
+    materials: { skin: ['Skin'], clothing: ['Tunic', 'Boots'] },
+    bones: { head: 'Head', rightHand: 'HandR' },
+    scale: 0.5,
+  };
+
+  const customization: CustomizationData = {
+    bodyParts: { head: 'default', torso: 'default', arms: 'default', legs: 'default' },
+    colors: { skin: '#ffdbac', hair: '#8b4513', clothing: '#4169e1' },
+    accessories: { hat: 'crown', weapon: 'sword' },
+  };
+
+  // Skinned body with a skin and a tunic material, plus unrigged boots
+  const createModel = () => {
+    const hips = new THREE.Bone();
+    hips.name = 'Hips';
+    const head = new THREE.Bone();
+    head.name = 'Head';
+    const hand = new THREE.Bone();
+    hand.name = 'HandR';
+    hips.add(head, hand);
+
+    const body = new THREE.SkinnedMesh(new THREE.BoxGeometry(), [
+      new THREE.MeshStandardMaterial({ name: 'Skin', color: 0xffffff }),
+      new THREE.MeshStandardMaterial({ name: 'Tunic', color: 0xffffff }),
+    ]);
+    body.name = 'Body';
+    body.add(hips);
+    body.bind(new THREE.Skeleton([hips, head, hand]));
+
+    const boots = new THREE.Mesh(
+      new THREE.BoxGeometry(),
+      new THREE.MeshStandardMaterial({ name: 'Boots', color: 0xffffff })
+    );
+    boots.name = 'Boots';
+
+    const scene = new THREE.Group();
+    scene.add(body, boots);
+    return scene;
+  };
+
+  const colorOf = (material: THREE.Material) => (material as THREE.MeshStandardMaterial).color.getHexString();
+
+  let assetLoader: AssetLoader;
+  let model: THREE.Group;
+  let builder: GLTFAvatarBuilderImpl;
+
+  beforeEach(() => {
+    assetLoader = new AssetLoader();
+    model = createModel();
+    vi.spyOn(assetLoader, 'loadAsset').mockResolvedValue({ scene: model, animations: [] });
+    builder = new GLTFAvatarBuilderImpl(rig, assetLoader);
+  });
+
+  describe('loading', () => {
+    it('should build procedural avatars until the model loads', () => {
+      const avatar = builder.buildAvatar(customization);
+
+      expect(builder.isLoaded()).toBe(false);
+      expect(avatar.getObjectByName('head')).toBeInstanceOf(THREE.Mesh);
+    });
+
+    it('should load the model once through the asset loader', async () => {
+      await builder.load();
+      await builder.load();
+
+      expect(assetLoader.loadAsset).toHaveBeenCalledTimes(1);
+      expect(assetLoader.loadAsset).toHaveBeenCalledWith('/models/knight.glb', 'gltf');
+      expect(builder.isLoaded()).toBe(true);
+    });
+
+    it('should report a failed load and retry next time', async () => {
+      vi.mocked(assetLoader.loadAsset).mockRejectedValueOnce(new Error('Not found'));
+
+      await expect(builder.load()).rejects.toThrow('Failed to load avatar model /models/knight.glb: Not found');
+      expect(builder.isLoaded()).toBe(false);
+
+      await builder.load();
+      expect(builder.isLoaded()).toBe(true);
+    });
+  });
+
+  describe('building', () => {
+    beforeEach(async () => {
+      await builder.load();
+    });
+
+    it('should clone the character with its own skeleton', () => {
+      const first = builder.buildAvatar(customization);
+      const second = builder.buildAvatar(customization);
+
+      const firstBody = first.getObjectByName('Body') as THREE.SkinnedMesh;
+      const secondBody = second.getObjectByName('Body') as THREE.SkinnedMesh;
+
+      expect(first.name).toBe('avatar');
+      expect(first.getObjectByName('character')!.scale.x).toBe(0.5);
+      expect(firstBody).toBeInstanceOf(THREE.SkinnedMesh);
+      expect(firstBody.skeleton.bones[1]).toBe(first.getObjectByName('Head'));
+      expect(firstBody.skeleton).not.toBe(secondBody.skeleton);
+      expect(model.getObjectByName('Head')!.children).toHaveLength(0);
+    });
+
+    it('should tint the named materials with the customization colours', () => {
+      const avatar = builder.buildAvatar(customization);
+
+      const [skin, tunic] = (avatar.getObjectByName('Body') as THREE.SkinnedMesh).material as THREE.Material[];
+      const boots = (avatar.getObjectByName('Boots') as THREE.Mesh).material as THREE.Material;
+
+      expect(colorOf(skin)).toBe('ffdbac');
+      expect(colorOf(tunic)).toBe('4169e1');
+      expect(colorOf(boots)).toBe('4169e1');
+      expect(colorOf(((model.getObjectByName('Body') as THREE.SkinnedMesh).material as THREE.Material[])[0])).toBe(
+        'ffffff'
+      );
+    });
+
+    it('should share tinted materials between avatars of the same colours', () => {
+      const first = builder.buildAvatar(customization);
+      const second = builder.buildAvatar(customization);
+      const third = builder.buildAvatar({ ...customization, colors: { ...customization.colors, skin: '#000000' } });
+
+      const skinOf = (avatar: THREE.Group) =>
+        ((avatar.getObjectByName('Body') as THREE.SkinnedMesh).material as THREE.Material[])[0];
+
+      expect(skinOf(first)).toBe(skinOf(second));
+      expect(colorOf(skinOf(third))).toBe('000000');
+    });
+
+    it('should hang accessories from the attachment bones', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const avatar = builder.buildAvatar({
+        ...customization,
+        accessories: { ...customization.accessories, shield: 'round' },
+      });
+
+      const crown = avatar.getObjectByName('accessory_crown_head')!;
+      const sword = avatar.getObjectByName('accessory_sword_rightHand')!;
+
+      expect(crown.parent!.name).toBe('Head');
+      expect(crown.position.toArray()).toEqual(defaultAccessoryRegistry.getAttachment('crown').position);
+      expect(sword.parent!.name).toBe('HandR');
+
+      // No left hand bone in the rig, so the shield keeps its procedural place
+      const shield = avatar.getObjectByName('accessory_round_leftHand')!;
+      expect(shield.parent).toBe(avatar);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('no bone for leftHand'));
+      warn.mockRestore();
+    });
+
+    it('should plug into the avatar system dependencies', () => {
+      const dependencies = createGLTFAvatarDependencies(rig, assetLoader);
+
+      expect(dependencies.avatarBuilderFactory!()).toBeInstanceOf(GLTFAvatarBuilderImpl);
+    });
+
+    it('should dispose tinted materials when the cache is cleared', () => {
+      const avatar = builder.buildAvatar({ ...customization, accessories: {} });
+      const skin = ((avatar.getObjectByName('Body') as THREE.SkinnedMesh).material as THREE.Material[])[0];
+      const dispose = vi.spyOn(skin, 'dispose');
+
+      builder.clearCache();
+
+      expect(dispose).toHaveBeenCalled();
+    });
+  });
+});
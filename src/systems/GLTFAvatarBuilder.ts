@@ -0,0 +1,170 @@
+/**
+ * glTF Avatar Builder
+ *
+ * Builds avatars from a rigged glTF character instead of primitives. The
+ * model loads once through the AssetLoader and each avatar is a clone with
+ * its own skeleton. Customization colours tint the materials the rig names
+ * for each colour, and accessories hang from the rig's attachment bones.
+ * Until the model has loaded, avatars come from the procedural builder, so
+ * the scene never waits on the download.
+ */
+
+import * as THREE from 'three';
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import type { CustomizationData } from '@/types';
+import { AssetLoader } from './AssetLoader';
+import { AvatarMeshBuilderImpl, ACCESSORY_ATTACH_POINTS } from './AvatarMeshBuilder';
+import type { AccessorySlot } from '@/data/accessorySchema';
+import type { AttachPoint, AvatarBuilder } from './AvatarMeshBuilder';
+
+export type ColorSlot = keyof CustomizationData['colors'];
+
+export interface GLTFAvatarRig {
+  url: string;
+  materials: Partial<Record<ColorSlot, string[]>>; // Material names tinted by each colour
+  bones: Partial<Record<AttachPoint, string>>; // Bone each attach point hangs from
+  scale?: number; // Uniform scale to match the procedural avatars' height
+}
+
+type TintableMaterial = THREE.Material & { color: THREE.Color };
+
+const isTintable = (material: THREE.Material): material is TintableMaterial =>
+  (material as Partial<TintableMaterial>).color instanceof THREE.Color;
+
+export class GLTFAvatarBuilderImpl implements AvatarBuilder {
+  private rig: GLTFAvatarRig;
+  private assetLoader: AssetLoader;
+  private fallback: AvatarMeshBuilderImpl;
+  private model: THREE.Object3D | null = null;
+  private loading: Promise<void> | null = null;
+  private colorSlots: Map<string, ColorSlot>; // Material name to colour
+  private materialCache: Map<string, THREE.Material> = new Map();
+
+  constructor(rig: GLTFAvatarRig, assetLoader?: AssetLoader, fallback?: AvatarMeshBuilderImpl) {
+    this.rig = rig;
+    this.assetLoader = assetLoader ?? new AssetLoader();
+    this.fallback = fallback ?? new AvatarMeshBuilderImpl();
+    this.colorSlots = new Map(
+      (Object.entries(rig.materials) as Array<[ColorSlot, string[]]>).flatMap(([slot, names]) =>
+        names.map((name): [string, ColorSlot] => [name, slot])
+      )
+    );
+  }
+
+  /**
+   * Load the character model
+   * Loading again after a success does nothing; after a failure it retries
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.assetLoader.loadAsset(this.rig.url, 'gltf').then(
+        (gltf) => {
+          this.model = gltf.scene;
+        },
+        (error) => {
+          this.loading = null;
+          throw new Error(`Failed to load avatar model ${this.rig.url}: ${(error as Error).message}`);
+        }
+      );
+    }
+    return this.loading;
+  }
+
+  isLoaded(): boolean {
+    return this.model !== null;
+  }
+
+  buildAvatar(customization: CustomizationData): THREE.Group {
+    if (!this.model) {
+      return this.fallback.buildAvatar(customization);
+    }
+
+    // The character sits in its own group so animation can move the avatar
+    // without touching the rig's root transform
+    const avatarGroup = new THREE.Group();
+    avatarGroup.name = 'avatar';
+
+    const character = cloneSkinned(this.model);
+    character.name = 'character';
+    character.scale.multiplyScalar(this.rig.scale ?? 1);
+    character.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        object.castShadow = true;
+        object.receiveShadow = true;
+      }
+    });
+    avatarGroup.add(character);
+
+    this.applyColors(character, customization.colors);
+    this.attachAccessories(avatarGroup, character, customization.accessories);
+
+    return avatarGroup;
+  }
+
+  clearCache(): void {
+    this.materialCache.forEach((material) => {
+      material.dispose();
+    });
+    this.materialCache.clear();
+    this.fallback.clearCache();
+  }
+
+  /**
+   * Swap each named material for a tinted copy; the loaded model's
+   * materials are shared by every clone and stay untouched
+   */
+  private applyColors(character: THREE.Object3D, colors: CustomizationData['colors']): void {
+    character.traverse((object) => {
+      if (!(object instanceof THREE.Mesh)) return;
+
+      if (Array.isArray(object.material)) {
+        object.material = object.material.map((material) => this.tint(material, colors));
+      } else {
+        object.material = this.tint(object.material, colors);
+      }
+    });
+  }
+
+  private tint(material: THREE.Material, colors: CustomizationData['colors']): THREE.Material {
+    const slot = this.colorSlots.get(material.name);
+    if (!slot || !isTintable(material)) {
+      return material;
+    }
+
+    const color = colors[slot];
+    const key = `${material.name}_${color}`;
+    if (!this.materialCache.has(key)) {
+      const tinted = material.clone() as TintableMaterial;
+      tinted.color.set(color);
+      this.materialCache.set(key, tinted);
+    }
+    return this.materialCache.get(key)!;
+  }
+
+  private attachAccessories(
+    avatarGroup: THREE.Group,
+    character: THREE.Object3D,
+    accessories: CustomizationData['accessories']
+  ): void {
+    (Object.keys(ACCESSORY_ATTACH_POINTS) as AccessorySlot[]).forEach((slot) => {
+      const type = accessories[slot];
+      if (!type) return;
+
+      const attachPoint = ACCESSORY_ATTACH_POINTS[slot];
+      const accessory = this.fallback.buildAccessory(type, attachPoint);
+      const boneName = this.rig.bones[attachPoint];
+      const bone = boneName ? character.getObjectByName(boneName) : undefined;
+
+      if (!bone) {
+        // Keep the procedural placement rather than lose the accessory
+        console.warn(`Avatar model has no bone for ${attachPoint}; placing ${type} on the avatar`);
+        avatarGroup.add(accessory);
+        return;
+      }
+
+      // Offset from the bone rather than from the procedural attach point
+      accessory.position.fromArray(this.fallback.getAccessoryRegistry().getAttachment(type).position);
+      bone.add(accessory);
+    });
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_HAND_RULES,
+  createHandRules,
+  drawCards,
+  enforceHandLimit,
+  getNextFatigueDamage,
+  getRefillCount,
+} from './HandRules';
+import { createActiveEffects } from './CardEffects';
+import type { Combatant } from './CardEffects';
+import type { Card } from '@/types';
+
+describe('HandRules', () => {
+  const createCard = (id: string): Card => ({
+    id,
+    name: `Card ${id}`,
+    type: 'attack',
+    rarity: 'common',
+    stats: { attack: 5, defense: 5, speed: 5 },
+    artwork: '/test.png',
+  });
+
+  const createCombatant = (handSize: number, deckSize: number): Combatant => ({
+    hp: 50,
+    maxHP: 100,
+    hand: Array.from({ length: handSize }, (_, i) => createCard(`h${i}`)),
+    deck: Array.from({ length: deckSize }, (_, i) => createCard(`d${i}`)),
+    effects: { ...createActiveEffects(), shield: 10 },
+  });
+
+  describe('createHandRules', () => {
+    it('should default to the classic refill rules', () => {
+      expect(createHandRules()).toEqual(DEFAULT_HAND_RULES);
+      expect(DEFAULT_HAND_RULES.refillHand).toBe(true);
+      expect(DEFAULT_HAND_RULES.fatigueDamage).toBe(0);
+    });
+
+    it('should sanitize counts', () => {
+      const rules = createHandRules({ drawPerTurn: 1.8, maxHandSize: 0, fatigueDamage: -3 });
+
+      expect(rules.drawPerTurn).toBe(1);
+      expect(rules.maxHandSize).toBe(1);
+      expect(rules.fatigueDamage).toBe(0);
+    });
+
+    it('should ignore non-finite values', () => {
+      expect(createHandRules({ maxHandSize: NaN }).maxHandSize).toBe(DEFAULT_HAND_RULES.maxHandSize);
+    });
+  });
+
+  describe('drawCards', () => {
+    const rules = createHandRules({ maxHandSize: 5, fatigueDamage: 2 });
+
+    it('should draw from the top of the deck', () => {
+      const result = drawCards(createCombatant(2, 5), 2, rules, 0);
+
+      expect(result.drawn.map((c) => c.id)).toEqual(['d0', 'd1']);
+      expect(result.combatant.hand).toHaveLength(4);
+      expect(result.combatant.deck).toHaveLength(3);
+      expect(result.fatigueDamage).toBe(0);
+    });
+
+    it('should discard cards drawn into a full hand', () => {
+      const result = drawCards(createCombatant(4, 5), 3, rules, 0);
+
+      expect(result.combatant.hand).toHaveLength(5);
+      expect(result.discarded.map((c) => c.id)).toEqual(['d1', 'd2']);
+      expect(result.combatant.deck).toHaveLength(2);
+    });
+
+    it('should deal escalating fatigue damage from an empty deck', () => {
+      const result = drawCards(createCombatant(2, 1), 3, rules, 1);
+
+      // Second and third empty draws: 4 + 6
+      expect(result.fatigue).toBe(3);
+      expect(result.fatigueDamage).toBe(10);
+      expect(result.combatant.hp).toBe(40);
+    });
+
+    it('should ignore shields and stop at zero HP', () => {
+      const result = drawCards(createCombatant(0, 0), 10, rules, 0);
+
+      expect(result.combatant.hp).toBe(0);
+      expect(result.combatant.effects.shield).toBe(10);
+    });
+
+    it('should count fatigue without damage when it is disabled', () => {
+      const result = drawCards(createCombatant(0, 0), 2, DEFAULT_HAND_RULES, 0);
+
+      expect(result.fatigue).toBe(2);
+      expect(result.combatant.hp).toBe(50);
+    });
+  });
+
+  it('should predict the next fatigue damage', () => {
+    const rules = createHandRules({ fatigueDamage: 3 });
+
+    expect(getNextFatigueDamage(rules, 0)).toBe(3);
+    expect(getNextFatigueDamage(rules, 2)).toBe(9);
+  });
+
+  it('should refill only when the rules say so', () => {
+    const hand = createCombatant(3, 0).hand;
+
+    expect(getRefillCount(hand, DEFAULT_HAND_RULES)).toBe(2);
+    expect(getRefillCount(hand, createHandRules({ refillHand: false }))).toBe(0);
+  });
+
+  it('should discard the newest cards over the hand limit', () => {
+    const { combatant, discarded } = enforceHandLimit(createCombatant(7, 0), DEFAULT_HAND_RULES);
+
+    expect(combatant.hand.map((c) => c.id)).toEqual(['h0', 'h1', 'h2', 'h3', 'h4']);
+    expect(discarded.map((c) => c.id)).toEqual(['h5', 'h6']);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Hand Rules
+ *
+ * Configurable card draw for a match: cards drawn at the start of each
+ * turn, the most cards a hand may hold (anything drawn into a full hand
+ * is discarded), topping the hand up after each play, and fatigue damage
+ * for drawing from an empty deck.
+ */
+
+import type { Card } from '@/types';
+import type { Combatant } from './CardEffects';
+
+export interface HandRules {
+  drawPerTurn: number; // Cards drawn at the start of each turn
+  maxHandSize: number; // Cards drawn into a full hand are discarded
+  refillHand: boolean; // Draw back up to maxHandSize after each card played
+  fatigueDamage: number; // Damage of the first empty-deck draw; each later one deals this much more
+}
+
+/**
+ * Classic rules: refill to five cards after every play, no fatigue; a side
+ * left with no hand and no deck ends the match on HP
+ */
+export const DEFAULT_HAND_RULES: HandRules = {
+  drawPerTurn: 0,
+  maxHandSize: 5,
+  refillHand: true,
+  fatigueDamage: 0,
+};
+
+export interface DrawResult {
+  combatant: Combatant;
+  drawn: Card[];
+  discarded: Card[]; // Drawn while the hand was full
+  fatigue: number; // Empty-deck draws so far, including this draw
+  fatigueDamage: number; // HP lost to fatigue during this draw
+}
+
+const toCount = (value: number | undefined, fallback: number, min: number): number =>
+  value !== undefined && Number.isFinite(value) ? Math.max(min, Math.floor(value)) : fallback;
+
+/**
+ * Fill in and sanitize hand rules
+ * Counts are floored; the hand always holds at least one card
+ */
+export function createHandRules(overrides: Partial<HandRules> = {}): HandRules {
+  return {
+    drawPerTurn: toCount(overrides.drawPerTurn, DEFAULT_HAND_RULES.drawPerTurn, 0),
+    maxHandSize: toCount(overrides.maxHandSize, DEFAULT_HAND_RULES.maxHandSize, 1),
+    refillHand: overrides.refillHand ?? DEFAULT_HAND_RULES.refillHand,
+    fatigueDamage: toCount(overrides.fatigueDamage, DEFAULT_HAND_RULES.fatigueDamage, 0),
+  };
+}
+
+/**
+ * Damage the next empty-deck draw will deal after `fatigue` earlier ones
+ */
+export function getNextFatigueDamage(rules: HandRules, fatigue: number): number {
+  return rules.fatigueDamage * (fatigue + 1);
+}
+
+/**
+ * Draw cards from the top of the deck
+ * Cards drawn into a full hand are discarded; each draw from an empty deck
+ * adds one fatigue and deals escalating damage that ignores shields
+ */
+export function drawCards(
+  combatant: Combatant,
+  count: number,
+  rules: HandRules,
+  fatigue: number
+): DrawResult {
+  const hand = [...combatant.hand];
+  const drawn: Card[] = [];
+  const discarded: Card[] = [];
+  let deck = combatant.deck;
+  let nextFatigue = fatigue;
+  let fatigueDamage = 0;
+
+  for (let i = 0; i < count; i++) {
+    const [card, ...rest] = deck;
+    if (!card) {
+      fatigueDamage += getNextFatigueDamage(rules, nextFatigue);
+      nextFatigue++;
+      continue;
+    }
+
+    deck = rest;
+    if (hand.length >= rules.maxHandSize) {
+      discarded.push(card);
+    } else {
+      hand.push(card);
+      drawn.push(card);
+    }
+  }
+
+  return {
+    combatant: {
+      ...combatant,
+      hp: Math.max(0, combatant.hp - fatigueDamage),
+      hand,
+      deck,
+    },
+    drawn,
+    discarded,
+    fatigue: nextFatigue,
+    fatigueDamage,
+  };
+}
+
+/**
+ * Cards to draw after playing a card
+ */
+export function getRefillCount(hand: Card[], rules: HandRules): number {
+  return rules.refillHand ? Math.max(0, rules.maxHandSize - hand.length) : 0;
+}
+
+/**
+ * Discard the newest cards until the hand fits the limit
+ * Card effects that draw can push a hand past maxHandSize
+ */
+export function enforceHandLimit(
+  combatant: Combatant,
+  rules: HandRules
+): { combatant: Combatant; discarded: Card[] } {
+  if (combatant.hand.length <= rules.maxHandSize) {
+    return { combatant, discarded: [] };
+  }
+
+  return {
+    combatant: { ...combatant, hand: combatant.hand.slice(0, rules.maxHandSize) },
+    discarded: combatant.hand.slice(rules.maxHandSize),
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { determineTurnOrder } from './Initiative';
+import type { Card } from '@/types';
+
+describe('Initiative', () => {
+  const createCard = (id: string, speed: number, attack: number = 5): Card => ({
+    id,
+    name: `Card ${id}`,
+    type: 'attack',
+    rarity: 'common',
+    stats: { attack, defense: 2, speed },
+    artwork: '/test.png',
+  });
+  
+  it('should resolve the faster card first', () => {
+    expect(determineTurnOrder(createCard('p', 9), createCard('o', 3), 'player').order)
+      .toEqual(['player', 'opponent']);
+    expect(determineTurnOrder(createCard('p', 2), createCard('o', 8), 'player').order)
+      .toEqual(['opponent', 'player']);
+  });
+  
+  it('should break speed ties with attack', () => {
+    const result = determineTurnOrder(createCard('p', 5, 4), createCard('o', 5, 10), 'player');
+    
+    expect(result.order).toEqual(['opponent', 'player']);
+    expect(result.tieBreaker).toBe('player');
+  });
+  
+  it('should use and pass the tie-breaker token on a full tie', () => {
+    const first = determineTurnOrder(createCard('p', 5), createCard('o', 5), 'player');
+    expect(first.order).toEqual(['player', 'opponent']);
+    expect(first.tieBreaker).toBe('opponent');
+    
+    const second = determineTurnOrder(createCard('p', 5), createCard('o', 5), first.tieBreaker);
+    expect(second.order).toEqual(['opponent', 'player']);
+    expect(second.tieBreaker).toBe('player');
+  });
+  
+  it('should leave out a side without a card', () => {
+    expect(determineTurnOrder(createCard('p', 1), null, 'opponent').order).toEqual(['player']);
+    expect(determineTurnOrder(null, createCard('o', 1), 'player').order).toEqual(['opponent']);
+    expect(determineTurnOrder(null, null, 'player').order).toEqual([]);
+  });
+});
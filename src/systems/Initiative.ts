@@ -0,0 +1,48 @@
+/**
+ * Initiative System
+ *
+ * Decides which committed card resolves first in initiative combat.
+ * Order: higher speed, then higher attack, then whoever holds the
+ * tie-breaker token (which passes to the other side each time it is used).
+ */
+
+import type { Card, CombatSide } from '@/types';
+
+export interface TurnOrder {
+  order: CombatSide[];
+  tieBreaker: CombatSide; // Token holder for the next tie
+}
+
+/**
+ * Determine resolution order for the committed cards
+ * A side without a card (e.g. stunned) is left out of the order
+ */
+export function determineTurnOrder(
+  playerCard: Card | null,
+  opponentCard: Card | null,
+  tieBreaker: CombatSide
+): TurnOrder {
+  if (!playerCard && !opponentCard) {
+    return { order: [], tieBreaker };
+  }
+  if (!opponentCard) {
+    return { order: ['player'], tieBreaker };
+  }
+  if (!playerCard) {
+    return { order: ['opponent'], tieBreaker };
+  }
+
+  const speedDiff = playerCard.stats.speed - opponentCard.stats.speed;
+  if (speedDiff !== 0) {
+    return { order: speedDiff > 0 ? ['player', 'opponent'] : ['opponent', 'player'], tieBreaker };
+  }
+
+  const attackDiff = playerCard.stats.attack - opponentCard.stats.attack;
+  if (attackDiff !== 0) {
+    return { order: attackDiff > 0 ? ['player', 'opponent'] : ['opponent', 'player'], tieBreaker };
+  }
+
+  // Full tie - token holder goes first and passes the token on
+  const second: CombatSide = tieBreaker === 'player' ? 'opponent' : 'player';
+  return { order: [tieBreaker, second], tieBreaker: second };
+}
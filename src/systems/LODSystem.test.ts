@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { LODSystemImpl } from './LODSystem';
 import * as THREE from 'three';
 import { Avatar } from '../types';
+import { AvatarMeshBuilderImpl } from './AvatarMeshBuilder';
 
 describe('LODSystem', () => {
   let lodSystem: LODSystemImpl;
@@ -284,5 +285,159 @@ describe('LODSystem', () => {
       expect(accessoryCount).toBeGreaterThan(0);
       expect(hiddenAccessoryCount).toBe(accessoryCount);
     });
+
+    it('should follow the lowest detail level of registry accessories', () => {
+      const builder = new AvatarMeshBuilderImpl();
+      const cap = builder.buildAccessory('cap', 'head');
+      const sword = builder.buildAccessory('sword', 'rightHand');
+      const crown = builder.buildAccessory('crown', 'head');
+      mockAvatar.mesh.add(cap, sword, crown);
+
+      camera.position.set(0, 0, 10);
+      lodSystem.updateLOD(camera, [mockAvatar]);
+
+      expect(cap.visible).toBe(false);
+      expect(sword.visible).toBe(true);
+      expect(crown.visible).toBe(true);
+
+      camera.position.set(0, 0, 20);
+      lodSystem.updateLOD(camera, [mockAvatar]);
+
+      expect(sword.visible).toBe(false);
+      expect(crown.visible).toBe(true);
+      expect(mockAvatar.mesh.getObjectByName('head')!.visible).toBe(true);
+    });
+  });
+
+  describe('Hysteresis', () => {
+    it('should not switch back until the boundary is passed by the margin', () => {
+      camera.position.set(0, 0, 5.2);
+      lodSystem.updateLOD(camera, [mockAvatar]);
+      expect(lodSystem.getCurrentLODLevel('test-avatar')).toBe('medium');
+
+      // Just inside the near boundary, but not by 10%
+      camera.position.set(0, 0, 4.8);
+      lodSystem.updateLOD(camera, [mockAvatar]);
+      expect(lodSystem.getCurrentLODLevel('test-avatar')).toBe('medium');
+
+      camera.position.set(0, 0, 4.4);
+      lodSystem.updateLOD(camera, [mockAvatar]);
+      expect(lodSystem.getCurrentLODLevel('test-avatar')).toBe('high');
+
+      // Back out again needs 5.5
+      camera.position.set(0, 0, 5.2);
+      lodSystem.updateLOD(camera, [mockAvatar]);
+      expect(lodSystem.getCurrentLODLevel('test-avatar')).toBe('high');
+
+      camera.position.set(0, 0, 5.6);
+      lodSystem.updateLOD(camera, [mockAvatar]);
+      expect(lodSystem.getCurrentLODLevel('test-avatar')).toBe('medium');
+    });
+
+    it('should switch at the boundaries without hysteresis', () => {
+      lodSystem.setHysteresis(0);
+
+      camera.position.set(0, 0, 15.1);
+      lodSystem.updateLOD(camera, [mockAvatar]);
+      camera.position.set(0, 0, 14.9);
+      lodSystem.updateLOD(camera, [mockAvatar]);
+
+      expect(lodSystem.getCurrentLODLevel('test-avatar')).toBe('medium');
+    });
+
+    it('should reject a hysteresis outside 0 to 1', () => {
+      expect(() => lodSystem.setHysteresis(-0.1)).toThrow('LOD hysteresis must be at least 0 and less than 1');
+      expect(() => lodSystem.setHysteresis(1)).toThrow('LOD hysteresis must be at least 0 and less than 1');
+    });
+  });
+
+  describe('Built Avatars', () => {
+    const createBuiltAvatar = (id: string): Avatar => {
+      const customization = {
+        bodyParts: { head: 'default', torso: 'default', arms: 'default', legs: 'default' },
+        colors: { skin: '#ffdbac', hair: '#8b4513', clothing: '#4169e1' },
+        accessories: { hat: 'cap', weapon: 'sword', shield: 'round' },
+      };
+      return {
+        id,
+        mesh: new AvatarMeshBuilderImpl().buildAvatar(customization),
+        animationController: null,
+        customization,
+      };
+    };
+
+    const visibleGroups = (avatar: Avatar) => {
+      const children: THREE.Object3D[] = avatar.mesh.children;
+      const names = children.filter((child) => child.visible).map((child) => child.name);
+      return names.includes('head') ? ['full', ...names.filter((name) => name.startsWith('lod_'))] : names;
+    };
+
+    it('should show only the geometry for the level', () => {
+      const avatar = createBuiltAvatar('built');
+
+      camera.position.set(0, 0, 10);
+      lodSystem.updateLOD(camera, [avatar]);
+      expect(visibleGroups(avatar)).toEqual(['lod_medium']);
+
+      camera.position.set(0, 0, 20);
+      lodSystem.updateLOD(camera, [avatar]);
+      expect(visibleGroups(avatar)).toEqual(['lod_low']);
+
+      camera.position.set(0, 0, 1);
+      lodSystem.updateLOD(camera, [avatar]);
+      expect(visibleGroups(avatar)).toEqual(['full']);
+      expect(avatar.mesh.getObjectByName('accessory_cap_head')!.visible).toBe(true);
+    });
+
+    it('should report draw calls and triangles per level', () => {
+      const avatar = createBuiltAvatar('built');
+
+      camera.position.set(0, 0, 1);
+      lodSystem.updateLOD(camera, [avatar]);
+      const stats = lodSystem.getLODStats('built')!;
+
+      // Head, torso, two arms, two legs and three accessories
+      expect(stats.high.drawCalls).toBe(9);
+      // The cap is not drawn at medium detail
+      expect(stats.medium.drawCalls).toBe(8);
+      expect(stats.low.drawCalls).toBe(1);
+      expect(stats.high.triangles).toBeGreaterThan(stats.medium.triangles);
+      expect(stats.medium.triangles).toBeGreaterThan(stats.low.triangles);
+      expect(lodSystem.getLODStats('unknown')).toBeUndefined();
+    });
+
+    it('should total the cost of each level in use', () => {
+      const near = createBuiltAvatar('near');
+      const far = createBuiltAvatar('far');
+      far.mesh.position.set(0, 0, -20);
+
+      camera.position.set(0, 0, 1);
+      lodSystem.updateLOD(camera, [near, far]);
+      const totals = lodSystem.getRenderStats();
+
+      expect(totals.high).toEqual(lodSystem.getLODStats('near')!.high);
+      expect(totals.medium).toEqual({ drawCalls: 0, triangles: 0 });
+      expect(totals.low).toEqual(lodSystem.getLODStats('far')!.low);
+    });
+
+    it('should stop counting removed avatars', () => {
+      const near = createBuiltAvatar('near');
+
+      camera.position.set(0, 0, 1);
+      lodSystem.updateLOD(camera, [near]);
+      lodSystem.removeAvatar('near');
+
+      expect(lodSystem.getLODStats('near')).toBeUndefined();
+      expect(lodSystem.getRenderStats().high).toEqual({ drawCalls: 0, triangles: 0 });
+    });
+
+    it('should measure avatars without level groups by what each level shows', () => {
+      camera.position.set(0, 0, 1);
+      lodSystem.updateLOD(camera, [mockAvatar]);
+      const stats = lodSystem.getLODStats('test-avatar')!;
+
+      expect(stats.high).toEqual({ drawCalls: 3, triangles: 36 });
+      expect(stats.low).toEqual({ drawCalls: 2, triangles: 24 });
+    });
   });
 });
@@ -1,25 +1,80 @@
 /**
  * LODSystem - Level of Detail management for avatar rendering
  * Adjusts avatar detail based on camera distance to maintain performance
+ *
+ * Avatars from AvatarMeshBuilderImpl carry groups of reduced geometry next
+ * to their full-detail parts, and switching shows only the parts for the
+ * level. Other avatars, such as glTF models, keep their meshes and only drop
+ * accessories below their lowest detail level.
+ * Switching back needs the camera to pass the boundary by a margin, so an
+ * avatar sitting at a boundary distance does not flicker between levels.
  */
 
 import * as THREE from 'three';
 import { Avatar } from '../types';
+import type { DetailLevel } from '../data/accessorySchema';
+import { DETAIL_LEVELS } from '../data/accessorySchema';
+import { isDrawnAtDetail } from './AccessoryRegistry';
+import { getDetailGroupName, REDUCED_DETAIL_LEVELS } from './AvatarMeshBuilder';
+
+export interface RenderCost {
+  drawCalls: number;
+  triangles: number;
+}
+
+export type LODStats = Record<DetailLevel, RenderCost>;
 
 export interface LODSystem {
   updateLOD(camera: THREE.Camera, avatars: Avatar[]): void;
   setLODDistances(near: number, far: number): void;
-  getCurrentLODLevel(avatarId: string): 'high' | 'medium' | 'low';
+  setHysteresis(fraction: number): void;
+  getCurrentLODLevel(avatarId: string): DetailLevel;
+  getLODStats(avatarId: string): LODStats | undefined;
+  getRenderStats(): LODStats;
+  removeAvatar(avatarId: string): void;
+}
+
+/**
+ * Count the draw calls and triangles of the meshes under an object
+ * A mesh with a material per geometry group costs a draw call per group
+ */
+export function measureRenderCost(
+  object: THREE.Object3D,
+  include: (mesh: THREE.Mesh) => boolean = () => true
+): RenderCost {
+  const cost: RenderCost = { drawCalls: 0, triangles: 0 };
+
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh) || !include(child)) return;
+
+    const geometry = child.geometry as THREE.BufferGeometry;
+    const vertices = geometry.index ? geometry.index.count : geometry.attributes.position?.count ?? 0;
+
+    cost.drawCalls += Array.isArray(child.material) ? Math.max(1, geometry.groups.length) : 1;
+    cost.triangles += Math.floor(vertices / 3);
+  });
+
+  return cost;
 }
 
+const createStats = (cost: (level: DetailLevel) => RenderCost): LODStats => ({
+  high: cost('high'),
+  medium: cost('medium'),
+  low: cost('low'),
+});
+
 export class LODSystemImpl implements LODSystem {
   private nearDistance: number = 5;
   private farDistance: number = 15;
-  private lodLevels: Map<string, 'high' | 'medium' | 'low'> = new Map();
+  private hysteresis: number = 0.1;
+  private lodLevels: Map<string, DetailLevel> = new Map();
+  private lodStats: Map<string, LODStats> = new Map();
+  private measured: WeakMap<THREE.Object3D, LODStats> = new WeakMap();
 
-  constructor(nearDistance: number = 5, farDistance: number = 15) {
+  constructor(nearDistance: number = 5, farDistance: number = 15, hysteresis: number = 0.1) {
     this.nearDistance = nearDistance;
     this.farDistance = farDistance;
+    this.setHysteresis(hysteresis);
   }
 
   setLODDistances(near: number, far: number): void {
@@ -33,6 +88,17 @@ export class LODSystemImpl implements LODSystem {
     this.farDistance = far;
   }
 
+  /**
+   * Set how far past a boundary, as a fraction of its distance, the camera
+   * must move before an avatar switches back
+   */
+  setHysteresis(fraction: number): void {
+    if (fraction < 0 || fraction >= 1) {
+      throw new Error('LOD hysteresis must be at least 0 and less than 1');
+    }
+    this.hysteresis = fraction;
+  }
+
   updateLOD(camera: THREE.Camera, avatars: Avatar[]): void {
     if (!camera || !avatars) {
       return;
@@ -44,52 +110,148 @@ export class LODSystemImpl implements LODSystem {
       }
 
       const distance = camera.position.distanceTo(avatar.mesh.position);
+      const level = this.chooseLevel(distance, this.lodLevels.get(avatar.id));
 
-      if (distance < this.nearDistance) {
+      if (level === 'high') {
         this.setHighDetail(avatar);
-        this.lodLevels.set(avatar.id, 'high');
-      } else if (distance < this.farDistance) {
+      } else if (level === 'medium') {
         this.setMediumDetail(avatar);
-        this.lodLevels.set(avatar.id, 'medium');
       } else {
         this.setLowDetail(avatar);
-        this.lodLevels.set(avatar.id, 'low');
       }
+      this.lodLevels.set(avatar.id, level);
+      this.lodStats.set(avatar.id, this.measureLevels(avatar.mesh));
     });
   }
 
-  getCurrentLODLevel(avatarId: string): 'high' | 'medium' | 'low' {
+  getCurrentLODLevel(avatarId: string): DetailLevel {
     return this.lodLevels.get(avatarId) || 'high';
   }
 
-  private setHighDetail(avatar: Avatar): void {
-    avatar.mesh.traverse((child: any) => {
-      if (child instanceof THREE.Mesh) {
-        child.visible = true;
-        // High detail: all geometry visible
+  /**
+   * Draw calls and triangles of each level for an updated avatar
+   */
+  getLODStats(avatarId: string): LODStats | undefined {
+    return this.lodStats.get(avatarId);
+  }
+
+  /**
+   * Draw calls and triangles of the updated avatars, totalled by the level
+   * each one is currently shown at
+   */
+  getRenderStats(): LODStats {
+    const totals = createStats(() => ({ drawCalls: 0, triangles: 0 }));
+
+    this.lodStats.forEach((stats, avatarId) => {
+      const level = this.getCurrentLODLevel(avatarId);
+      totals[level].drawCalls += stats[level].drawCalls;
+      totals[level].triangles += stats[level].triangles;
+    });
+
+    return totals;
+  }
+
+  /**
+   * Forget a removed avatar, so its level and cost are no longer counted
+   */
+  removeAvatar(avatarId: string): void {
+    this.lodLevels.delete(avatarId);
+    this.lodStats.delete(avatarId);
+  }
+
+  /**
+   * Pick the level for a distance; each boundary is pushed away from the
+   * avatar's current level, so it only changes once the boundary is passed
+   * by the hysteresis margin. Avatars seen for the first time use the
+   * boundaries as they are.
+   */
+  private chooseLevel(distance: number, current?: DetailLevel): DetailLevel {
+    const currentIndex = current ? DETAIL_LEVELS.indexOf(current) : -1;
+    let index = 0;
+
+    [this.nearDistance, this.farDistance].forEach((boundary, i) => {
+      const margin = currentIndex < 0 ? 0 : currentIndex <= i ? this.hysteresis : -this.hysteresis;
+      if (distance >= boundary * (1 + margin)) {
+        index = i + 1;
       }
     });
+
+    return DETAIL_LEVELS[index];
+  }
+
+  private setHighDetail(avatar: Avatar): void {
+    // High detail: full geometry with lit materials
+    this.showDetail(avatar, 'high');
   }
 
   private setMediumDetail(avatar: Avatar): void {
+    // Medium detail: fewer segments and Lambert materials
+    this.showDetail(avatar, 'medium');
+  }
+
+  private setLowDetail(avatar: Avatar): void {
+    // Low detail: one merged unlit mesh, or accessories hidden, to reduce draw calls
+    this.showDetail(avatar, 'low');
+  }
+
+  /**
+   * Show the parts for a level, or for avatars without reduced detail groups,
+   * the meshes drawn at it; accessories carry the lowest level they are
+   * drawn at from the accessory registry, and default to medium
+   */
+  private showDetail(avatar: Avatar, level: DetailLevel): void {
+    const parts = getDetailParts(avatar.mesh, level);
+
+    if (parts) {
+      avatar.mesh.children.forEach((child: THREE.Object3D) => {
+        child.visible = parts.includes(child);
+      });
+      return;
+    }
+
     avatar.mesh.traverse((child: any) => {
       if (child instanceof THREE.Mesh) {
-        child.visible = true;
-        // Medium detail: all geometry visible but could use simpler materials
+        child.visible = isDrawnAtDetail(getLowestDetail(child), level);
       }
     });
   }
 
-  private setLowDetail(avatar: Avatar): void {
-    avatar.mesh.traverse((child: any) => {
-      if (child instanceof THREE.Mesh) {
-        // Low detail: hide accessories to reduce draw calls
-        if (child.name && child.name.includes('accessory')) {
-          child.visible = false;
-        } else {
-          child.visible = true;
-        }
+  // Measured once per mesh; avatars get a new mesh when their customization changes
+  private measureLevels(mesh: THREE.Object3D): LODStats {
+    const cached = this.measured.get(mesh);
+    if (cached) return cached;
+
+    const stats = createStats((level) => {
+      const parts = getDetailParts(mesh, level);
+      if (!parts) {
+        return measureRenderCost(mesh, (child) => isDrawnAtDetail(getLowestDetail(child), level));
       }
+
+      return parts.map((part) => measureRenderCost(part)).reduce(
+        (total, cost) => ({ drawCalls: total.drawCalls + cost.drawCalls, triangles: total.triangles + cost.triangles }),
+        { drawCalls: 0, triangles: 0 }
+      );
     });
+
+    this.measured.set(mesh, stats);
+    return stats;
   }
 }
+
+/**
+ * Children of a built avatar shown at a level: its own parts at full detail,
+ * otherwise the level's group. Null for avatars without the groups.
+ */
+function getDetailParts(mesh: THREE.Object3D, level: DetailLevel): THREE.Object3D[] | null {
+  const groups = REDUCED_DETAIL_LEVELS.map((detail) => mesh.getObjectByName(getDetailGroupName(detail)));
+  if (!groups.every((group) => group?.parent === mesh)) return null;
+
+  return level === 'high'
+    ? mesh.children.filter((child) => !groups.includes(child))
+    : [groups[REDUCED_DETAIL_LEVELS.indexOf(level)]!];
+}
+
+function getLowestDetail(mesh: THREE.Mesh): DetailLevel {
+  const isAccessory = mesh.name && mesh.name.includes('accessory');
+  return mesh.userData.lowestDetail ?? (isAccessory ? 'medium' : 'low');
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import { startLiveMatch, resumeLiveMatch } from './LiveMatch';
+import { createSavedMatch } from './MatchPersistence';
+import { ReplayPlayer } from './MatchReplay';
+import { RULE_SETS } from './RuleSet';
+import type { Card } from '@/types';
+
+describe('LiveMatch', () => {
+  const mockCard: Card = {
+    id: 'card_001',
+    name: 'Test Attack',
+    type: 'attack',
+    rarity: 'common',
+    stats: { attack: 10, defense: 2, speed: 8 },
+    artwork: '/test.png',
+  };
+
+  it('should deal decks and opening hands under the rule set', () => {
+    const match = startLiveMatch({ seed: 7, ruleSet: RULE_SETS.quick });
+    const snapshot = match.getSnapshot();
+
+    expect(snapshot.value).toBe('PLAYER_TURN');
+    expect(snapshot.context.ruleSet).toBe(RULE_SETS.quick);
+    expect(snapshot.context.playerHP).toBe(RULE_SETS.quick.startingHP);
+    expect(snapshot.context.playerHand).toHaveLength(RULE_SETS.quick.openingHandSize);
+    expect(snapshot.context.playerHand.length + snapshot.context.playerDeck.length).toBe(RULE_SETS.quick.deckSize);
+    expect(snapshot.context.opponentHand.length + snapshot.context.opponentDeck.length).toBe(RULE_SETS.quick.deckSize);
+
+    match.stop();
+  });
+
+  it('should deal the deck from the deck builder', () => {
+    const deck = Array.from({ length: 8 }, (_, i) => ({ ...mockCard, id: `card_${i}` }));
+    const match = startLiveMatch({ seed: 7, playerDeck: deck });
+    const { playerHand, playerDeck } = match.getSnapshot().context;
+
+    expect([...playerHand, ...playerDeck].map((c) => c.id).sort()).toEqual(deck.map((c) => c.id).sort());
+
+    match.stop();
+  });
+
+  it('should cut a deck built for a bigger rule set to the rule set size', () => {
+    const deck = Array.from({ length: 20 }, (_, i) => ({ ...mockCard, id: `card_${i}` }));
+    const match = startLiveMatch({ seed: 7, ruleSet: RULE_SETS.quick, playerDeck: deck });
+    const { playerHand, playerDeck } = match.getSnapshot().context;
+
+    expect(playerHand.length + playerDeck.length).toBe(RULE_SETS.quick.deckSize);
+
+    match.stop();
+  });
+
+  it('should play the AI reply and wait for the player again', () => {
+    const match = startLiveMatch({ seed: 7 });
+    const [card] = match.getSnapshot().context.playerHand;
+    const states: unknown[] = [];
+    match.subscribe((snapshot) => states.push(snapshot.value));
+
+    expect(match.playCard(card)).toBe(true);
+
+    const { value, context } = match.getSnapshot();
+    expect(value).toBe('PLAYER_TURN');
+    expect(states).toEqual(['CARD_PLAY', 'RESOLVE', 'AI_TURN', 'CHECK_WIN', 'PLAYER_TURN']);
+    expect(context.log.filter((entry) => entry.type === 'cardPlayed').map((entry) => entry.side)).toEqual([
+      'player',
+      'opponent',
+    ]);
+
+    match.stop();
+  });
+
+  it('should play the AI at the chosen difficulty', () => {
+    const match = startLiveMatch({ seed: 7, difficulty: 'hard' });
+    const saved = createSavedMatch(match.getSnapshot(), {
+      rngState: match.getRandomState(),
+      difficulty: match.getDifficulty(),
+    });
+
+    expect(match.getDifficulty()).toBe('hard');
+    expect(startLiveMatch({ seed: 7 }).getDifficulty()).toBe('easy');
+    expect(resumeLiveMatch(saved).getDifficulty()).toBe('hard');
+
+    match.stop();
+  });
+
+  it('should replay the same match from the same seed', () => {
+    const play = () => {
+      const match = startLiveMatch({ seed: 99 });
+      for (let turn = 0; turn < 3; turn++) {
+        match.playCard(match.getSnapshot().context.playerHand[0]);
+      }
+      const { log } = match.getSnapshot().context;
+      match.stop();
+      return log;
+    };
+
+    expect(play()).toEqual(play());
+  });
+
+  it('should play a whole standard match to the end', () => {
+    const match = startLiveMatch({ seed: 2, ruleSet: RULE_SETS.standard });
+
+    for (let turn = 0; turn < 100 && !match.isFinished(); turn++) {
+      expect(match.playCard(match.getSnapshot().context.playerHand[0])).toBe(true);
+    }
+
+    expect(match.isFinished()).toBe(true);
+    expect(match.getSnapshot().context.winner).not.toBeNull();
+
+    match.stop();
+  });
+
+  it('should resume a saved match and play on as the original would', () => {
+    const match = startLiveMatch({ seed: 42 });
+    match.playCard(match.getSnapshot().context.playerHand[0]);
+    expect(match.isWaitingForPlayer()).toBe(true);
+
+    const saved = JSON.parse(
+      JSON.stringify(createSavedMatch(match.getSnapshot(), { rngState: match.getRandomState() }))
+    );
+    const resumed = resumeLiveMatch(saved);
+    expect(resumed.getSnapshot().value).toBe('PLAYER_TURN');
+
+    for (let turn = 0; turn < 3; turn++) {
+      match.playCard(match.getSnapshot().context.playerHand[0]);
+      resumed.playCard(resumed.getSnapshot().context.playerHand[0]);
+    }
+
+    expect(resumed.getSnapshot().context).toEqual(match.getSnapshot().context);
+    expect(resumed.getRandomState()).toBe(match.getRandomState());
+
+    match.stop();
+    resumed.stop();
+  });
+
+  it('should record a replay that reproduces the match', () => {
+    const match = startLiveMatch({ seed: 5, ruleSet: RULE_SETS.quick });
+    for (let turn = 0; turn < 3; turn++) {
+      match.playCard(match.getSnapshot().context.playerHand[0]);
+    }
+
+    const player = new ReplayPlayer(match.getRecording()!);
+    player.seek(player.getLength());
+
+    expect(player.getSnapshot().value).toBe(match.getSnapshot().value);
+    expect(player.getSnapshot().context).toEqual(match.getSnapshot().context);
+
+    player.dispose();
+    match.stop();
+  });
+
+  it('should not offer a replay of a resumed match', () => {
+    const match = startLiveMatch({ seed: 5 });
+    const resumed = resumeLiveMatch(createSavedMatch(match.getSnapshot(), { rngState: match.getRandomState() }));
+
+    expect(match.getRecording()).not.toBeNull();
+    expect(resumed.getRecording()).toBeNull();
+
+    match.stop();
+    resumed.stop();
+  });
+
+  it('should let the AI mulligan and wait for the player to decide', () => {
+    const match = startLiveMatch({ seed: 7, mulligan: true });
+    const { value, context } = match.getSnapshot();
+
+    expect(value).toBe('MULLIGAN');
+    expect(context.mulliganDone).toEqual({ player: false, opponent: true });
+    expect(match.playCard(context.playerHand[0])).toBe(false);
+
+    expect(match.mulligan([context.playerHand[0].id])).toBe(true);
+    expect(match.getSnapshot().value).toBe('PLAYER_TURN');
+    const { log } = match.getSnapshot().context;
+    expect(log.some((entry) => entry.type === 'mulligan' && entry.side === 'player')).toBe(true);
+    expect(match.mulligan([])).toBe(false);
+
+    match.stop();
+  });
+
+  it('should wait for the second player in hot-seat matches', () => {
+    const match = startLiveMatch({ seed: 7, opponent: 'human' });
+    match.playCard(match.getSnapshot().context.playerHand[0]);
+
+    expect(match.getSnapshot().value).toBe('AI_TURN');
+    expect(match.playCard(match.getSnapshot().context.opponentHand[0])).toBe(true);
+    expect(match.getSnapshot().value).toBe('PLAYER_TURN');
+
+    match.stop();
+  });
+
+  it('should ignore cards once the match is over', () => {
+    const match = startLiveMatch({ seed: 7 });
+    match.getSnapshot().context.opponentHP = 1;
+    match.playCard(match.getSnapshot().context.playerHand[0]);
+
+    expect(match.isFinished()).toBe(true);
+    expect(match.getSnapshot().context.winner).toBe('player');
+    expect(match.playCard(mockCard)).toBe(false);
+
+    match.stop();
+  });
+});
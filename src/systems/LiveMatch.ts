@@ -0,0 +1,243 @@
+/**
+ * Live Match
+ *
+ * Runs a match played on this device on the combat state machine. The
+ * match steps through the machine's bookkeeping states - card play,
+ * resolve, win check - by itself and plays the AI side, so it only waits
+ * where a human has to act: the player's turn or, in hot-seat matches, the
+ * second player's turn. Subscribers receive every snapshot: the game store
+ * follows it, and the combat scene animates avatars from it the same way
+ * replay controls animate a replay.
+ * A saved match resumes from its machine state and match RNG state.
+ * Every event sent is recorded, so a finished match can be replayed.
+ */
+
+import { createActor } from 'xstate';
+import type { Card } from '@/types';
+import type { CardDatabase } from '@/data/cardSchema';
+import { combatMachine } from './CombatStateMachine';
+import type { CombatEvent, OpponentController } from './CombatStateMachine';
+import type { CombatService, CombatStateSubscription } from './AvatarCombatIntegration';
+import type { AIDifficulty, AIOpponent } from './AIOpponent';
+import { EasyAI, createAIOpponent, createAIGameState } from './AIOpponent';
+import { createDeck, loadCardDatabase, shuffleDeck } from './CardSystem';
+import type { RuleSet } from './RuleSet';
+import { DEFAULT_RULE_SET } from './RuleSet';
+import { SeededRandom, createSeed } from './SeededRandom';
+import type { SavedMatch } from './MatchPersistence';
+import { restoreCombatActor } from './MatchPersistence';
+import type { MatchRecording } from './MatchReplay';
+import { MatchRecorder } from './MatchReplay';
+
+type CombatActor = ReturnType<typeof createActor<typeof combatMachine>>;
+type CombatSnapshot = ReturnType<CombatActor['getSnapshot']>;
+
+export interface LiveMatchOptions {
+  seed?: number;
+  ruleSet?: RuleSet; // Defaults to DEFAULT_RULE_SET
+  opponent?: OpponentController; // 'human' for local hot-seat
+  difficulty?: AIDifficulty; // Of the AI opponent; defaults to easy
+  mulligan?: boolean; // Offer the opening-hand mulligan; the AI side decides its own
+  playerDeck?: Card[]; // Deck from the deck builder, cut to the rule set's size; a random one otherwise
+  database?: CardDatabase;
+}
+
+export class LiveMatch implements CombatService {
+  private actor: CombatActor;
+  private rng: SeededRandom;
+  private ai: AIOpponent;
+  private autoPlayer: EasyAI;
+  private recorder = new MatchRecorder();
+  private listeners: Set<(state: CombatSnapshot) => void> = new Set();
+
+  // The AI draws from the match random source that dealt the decks
+  constructor(actor: CombatActor, rng: SeededRandom, difficulty: AIDifficulty = 'easy') {
+    this.actor = actor;
+    this.rng = rng;
+    this.ai = createAIOpponent(difficulty, rng);
+    this.autoPlayer = new EasyAI(undefined, rng);
+    this.advance();
+  }
+
+  /**
+   * Subscribe to snapshots as the match moves on
+   */
+  subscribe(callback: (state: CombatSnapshot) => void): CombatStateSubscription {
+    this.listeners.add(callback);
+    return {
+      unsubscribe: () => {
+        this.listeners.delete(callback);
+      },
+    };
+  }
+
+  /**
+   * Send an event, then play on until a human has to act
+   */
+  send(event: CombatEvent): void {
+    this.dispatch(event);
+    this.advance();
+  }
+
+  /**
+   * Play a card for whichever human side is to act
+   * Returns false when the machine is not waiting for one
+   */
+  playCard(card: Card): boolean {
+    const event: CombatEvent = { type: 'PLAY_CARD', card };
+    if (!this.actor.getSnapshot().can(event)) return false;
+
+    this.send(event);
+    return true;
+  }
+
+  /**
+   * Card to play for a human whose turn timer ran out, as the easy AI
+   * would choose it from the match random source
+   */
+  selectAutoPlayCard(hand: Card[]): number {
+    return this.autoPlayer.selectCard(hand);
+  }
+
+  /**
+   * Replace the player's chosen opening-hand cards; an empty list keeps the hand
+   * Returns false outside the mulligan
+   */
+  mulligan(cardIds: string[]): boolean {
+    const event: CombatEvent = { type: 'MULLIGAN', side: 'player', cardIds };
+    if (!this.actor.getSnapshot().can(event)) return false;
+
+    this.send(event);
+    return true;
+  }
+
+  getSnapshot(): CombatSnapshot {
+    return this.actor.getSnapshot();
+  }
+
+  getDifficulty(): AIDifficulty {
+    return this.ai.difficulty;
+  }
+
+  /**
+   * State of the match random source, saved so a resumed match draws the same
+   */
+  getRandomState(): number {
+    return this.rng.getState();
+  }
+
+  /**
+   * Whether the turn is a human's, the point a match is saved at
+   */
+  isWaitingForPlayer(): boolean {
+    const snapshot = this.actor.getSnapshot();
+    return (
+      snapshot.matches('PLAYER_TURN') ||
+      (snapshot.matches('AI_TURN') && snapshot.context.opponentController === 'human')
+    );
+  }
+
+  /**
+   * Recording of the match so far; null for resumed matches, whose start
+   * was not recorded
+   */
+  getRecording(): MatchRecording | null {
+    return this.recorder.isRecording() ? this.recorder.getRecording() : null;
+  }
+
+  isFinished(): boolean {
+    return this.actor.getSnapshot().matches('END');
+  }
+
+  stop(): void {
+    this.listeners.clear();
+    this.actor.stop();
+  }
+
+  private dispatch(event: CombatEvent): void {
+    this.actor.send(this.recorder.record(event));
+
+    const snapshot = this.actor.getSnapshot();
+    [...this.listeners].forEach((listener) => listener(snapshot));
+  }
+
+  private advance(): void {
+    for (let event = this.nextEvent(); event; event = this.nextEvent()) {
+      this.dispatch(event);
+    }
+  }
+
+  /**
+   * Event the match sends itself from the current state, or null while
+   * waiting on a human or once the match is over
+   */
+  private nextEvent(): CombatEvent | null {
+    const snapshot = this.actor.getSnapshot();
+    const { context } = snapshot;
+
+    if (snapshot.matches('MULLIGAN') && context.opponentController === 'ai' && !context.mulliganDone.opponent) {
+      const { hand, deck } = createAIGameState(context, 'opponent').self;
+      const cardIds = this.ai.selectMulligan(hand, deck).map((index) => hand[index].id);
+      return { type: 'MULLIGAN', side: 'opponent', cardIds };
+    }
+    if (snapshot.matches('CARD_PLAY')) {
+      return { type: 'ANIMATION_COMPLETE' };
+    }
+    if (snapshot.matches('RESOLVE')) {
+      return { type: 'DAMAGE_APPLIED' };
+    }
+    if (snapshot.matches('CHECK_WIN')) {
+      return { type: 'CHECK_COMPLETE', winner: context.winner };
+    }
+    if (snapshot.matches('AI_TURN') && context.opponentController === 'ai') {
+      // An AI with no cards left passes
+      const state = createAIGameState(context, 'opponent');
+      const { hand } = state.self;
+      const card = hand.length > 0 ? hand[this.ai.selectCard(hand, state)] : undefined;
+      return { type: 'AI_ACTION_COMPLETE', card };
+    }
+    return null;
+  }
+}
+
+/**
+ * Deal both decks from the match seed and start a match
+ */
+export function startLiveMatch(options: LiveMatchOptions = {}): LiveMatch {
+  const ruleSet = options.ruleSet ?? DEFAULT_RULE_SET;
+  const seed = (options.seed ?? createSeed()) >>> 0;
+  const rng = new SeededRandom(seed);
+  const database = options.database ?? loadCardDatabase();
+
+  const playerDeck = options.playerDeck && options.playerDeck.length > 0
+    ? shuffleDeck(options.playerDeck, rng).slice(0, ruleSet.deckSize)
+    : createDeck(database, ruleSet.deckSize, rng);
+  const opponentDeck = createDeck(database, ruleSet.deckSize, rng);
+
+  const actor = createActor(combatMachine);
+  actor.start();
+
+  const match = new LiveMatch(actor, rng, options.difficulty);
+  match.send({
+    type: 'START_COMBAT',
+    seed,
+    ruleSet,
+    opponent: options.opponent ?? 'ai',
+    mulligan: options.mulligan,
+    playerDeck,
+    opponentDeck,
+  });
+  return match;
+}
+
+/**
+ * Resume a saved match where it was left, against the AI it was saved with
+ */
+export function resumeLiveMatch(saved: SavedMatch): LiveMatch {
+  const rng = new SeededRandom(saved.context.seed);
+  if (saved.rngState !== null) {
+    rng.setState(saved.rngState);
+  }
+
+  return new LiveMatch(restoreCombatActor(saved), rng, saved.difficulty);
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createActor } from 'xstate';
+import {
+  LocalStorageMatchPersistence,
+  createSavedMatch,
+  restoreCombatActor,
+  validateSavedMatch,
+  validateCombatContext,
+  SAVED_MATCH_VERSION,
+} from './MatchPersistence';
+import { combatMachine } from './CombatStateMachine';
+import { createDeck, loadCardDatabase } from './CardSystem';
+import { SeededRandom } from './SeededRandom';
+import { PLAYER_PRESET, AI_PRESET } from './AvatarPresets';
+
+describe('MatchPersistence', () => {
+  const database = loadCardDatabase();
+  
+  const startMatch = (mode: 'alternating' | 'initiative' = 'alternating') => {
+    const rng = new SeededRandom(12);
+    const actor = createActor(combatMachine);
+    actor.start();
+    actor.send({
+      type: 'START_COMBAT',
+      seed: 12,
+      mode,
+      playerDeck: createDeck(database, 10, rng),
+      opponentDeck: createDeck(database, 10, rng),
+    });
+    return { actor, rng };
+  };
+  
+  const avatars = {
+    player: { customization: PLAYER_PRESET.customization, currentAnimation: 'idle' as const },
+    ai: { customization: AI_PRESET.customization, currentAnimation: 'attack' as const },
+  };
+  
+  describe('createSavedMatch', () => {
+    it('should capture state, context, RNG state and avatars', () => {
+      const { actor, rng } = startMatch();
+      rng.next();
+      
+      const saved = createSavedMatch(actor.getSnapshot(), {
+        rngState: rng.getState(),
+        avatars,
+        now: 5000,
+      });
+      
+      expect(saved.version).toBe(SAVED_MATCH_VERSION);
+      expect(saved.savedAt).toBe(5000);
+      expect(saved.state).toBe('PLAYER_TURN');
+      expect(saved.context.playerHand).toHaveLength(5);
+      expect(saved.rngState).toBe(rng.getState());
+      expect(validateSavedMatch(saved)).toBe(true);
+    });
+  });
+  
+  describe('restoreCombatActor', () => {
+    it('should resume at the saved state and continue identically', () => {
+      const { actor } = startMatch();
+      const card = actor.getSnapshot().context.playerHand[0];
+      actor.send({ type: 'PLAY_CARD', card });
+      
+      const saved = JSON.parse(JSON.stringify(createSavedMatch(actor.getSnapshot())));
+      const restored = restoreCombatActor(saved);
+      
+      expect(restored.getSnapshot().value).toBe('CARD_PLAY');
+      
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+      restored.send({ type: 'ANIMATION_COMPLETE' });
+      
+      expect(restored.getSnapshot().value).toBe('RESOLVE');
+      expect(restored.getSnapshot().context).toEqual(actor.getSnapshot().context);
+    });
+    
+    it('should restore nested initiative states', () => {
+      const { actor } = startMatch('initiative');
+      const saved = createSavedMatch(actor.getSnapshot());
+      
+      expect(restoreCombatActor(saved).getSnapshot().value).toEqual({ INITIATIVE: 'COMMIT' });
+    });
+  });
+  
+  describe('validation', () => {
+    it('should reject envelopes with the wrong version', () => {
+      const { actor } = startMatch();
+      const saved = createSavedMatch(actor.getSnapshot());
+      
+      expect(validateSavedMatch({ ...saved, version: 0 })).toBe(false);
+      expect(validateSavedMatch({ ...saved, difficulty: 'nightmare' })).toBe(false);
+    });
+    
+    it('should reject corrupt contexts', () => {
+      const { actor } = startMatch();
+      const context = actor.getSnapshot().context;
+      
+      expect(validateCombatContext(context)).toBe(true);
+      expect(validateCombatContext({ ...context, playerHP: '100' })).toBe(false);
+      expect(validateCombatContext({ ...context, playerHand: [{ id: 'bad' }] })).toBe(false);
+      expect(validateCombatContext({ ...context, effects: {} })).toBe(false);
+      expect(validateCombatContext({ ...context, mode: 'speed' })).toBe(false);
+    });
+    
+    it('should reject malformed poison entries', () => {
+      const { actor } = startMatch();
+      const context = actor.getSnapshot().context;
+      const poisoned = (damageOverTime: unknown[]) => ({
+        ...context,
+        effects: { ...context.effects, opponent: { ...context.effects.opponent, damageOverTime } },
+      });
+      
+      expect(validateCombatContext(poisoned([{ damage: 2, turnsRemaining: 3 }]))).toBe(true);
+      expect(validateCombatContext(poisoned([{ damage: '2', turnsRemaining: 3 }]))).toBe(false);
+      expect(validateCombatContext(poisoned([{ damage: 2 }]))).toBe(false);
+      expect(validateCombatContext(poisoned([null]))).toBe(false);
+    });
+    
+    it('should reject states the combat machine does not have', () => {
+      const { actor } = startMatch();
+      const saved = createSavedMatch(actor.getSnapshot());
+      
+      expect(validateSavedMatch(saved)).toBe(true);
+      expect(validateSavedMatch({ ...saved, state: 'BOGUS' })).toBe(false);
+      expect(validateSavedMatch({ ...saved, state: { INITIATIVE: 'BOGUS' } })).toBe(false);
+    });
+    
+    it('should reject invalid avatar state', () => {
+      const { actor } = startMatch();
+      const saved = createSavedMatch(actor.getSnapshot(), {
+        avatars: { ...avatars, ai: { ...avatars.ai, currentAnimation: 'dance' as any } },
+      });
+      
+      expect(validateSavedMatch(saved)).toBe(false);
+    });
+  });
+  
+  describe('LocalStorageMatchPersistence', () => {
+    let persistence: LocalStorageMatchPersistence;
+    
+    beforeEach(() => {
+      persistence = new LocalStorageMatchPersistence();
+      localStorage.clear();
+    });
+    
+    afterEach(() => {
+      localStorage.clear();
+      vi.restoreAllMocks();
+    });
+    
+    it('should save, load and clear a match', () => {
+      const { actor } = startMatch();
+      const saved = createSavedMatch(actor.getSnapshot(), { avatars });
+      
+      persistence.saveMatch(saved);
+      expect(persistence.hasSavedMatch()).toBe(true);
+      expect(persistence.loadMatch()).toEqual(JSON.parse(JSON.stringify(saved)));
+      
+      persistence.clearMatch();
+      expect(persistence.loadMatch()).toBeNull();
+    });
+    
+    it('should ignore invalid saves with a warning', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      localStorage.setItem('saved_match', JSON.stringify({ version: 1, context: {} }));
+      
+      expect(persistence.loadMatch()).toBeNull();
+      expect(warn).toHaveBeenCalled();
+    });
+    
+    it('should migrate version 1 saves to resume on easy', () => {
+      const { actor } = startMatch();
+      const { difficulty: _difficulty, ...current } = createSavedMatch(actor.getSnapshot(), { difficulty: 'hard' });
+      localStorage.setItem('saved_match', JSON.stringify({ ...current, version: 1 }));
+      
+      const loaded = persistence.loadMatch();
+      expect(loaded?.version).toBe(SAVED_MATCH_VERSION);
+      expect(loaded?.difficulty).toBe('easy');
+    });
+    
+    it('should ignore saves from a newer version', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      localStorage.setItem('saved_match', JSON.stringify({ version: SAVED_MATCH_VERSION + 1 }));
+      
+      expect(persistence.loadMatch()).toBeNull();
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('newer than supported'));
+    });
+    
+    it('should ignore unparseable data', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      localStorage.setItem('saved_match', '{not json');
+      
+      expect(persistence.hasSavedMatch()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Match Persistence
+ *
+ * Saves an in-progress match - machine state, full combat context (decks,
+ * hands, effects, seed), match RNG state, AI difficulty and avatar state -
+ * in a versioned envelope so it can be validated and resumed later.
+ * Saves from older versions are migrated on load.
+ */
+
+import { createActor } from 'xstate';
+import type { AnimationState, CustomizationData } from '@/types';
+import { validateCard } from '@/data/cardSchema';
+import { combatMachine } from './CombatStateMachine';
+import type { CombatContext } from './CombatStateMachine';
+import { validateCustomizationData } from './CustomizationValidator';
+import { validateRuleSet } from './RuleSet';
+import { validateCombatLog } from './CombatLog';
+import type { AIDifficulty } from './AIOpponent';
+import { AI_DIFFICULTIES } from './AIOpponent';
+
+export const SAVED_MATCH_VERSION = 2;
+
+const ANIMATION_STATES: AnimationState[] = ['idle', 'attack', 'defend', 'victory', 'defeat', 'damaged'];
+
+export interface SavedAvatarState {
+  customization: CustomizationData;
+  currentAnimation: AnimationState;
+}
+
+export interface SavedMatch {
+  version: number;
+  savedAt: number; // Epoch milliseconds
+  state: CombatSnapshot['value']; // Machine state value
+  context: CombatContext;
+  rngState: number | null; // Match RandomSource state, if the match uses one
+  difficulty: AIDifficulty; // Of the AI opponent, kept when the settings change
+  avatars: {
+    player: SavedAvatarState;
+    ai: SavedAvatarState;
+  } | null;
+}
+
+type CombatSnapshot = ReturnType<ReturnType<typeof createActor<typeof combatMachine>>['getSnapshot']>;
+
+/**
+ * Build a save envelope from a running combat actor's snapshot
+ */
+export function createSavedMatch(
+  snapshot: Pick<CombatSnapshot, 'value' | 'context'>,
+  options: { rngState?: number; difficulty?: AIDifficulty; avatars?: SavedMatch['avatars']; now?: number } = {}
+): SavedMatch {
+  return {
+    version: SAVED_MATCH_VERSION,
+    savedAt: options.now ?? Date.now(),
+    state: snapshot.value,
+    context: snapshot.context,
+    rngState: options.rngState ?? null,
+    difficulty: options.difficulty ?? 'easy',
+    avatars: options.avatars ?? null,
+  };
+}
+
+const isCardList = (value: unknown): boolean => Array.isArray(value) && value.every(validateCard);
+
+const isNullableCard = (value: unknown): boolean => value === null || validateCard(value);
+
+const isSide = (value: unknown): boolean => value === 'player' || value === 'opponent';
+
+const validateTimedEffect = (effect: any): boolean =>
+  !!effect && typeof effect.amount === 'number' && typeof effect.turnsRemaining === 'number';
+
+const validateDamageOverTime = (effect: any): boolean =>
+  !!effect && typeof effect.damage === 'number' && typeof effect.turnsRemaining === 'number';
+
+const validateEffects = (effects: any): boolean =>
+  !!effects &&
+  typeof effects.shield === 'number' &&
+  typeof effects.stunnedTurns === 'number' &&
+  typeof effects.nextCardBuff === 'number' &&
+  Array.isArray(effects.damageOverTime) &&
+  effects.damageOverTime.every(validateDamageOverTime) &&
+  (effects.weaken === null || validateTimedEffect(effects.weaken)) &&
+  Array.isArray(effects.regen) &&
+  effects.regen.every(validateTimedEffect);
+
+const validateHandRules = (rules: any): boolean =>
+  !!rules &&
+  typeof rules.drawPerTurn === 'number' &&
+  typeof rules.maxHandSize === 'number' &&
+  typeof rules.refillHand === 'boolean' &&
+  typeof rules.fatigueDamage === 'number';
+
+const validateSide = (side: any): boolean =>
+  !!side &&
+  typeof side.hp === 'number' &&
+  typeof side.maxHP === 'number' &&
+  isNullableCard(side.activeCard);
+
+/**
+ * Validate a saved combat context
+ */
+export function validateCombatContext(context: any): context is CombatContext {
+  if (!context || typeof context !== 'object') {
+    return false;
+  }
+
+  if (typeof context.playerHP !== 'number' || typeof context.opponentHP !== 'number') {
+    return false;
+  }
+
+  if (!isSide(context.currentTurn) || !isNullableCard(context.selectedCard)) {
+    return false;
+  }
+
+  if (
+    !isCardList(context.playerHand) ||
+    !isCardList(context.opponentHand) ||
+    !isCardList(context.playerDeck) ||
+    !isCardList(context.opponentDeck)
+  ) {
+    return false;
+  }
+
+  if (!context.battlefield || !validateSide(context.battlefield.playerSide) || !validateSide(context.battlefield.opponentSide)) {
+    return false;
+  }
+
+  if (!context.effects || !validateEffects(context.effects.player) || !validateEffects(context.effects.opponent)) {
+    return false;
+  }
+
+  if (![null, 'player', 'opponent', 'draw'].includes(context.winner)) {
+    return false;
+  }
+
+  if (typeof context.seed !== 'number' || (context.mode !== 'alternating' && context.mode !== 'initiative')) {
+    return false;
+  }
+
+  if (context.opponentController !== 'ai' && context.opponentController !== 'human') {
+    return false;
+  }
+
+  if (
+    !context.mulliganDone ||
+    typeof context.mulliganDone.player !== 'boolean' ||
+    typeof context.mulliganDone.opponent !== 'boolean'
+  ) {
+    return false;
+  }
+
+  if (
+    !validateHandRules(context.handRules) ||
+    !context.fatigue ||
+    typeof context.fatigue.player !== 'number' ||
+    typeof context.fatigue.opponent !== 'number' ||
+    !context.discardPile ||
+    !isCardList(context.discardPile.player) ||
+    !isCardList(context.discardPile.opponent)
+  ) {
+    return false;
+  }
+
+  if (!validateRuleSet(context.ruleSet) || typeof context.round !== 'number') {
+    return false;
+  }
+
+  if (!validateCombatLog(context.log)) {
+    return false;
+  }
+
+  if (
+    !context.committedCards ||
+    !isNullableCard(context.committedCards.player) ||
+    !isNullableCard(context.committedCards.opponent)
+  ) {
+    return false;
+  }
+
+  return (
+    Array.isArray(context.turnOrder) &&
+    context.turnOrder.every(isSide) &&
+    isSide(context.tieBreaker) &&
+    typeof context.lastDamage === 'number'
+  );
+}
+
+const validateAvatarState = (avatar: any): boolean =>
+  !!avatar &&
+  validateCustomizationData(avatar.customization) &&
+  ANIMATION_STATES.includes(avatar.currentAnimation);
+
+/**
+ * Whether a saved state value names a state of the combat machine
+ */
+const isCombatState = (value: SavedMatch['state'], context: CombatContext): boolean => {
+  try {
+    combatMachine.resolveState({ value, context });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Validate a save envelope
+ */
+export function validateSavedMatch(data: any): data is SavedMatch {
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  if (data.version !== SAVED_MATCH_VERSION || typeof data.savedAt !== 'number') {
+    return false;
+  }
+
+  if (typeof data.state !== 'string' && (typeof data.state !== 'object' || data.state === null)) {
+    return false;
+  }
+
+  if (data.rngState !== null && typeof data.rngState !== 'number') {
+    return false;
+  }
+
+  if (!AI_DIFFICULTIES.includes(data.difficulty)) {
+    return false;
+  }
+
+  if (data.avatars !== null && (!data.avatars || !validateAvatarState(data.avatars.player) || !validateAvatarState(data.avatars.ai))) {
+    return false;
+  }
+
+  return validateCombatContext(data.context) && isCombatState(data.state, data.context);
+}
+
+/**
+ * Upgrade a save written by an older version to the current envelope
+ * Version 1 did not record the AI difficulty; those matches resume on easy
+ */
+export function migrateSavedMatch(data: any): any {
+  if (data && typeof data === 'object' && data.version === 1) {
+    return { ...data, version: 2, difficulty: 'easy' };
+  }
+  return data;
+}
+
+/**
+ * Start a combat actor from a saved match, at the saved state
+ * Entry actions are not re-run, so effects do not tick twice
+ */
+export function restoreCombatActor(saved: SavedMatch) {
+  const snapshot = combatMachine.resolveState({
+    value: saved.state,
+    context: saved.context,
+  });
+
+  const actor = createActor(combatMachine, { snapshot });
+  actor.start();
+  return actor;
+}
+
+export interface MatchPersistence {
+  saveMatch(match: SavedMatch): void;
+  loadMatch(): SavedMatch | null;
+  clearMatch(): void;
+  hasSavedMatch(): boolean;
+}
+
+export class LocalStorageMatchPersistence implements MatchPersistence {
+  private readonly MATCH_KEY = 'saved_match';
+
+  saveMatch(match: SavedMatch): void {
+    try {
+      localStorage.setItem(this.MATCH_KEY, JSON.stringify(match));
+    } catch (error) {
+      console.warn('Failed to save match:', error);
+    }
+  }
+
+  loadMatch(): SavedMatch | null {
+    try {
+      const serialized = localStorage.getItem(this.MATCH_KEY);
+      if (!serialized) {
+        return null;
+      }
+
+      const parsed = migrateSavedMatch(JSON.parse(serialized));
+
+      if (parsed && typeof parsed.version === 'number' && parsed.version > SAVED_MATCH_VERSION) {
+        console.warn(`Saved match version ${parsed.version} is newer than supported, ignoring`);
+        return null;
+      }
+
+      if (!validateSavedMatch(parsed)) {
+        console.warn('Invalid saved match in localStorage, ignoring');
+        return null;
+      }
+
+      return parsed;
+    } catch (error) {
+      console.warn('Failed to load saved match:', error);
+      return null;
+    }
+  }
+
+  clearMatch(): void {
+    try {
+      localStorage.removeItem(this.MATCH_KEY);
+    } catch (error) {
+      console.warn('Failed to clear saved match:', error);
+    }
+  }
+
+  hasSavedMatch(): boolean {
+    return this.loadMatch() !== null;
+  }
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createActor } from 'xstate';
+import {
+  MatchRecorder,
+  ReplayPlayer,
+  parseRecording,
+  serializeRecording,
+  validateRecording,
+} from './MatchReplay';
+import type { MatchRecording } from './MatchReplay';
+import { combatMachine } from './CombatStateMachine';
+import { loadCardDatabase, createDeck } from './CardSystem';
+import { SeededRandom } from './SeededRandom';
+
+describe('MatchReplay', () => {
+  let time: number;
+  let recorder: MatchRecorder;
+  
+  const database = loadCardDatabase();
+  const rng = new SeededRandom(5);
+  const playerDeck = createDeck(database, 10, rng);
+  const opponentDeck = createDeck(database, 10, rng);
+  
+  /**
+   * Play a few alternating turns through a recording service
+   */
+  const recordMatch = () => {
+    const actor = createActor(combatMachine);
+    actor.start();
+    const service = recorder.wrap(actor);
+    
+    service.send({ type: 'START_COMBAT', seed: 77, playerDeck, opponentDeck });
+    for (let turn = 0; turn < 3; turn++) {
+      time += 500;
+      service.send({ type: 'PLAY_CARD', card: actor.getSnapshot().context.playerHand[0] });
+      time += 300;
+      service.send({ type: 'ANIMATION_COMPLETE' });
+      service.send({ type: 'DAMAGE_APPLIED' });
+      
+      const snapshot = actor.getSnapshot();
+      if (snapshot.matches('AI_TURN')) {
+        time += 1000;
+        service.send({ type: 'AI_ACTION_COMPLETE', card: snapshot.context.opponentHand[0] });
+      }
+      service.send({ type: 'CHECK_COMPLETE', winner: actor.getSnapshot().context.winner });
+    }
+    
+    return { actor, recording: recorder.getRecording() };
+  };
+  
+  beforeEach(() => {
+    time = 1000;
+    recorder = new MatchRecorder(() => time);
+  });
+  
+  describe('MatchRecorder', () => {
+    it('should record events with seed, decks and timestamps', () => {
+      const { recording } = recordMatch();
+      
+      expect(recording.seed).toBe(77);
+      expect(recording.mode).toBe('alternating');
+      expect(recording.playerDeck).toEqual(playerDeck);
+      expect(recording.opponentDeck).toEqual(opponentDeck);
+      expect(recording.events[0].event.type).toBe('START_COMBAT');
+      expect(recording.events[0].timestamp).toBe(0);
+      expect(recording.events[1]).toMatchObject({ event: { type: 'PLAY_CARD' }, timestamp: 500 });
+    });
+    
+    it('should pin START_COMBAT to an explicit seed', () => {
+      const send = vi.fn();
+      const service = recorder.wrap({ subscribe: vi.fn(), send });
+      
+      service.send({ type: 'START_COMBAT' });
+      
+      const seed = recorder.getRecording().seed;
+      expect(send).toHaveBeenCalledWith({ type: 'START_COMBAT', seed });
+    });
+    
+    it('should ignore events before combat starts', () => {
+      recorder.record({ type: 'ANIMATION_COMPLETE' });
+      
+      expect(recorder.isRecording()).toBe(false);
+      expect(() => recorder.getRecording()).toThrow('No match recorded');
+    });
+    
+    it('should remember the winner', () => {
+      recorder.record({ type: 'START_COMBAT', seed: 1 });
+      recorder.record({ type: 'CHECK_COMPLETE', winner: 'opponent' });
+      
+      expect(recorder.getRecording().winner).toBe('opponent');
+    });
+  });
+  
+  describe('ReplayPlayer', () => {
+    let live: ReturnType<typeof recordMatch>;
+    let player: ReplayPlayer;
+    
+    beforeEach(() => {
+      live = recordMatch();
+      player = new ReplayPlayer(live.recording);
+    });
+    
+    it('should reproduce the recorded match', () => {
+      while (player.step()) {
+        // Step through every event
+      }
+      
+      expect(player.isFinished()).toBe(true);
+      expect(player.getSnapshot().context).toEqual(live.actor.getSnapshot().context);
+    });
+    
+    it('should notify subscribers on each step', () => {
+      const listener = vi.fn();
+      player.subscribe(listener);
+      
+      player.step();
+      player.step();
+      
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener.mock.calls[1][0].value).toBe('CARD_PLAY');
+    });
+    
+    it('should seek forwards and backwards', () => {
+      player.seek(4);
+      const atFour = player.getSnapshot().context;
+      
+      player.seek(player.getLength());
+      player.seek(4);
+      
+      expect(player.getPosition()).toBe(4);
+      expect(player.getSnapshot().context).toEqual(atFour);
+      expect(player.getElapsed()).toBe(live.recording.events[3].timestamp);
+    });
+    
+    it('should play back at the recorded pace', () => {
+      player.play();
+      
+      player.update(0.1);
+      expect(player.getPosition()).toBe(1); // START_COMBAT at 0ms
+      
+      player.update(0.5);
+      expect(player.getPosition()).toBe(2); // PLAY_CARD at 500ms
+      
+      player.pause();
+      player.update(10);
+      expect(player.getPosition()).toBe(2);
+    });
+    
+    it('should scale playback by speed and stop at the end', () => {
+      player.setSpeed(4);
+      player.play();
+      
+      player.update(player.getDuration() / 4000);
+      
+      expect(player.isFinished()).toBe(true);
+      expect(player.isPlaying()).toBe(false);
+    });
+    
+    it('should reject invalid recordings', () => {
+      expect(() => new ReplayPlayer({ version: 99 } as unknown as MatchRecording)).toThrow(
+        'Invalid match recording'
+      );
+    });
+  });
+  
+  describe('serialization', () => {
+    it('should round-trip a recording', () => {
+      const { recording } = recordMatch();
+      
+      expect(parseRecording(serializeRecording(recording))).toEqual(recording);
+    });
+    
+    it('should reject malformed files', () => {
+      expect(() => parseRecording('not json')).toThrow('Invalid match recording');
+      expect(() => parseRecording('{"version":1}')).toThrow('Invalid match recording');
+    });
+    
+    it('should validate decks and events', () => {
+      const { recording } = recordMatch();
+      
+      expect(validateRecording(recording)).toBe(true);
+      expect(validateRecording({ ...recording, playerDeck: [{ id: 'x' }] })).toBe(false);
+      expect(validateRecording({ ...recording, events: [{ timestamp: 0 }] })).toBe(false);
+      expect(validateRecording({ ...recording, mode: 'speed' })).toBe(false);
+    });
+  });
+});
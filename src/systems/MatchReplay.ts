@@ -0,0 +1,398 @@
+/**
+ * Match Replay System
+ *
+ * Records every CombatEvent sent to the combat machine, together with the
+ * match seed, both decks and per-event timestamps, and plays recordings
+ * back through a fresh combat machine with pause, step and seek.
+ * The machine is deterministic for a given seed and event sequence, so a
+ * replay reproduces the original match exactly.
+ */
+
+import { createActor } from 'xstate';
+import type { Card } from '@/types';
+import { validateCard } from '@/data/cardSchema';
+import { combatMachine } from './CombatStateMachine';
+import type { CombatEvent, CombatMode } from './CombatStateMachine';
+import type { CombatService, CombatStateSubscription } from './AvatarCombatIntegration';
+import { createSeed } from './SeededRandom';
+
+export const MATCH_RECORDING_VERSION = 1;
+
+export interface RecordedEvent {
+  event: CombatEvent;
+  timestamp: number; // Milliseconds since the match started
+}
+
+export interface MatchRecording {
+  version: number;
+  id: string;
+  seed: number;
+  mode: CombatMode;
+  startedAt: number; // Epoch milliseconds
+  playerDeck: Card[];
+  opponentDeck: Card[];
+  events: RecordedEvent[];
+  winner: 'player' | 'opponent' | 'draw' | null;
+}
+
+type CombatActor = ReturnType<typeof createActor<typeof combatMachine>>;
+type CombatSnapshot = ReturnType<CombatActor['getSnapshot']>;
+
+/**
+ * MatchRecorder - Captures the events driving a combat machine
+ */
+export class MatchRecorder {
+  private events: RecordedEvent[] = [];
+  private seed: number | null = null;
+  private mode: CombatMode = 'alternating';
+  private startedAt = 0;
+  private playerDeck: Card[] = [];
+  private opponentDeck: Card[] = [];
+  private winner: MatchRecording['winner'] = null;
+  private now: () => number;
+
+  constructor(now: () => number = () => Date.now()) {
+    this.now = now;
+  }
+
+  /**
+   * Record an event and return the event that should be sent
+   * START_COMBAT restarts the recording and is pinned to an explicit seed
+   * so the replay can reproduce it
+   */
+  record(event: CombatEvent): CombatEvent {
+    if (event.type === 'START_COMBAT') {
+      const seed = event.seed !== undefined ? event.seed >>> 0 : createSeed();
+      this.events = [];
+      this.seed = seed;
+      this.mode = event.mode ?? 'alternating';
+      this.startedAt = this.now();
+      this.winner = null;
+      if (event.playerDeck) this.playerDeck = event.playerDeck;
+      if (event.opponentDeck) this.opponentDeck = event.opponentDeck;
+      event = { ...event, seed };
+    } else if (this.seed === null) {
+      // Nothing to replay against until combat has started
+      return event;
+    }
+
+    if (event.type === 'CHECK_COMPLETE' && event.winner !== null) {
+      this.winner = event.winner;
+    }
+
+    this.events.push({ event, timestamp: this.now() - this.startedAt });
+    return event;
+  }
+
+  /**
+   * Record the decks when they are dealt outside START_COMBAT
+   */
+  setDecks(playerDeck: Card[], opponentDeck: Card[]): void {
+    this.playerDeck = playerDeck;
+    this.opponentDeck = opponentDeck;
+  }
+
+  /**
+   * Wrap a combat service so every event sent through it is recorded
+   */
+  wrap(service: CombatService): CombatService {
+    return {
+      subscribe: (callback) => service.subscribe(callback),
+      send: (event: CombatEvent) => service.send(this.record(event)),
+    };
+  }
+
+  /**
+   * Check if a match has been started
+   */
+  isRecording(): boolean {
+    return this.seed !== null;
+  }
+
+  /**
+   * Get the recording so far
+   */
+  getRecording(): MatchRecording {
+    if (this.seed === null) {
+      throw new Error('No match recorded');
+    }
+
+    return {
+      version: MATCH_RECORDING_VERSION,
+      id: `replay_${this.startedAt.toString(36)}_${this.seed.toString(36)}`,
+      seed: this.seed,
+      mode: this.mode,
+      startedAt: this.startedAt,
+      playerDeck: [...this.playerDeck],
+      opponentDeck: [...this.opponentDeck],
+      events: [...this.events],
+      winner: this.winner,
+    };
+  }
+}
+
+/**
+ * Validate recording data loaded from storage or a file
+ */
+export function validateRecording(data: any): data is MatchRecording {
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  if (data.version !== MATCH_RECORDING_VERSION) {
+    return false;
+  }
+
+  if (typeof data.id !== 'string' || typeof data.seed !== 'number' || typeof data.startedAt !== 'number') {
+    return false;
+  }
+
+  if (data.mode !== 'alternating' && data.mode !== 'initiative') {
+    return false;
+  }
+
+  if (![null, 'player', 'opponent', 'draw'].includes(data.winner)) {
+    return false;
+  }
+
+  if (!Array.isArray(data.playerDeck) || !data.playerDeck.every(validateCard)) {
+    return false;
+  }
+
+  if (!Array.isArray(data.opponentDeck) || !data.opponentDeck.every(validateCard)) {
+    return false;
+  }
+
+  return (
+    Array.isArray(data.events) &&
+    data.events.every(
+      (entry: any) =>
+        entry &&
+        typeof entry.timestamp === 'number' &&
+        entry.event &&
+        typeof entry.event.type === 'string'
+    )
+  );
+}
+
+/**
+ * Serialize a recording for export
+ */
+export function serializeRecording(recording: MatchRecording): string {
+  return JSON.stringify(recording, null, 2);
+}
+
+/**
+ * Parse an exported recording
+ * Throws if the data is not a valid recording
+ */
+export function parseRecording(serialized: string): MatchRecording {
+  let data: unknown;
+  try {
+    data = JSON.parse(serialized);
+  } catch {
+    throw new Error('Invalid match recording');
+  }
+
+  if (!validateRecording(data)) {
+    throw new Error('Invalid match recording');
+  }
+
+  return data;
+}
+
+/**
+ * Download a recording as a JSON file
+ */
+export function exportRecording(recording: MatchRecording, filename = `${recording.id}.json`): void {
+  const blob = new Blob([serializeRecording(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * ReplayPlayer - Plays a recording back through the combat machine
+ * Subscribers receive machine snapshots, so avatar integration and UI
+ * sync work exactly as they do for a live match
+ */
+export class ReplayPlayer implements CombatService {
+  private recording: MatchRecording;
+  private actor: CombatActor;
+  private listeners: Set<(state: CombatSnapshot) => void> = new Set();
+  private position = 0; // Number of events applied
+  private elapsed = 0; // Playback clock in milliseconds
+  private playing = false;
+  private speed = 1;
+
+  constructor(recording: MatchRecording) {
+    if (!validateRecording(recording)) {
+      throw new Error('Invalid match recording');
+    }
+
+    this.recording = recording;
+    this.actor = this.createReplayActor();
+  }
+
+  /**
+   * Subscribe to snapshots as events are replayed
+   */
+  subscribe(callback: (state: CombatSnapshot) => void): CombatStateSubscription {
+    this.listeners.add(callback);
+    return {
+      unsubscribe: () => {
+        this.listeners.delete(callback);
+      },
+    };
+  }
+
+  /**
+   * Replays are read-only; external events are ignored
+   */
+  send(): void {}
+
+  play(): void {
+    if (this.isFinished()) return;
+    this.playing = true;
+  }
+
+  pause(): void {
+    this.playing = false;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * Set playback speed multiplier (1 = recorded pace)
+   */
+  setSpeed(speed: number): void {
+    this.speed = Math.max(0.1, speed);
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * Apply the next event
+   * Returns false when the recording is finished
+   */
+  step(): boolean {
+    if (this.isFinished()) {
+      this.playing = false;
+      return false;
+    }
+
+    const entry = this.recording.events[this.position];
+    this.actor.send(entry.event);
+    this.position++;
+    this.elapsed = Math.max(this.elapsed, entry.timestamp);
+    this.notify();
+
+    if (this.isFinished()) {
+      this.playing = false;
+    }
+    return true;
+  }
+
+  /**
+   * Jump to an event index (0 = before the first event)
+   * Earlier events are re-applied silently on a fresh machine
+   */
+  seek(position: number): void {
+    const target = Math.max(0, Math.min(Math.floor(position), this.recording.events.length));
+
+    if (target < this.position) {
+      this.actor.stop();
+      this.actor = this.createReplayActor();
+      this.position = 0;
+    }
+
+    while (this.position < target) {
+      this.actor.send(this.recording.events[this.position].event);
+      this.position++;
+    }
+
+    this.elapsed = target > 0 ? this.recording.events[target - 1].timestamp : 0;
+    this.notify();
+  }
+
+  /**
+   * Advance playback by delta time in seconds
+   * Applies every event whose timestamp has been reached
+   */
+  update(deltaTime: number): void {
+    if (!this.playing) return;
+
+    this.elapsed += deltaTime * 1000 * this.speed;
+
+    while (
+      this.playing &&
+      !this.isFinished() &&
+      this.recording.events[this.position].timestamp <= this.elapsed
+    ) {
+      this.step();
+    }
+  }
+
+  getPosition(): number {
+    return this.position;
+  }
+
+  getLength(): number {
+    return this.recording.events.length;
+  }
+
+  /**
+   * Playback clock in milliseconds
+   */
+  getElapsed(): number {
+    return this.elapsed;
+  }
+
+  /**
+   * Recorded match duration in milliseconds
+   */
+  getDuration(): number {
+    const last = this.recording.events[this.recording.events.length - 1];
+    return last ? last.timestamp : 0;
+  }
+
+  isFinished(): boolean {
+    return this.position >= this.recording.events.length;
+  }
+
+  getRecording(): MatchRecording {
+    return this.recording;
+  }
+
+  getSnapshot(): CombatSnapshot {
+    return this.actor.getSnapshot();
+  }
+
+  dispose(): void {
+    this.playing = false;
+    this.listeners.clear();
+    this.actor.stop();
+  }
+
+  private createReplayActor(): CombatActor {
+    const actor = createActor(combatMachine);
+    actor.start();
+    return actor;
+  }
+
+  private notify(): void {
+    const snapshot = this.actor.getSnapshot();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import {
+  simulateMatch,
+  runSimulation,
+  summarizeCards,
+  formatSimulationCSV,
+  formatSimulationJSON,
+} from './MatchSimulator';
+import type { MatchResult } from './MatchSimulator';
+import { HardAI } from './AIOpponent';
+import { RULE_SETS } from './RuleSet';
+
+describe('MatchSimulator', () => {
+  describe('simulateMatch', () => {
+    it('should play a match to completion', () => {
+      const result = simulateMatch(1234);
+      
+      expect(['player', 'opponent', 'draw']).toContain(result.winner);
+      expect(result.turns).toBeGreaterThan(0);
+      expect(result.cardsPlayed.player.length).toBeGreaterThan(0);
+      expect(result.cardsPlayed.opponent.length).toBeGreaterThan(0);
+    });
+    
+    it('should be reproducible from the seed', () => {
+      const config = { playerPolicy: 'medium' as const, opponentPolicy: 'easy' as const };
+      
+      expect(simulateMatch(99, config)).toEqual(simulateMatch(99, config));
+    });
+    
+    it('should play initiative matches', () => {
+      const result = simulateMatch(7, { mode: 'initiative' });
+      
+      expect(result.turns).toBeGreaterThan(0);
+      expect(result.cardsPlayed.player.length).toBeGreaterThan(0);
+    });
+    
+    it('should stop at the turn limit and decide on HP', () => {
+      const result = simulateMatch(5, { maxTurns: 2 });
+      
+      expect(result.endReason).toBe('turnLimit');
+      expect(result.turns).toBe(2);
+      if (result.playerHP > result.opponentHP) {
+        expect(result.winner).toBe('player');
+      } else if (result.playerHP < result.opponentHP) {
+        expect(result.winner).toBe('opponent');
+      } else {
+        expect(result.winner).toBe('draw');
+      }
+    });
+    
+    it('should play out the mulligan phase when enabled', () => {
+      const config = { mulligan: true };
+      const result = simulateMatch(21, config);
+      
+      expect(result.turns).toBeGreaterThan(0);
+      expect(simulateMatch(21, config)).toEqual(result);
+    });
+    
+    it('should play under custom hand rules', () => {
+      const result = simulateMatch(13, {
+        deckSize: 8,
+        handRules: { drawPerTurn: 1, refillHand: false, fatigueDamage: 5 },
+      });
+      
+      expect(result.turns).toBeGreaterThan(0);
+      expect(result.endReason).not.toBe('turnLimit');
+    });
+    
+    it('should end quick matches within the rule set turn limit', () => {
+      const result = simulateMatch(17, { ruleSet: RULE_SETS.quick });
+      
+      expect(result.turns).toBeLessThanOrEqual(RULE_SETS.quick.turnLimit!);
+      expect(result.playerHP).toBeLessThanOrEqual(RULE_SETS.quick.startingHP);
+    });
+    
+    it('should accept AI instances as policies', () => {
+      const result = simulateMatch(11, { playerPolicy: new HardAI({ searchDepth: 2 }) });
+      
+      expect(result.cardsPlayed.player.length).toBeGreaterThan(0);
+    });
+  });
+  
+  describe('runSimulation', () => {
+    it('should aggregate win rates and match length', () => {
+      const report = runSimulation({ games: 10, seed: 42 });
+      
+      expect(report.games).toBe(10);
+      expect(report.wins.player + report.wins.opponent + report.wins.draw).toBe(10);
+      expect(report.winRates.player + report.winRates.opponent + report.winRates.draw).toBeCloseTo(1);
+      expect(report.averageTurns).toBeGreaterThan(0);
+      expect(
+        report.endReasons.knockout + report.endReasons.exhausted + report.endReasons.turnLimit
+      ).toBe(10);
+      expect(report.cards.length).toBeGreaterThan(0);
+    });
+    
+    it('should produce the same report for the same seed', () => {
+      expect(runSimulation({ games: 5, seed: 8 })).toEqual(runSimulation({ games: 5, seed: 8 }));
+    });
+    
+    it('should favour the medium AI over the easy AI', () => {
+      const report = runSimulation({
+        games: 30,
+        seed: 1,
+        playerPolicy: 'medium',
+        opponentPolicy: 'easy',
+      });
+      
+      expect(report.winRates.player).toBeGreaterThan(report.winRates.opponent);
+    });
+  });
+  
+  describe('summarizeCards', () => {
+    it('should compute per-card win contribution', () => {
+      const base = { endReason: 'knockout' as const, turns: 3, playerHP: 10, opponentHP: 0 };
+      const results: MatchResult[] = [
+        { ...base, seed: 1, winner: 'player', cardsPlayed: { player: ['card_001', 'card_001'], opponent: ['card_002'] } },
+        { ...base, seed: 2, winner: 'opponent', cardsPlayed: { player: ['card_002'], opponent: ['card_001'] } },
+      ];
+      
+      const stats = summarizeCards(results);
+      const swift = stats.find(s => s.cardId === 'card_001')!;
+      const shield = stats.find(s => s.cardId === 'card_002')!;
+      
+      expect(swift.played).toBe(3);
+      expect(swift.matches).toBe(2);
+      expect(swift.winRate).toBe(1);
+      expect(swift.contribution).toBe(0.5);
+      expect(shield.winRate).toBe(0);
+      expect(shield.contribution).toBe(-0.5);
+      expect(stats[0].cardId).toBe('card_001');
+    });
+  });
+  
+  describe('formatting', () => {
+    const report = runSimulation({ games: 3, seed: 21 });
+    
+    it('should format as JSON', () => {
+      expect(JSON.parse(formatSimulationJSON(report))).toEqual(report);
+    });
+    
+    it('should format as CSV', () => {
+      const lines = formatSimulationCSV(report).trim().split('\n');
+      
+      expect(lines[0]).toBe('metric,value');
+      expect(lines).toContain('games,3');
+      expect(lines).toContain('cardId,name,played,matches,wins,winRate,contribution');
+      expect(lines).toContain('ruleSet,standard');
+      expect(lines.length).toBe(13 + report.cards.length);
+    });
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Match Simulator
+ *
+ * Plays complete matches headlessly by driving the combat state machine
+ * with two AI policies - no DOM, animation or rendering involved.
+ * Used for balance testing: win rates, match length and per-card win
+ * contribution over many seeded games, exportable as JSON or CSV.
+ */
+
+import { createActor } from 'xstate';
+import type { Card, CombatSide } from '@/types';
+import type { CardDatabase } from '@/data/cardSchema';
+import { combatMachine, isOutOfCards } from './CombatStateMachine';
+import type { CombatContext, CombatMode } from './CombatStateMachine';
+import { createDeck, loadCardDatabase } from './CardSystem';
+import type { AIDifficulty, AIOpponent } from './AIOpponent';
+import { createAIOpponent, createAIGameState } from './AIOpponent';
+import { isStunned } from './CardEffects';
+import type { HandRules } from './HandRules';
+import type { RuleSet } from './RuleSet';
+import { DEFAULT_RULE_SET } from './RuleSet';
+import { SeededRandom, createSeed } from './SeededRandom';
+
+export type SimulationPolicy = AIDifficulty | AIOpponent;
+
+/**
+ * How a simulated match ended
+ * - knockout: a side reached 0 HP
+ * - exhausted: a side ran out of cards
+ * - turnLimit: the rule set's turn limit or maxTurns rounds were played
+ * Matches that do not end in a knockout are decided on remaining HP
+ */
+export type MatchEndReason = 'knockout' | 'exhausted' | 'turnLimit';
+
+export interface SimulationConfig {
+  games: number;
+  seed?: number;
+  playerPolicy?: SimulationPolicy;
+  opponentPolicy?: SimulationPolicy;
+  mode?: CombatMode;
+  ruleSet?: RuleSet; // Defaults to DEFAULT_RULE_SET
+  deckSize?: number; // Defaults to the rule set's deck size
+  maxTurns?: number; // Safety cap for rule sets without a turn limit
+  mulligan?: boolean; // Each AI decides an opening-hand mulligan
+  handRules?: Partial<HandRules>;
+  database?: CardDatabase;
+}
+
+export interface MatchResult {
+  seed: number;
+  winner: CombatSide | 'draw';
+  endReason: MatchEndReason;
+  turns: number;
+  playerHP: number;
+  opponentHP: number;
+  cardsPlayed: Record<CombatSide, string[]>;
+}
+
+export interface CardSimulationStats {
+  cardId: string;
+  name: string;
+  played: number; // Total times played
+  matches: number; // Match sides that played it at least once
+  wins: number; // Of those, how many the side won
+  winRate: number;
+  contribution: number; // winRate minus the average win rate of any side
+}
+
+export interface SimulationReport {
+  games: number;
+  seed: number;
+  playerPolicy: string;
+  opponentPolicy: string;
+  mode: CombatMode;
+  ruleSet: string;
+  wins: Record<CombatSide | 'draw', number>;
+  winRates: Record<CombatSide | 'draw', number>;
+  averageTurns: number;
+  endReasons: Record<MatchEndReason, number>;
+  cards: CardSimulationStats[];
+}
+
+const DEFAULT_MAX_TURNS = 200;
+
+const policyName = (policy: SimulationPolicy): string =>
+  typeof policy === 'string' ? policy : policy.difficulty;
+
+const resolvePolicy = (policy: SimulationPolicy, rng: SeededRandom): AIOpponent => {
+  if (typeof policy === 'string') {
+    return createAIOpponent(policy, rng);
+  }
+
+  policy.setRandomSource(rng);
+  return policy;
+};
+
+const chooseCard = (ai: AIOpponent, context: CombatContext, side: CombatSide): Card => {
+  const state = createAIGameState(context, side);
+  return state.self.hand[ai.selectCard(state.self.hand, state)];
+};
+
+const decideOnHP = (context: CombatContext): CombatSide | 'draw' => {
+  if (context.playerHP === context.opponentHP) return 'draw';
+  return context.playerHP > context.opponentHP ? 'player' : 'opponent';
+};
+
+/**
+ * Play one match to completion
+ * The seed determines both decks and every AI decision
+ */
+export function simulateMatch(
+  seed: number,
+  config: Omit<SimulationConfig, 'games' | 'seed'> = {}
+): MatchResult {
+  const {
+    playerPolicy = 'easy',
+    opponentPolicy = 'easy',
+    mode = 'alternating',
+    ruleSet = DEFAULT_RULE_SET,
+    deckSize = ruleSet.deckSize,
+    maxTurns = DEFAULT_MAX_TURNS,
+    mulligan = false,
+    handRules,
+  } = config;
+  const database = config.database ?? loadCardDatabase();
+
+  const rng = new SeededRandom(seed);
+  const playerDeck = createDeck(database, deckSize, rng);
+  const opponentDeck = createDeck(database, deckSize, rng);
+  const ai: Record<CombatSide, AIOpponent> = {
+    player: resolvePolicy(playerPolicy, rng),
+    opponent: resolvePolicy(opponentPolicy, rng),
+  };
+
+  const cardsPlayed: Record<CombatSide, string[]> = { player: [], opponent: [] };
+  let turns = 0;
+  let endReason: MatchEndReason | null = null;
+
+  const actor = createActor(combatMachine);
+  actor.start();
+  actor.send({ type: 'START_COMBAT', seed, mode, ruleSet, playerDeck, opponentDeck, mulligan, handRules });
+
+  while (endReason === null) {
+    const snapshot = actor.getSnapshot();
+    const context = snapshot.context;
+
+    if (snapshot.matches('END')) {
+      // The machine decides on HP itself at the rule set's turn limit or once a side is out of cards
+      if (context.playerHP <= 0 || context.opponentHP <= 0) {
+        endReason = 'knockout';
+      } else if (isOutOfCards(context, 'player') || isOutOfCards(context, 'opponent')) {
+        endReason = 'exhausted';
+      } else {
+        endReason = 'turnLimit';
+      }
+    } else if (snapshot.matches('MULLIGAN')) {
+      const side = context.mulliganDone.player ? 'opponent' : 'player';
+      const { hand, deck } = createAIGameState(context, side).self;
+      const cardIds = ai[side].selectMulligan(hand, deck).map(index => hand[index].id);
+      actor.send({ type: 'MULLIGAN', side, cardIds });
+    } else if (snapshot.matches('PLAYER_TURN')) {
+      if (context.playerHand.length === 0) {
+        endReason = 'exhausted';
+        break;
+      }
+      const card = chooseCard(ai.player, context, 'player');
+      cardsPlayed.player.push(card.id);
+      actor.send({ type: 'PLAY_CARD', card });
+    } else if (snapshot.matches('CARD_PLAY')) {
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+    } else if (snapshot.matches('RESOLVE')) {
+      actor.send({ type: 'DAMAGE_APPLIED' });
+    } else if (snapshot.matches('AI_TURN')) {
+      if (context.opponentHand.length === 0) {
+        endReason = 'exhausted';
+        break;
+      }
+      const card = chooseCard(ai.opponent, context, 'opponent');
+      cardsPlayed.opponent.push(card.id);
+      actor.send({ type: 'AI_ACTION_COMPLETE', card });
+    } else if (snapshot.matches({ INITIATIVE: 'COMMIT' })) {
+      for (const side of ['player', 'opponent'] as const) {
+        if (context.committedCards[side] || isStunned(context.effects[side])) continue;
+
+        if (createAIGameState(context, side).self.hand.length === 0) {
+          endReason = 'exhausted';
+          break;
+        }
+        const card = chooseCard(ai[side], context, side);
+        cardsPlayed[side].push(card.id);
+        actor.send({ type: 'COMMIT_CARD', side, card });
+      }
+    } else if (snapshot.matches({ INITIATIVE: 'STRIKE' })) {
+      actor.send({ type: 'ANIMATION_COMPLETE' });
+    } else if (snapshot.matches('CHECK_WIN')) {
+      turns++;
+      if (context.winner === null && turns >= maxTurns) {
+        endReason = 'turnLimit';
+        break;
+      }
+      actor.send({ type: 'CHECK_COMPLETE', winner: context.winner });
+    } else {
+      throw new Error(`Simulator cannot advance from state ${JSON.stringify(snapshot.value)}`);
+    }
+  }
+
+  const finalContext = actor.getSnapshot().context;
+  actor.stop();
+
+  return {
+    seed,
+    winner:
+      endReason !== 'exhausted' && finalContext.winner
+        ? finalContext.winner
+        : decideOnHP(finalContext),
+    endReason,
+    turns,
+    playerHP: finalContext.playerHP,
+    opponentHP: finalContext.opponentHP,
+    cardsPlayed,
+  };
+}
+
+/**
+ * Aggregate per-card win contribution over a set of match results
+ */
+export function summarizeCards(
+  results: MatchResult[],
+  database: CardDatabase = loadCardDatabase()
+): CardSimulationStats[] {
+  const stats = new Map<string, CardSimulationStats>();
+  let sideWins = 0;
+
+  for (const result of results) {
+    for (const side of ['player', 'opponent'] as const) {
+      const won = result.winner === side;
+      if (won) sideWins++;
+
+      for (const cardId of new Set(result.cardsPlayed[side])) {
+        const entry = stats.get(cardId) ?? {
+          cardId,
+          name: database.cards.find(card => card.id === cardId)?.name ?? cardId,
+          played: 0,
+          matches: 0,
+          wins: 0,
+          winRate: 0,
+          contribution: 0,
+        };
+        entry.played += result.cardsPlayed[side].filter(id => id === cardId).length;
+        entry.matches++;
+        if (won) entry.wins++;
+        stats.set(cardId, entry);
+      }
+    }
+  }
+
+  const baseline = results.length > 0 ? sideWins / (results.length * 2) : 0;
+
+  return [...stats.values()]
+    .map(entry => {
+      const winRate = entry.matches > 0 ? entry.wins / entry.matches : 0;
+      return { ...entry, winRate, contribution: winRate - baseline };
+    })
+    .sort((a, b) => b.contribution - a.contribution || a.cardId.localeCompare(b.cardId));
+}
+
+/**
+ * Run a batch of seeded matches and summarize them
+ * The same config and seed always produce the same report
+ */
+export function runSimulation(config: SimulationConfig): SimulationReport {
+  const seed = config.seed ?? createSeed();
+  const database = config.database ?? loadCardDatabase();
+  const seeds = new SeededRandom(seed);
+  const results: MatchResult[] = [];
+
+  for (let i = 0; i < config.games; i++) {
+    const matchSeed = Math.floor(seeds.next() * 0x100000000);
+    results.push(simulateMatch(matchSeed, { ...config, database }));
+  }
+
+  const wins = { player: 0, opponent: 0, draw: 0 };
+  const endReasons = { knockout: 0, exhausted: 0, turnLimit: 0 };
+  let totalTurns = 0;
+
+  for (const result of results) {
+    wins[result.winner]++;
+    endReasons[result.endReason]++;
+    totalTurns += result.turns;
+  }
+
+  const rate = (count: number) => (results.length > 0 ? count / results.length : 0);
+
+  return {
+    games: results.length,
+    seed,
+    playerPolicy: policyName(config.playerPolicy ?? 'easy'),
+    opponentPolicy: policyName(config.opponentPolicy ?? 'easy'),
+    mode: config.mode ?? 'alternating',
+    ruleSet: (config.ruleSet ?? DEFAULT_RULE_SET).id,
+    wins,
+    winRates: {
+      player: rate(wins.player),
+      opponent: rate(wins.opponent),
+      draw: rate(wins.draw),
+    },
+    averageTurns: rate(totalTurns),
+    endReasons,
+    cards: summarizeCards(results, database),
+  };
+}
+
+/**
+ * Format a report as JSON
+ */
+export function formatSimulationJSON(report: SimulationReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+const csvField = (value: string | number): string => {
+  const text = typeof value === 'number' ? String(Number(value.toFixed(4))) : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Format a report as CSV: a metric/value summary block, a blank line,
+ * then one row per card
+ */
+export function formatSimulationCSV(report: SimulationReport): string {
+  const summary: [string, string | number][] = [
+    ['games', report.games],
+    ['seed', report.seed],
+    ['playerPolicy', report.playerPolicy],
+    ['opponentPolicy', report.opponentPolicy],
+    ['mode', report.mode],
+    ['ruleSet', report.ruleSet],
+    ['playerWinRate', report.winRates.player],
+    ['opponentWinRate', report.winRates.opponent],
+    ['drawRate', report.winRates.draw],
+    ['averageTurns', report.averageTurns],
+  ];
+
+  const lines = [
+    'metric,value',
+    ...summary.map(([metric, value]) => `${metric},${csvField(value)}`),
+    '',
+    'cardId,name,played,matches,wins,winRate,contribution',
+    ...report.cards.map(card =>
+      [card.cardId, card.name, card.played, card.matches, card.wins, card.winRate, card.contribution]
+        .map(csvField)
+        .join(',')
+    ),
+  ];
+
+  return lines.join('\n') + '\n';
+}
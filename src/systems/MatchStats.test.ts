@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import { createActor } from 'xstate';
+import { MatchStatsCollector, formatDuration } from './MatchStats';
+import { appendCombatLog } from './CombatLog';
+import type { CombatLogEntry } from './CombatLog';
+import { combatMachine } from './CombatStateMachine';
+import type { Card } from '@/types';
+
+const breakdown = { formula: 'standard' as const, attack: 10, defense: 2, reduction: 2, damage: 8 };
+
+describe('MatchStatsCollector', () => {
+  let clock = 0;
+  const now = () => clock;
+
+  const playRound = (log: CombatLogEntry[], round: number, playerHit: number, opponentHit: number) =>
+    appendCombatLog(
+      log,
+      round,
+      { type: 'cardPlayed', side: 'player', cardId: 'a', cardName: 'Strike' },
+      { type: 'damage', side: 'player', breakdown, buff: 0, weaken: 0, absorbed: 0, dealt: playerHit },
+      { type: 'cardPlayed', side: 'opponent', cardId: 'b', cardName: 'Jab' },
+      { type: 'damage', side: 'opponent', breakdown, buff: 0, weaken: 0, absorbed: 0, dealt: opponentHit }
+    );
+
+  it('should start empty with both sides at full HP', () => {
+    const stats = new MatchStatsCollector(30, now).getStats();
+
+    expect(stats.player).toEqual({ damageDealt: 0, damageTaken: 0, cardsPlayed: 0, highestHit: 0, turns: 0 });
+    expect(stats.hpTimeline).toEqual([{ seq: 0, round: 0, player: 30, opponent: 30 }]);
+    expect(stats.durationMs).toBe(0);
+    expect(stats.winner).toBeNull();
+  });
+
+  it('should total damage, cards and the highest hit per side', () => {
+    const collector = new MatchStatsCollector(100, now);
+    let log = playRound([], 1, 8, 5);
+    collector.record(log, { player: 95, opponent: 92 });
+    log = playRound(log, 2, 12, 3);
+    collector.record(log, { player: 92, opponent: 80 });
+
+    const stats = collector.getStats();
+    expect(stats.player).toEqual({ damageDealt: 20, damageTaken: 8, cardsPlayed: 2, highestHit: 12, turns: 2 });
+    expect(stats.opponent).toEqual({ damageDealt: 8, damageTaken: 20, cardsPlayed: 2, highestHit: 5, turns: 2 });
+    expect(stats.rounds).toBe(2);
+  });
+
+  it('should only count new entries and sample HP each time', () => {
+    const collector = new MatchStatsCollector(100, now);
+    const log = playRound([], 1, 8, 5);
+
+    collector.record(log, { player: 95, opponent: 92 });
+    collector.record(log, { player: 95, opponent: 92 });
+
+    const stats = collector.getStats();
+    expect(stats.player.cardsPlayed).toBe(1);
+    expect(stats.hpTimeline).toEqual([
+      { seq: 0, round: 0, player: 100, opponent: 100 },
+      { seq: 4, round: 1, player: 95, opponent: 92 },
+    ]);
+  });
+
+  it('should count poison, fatigue, sudden death and stuns', () => {
+    const collector = new MatchStatsCollector(100, now);
+    const log = appendCombatLog(
+      [],
+      3,
+      { type: 'statusTick', side: 'opponent', damage: 4, healing: 0 },
+      { type: 'draw', side: 'player', drawn: 0, discarded: 0, fatigueDamage: 2 },
+      { type: 'suddenDeath', damage: 5 },
+      { type: 'stunned', side: 'opponent' }
+    );
+    collector.record(log, { player: 93, opponent: 91 });
+
+    const { player, opponent } = collector.getStats();
+    expect(player.damageDealt).toBe(4);
+    expect(player.damageTaken).toBe(7);
+    expect(opponent.damageTaken).toBe(9);
+    expect(opponent.turns).toBe(1);
+    expect(opponent.cardsPlayed).toBe(0);
+  });
+
+  it('should time the match from the first event to the end', () => {
+    clock = 1000;
+    const collector = new MatchStatsCollector(100, now);
+    let log = playRound([], 1, 8, 5);
+    collector.record(log, { player: 95, opponent: 92 });
+
+    clock = 61000;
+    log = appendCombatLog(log, 1, { type: 'matchEnd', winner: 'player' });
+    collector.record(log, { player: 95, opponent: 0 });
+
+    clock = 99000;
+    const stats = collector.getStats();
+    expect(stats.durationMs).toBe(60000);
+    expect(stats.winner).toBe('player');
+  });
+
+  it('should start over when the log goes backwards', () => {
+    const collector = new MatchStatsCollector(100, now);
+    collector.record(playRound(playRound([], 1, 8, 5), 2, 8, 5), { player: 90, opponent: 84 });
+
+    collector.record(playRound([], 1, 3, 3), { player: 97, opponent: 97 });
+
+    const stats = collector.getStats();
+    expect(stats.player.damageDealt).toBe(3);
+    expect(stats.hpTimeline).toHaveLength(2);
+  });
+
+  it('should start over for a different log of the same length', () => {
+    const collector = new MatchStatsCollector(100, now);
+    collector.record(playRound([], 1, 8, 5), { player: 95, opponent: 92 });
+
+    collector.record(playRound([], 1, 3, 3), { player: 97, opponent: 97 });
+
+    expect(collector.getStats().player.damageDealt).toBe(3);
+  });
+
+  it('should reset for a new match with new starting HP', () => {
+    const collector = new MatchStatsCollector(100, now);
+    collector.record(playRound([], 1, 8, 5), { player: 95, opponent: 92 });
+
+    collector.reset(50);
+
+    const stats = collector.getStats();
+    expect(stats.player.cardsPlayed).toBe(0);
+    expect(stats.hpTimeline).toEqual([{ seq: 0, round: 0, player: 50, opponent: 50 }]);
+  });
+
+  it('should follow a match played by the combat machine', () => {
+    const card: Card = {
+      id: 'card_001',
+      name: 'Swift Strike',
+      type: 'attack',
+      rarity: 'common',
+      stats: { attack: 8, defense: 2, speed: 9 },
+      artwork: '/test.png',
+    };
+    const actor = createActor(combatMachine);
+    actor.start();
+    actor.send({ type: 'START_COMBAT', seed: 1 });
+
+    const collector = new MatchStatsCollector(100, now);
+    actor.send({ type: 'PLAY_CARD', card });
+    actor.send({ type: 'ANIMATION_COMPLETE' });
+    actor.send({ type: 'DAMAGE_APPLIED' });
+    actor.send({ type: 'AI_ACTION_COMPLETE', card });
+
+    const { context } = actor.getSnapshot();
+    collector.record(context.log, { player: context.playerHP, opponent: context.opponentHP });
+
+    const stats = collector.getStats();
+    expect(stats.player.cardsPlayed).toBe(1);
+    expect(stats.opponent.cardsPlayed).toBe(1);
+    expect(stats.player.damageDealt).toBe(100 - context.opponentHP);
+    expect(stats.player.damageTaken).toBe(100 - context.playerHP);
+
+    actor.stop();
+  });
+});
+
+describe('formatDuration', () => {
+  it('should format minutes and seconds', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(9500)).toBe('0:09');
+    expect(formatDuration(125000)).toBe('2:05');
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Match Stats
+ *
+ * Per-match statistics for the post-match screen. The collector listens
+ * to the combat log as it grows, so it sees the same events whether the
+ * match was played locally, resumed, replayed or played over the network,
+ * and samples both sides' HP each time new events arrive.
+ */
+
+import type { CombatSide } from '@/types';
+import type { CombatLogEntry } from './CombatLog';
+import { DEFAULT_RULE_SET } from './RuleSet';
+
+export interface SideStats {
+  damageDealt: number; // Card hits and poison applied by this side
+  damageTaken: number; // Everything that took HP, including fatigue and sudden death
+  cardsPlayed: number;
+  highestHit: number; // Largest single card hit
+  turns: number; // Cards played plus turns lost to stun
+}
+
+export interface HPSample {
+  seq: number; // Last log entry before the sample; 0 at the start
+  round: number;
+  player: number;
+  opponent: number;
+}
+
+export interface MatchStats {
+  player: SideStats;
+  opponent: SideStats;
+  rounds: number;
+  durationMs: number;
+  hpTimeline: HPSample[];
+  winner: CombatSide | 'draw' | null;
+}
+
+const createSideStats = (): SideStats => ({
+  damageDealt: 0,
+  damageTaken: 0,
+  cardsPlayed: 0,
+  highestHit: 0,
+  turns: 0,
+});
+
+const other = (side: CombatSide): CombatSide => (side === 'player' ? 'opponent' : 'player');
+
+export class MatchStatsCollector {
+  private now: () => number;
+  private startingHP: number;
+  private sides: Record<CombatSide, SideStats> = { player: createSideStats(), opponent: createSideStats() };
+  private hpTimeline: HPSample[] = [];
+  private lastSeq: number = 0;
+  private lastEntry: string | null = null; // Last entry seen, to spot a different log
+  private rounds: number = 0;
+  private winner: CombatSide | 'draw' | null = null;
+  private startedAt: number | null = null; // First event seen
+  private endedAt: number | null = null; // Match end seen
+
+  constructor(startingHP: number = DEFAULT_RULE_SET.startingHP, now: () => number = Date.now) {
+    this.now = now;
+    this.startingHP = startingHP;
+    this.reset(startingHP);
+  }
+
+  /**
+   * Start over for a new match
+   */
+  reset(startingHP: number = this.startingHP): void {
+    this.startingHP = startingHP;
+    this.sides = { player: createSideStats(), opponent: createSideStats() };
+    this.hpTimeline = [{ seq: 0, round: 0, player: startingHP, opponent: startingHP }];
+    this.lastSeq = 0;
+    this.lastEntry = null;
+    this.rounds = 0;
+    this.winner = null;
+    this.startedAt = null;
+    this.endedAt = null;
+  }
+
+  /**
+   * Take in the combat log and the HP it left each side with
+   * Entries already seen are skipped; a log that no longer holds the
+   * last entry seen (a new match or a rewound replay) starts the stats over
+   */
+  record(log: CombatLogEntry[], hp: Record<CombatSide, number>): void {
+    if (this.lastEntry !== null) {
+      const seen = log.find((entry) => entry.seq === this.lastSeq);
+      if (!seen || JSON.stringify(seen) !== this.lastEntry) {
+        this.reset();
+      }
+    }
+
+    const entries = log.filter((entry) => entry.seq > this.lastSeq);
+    if (entries.length === 0) return;
+
+    if (this.startedAt === null) {
+      this.startedAt = this.now();
+    }
+
+    entries.forEach((entry) => this.recordEntry(entry));
+
+    const last = entries[entries.length - 1];
+    this.lastSeq = last.seq;
+    this.lastEntry = JSON.stringify(last);
+    this.hpTimeline.push({ seq: last.seq, round: last.round, player: hp.player, opponent: hp.opponent });
+  }
+
+  getStats(): MatchStats {
+    const end = this.endedAt ?? this.now();
+
+    return {
+      player: { ...this.sides.player },
+      opponent: { ...this.sides.opponent },
+      rounds: this.rounds,
+      durationMs: this.startedAt === null ? 0 : end - this.startedAt,
+      hpTimeline: [...this.hpTimeline],
+      winner: this.winner,
+    };
+  }
+
+  private recordEntry(entry: CombatLogEntry): void {
+    this.rounds = Math.max(this.rounds, entry.round);
+
+    switch (entry.type) {
+      case 'cardPlayed':
+        this.sides[entry.side].cardsPlayed++;
+        this.sides[entry.side].turns++;
+        break;
+      case 'stunned':
+        this.sides[entry.side].turns++;
+        break;
+      case 'damage': {
+        const attacker = this.sides[entry.side];
+        attacker.damageDealt += entry.dealt;
+        attacker.highestHit = Math.max(attacker.highestHit, entry.dealt);
+        this.sides[other(entry.side)].damageTaken += entry.dealt;
+        break;
+      }
+      case 'statusTick':
+        // Poison was applied by the other side
+        this.sides[entry.side].damageTaken += entry.damage;
+        this.sides[other(entry.side)].damageDealt += entry.damage;
+        break;
+      case 'draw':
+        this.sides[entry.side].damageTaken += entry.fatigueDamage;
+        break;
+      case 'suddenDeath':
+        this.sides.player.damageTaken += entry.damage;
+        this.sides.opponent.damageTaken += entry.damage;
+        break;
+      case 'matchEnd':
+        this.winner = entry.winner;
+        this.endedAt = this.now();
+        break;
+    }
+  }
+}
+
+/**
+ * Match length as m:ss
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
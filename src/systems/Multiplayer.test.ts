@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Card } from '@/types';
+import {
+  MultiplayerSession,
+  hashCombatContext,
+  validateNetworkMessage,
+  ROLE_SIDES,
+} from './Multiplayer';
+import { createLoopbackPair } from './MultiplayerTransport';
+import type { LoopbackTransport } from './MultiplayerTransport';
+import { createDeck, loadCardDatabase } from './CardSystem';
+import { SeededRandom } from './SeededRandom';
+
+describe('Multiplayer', () => {
+  const database = loadCardDatabase();
+  const rng = new SeededRandom(7);
+  const playerDeck = createDeck(database, 20, rng);
+  const opponentDeck = createDeck(database, 20, rng);
+
+  let hostTransport: LoopbackTransport;
+  let guestTransport: LoopbackTransport;
+  let host: MultiplayerSession;
+  let guest: MultiplayerSession;
+
+  beforeEach(() => {
+    [hostTransport, guestTransport] = createLoopbackPair();
+    host = new MultiplayerSession(hostTransport, 'host');
+    guest = new MultiplayerSession(guestTransport, 'guest');
+  });
+
+  const startMatch = () => {
+    host.send({ type: 'START_COMBAT', seed: 99, playerDeck, opponentDeck });
+  };
+
+  // Host plays a card and drives the animation flow to the guest's turn
+  const playHostTurn = () => {
+    host.send({ type: 'PLAY_CARD', card: host.getSnapshot().context.playerHand[0] });
+    host.send({ type: 'ANIMATION_COMPLETE' });
+    host.send({ type: 'DAMAGE_APPLIED' });
+  };
+
+  describe('Lockstep play', () => {
+    it('should start the same match on both clients', () => {
+      startMatch();
+
+      expect(guest.getSequence()).toBe(1);
+      expect(guest.getSnapshot().value).toBe('PLAYER_TURN');
+      expect(guest.getSnapshot().context.seed).toBe(99);
+      expect(guest.getSnapshot().context.opponentController).toBe('human');
+      expect(hashCombatContext(guest.getSnapshot().context)).toBe(
+        hashCombatContext(host.getSnapshot().context)
+      );
+    });
+
+    it('should apply guest card plays on both clients', () => {
+      startMatch();
+      playHostTurn();
+      expect(guest.getSnapshot().value).toBe('AI_TURN');
+
+      const card = guest.getSnapshot().context.opponentHand[0];
+      guest.send({ type: 'PLAY_CARD', card });
+
+      for (const session of [host, guest]) {
+        const snapshot = session.getSnapshot();
+        expect(snapshot.value).toBe('CHECK_WIN');
+        expect(snapshot.context.battlefield.opponentSide.activeCard?.id).toBe(card.id);
+      }
+      expect(guest.isDesynced()).toBe(false);
+      expect(host.getSequence()).toBe(guest.getSequence());
+    });
+
+    it('should notify subscribers as events are applied', () => {
+      const listener = vi.fn();
+      guest.subscribe(listener);
+
+      startMatch();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].value).toBe('PLAYER_TURN');
+    });
+
+    it('should map roles to sides', () => {
+      expect(host.getLocalSide()).toBe(ROLE_SIDES.host);
+      expect(guest.getLocalSide()).toBe('opponent');
+    });
+  });
+
+  describe('Authoritative validation', () => {
+    it('should reject a card that is not in the sender hand', () => {
+      const onReject = vi.fn();
+      guest.setOnReject(onReject);
+      startMatch();
+      playHostTurn();
+
+      const notInHand = { ...playerDeck[0], id: 'not_a_real_card' };
+      guest.send({ type: 'PLAY_CARD', card: notInHand });
+
+      expect(onReject).toHaveBeenCalledWith(expect.anything(), 'Card not in hand');
+      expect(host.getSnapshot().value).toBe('AI_TURN');
+    });
+
+    it('should reject plays out of turn', () => {
+      const onReject = vi.fn();
+      guest.setOnReject(onReject);
+      startMatch();
+
+      guest.send({ type: 'PLAY_CARD', card: guest.getSnapshot().context.opponentHand[0] });
+
+      expect(onReject).toHaveBeenCalledWith(expect.anything(), 'Not your turn');
+      expect(host.getSequence()).toBe(1);
+    });
+
+    it('should validate proposals on the host even if the guest skips its check', () => {
+      const onReject = vi.fn();
+      guest.setOnReject(onReject);
+      startMatch();
+      playHostTurn();
+
+      // A modified client sends a forged card straight to the host
+      const forged: Card = { ...playerDeck[0], id: 'forged', stats: { attack: 999, defense: 0, speed: 99 } };
+      guestTransport.send({ type: 'propose', event: { type: 'PLAY_CARD', card: forged } });
+
+      expect(onReject).toHaveBeenCalledWith({ type: 'PLAY_CARD', card: forged }, 'Card not in hand');
+      expect(host.getSnapshot().context.playerHP).toBeGreaterThan(0);
+    });
+
+    it('should use the card held in hand rather than the stats sent', () => {
+      startMatch();
+      playHostTurn();
+
+      const held = host.getSnapshot().context.opponentHand[0];
+      const tampered: Card = { ...held, stats: { ...held.stats, attack: 999 } };
+      guestTransport.send({ type: 'propose', event: { type: 'PLAY_CARD', card: tampered } });
+
+      const activeCard = host.getSnapshot().context.battlefield.opponentSide.activeCard;
+      expect(activeCard?.stats.attack).toBe(held.stats.attack);
+      expect(guest.isDesynced()).toBe(false);
+    });
+
+    it('should leave match flow to the host', () => {
+      startMatch();
+      host.send({ type: 'PLAY_CARD', card: host.getSnapshot().context.playerHand[0] });
+
+      guest.send({ type: 'ANIMATION_COMPLETE' });
+      expect(host.getSnapshot().value).toBe('CARD_PLAY');
+
+      const onReject = vi.fn();
+      guest.setOnReject(onReject);
+      guestTransport.send({ type: 'propose', event: { type: 'ANIMATION_COMPLETE' } });
+      expect(onReject).toHaveBeenCalledWith(expect.anything(), 'Only the host drives match flow');
+    });
+
+    it('should accept a mulligan only for the sender side', () => {
+      const onReject = vi.fn();
+      guest.setOnReject(onReject);
+      host.send({ type: 'START_COMBAT', seed: 99, playerDeck, opponentDeck, mulligan: true });
+
+      guest.send({ type: 'MULLIGAN', side: 'player', cardIds: [] });
+      expect(onReject).toHaveBeenCalledWith(expect.anything(), 'Cannot mulligan for the other side');
+
+      const cardId = guest.getSnapshot().context.opponentHand[0].id;
+      guest.send({ type: 'MULLIGAN', side: 'opponent', cardIds: [cardId] });
+      host.send({ type: 'MULLIGAN', side: 'player', cardIds: [] });
+
+      expect(guest.getSnapshot().value).toBe('PLAYER_TURN');
+      expect(guest.getSnapshot().context.opponentHand.map((c) => c.id)).not.toContain(cardId);
+      expect(guest.isDesynced()).toBe(false);
+    });
+
+    it('should reject host actions the machine cannot take', () => {
+      const onReject = vi.fn();
+      host.setOnReject(onReject);
+
+      host.send({ type: 'DAMAGE_APPLIED' });
+
+      expect(onReject).toHaveBeenCalledWith({ type: 'DAMAGE_APPLIED' }, 'DAMAGE_APPLIED not allowed in IDLE');
+      expect(host.getSequence()).toBe(0);
+    });
+  });
+
+  describe('Desync detection', () => {
+    it('should detect a state hash mismatch on both clients', () => {
+      const onGuestDesync = vi.fn();
+      const onHostDesync = vi.fn();
+      guest.setOnDesync(onGuestDesync);
+      host.setOnDesync(onHostDesync);
+
+      hostTransport.send({
+        type: 'event',
+        seq: 1,
+        event: { type: 'START_COMBAT', seed: 1, opponent: 'human' },
+        hash: 'deadbeef',
+      });
+
+      expect(guest.isDesynced()).toBe(true);
+      expect(onGuestDesync).toHaveBeenCalledWith(
+        expect.objectContaining({ seq: 1, remoteHash: 'deadbeef' })
+      );
+      expect(onHostDesync).toHaveBeenCalledWith(expect.objectContaining({ seq: 1 }));
+    });
+
+    it('should detect missing events', () => {
+      const onDesync = vi.fn();
+      guest.setOnDesync(onDesync);
+
+      hostTransport.send({ type: 'event', seq: 3, event: { type: 'ANIMATION_COMPLETE' }, hash: '00000000' });
+
+      expect(onDesync).toHaveBeenCalledWith(expect.objectContaining({ seq: 3 }));
+      expect(guest.getSequence()).toBe(0);
+    });
+  });
+
+  describe('hashCombatContext', () => {
+    it('should ignore object key order', () => {
+      startMatch();
+      const context = host.getSnapshot().context;
+      const reordered = Object.fromEntries(Object.entries(context).reverse()) as typeof context;
+
+      expect(hashCombatContext(reordered)).toBe(hashCombatContext(context));
+    });
+
+    it('should change when the state changes', () => {
+      startMatch();
+      const context = host.getSnapshot().context;
+
+      expect(hashCombatContext({ ...context, playerHP: 99 })).not.toBe(hashCombatContext(context));
+    });
+  });
+
+  describe('validateNetworkMessage', () => {
+    it('should accept well-formed messages', () => {
+      expect(validateNetworkMessage({ type: 'propose', event: { type: 'ANIMATION_COMPLETE' } })).toBe(true);
+      expect(validateNetworkMessage({ type: 'desync', seq: 2, hash: 'abc' })).toBe(true);
+    });
+
+    it('should reject malformed messages', () => {
+      expect(validateNetworkMessage(null)).toBe(false);
+      expect(validateNetworkMessage({ type: 'event', event: { type: 'X' } })).toBe(false);
+      expect(validateNetworkMessage({ type: 'unknown' })).toBe(false);
+    });
+  });
+
+  it('should stop receiving after dispose', () => {
+    guest.dispose();
+    startMatch();
+
+    expect(guest.getSequence()).toBe(0);
+  });
+});
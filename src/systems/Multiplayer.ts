@@ -0,0 +1,354 @@
+/**
+ * Multiplayer System
+ *
+ * Runs one combat machine per client in lockstep over a pluggable
+ * transport. The host is authoritative: it validates every action
+ * (PLAY_CARD must come from the side to act and name a card in that
+ * side's hand), applies it and broadcasts it with a hash of the resulting
+ * CombatContext. The guest proposes its own actions, applies only what the
+ * host broadcasts, and reports a desync when its own hash disagrees.
+ * The host plays the player side and the guest the opponent side, using
+ * the machine's hot-seat rules for the second human.
+ */
+
+import { createActor } from 'xstate';
+import type { CombatSide } from '@/types';
+import { combatMachine, formatCombatState } from './CombatStateMachine';
+import type { CombatContext, CombatEvent } from './CombatStateMachine';
+import type { CombatService, CombatStateSubscription } from './AvatarCombatIntegration';
+import type { MultiplayerTransport } from './MultiplayerTransport';
+import { createSeed } from './SeededRandom';
+
+export type MultiplayerRole = 'host' | 'guest';
+
+/**
+ * Side of the combat machine each role controls
+ */
+export const ROLE_SIDES: Record<MultiplayerRole, CombatSide> = {
+  host: 'player',
+  guest: 'opponent',
+};
+
+export type NetworkMessage =
+  | { type: 'propose'; event: CombatEvent } // Guest action awaiting validation
+  | { type: 'event'; seq: number; event: CombatEvent; hash: string } // Accepted event and resulting state hash
+  | { type: 'reject'; event: CombatEvent; reason: string }
+  | { type: 'desync'; seq: number; hash: string }; // Guest state hash after event seq
+
+export type ActionValidation =
+  | { valid: true; event: CombatEvent }
+  | { valid: false; reason: string };
+
+export interface DesyncReport {
+  seq: number;
+  localHash: string;
+  remoteHash: string;
+}
+
+type CombatActor = ReturnType<typeof createActor<typeof combatMachine>>;
+type CombatSnapshot = ReturnType<CombatActor['getSnapshot']>;
+
+/**
+ * Serialize with sorted object keys so equal values always hash the same
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Hash a combat context (32-bit FNV-1a, hex)
+ * Two clients that applied the same events produce the same hash
+ */
+export function hashCombatContext(context: CombatContext): string {
+  const text = stableStringify(context);
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Validate an action from one side against the authoritative state
+ * Card plays are rewritten to the card held in hand, so a client cannot
+ * alter a card's stats in transit
+ */
+export function validateCombatAction(
+  snapshot: CombatSnapshot,
+  sender: CombatSide,
+  event: CombatEvent
+): ActionValidation {
+  const { context } = snapshot;
+  let validated: CombatEvent = event;
+
+  if (event.type === 'PLAY_CARD' || event.type === 'COMMIT_CARD') {
+    const side = event.type === 'PLAY_CARD' ? context.currentTurn : event.side;
+    if (side !== sender) {
+      return {
+        valid: false,
+        reason: event.type === 'PLAY_CARD' ? 'Not your turn' : 'Cannot commit for the other side',
+      };
+    }
+
+    const hand = side === 'player' ? context.playerHand : context.opponentHand;
+    const card = hand.find((c) => c.id === event.card?.id);
+    if (!card) {
+      return { valid: false, reason: 'Card not in hand' };
+    }
+
+    validated = { ...event, card };
+  } else if (event.type === 'MULLIGAN') {
+    if (event.side !== sender) {
+      return { valid: false, reason: 'Cannot mulligan for the other side' };
+    }
+  } else if (sender !== ROLE_SIDES.host) {
+    return { valid: false, reason: 'Only the host drives match flow' };
+  }
+
+  if (!snapshot.can(validated)) {
+    return {
+      valid: false,
+      reason: `${validated.type} not allowed in ${formatCombatState(snapshot.value)}`,
+    };
+  }
+
+  return { valid: true, event: validated };
+}
+
+/**
+ * Validate a message received from a transport
+ */
+export function validateNetworkMessage(data: any): data is NetworkMessage {
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  const hasEvent = !!data.event && typeof data.event === 'object' && typeof data.event.type === 'string';
+
+  switch (data.type) {
+    case 'propose':
+      return hasEvent;
+    case 'event':
+      return hasEvent && Number.isInteger(data.seq) && typeof data.hash === 'string';
+    case 'reject':
+      return hasEvent && typeof data.reason === 'string';
+    case 'desync':
+      return Number.isInteger(data.seq) && typeof data.hash === 'string';
+    default:
+      return false;
+  }
+}
+
+/**
+ * MultiplayerSession - One client's view of a networked match
+ * Implements CombatService so store sync and avatar integration work
+ * exactly as they do for a local match
+ */
+export class MultiplayerSession implements CombatService {
+  private transport: MultiplayerTransport;
+  private role: MultiplayerRole;
+  private actor: CombatActor;
+  private listeners: Set<(state: CombatSnapshot) => void> = new Set();
+  private seq = 0; // Number of events applied
+  private hashes: string[] = []; // State hash after each applied event
+  private desynced = false;
+  private onRejectCallback: ((event: CombatEvent, reason: string) => void) | null = null;
+  private onDesyncCallback: ((report: DesyncReport) => void) | null = null;
+  private unsubscribeTransport: () => void;
+
+  constructor(transport: MultiplayerTransport, role: MultiplayerRole) {
+    this.transport = transport;
+    this.role = role;
+    this.actor = createActor(combatMachine);
+    this.actor.start();
+    this.unsubscribeTransport = transport.onMessage((message) => this.handleMessage(message));
+  }
+
+  getRole(): MultiplayerRole {
+    return this.role;
+  }
+
+  /**
+   * Combat side this client plays
+   */
+  getLocalSide(): CombatSide {
+    return ROLE_SIDES[this.role];
+  }
+
+  getSnapshot(): CombatSnapshot {
+    return this.actor.getSnapshot();
+  }
+
+  /**
+   * Number of events applied so far
+   */
+  getSequence(): number {
+    return this.seq;
+  }
+
+  isDesynced(): boolean {
+    return this.desynced;
+  }
+
+  /**
+   * Set callback for actions the host refused
+   */
+  setOnReject(callback: (event: CombatEvent, reason: string) => void): void {
+    this.onRejectCallback = callback;
+  }
+
+  /**
+   * Set callback for when the two clients' states diverge
+   */
+  setOnDesync(callback: (report: DesyncReport) => void): void {
+    this.onDesyncCallback = callback;
+  }
+
+  subscribe(callback: (state: CombatSnapshot) => void): CombatStateSubscription {
+    this.listeners.add(callback);
+    return {
+      unsubscribe: () => {
+        this.listeners.delete(callback);
+      },
+    };
+  }
+
+  /**
+   * Send a local action
+   * The host applies valid actions immediately; the guest proposes card
+   * plays and its mulligan to the host and leaves match flow to it
+   */
+  send(event: CombatEvent): void {
+    if (this.role === 'host') {
+      this.applyAuthoritative(ROLE_SIDES.host, event);
+      return;
+    }
+
+    if (event.type !== 'PLAY_CARD' && event.type !== 'COMMIT_CARD' && event.type !== 'MULLIGAN') {
+      return;
+    }
+
+    // Check locally first so obviously invalid plays never hit the network
+    const validation = validateCombatAction(this.getSnapshot(), ROLE_SIDES.guest, event);
+    if (!validation.valid) {
+      this.reject(event, validation.reason);
+      return;
+    }
+
+    this.transport.send({ type: 'propose', event });
+  }
+
+  dispose(): void {
+    this.unsubscribeTransport();
+    this.listeners.clear();
+    this.onRejectCallback = null;
+    this.onDesyncCallback = null;
+    this.actor.stop();
+  }
+
+  private handleMessage(message: NetworkMessage): void {
+    if (this.role === 'host') {
+      if (message.type === 'propose') {
+        this.applyAuthoritative(ROLE_SIDES.guest, message.event);
+      } else if (message.type === 'desync') {
+        this.reportDesync({
+          seq: message.seq,
+          localHash: this.hashes[message.seq - 1] ?? '',
+          remoteHash: message.hash,
+        });
+      }
+      return;
+    }
+
+    if (message.type === 'event') {
+      this.applyRemote(message.seq, message.event, message.hash);
+    } else if (message.type === 'reject') {
+      this.reject(message.event, message.reason);
+    }
+  }
+
+  /**
+   * Host: validate, apply and broadcast an action from either side
+   */
+  private applyAuthoritative(sender: CombatSide, event: CombatEvent): void {
+    if (event.type === 'START_COMBAT') {
+      // Pin the seed and seat the guest as the second human player
+      event = {
+        ...event,
+        seed: event.seed !== undefined ? event.seed >>> 0 : createSeed(),
+        opponent: 'human',
+      };
+    }
+
+    const validation = validateCombatAction(this.getSnapshot(), sender, event);
+    if (!validation.valid) {
+      if (sender === ROLE_SIDES.host) {
+        this.reject(event, validation.reason);
+      } else {
+        this.transport.send({ type: 'reject', event, reason: validation.reason });
+      }
+      return;
+    }
+
+    const hash = this.apply(validation.event);
+    this.transport.send({ type: 'event', seq: this.seq, event: validation.event, hash });
+    this.notify();
+  }
+
+  /**
+   * Guest: apply an event broadcast by the host and compare state hashes
+   */
+  private applyRemote(seq: number, event: CombatEvent, remoteHash: string): void {
+    if (seq !== this.seq + 1) {
+      // A missing or repeated event means the states can no longer match
+      this.reportDesync({ seq, localHash: this.hashes[this.seq - 1] ?? '', remoteHash });
+      return;
+    }
+
+    const localHash = this.apply(event);
+    if (localHash !== remoteHash) {
+      this.transport.send({ type: 'desync', seq, hash: localHash });
+      this.reportDesync({ seq, localHash, remoteHash });
+    }
+    this.notify();
+  }
+
+  private apply(event: CombatEvent): string {
+    this.actor.send(event);
+    this.seq++;
+    const hash = hashCombatContext(this.actor.getSnapshot().context);
+    this.hashes.push(hash);
+    return hash;
+  }
+
+  private reject(event: CombatEvent, reason: string): void {
+    if (this.onRejectCallback) {
+      this.onRejectCallback(event, reason);
+    }
+  }
+
+  private reportDesync(report: DesyncReport): void {
+    this.desynced = true;
+    if (this.onDesyncCallback) {
+      this.onDesyncCallback(report);
+    }
+  }
+
+  private notify(): void {
+    const snapshot = this.actor.getSnapshot();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
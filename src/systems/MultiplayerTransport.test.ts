@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createLoopbackPair, WebSocketTransport } from './MultiplayerTransport';
+import type { WebSocketLike } from './MultiplayerTransport';
+import type { NetworkMessage } from './Multiplayer';
+
+const message: NetworkMessage = { type: 'propose', event: { type: 'ANIMATION_COMPLETE' } };
+
+describe('MultiplayerTransport', () => {
+  describe('LoopbackTransport', () => {
+    it('should deliver messages to the other end', () => {
+      const [a, b] = createLoopbackPair();
+      const handler = vi.fn();
+      b.onMessage(handler);
+
+      a.send(message);
+
+      expect(handler).toHaveBeenCalledWith(message);
+    });
+
+    it('should deliver a copy, not the sent object', () => {
+      const [a, b] = createLoopbackPair();
+      const handler = vi.fn();
+      b.onMessage(handler);
+
+      a.send(message);
+
+      expect(handler.mock.calls[0][0]).not.toBe(message);
+    });
+
+    it('should stop delivering after unsubscribe', () => {
+      const [a, b] = createLoopbackPair();
+      const handler = vi.fn();
+      const unsubscribe = b.onMessage(handler);
+
+      unsubscribe();
+      a.send(message);
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should close both ends', () => {
+      const [a, b] = createLoopbackPair();
+      const onClose = vi.fn();
+      b.onClose(onClose);
+
+      a.close();
+
+      expect(a.isOpen()).toBe(false);
+      expect(b.isOpen()).toBe(false);
+      expect(onClose).toHaveBeenCalledTimes(1);
+      expect(() => a.send(message)).toThrow('Transport is closed');
+    });
+  });
+
+  describe('WebSocketTransport', () => {
+    let socket: WebSocketLike & { sent: string[] };
+
+    beforeEach(() => {
+      socket = {
+        readyState: 0,
+        sent: [],
+        send: vi.fn((data: string) => {
+          socket.sent.push(data);
+        }),
+        close: vi.fn(),
+        onopen: null,
+        onmessage: null,
+        onclose: null,
+        onerror: null,
+      };
+    });
+
+    it('should create a socket for a URL', () => {
+      const createSocket = vi.fn(() => socket);
+
+      new WebSocketTransport('wss://relay.example/match', createSocket);
+
+      expect(createSocket).toHaveBeenCalledWith('wss://relay.example/match');
+    });
+
+    it('should queue messages until the socket opens', () => {
+      const transport = new WebSocketTransport(socket);
+
+      transport.send(message);
+      expect(socket.sent).toHaveLength(0);
+      expect(transport.isOpen()).toBe(false);
+
+      socket.readyState = 1;
+      socket.onopen?.({});
+
+      expect(socket.sent).toEqual([JSON.stringify(message)]);
+      expect(transport.isOpen()).toBe(true);
+    });
+
+    it('should parse incoming messages', () => {
+      const transport = new WebSocketTransport(socket);
+      const handler = vi.fn();
+      transport.onMessage(handler);
+
+      socket.onmessage?.({ data: JSON.stringify(message) });
+
+      expect(handler).toHaveBeenCalledWith(message);
+    });
+
+    it('should drop malformed messages with a warning', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const transport = new WebSocketTransport(socket);
+      const handler = vi.fn();
+      transport.onMessage(handler);
+
+      socket.onmessage?.({ data: 'not json' });
+      socket.onmessage?.({ data: JSON.stringify({ type: 'bogus' }) });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledTimes(2);
+      warn.mockRestore();
+    });
+
+    it('should report when the socket closes', () => {
+      const transport = new WebSocketTransport(socket);
+      const onClose = vi.fn();
+      transport.onClose(onClose);
+
+      socket.onclose?.({});
+
+      expect(onClose).toHaveBeenCalledTimes(1);
+      expect(() => transport.send(message)).toThrow('Transport is closed');
+    });
+
+    it('should close the socket', () => {
+      const transport = new WebSocketTransport(socket);
+
+      transport.close();
+
+      expect(socket.close).toHaveBeenCalled();
+      expect(transport.isOpen()).toBe(false);
+    });
+  });
+});
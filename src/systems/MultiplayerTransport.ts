@@ -0,0 +1,206 @@
+/**
+ * Multiplayer Transports
+ *
+ * Moves multiplayer messages between two clients. The session layer only
+ * sees the MultiplayerTransport interface, so matches run the same over a
+ * WebSocket relay or the in-process loopback pair used in tests.
+ */
+
+import type { NetworkMessage } from './Multiplayer';
+import { validateNetworkMessage } from './Multiplayer';
+
+export type MessageHandler = (message: NetworkMessage) => void;
+
+export interface MultiplayerTransport {
+  send(message: NetworkMessage): void;
+  onMessage(handler: MessageHandler): () => void; // Returns an unsubscribe function
+  onClose(handler: () => void): () => void;
+  isOpen(): boolean;
+  close(): void;
+}
+
+/**
+ * Shared listener bookkeeping for transports
+ */
+abstract class BaseTransport implements MultiplayerTransport {
+  private messageHandlers: Set<MessageHandler> = new Set();
+  private closeHandlers: Set<() => void> = new Set();
+
+  abstract send(message: NetworkMessage): void;
+  abstract isOpen(): boolean;
+  abstract close(): void;
+
+  onMessage(handler: MessageHandler): () => void {
+    this.messageHandlers.add(handler);
+    return () => {
+      this.messageHandlers.delete(handler);
+    };
+  }
+
+  onClose(handler: () => void): () => void {
+    this.closeHandlers.add(handler);
+    return () => {
+      this.closeHandlers.delete(handler);
+    };
+  }
+
+  protected emitMessage(message: NetworkMessage): void {
+    this.messageHandlers.forEach((handler) => handler(message));
+  }
+
+  protected emitClose(): void {
+    this.closeHandlers.forEach((handler) => handler());
+    this.messageHandlers.clear();
+    this.closeHandlers.clear();
+  }
+}
+
+/**
+ * LoopbackTransport - One end of an in-process connection
+ * Messages are round-tripped through JSON so tests see exactly what
+ * would cross the wire
+ */
+export class LoopbackTransport extends BaseTransport {
+  private peer: LoopbackTransport | null = null;
+  private open = true;
+
+  /**
+   * Connect two loopback ends (see createLoopbackPair)
+   */
+  connect(peer: LoopbackTransport): void {
+    this.peer = peer;
+  }
+
+  send(message: NetworkMessage): void {
+    if (!this.open || !this.peer) {
+      throw new Error('Transport is closed');
+    }
+
+    this.peer.receive(JSON.stringify(message));
+  }
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  close(): void {
+    if (!this.open) return;
+
+    this.open = false;
+    const peer = this.peer;
+    this.peer = null;
+    this.emitClose();
+    peer?.close();
+  }
+
+  private receive(serialized: string): void {
+    if (!this.open) return;
+    this.emitMessage(JSON.parse(serialized));
+  }
+}
+
+/**
+ * Create two connected in-process transports
+ */
+export function createLoopbackPair(): [LoopbackTransport, LoopbackTransport] {
+  const a = new LoopbackTransport();
+  const b = new LoopbackTransport();
+  a.connect(b);
+  b.connect(a);
+  return [a, b];
+}
+
+/**
+ * Minimal WebSocket surface the transport relies on
+ * Lets tests and non-browser runtimes supply their own socket
+ */
+export interface WebSocketLike {
+  readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+}
+
+const SOCKET_OPEN = 1;
+
+/**
+ * WebSocketTransport - Connects to a relay server over WebSocket
+ * Messages sent before the socket opens are queued and flushed on open;
+ * malformed incoming messages are dropped with a warning
+ */
+export class WebSocketTransport extends BaseTransport {
+  private socket: WebSocketLike;
+  private queue: string[] = [];
+  private closed = false;
+
+  constructor(
+    urlOrSocket: string | WebSocketLike,
+    createSocket: (url: string) => WebSocketLike = (url) => new WebSocket(url) as unknown as WebSocketLike
+  ) {
+    super();
+    this.socket = typeof urlOrSocket === 'string' ? createSocket(urlOrSocket) : urlOrSocket;
+
+    this.socket.onopen = () => this.flush();
+    this.socket.onmessage = (event) => this.handleMessage(event.data);
+    this.socket.onclose = () => this.handleClose();
+    this.socket.onerror = (event) => {
+      console.warn('Multiplayer socket error:', event);
+    };
+
+    if (this.socket.readyState === SOCKET_OPEN) {
+      this.flush();
+    }
+  }
+
+  send(message: NetworkMessage): void {
+    if (this.closed) {
+      throw new Error('Transport is closed');
+    }
+
+    const serialized = JSON.stringify(message);
+    if (this.socket.readyState === SOCKET_OPEN) {
+      this.socket.send(serialized);
+    } else {
+      this.queue.push(serialized);
+    }
+  }
+
+  isOpen(): boolean {
+    return !this.closed && this.socket.readyState === SOCKET_OPEN;
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.socket.close();
+    this.handleClose();
+  }
+
+  private flush(): void {
+    const pending = this.queue;
+    this.queue = [];
+    pending.forEach((serialized) => this.socket.send(serialized));
+  }
+
+  private handleMessage(data: unknown): void {
+    try {
+      const parsed = JSON.parse(String(data));
+      if (!validateNetworkMessage(parsed)) {
+        console.warn('Invalid multiplayer message, ignoring');
+        return;
+      }
+      this.emitMessage(parsed);
+    } catch (error) {
+      console.warn('Failed to parse multiplayer message:', error);
+    }
+  }
+
+  private handleClose(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.queue = [];
+    this.emitClose();
+  }
+}
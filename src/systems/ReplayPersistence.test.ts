@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { LocalStorageReplayPersistence } from './ReplayPersistence';
+import type { MatchRecording } from './MatchReplay';
+
+describe('LocalStorageReplayPersistence', () => {
+  let persistence: LocalStorageReplayPersistence;
+
+  const createRecording = (id: string): MatchRecording => ({
+    version: 1,
+    id,
+    seed: 42,
+    mode: 'alternating',
+    startedAt: 1000,
+    playerDeck: [],
+    opponentDeck: [],
+    events: [{ event: { type: 'START_COMBAT', seed: 42 }, timestamp: 0 }],
+    winner: null,
+  });
+
+  beforeEach(() => {
+    persistence = new LocalStorageReplayPersistence(3);
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should save and load replays newest first', () => {
+    persistence.saveReplay(createRecording('a'));
+    persistence.saveReplay(createRecording('b'));
+
+    expect(persistence.loadReplays().map((r) => r.id)).toEqual(['b', 'a']);
+  });
+
+  it('should keep only the most recent replays', () => {
+    ['a', 'b', 'c', 'd'].forEach((id) => persistence.saveReplay(createRecording(id)));
+
+    expect(persistence.loadReplays().map((r) => r.id)).toEqual(['d', 'c', 'b']);
+  });
+
+  it('should delete replays', () => {
+    persistence.saveReplay(createRecording('a'));
+    persistence.saveReplay(createRecording('b'));
+
+    persistence.deleteReplay('a');
+
+    expect(persistence.loadReplays().map((r) => r.id)).toEqual(['b']);
+  });
+
+  it('should return empty list when nothing is stored', () => {
+    expect(persistence.loadReplays()).toEqual([]);
+  });
+
+  it('should drop corrupt replays and keep valid ones', () => {
+    localStorage.setItem('match_replays', JSON.stringify([createRecording('a'), { id: 'bad' }]));
+
+    expect(persistence.loadReplays().map((r) => r.id)).toEqual(['a']);
+  });
+
+  it('should ignore data that is not a list', () => {
+    localStorage.setItem('match_replays', JSON.stringify({ id: 'a' }));
+
+    expect(persistence.loadReplays()).toEqual([]);
+  });
+});
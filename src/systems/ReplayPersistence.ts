@@ -0,0 +1,56 @@
+import type { MatchRecording } from './MatchReplay';
+import { validateRecording } from './MatchReplay';
+
+export interface ReplayPersistence {
+  saveReplay(recording: MatchRecording): void;
+  loadReplays(): MatchRecording[];
+  deleteReplay(replayId: string): void;
+}
+
+export class LocalStorageReplayPersistence implements ReplayPersistence {
+  private readonly REPLAYS_KEY = 'match_replays';
+  private readonly maxReplays: number;
+
+  constructor(maxReplays: number = 10) {
+    this.maxReplays = maxReplays;
+  }
+
+  saveReplay(recording: MatchRecording): void {
+    try {
+      // Newest first; the oldest replays are dropped past the limit
+      const replays = [recording, ...this.loadReplays().filter((r) => r.id !== recording.id)];
+      localStorage.setItem(this.REPLAYS_KEY, JSON.stringify(replays.slice(0, this.maxReplays)));
+    } catch (error) {
+      console.warn('Failed to save replay:', error);
+    }
+  }
+
+  loadReplays(): MatchRecording[] {
+    try {
+      const serialized = localStorage.getItem(this.REPLAYS_KEY);
+      if (!serialized) {
+        return [];
+      }
+
+      const parsed = JSON.parse(serialized);
+      if (!Array.isArray(parsed)) {
+        console.warn('Invalid replay data in localStorage, ignoring');
+        return [];
+      }
+
+      return parsed.filter(validateRecording);
+    } catch (error) {
+      console.warn('Failed to load replays:', error);
+      return [];
+    }
+  }
+
+  deleteReplay(replayId: string): void {
+    try {
+      const replays = this.loadReplays().filter((r) => r.id !== replayId);
+      localStorage.setItem(this.REPLAYS_KEY, JSON.stringify(replays));
+    } catch (error) {
+      console.warn('Failed to delete replay:', error);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RULE_SETS,
+  RULE_SET_IDS,
+  DEFAULT_RULE_SET,
+  getRuleSet,
+  validateRuleSet,
+  getSuddenDeathDamage,
+} from './RuleSet';
+import { DEFAULT_HAND_RULES } from './HandRules';
+
+describe('RuleSet', () => {
+  it('should keep the classic game as the standard preset', () => {
+    expect(DEFAULT_RULE_SET).toBe(RULE_SETS.standard);
+    expect(DEFAULT_RULE_SET.startingHP).toBe(100);
+    expect(DEFAULT_RULE_SET.deckSize).toBe(20);
+    expect(DEFAULT_RULE_SET.hand).toEqual(DEFAULT_HAND_RULES);
+    expect(DEFAULT_RULE_SET.turnLimit).toBeNull();
+    expect(DEFAULT_RULE_SET.suddenDeath).toBeNull();
+  });
+
+  it('should offer valid presets keyed by their IDs', () => {
+    for (const id of RULE_SET_IDS) {
+      expect(RULE_SETS[id].id).toBe(id);
+      expect(validateRuleSet(RULE_SETS[id])).toBe(true);
+    }
+  });
+
+  it('should fall back to standard for unknown IDs', () => {
+    expect(getRuleSet('quick')).toBe(RULE_SETS.quick);
+    expect(getRuleSet('nonsense')).toBe(DEFAULT_RULE_SET);
+  });
+
+  it('should not return object prototype members for saved IDs', () => {
+    expect(getRuleSet('toString')).toBe(DEFAULT_RULE_SET);
+    expect(getRuleSet('constructor')).toBe(DEFAULT_RULE_SET);
+  });
+
+  it('should reject malformed rule sets', () => {
+    expect(validateRuleSet(null)).toBe(false);
+    expect(validateRuleSet({ ...RULE_SETS.quick, startingHP: 0 })).toBe(false);
+    expect(validateRuleSet({ ...RULE_SETS.quick, damageFormula: 'double' })).toBe(false);
+    expect(validateRuleSet({ ...RULE_SETS.quick, turnLimit: 2.5 })).toBe(false);
+    expect(validateRuleSet({ ...RULE_SETS.quick, hand: { ...RULE_SETS.quick.hand, refillHand: 'yes' } })).toBe(false);
+    expect(validateRuleSet({ ...RULE_SETS.quick, suddenDeath: { startRound: 0, damage: 1 } })).toBe(false);
+  });
+
+  it('should escalate sudden death damage from its start round', () => {
+    const ruleSet = { ...RULE_SETS.quick, suddenDeath: { startRound: 4, damage: 3 } };
+
+    expect(getSuddenDeathDamage(ruleSet, 3)).toBe(0);
+    expect(getSuddenDeathDamage(ruleSet, 4)).toBe(3);
+    expect(getSuddenDeathDamage(ruleSet, 6)).toBe(9);
+    expect(getSuddenDeathDamage(DEFAULT_RULE_SET, 100)).toBe(0);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Rule Sets
+ *
+ * Everything that varies between combat variants in one serializable
+ * object: starting HP, deck size, hand rules, damage formula, turn limit
+ * and sudden death. A rule set is passed to START_COMBAT and kept in the
+ * combat context, so saves, replays and networked peers play by the same
+ * rules. Quick, Standard and Marathon presets are offered in the main menu.
+ */
+
+import type { DamageFormula } from './BattlefieldSystem';
+import { DAMAGE_FORMULAS } from './BattlefieldSystem';
+import type { HandRules } from './HandRules';
+import { DEFAULT_HAND_RULES, createHandRules } from './HandRules';
+
+export type RuleSetId = 'quick' | 'standard' | 'marathon';
+
+/**
+ * Escalating damage to both sides once a match runs long
+ * From startRound on, every completed round deals damage, then
+ * damage * 2, and so on; shields do not absorb it
+ */
+export interface SuddenDeathRules {
+  startRound: number;
+  damage: number;
+}
+
+export interface RuleSet {
+  id: RuleSetId | 'custom';
+  name: string;
+  description: string;
+  startingHP: number;
+  deckSize: number;
+  openingHandSize: number;
+  hand: HandRules;
+  damageFormula: DamageFormula;
+  turnLimit: number | null; // Rounds before the match is decided on remaining HP
+  suddenDeath: SuddenDeathRules | null;
+}
+
+export const RULE_SETS: Record<RuleSetId, RuleSet> = {
+  quick: {
+    id: 'quick',
+    name: 'Quick',
+    description: 'Short matches: 50 HP, 12-card decks and sudden death from round 6',
+    startingHP: 50,
+    deckSize: 12,
+    openingHandSize: 4,
+    hand: createHandRules({ maxHandSize: 4, fatigueDamage: 2 }),
+    damageFormula: 'piercing',
+    turnLimit: 10,
+    suddenDeath: { startRound: 6, damage: 3 },
+  },
+  standard: {
+    id: 'standard',
+    name: 'Standard',
+    description: 'The classic game: 100 HP, 20-card decks, hand refilled to 5',
+    startingHP: 100,
+    deckSize: 20,
+    openingHandSize: 5,
+    hand: DEFAULT_HAND_RULES,
+    damageFormula: 'standard',
+    turnLimit: null,
+    suddenDeath: null,
+  },
+  marathon: {
+    id: 'marathon',
+    name: 'Marathon',
+    description: 'Long matches: 200 HP, 40-card decks, one draw per turn and fatigue',
+    startingHP: 200,
+    deckSize: 40,
+    openingHandSize: 5,
+    hand: createHandRules({ drawPerTurn: 1, maxHandSize: 7, refillHand: false, fatigueDamage: 1 }),
+    damageFormula: 'ratio',
+    turnLimit: 60,
+    suddenDeath: { startRound: 40, damage: 5 },
+  },
+};
+
+export const RULE_SET_IDS: RuleSetId[] = ['quick', 'standard', 'marathon'];
+
+export const DEFAULT_RULE_SET: RuleSet = RULE_SETS.standard;
+
+/**
+ * Look up a preset, falling back to Standard for unknown IDs
+ */
+export function getRuleSet(id: string): RuleSet {
+  return Object.hasOwn(RULE_SETS, id) ? RULE_SETS[id as RuleSetId] : DEFAULT_RULE_SET;
+}
+
+const isPositiveInteger = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isCount = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+/**
+ * Validate a rule set from a save file or the network
+ */
+export function validateRuleSet(data: any): data is RuleSet {
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  if (typeof data.id !== 'string' || typeof data.name !== 'string' || typeof data.description !== 'string') {
+    return false;
+  }
+
+  if (!isPositiveInteger(data.startingHP) || !isPositiveInteger(data.deckSize) || !isCount(data.openingHandSize)) {
+    return false;
+  }
+
+  const hand = data.hand;
+  if (
+    !hand ||
+    !isCount(hand.drawPerTurn) ||
+    !isPositiveInteger(hand.maxHandSize) ||
+    typeof hand.refillHand !== 'boolean' ||
+    !isCount(hand.fatigueDamage)
+  ) {
+    return false;
+  }
+
+  if (!DAMAGE_FORMULAS.includes(data.damageFormula)) {
+    return false;
+  }
+
+  if (data.turnLimit !== null && !isPositiveInteger(data.turnLimit)) {
+    return false;
+  }
+
+  return (
+    data.suddenDeath === null ||
+    (!!data.suddenDeath &&
+      isPositiveInteger(data.suddenDeath.startRound) &&
+      isCount(data.suddenDeath.damage))
+  );
+}
+
+/**
+ * Damage each side takes at the end of a round under sudden death
+ */
+export function getSuddenDeathDamage(ruleSet: RuleSet, round: number): number {
+  const { suddenDeath } = ruleSet;
+  if (!suddenDeath || round < suddenDeath.startRound) {
+    return 0;
+  }
+  return suddenDeath.damage * (round - suddenDeath.startRound + 1);
+}
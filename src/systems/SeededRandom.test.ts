@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { SeededRandom, randomInt, createSeed, mathRandom } from './SeededRandom';
+
+describe('SeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = new SeededRandom(12345);
+    const b = new SeededRandom(12345);
+    
+    for (let i = 0; i < 50; i++) {
+      expect(a.next()).toBe(b.next());
+    }
+  });
+  
+  it('should produce different sequences for different seeds', () => {
+    const a = new SeededRandom(1);
+    const b = new SeededRandom(2);
+    
+    const seqA = Array.from({ length: 10 }, () => a.next());
+    const seqB = Array.from({ length: 10 }, () => b.next());
+    
+    expect(seqA).not.toEqual(seqB);
+  });
+  
+  it('should return values in the range [0, 1)', () => {
+    const rng = new SeededRandom(42);
+    
+    for (let i = 0; i < 1000; i++) {
+      const value = rng.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+  
+  it('should restore a captured state', () => {
+    const rng = new SeededRandom(99);
+    rng.next();
+    rng.next();
+    
+    const state = rng.getState();
+    const expected = [rng.next(), rng.next(), rng.next()];
+    
+    rng.setState(state);
+    
+    expect([rng.next(), rng.next(), rng.next()]).toEqual(expected);
+  });
+  
+  it('should reset back to its seed', () => {
+    const rng = new SeededRandom(7);
+    const first = rng.next();
+    rng.next();
+    
+    rng.reset();
+    
+    expect(rng.getSeed()).toBe(7);
+    expect(rng.next()).toBe(first);
+  });
+  
+  it('should generate integers within bounds', () => {
+    const rng = new SeededRandom(3);
+    
+    for (let i = 0; i < 200; i++) {
+      const value = randomInt(rng, 6);
+      expect(Number.isInteger(value)).toBe(true);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(6);
+    }
+  });
+  
+  it('should create unsigned 32-bit seeds', () => {
+    const seed = createSeed();
+    
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(4294967296);
+  });
+  
+  it('should expose a Math.random backed default source', () => {
+    const value = mathRandom.next();
+    
+    expect(value).toBeGreaterThanOrEqual(0);
+    expect(value).toBeLessThan(1);
+  });
+});
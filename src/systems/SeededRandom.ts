@@ -0,0 +1,88 @@
+/**
+ * Seeded Random System
+ *
+ * Deterministic pseudo-random number generation so that decks, shuffles
+ * and AI decisions can be reproduced exactly from a match seed.
+ */
+
+/**
+ * Source of random numbers in the range [0, 1)
+ */
+export interface RandomSource {
+  next(): number;
+}
+
+/**
+ * Default random source backed by Math.random (non-reproducible)
+ */
+export const mathRandom: RandomSource = {
+  next: () => Math.random(),
+};
+
+/**
+ * SeededRandom - Mulberry32 generator with serializable state
+ */
+export class SeededRandom implements RandomSource {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = createSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Get the next number in the range [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Get the seed this generator was created with
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Get the current internal state (for save/restore)
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Restore a previously captured internal state
+   */
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * Reset the generator back to its seed
+   */
+  reset(): void {
+    this.state = this.seed;
+  }
+}
+
+/**
+ * Get a random integer in the range [0, max)
+ */
+export function randomInt(rng: RandomSource, max: number): number {
+  return Math.floor(rng.next() * max);
+}
+
+/**
+ * Generate a new 32-bit match seed
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
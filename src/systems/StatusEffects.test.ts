@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  STATUS_EFFECTS,
+  STATUS_EFFECT_TYPES,
+  getStatusEffects,
+  describeStatusEffect,
+  getAppliedStatusEffects,
+} from './StatusEffects';
+import { createActiveEffects } from './CardEffects';
+
+describe('StatusEffects', () => {
+  it('should define every status type', () => {
+    expect(Object.keys(STATUS_EFFECTS).sort()).toEqual([...STATUS_EFFECT_TYPES].sort());
+  });
+
+  it('should list nothing for a clean side', () => {
+    expect(getStatusEffects(createActiveEffects())).toEqual([]);
+  });
+
+  it('should summarize every active effect', () => {
+    const statuses = getStatusEffects({
+      ...createActiveEffects(),
+      shield: 5,
+      stunnedTurns: 1,
+      damageOverTime: [
+        { damage: 3, turnsRemaining: 2 },
+        { damage: 2, turnsRemaining: 1 },
+      ],
+      weaken: { amount: 2, turnsRemaining: 3 },
+      regen: [{ amount: 4, turnsRemaining: 2 }],
+    });
+
+    expect(statuses).toEqual([
+      { type: 'poison', amount: 5, turnsRemaining: 2, stacks: 2 },
+      { type: 'shield', amount: 5, turnsRemaining: null, stacks: 1 },
+      { type: 'stun', amount: 0, turnsRemaining: 1, stacks: 1 },
+      { type: 'weaken', amount: 2, turnsRemaining: 3, stacks: 1 },
+      { type: 'regen', amount: 4, turnsRemaining: 2, stacks: 1 },
+    ]);
+  });
+
+  it('should describe statuses', () => {
+    expect(describeStatusEffect({ type: 'poison', amount: 5, turnsRemaining: 2, stacks: 2 })).toBe(
+      'Poison: 5 damage per turn, 2 turns (2 stacks)'
+    );
+    expect(describeStatusEffect({ type: 'shield', amount: 8, turnsRemaining: null, stacks: 1 })).toBe(
+      'Shield: absorbs 8 damage'
+    );
+    expect(describeStatusEffect({ type: 'weaken', amount: 3, turnsRemaining: 1, stacks: 1 })).toBe(
+      'Weaken: -3 damage, 1 turn'
+    );
+  });
+
+  describe('getAppliedStatusEffects', () => {
+    const poison = { type: 'poison' as const, amount: 3, turnsRemaining: 2, stacks: 1 };
+
+    it('should report new statuses', () => {
+      expect(getAppliedStatusEffects([], [poison])).toEqual([poison]);
+    });
+
+    it('should report statuses that grew', () => {
+      const stacked = { ...poison, amount: 6, stacks: 2 };
+      const refreshed = { ...poison, turnsRemaining: 3 };
+
+      expect(getAppliedStatusEffects([poison], [stacked])).toEqual([stacked]);
+      expect(getAppliedStatusEffects([poison], [refreshed])).toEqual([refreshed]);
+    });
+
+    it('should ignore statuses ticking down', () => {
+      expect(getAppliedStatusEffects([poison], [{ ...poison, turnsRemaining: 1 }])).toEqual([]);
+    });
+  });
+});
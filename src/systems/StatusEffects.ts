@@ -0,0 +1,142 @@
+/**
+ * Status Effects
+ *
+ * A uniform view of the lingering effects on each side of the battle
+ * (poison, shield, stun, weaken, regen) for display and avatar reactions.
+ * The effects themselves live in ActiveEffects and are applied and ticked
+ * by CardEffects; this module names them, documents how repeated
+ * applications stack, and detects newly applied effects between states.
+ */
+
+import type { AnimationState } from '@/types';
+import type { ActiveEffects } from './CardEffects';
+
+export type StatusEffectType = 'poison' | 'shield' | 'stun' | 'weaken' | 'regen';
+
+/**
+ * How a new application combines with an effect already active
+ * - stack: each application ticks on its own with its own duration
+ * - add: amounts (or turns) add into a single effect
+ * - strongest: the larger amount and the longer duration are kept
+ */
+export type StackRule = 'stack' | 'add' | 'strongest';
+
+export interface StatusEffectDefinition {
+  name: string;
+  icon: string;
+  color: string;
+  stackRule: StackRule;
+  animation: AnimationState; // Avatar reaction when the effect is applied
+}
+
+export const STATUS_EFFECTS: Record<StatusEffectType, StatusEffectDefinition> = {
+  poison: { name: 'Poison', icon: '☠️', color: '#8bc34a', stackRule: 'stack', animation: 'damaged' },
+  shield: { name: 'Shield', icon: '🛡️', color: '#2196f3', stackRule: 'add', animation: 'defend' },
+  stun: { name: 'Stun', icon: '💫', color: '#ffc107', stackRule: 'add', animation: 'damaged' },
+  weaken: { name: 'Weaken', icon: '🔻', color: '#9c27b0', stackRule: 'strongest', animation: 'damaged' },
+  regen: { name: 'Regen', icon: '💚', color: '#4caf50', stackRule: 'stack', animation: 'defend' },
+};
+
+export const STATUS_EFFECT_TYPES: StatusEffectType[] = ['poison', 'shield', 'stun', 'weaken', 'regen'];
+
+/**
+ * One status as shown to the player
+ * For stacking effects, amount is the total per turn and turnsRemaining
+ * the longest remaining stack
+ */
+export interface StatusEffect {
+  type: StatusEffectType;
+  amount: number; // Damage or healing per turn, shield points, damage reduction; 0 for stun
+  turnsRemaining: number | null; // null lasts until used up
+  stacks: number;
+}
+
+const longest = (effects: Array<{ turnsRemaining: number }>): number =>
+  Math.max(...effects.map((effect) => effect.turnsRemaining));
+
+/**
+ * List the active statuses on one side, in display order
+ */
+export function getStatusEffects(effects: ActiveEffects): StatusEffect[] {
+  const statuses: StatusEffect[] = [];
+
+  if (effects.damageOverTime.length > 0) {
+    statuses.push({
+      type: 'poison',
+      amount: effects.damageOverTime.reduce((total, dot) => total + dot.damage, 0),
+      turnsRemaining: longest(effects.damageOverTime),
+      stacks: effects.damageOverTime.length,
+    });
+  }
+
+  if (effects.shield > 0) {
+    statuses.push({ type: 'shield', amount: effects.shield, turnsRemaining: null, stacks: 1 });
+  }
+
+  if (effects.stunnedTurns > 0) {
+    statuses.push({ type: 'stun', amount: 0, turnsRemaining: effects.stunnedTurns, stacks: 1 });
+  }
+
+  if (effects.weaken) {
+    statuses.push({
+      type: 'weaken',
+      amount: effects.weaken.amount,
+      turnsRemaining: effects.weaken.turnsRemaining,
+      stacks: 1,
+    });
+  }
+
+  if (effects.regen.length > 0) {
+    statuses.push({
+      type: 'regen',
+      amount: effects.regen.reduce((total, regen) => total + regen.amount, 0),
+      turnsRemaining: longest(effects.regen),
+      stacks: effects.regen.length,
+    });
+  }
+
+  return statuses;
+}
+
+/**
+ * Short description for tooltips and screen readers
+ */
+export function describeStatusEffect(status: StatusEffect): string {
+  const { name } = STATUS_EFFECTS[status.type];
+  const turns =
+    status.turnsRemaining === null
+      ? ''
+      : `, ${status.turnsRemaining} turn${status.turnsRemaining === 1 ? '' : 's'}`;
+  const stacks = status.stacks > 1 ? ` (${status.stacks} stacks)` : '';
+
+  switch (status.type) {
+    case 'poison':
+      return `${name}: ${status.amount} damage per turn${turns}${stacks}`;
+    case 'shield':
+      return `${name}: absorbs ${status.amount} damage`;
+    case 'stun':
+      return `${name}: skips the next turn${turns}`;
+    case 'weaken':
+      return `${name}: -${status.amount} damage${turns}`;
+    case 'regen':
+      return `${name}: heals ${status.amount} per turn${turns}${stacks}`;
+  }
+}
+
+/**
+ * Statuses that appeared or grew between two states of one side
+ * A grown status has more stacks, a larger amount or more turns left
+ */
+export function getAppliedStatusEffects(previous: StatusEffect[], current: StatusEffect[]): StatusEffect[] {
+  return current.filter((status) => {
+    const before = previous.find((p) => p.type === status.type);
+    if (!before) {
+      return true;
+    }
+    return (
+      status.stacks > before.stacks ||
+      status.amount > before.amount ||
+      (status.turnsRemaining ?? 0) > (before.turnsRemaining ?? 0)
+    );
+  });
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TurnTimer, DEFAULT_TURN_TIMER_CONFIG } from './TurnTimer';
+import type { WebAudioManager } from './WebAudioManager';
+
+describe('TurnTimer', () => {
+  const createAudioManager = () =>
+    ({ playSound: vi.fn() }) as unknown as WebAudioManager & { playSound: ReturnType<typeof vi.fn> };
+
+  it('should use the default config', () => {
+    const timer = new TurnTimer();
+
+    expect(timer.getConfig()).toEqual(DEFAULT_TURN_TIMER_CONFIG);
+    expect(timer.isRunning()).toBe(false);
+  });
+
+  it('should only count down while running', () => {
+    const timer = new TurnTimer({ duration: 10 });
+
+    timer.update(3);
+    expect(timer.getRemaining()).toBe(10);
+
+    timer.start();
+    timer.update(3);
+    expect(timer.getRemaining()).toBe(7);
+
+    timer.stop();
+    timer.update(3);
+    expect(timer.getRemaining()).toBe(7);
+  });
+
+  it('should report every update', () => {
+    const timer = new TurnTimer({ duration: 10 });
+    const onTick = vi.fn();
+    timer.setOnTick(onTick);
+
+    timer.start();
+    timer.update(0.5);
+
+    expect(onTick).toHaveBeenCalledWith(9.5);
+  });
+
+  it('should play the warning sound once', () => {
+    const audioManager = createAudioManager();
+    const timer = new TurnTimer({ duration: 10, warningTime: 3 }, audioManager);
+    const onWarning = vi.fn();
+    timer.setOnWarning(onWarning);
+
+    timer.start();
+    timer.update(6);
+    expect(audioManager.playSound).not.toHaveBeenCalled();
+
+    timer.update(1.5);
+    timer.update(0.5);
+
+    expect(timer.isWarning()).toBe(true);
+    expect(audioManager.playSound).toHaveBeenCalledTimes(1);
+    expect(audioManager.playSound).toHaveBeenCalledWith('timerWarning');
+    expect(onWarning).toHaveBeenCalledTimes(1);
+  });
+
+  it('should expire once and stop', () => {
+    const timer = new TurnTimer({ duration: 2 });
+    const onExpire = vi.fn();
+    timer.setOnExpire(onExpire);
+
+    timer.start();
+    timer.update(5);
+    timer.update(1);
+
+    expect(timer.getRemaining()).toBe(0);
+    expect(timer.isRunning()).toBe(false);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give a restarted turn the full time and a fresh warning', () => {
+    const audioManager = createAudioManager();
+    const timer = new TurnTimer({ duration: 10, warningTime: 5 }, audioManager);
+
+    timer.start();
+    timer.update(6);
+    timer.start();
+
+    expect(timer.getRemaining()).toBe(10);
+    expect(timer.isWarning()).toBe(false);
+
+    timer.update(6);
+    expect(audioManager.playSound).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not fire callbacks after dispose', () => {
+    const timer = new TurnTimer({ duration: 1 });
+    const onExpire = vi.fn();
+    timer.setOnExpire(onExpire);
+
+    timer.start();
+    timer.dispose();
+    timer.start();
+    timer.update(2);
+
+    expect(onExpire).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Turn Timer
+ *
+ * Optional per-turn countdown. The timer has no clock of its own: it is
+ * advanced by GameLoop delta time, so it stops whenever the loop is
+ * paused. A warning sound plays when time is nearly up, and the expire
+ * callback lets the caller play a card on the player's behalf.
+ */
+
+import { WebAudioManager } from './WebAudioManager';
+
+export interface TurnTimerConfig {
+  duration: number; // Seconds per turn
+  warningTime: number; // Seconds left when the warning sounds
+}
+
+export const DEFAULT_TURN_TIMER_CONFIG: TurnTimerConfig = {
+  duration: 30,
+  warningTime: 5,
+};
+
+/**
+ * Turn lengths offered in the menu; 0 turns the timer off
+ */
+export const TURN_TIMER_OPTIONS = [0, 15, 30, 60];
+
+export class TurnTimer {
+  private config: TurnTimerConfig;
+  private audioManager: WebAudioManager | null = null;
+  private remaining: number;
+  private running = false;
+  private warned = false;
+  private onTickCallback: ((remaining: number) => void) | null = null;
+  private onWarningCallback: ((remaining: number) => void) | null = null;
+  private onExpireCallback: (() => void) | null = null;
+
+  constructor(config: Partial<TurnTimerConfig> = {}, audioManager?: WebAudioManager) {
+    this.config = { ...DEFAULT_TURN_TIMER_CONFIG, ...config };
+    this.audioManager = audioManager || null;
+    this.remaining = this.config.duration;
+  }
+
+  /**
+   * Set callback for every update while running
+   */
+  setOnTick(callback: (remaining: number) => void): void {
+    this.onTickCallback = callback;
+  }
+
+  /**
+   * Set callback for when the warning threshold is crossed
+   */
+  setOnWarning(callback: (remaining: number) => void): void {
+    this.onWarningCallback = callback;
+  }
+
+  /**
+   * Set callback for when time runs out
+   */
+  setOnExpire(callback: () => void): void {
+    this.onExpireCallback = callback;
+  }
+
+  /**
+   * Start a fresh countdown for a new turn
+   */
+  start(): void {
+    this.remaining = this.config.duration;
+    this.running = true;
+    this.warned = false;
+  }
+
+  /**
+   * Stop counting without firing any callbacks
+   */
+  stop(): void {
+    this.running = false;
+  }
+
+  /**
+   * Advance the countdown by GameLoop delta time (seconds)
+   */
+  update(deltaTime: number): void {
+    if (!this.running) return;
+
+    this.remaining = Math.max(0, this.remaining - deltaTime);
+
+    if (this.onTickCallback) {
+      this.onTickCallback(this.remaining);
+    }
+
+    if (!this.warned && this.remaining <= this.config.warningTime && this.remaining > 0) {
+      this.warned = true;
+      if (this.audioManager) {
+        this.audioManager.playSound('timerWarning');
+      }
+      if (this.onWarningCallback) {
+        this.onWarningCallback(this.remaining);
+      }
+    }
+
+    if (this.remaining === 0) {
+      this.running = false;
+      if (this.onExpireCallback) {
+        this.onExpireCallback();
+      }
+    }
+  }
+
+  /**
+   * Seconds left this turn
+   */
+  getRemaining(): number {
+    return this.remaining;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Whether the warning threshold has been crossed this turn
+   */
+  isWarning(): boolean {
+    return this.warned;
+  }
+
+  getConfig(): TurnTimerConfig {
+    return { ...this.config };
+  }
+
+  dispose(): void {
+    this.running = false;
+    this.onTickCallback = null;
+    this.onWarningCallback = null;
+    this.onExpireCallback = null;
+  }
+}
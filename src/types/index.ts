@@ -11,13 +11,30 @@ export interface Card {
     speed: number;
   };
   artwork: string;
+  effects?: CardEffect[];
 }
 
+// Declarative card effects, interpreted when a card resolves
+export type CardEffect =
+  | { type: 'heal'; amount: number }
+  | { type: 'shield'; amount: number }
+  | { type: 'draw'; count: number }
+  | { type: 'damageOverTime'; damage: number; turns: number }
+  | { type: 'stun'; turns: number }
+  | { type: 'weaken'; amount: number; turns: number }
+  | { type: 'regen'; amount: number; turns: number }
+  | { type: 'buffNextCard'; attack: number }
+  | { type: 'discard'; count: number };
+
+export type CardEffectType = CardEffect['type'];
+
 export interface CardDatabase {
   version: string;
   cards: Card[];
 }
 
+export type CombatSide = 'player' | 'opponent';
+
 export interface BattlefieldState {
   playerSide: {
     activeCard: Card | null;
@@ -31,6 +48,13 @@ export interface BattlefieldState {
   };
 }
 
+export interface DamageNumber {
+  id: string;
+  value: number;
+  x: number; // Percent across the battlefield
+  y: number; // Percent down the battlefield
+}
+
 export interface CardHandState {
   cards: Card[];
   selectedIndex: number | null;
@@ -78,6 +102,7 @@ export interface AvatarSystem {
   initialize(canvas: HTMLCanvasElement): Promise<void>;
   createAvatar(preset: AvatarPreset): Avatar;
   updateAvatar(avatarId: string, customization: CustomizationData): void;
+  removeAvatar(avatarId: string): void;
   playAnimation(avatarId: string, state: AnimationState): void;
   dispose(): void;
   isWebGLAvailable(): boolean;